@@ -10,19 +10,29 @@ import ProfilePage from "@/pages/profile-page";
 import CohortPage from "@/pages/cohort-page";
 import AdminCohortsPage from "@/pages/admin-cohorts-page";
 import ResetPasswordPage from "@/pages/reset-password-page";
+import InvitePage from "@/pages/invite-page";
+import VerifyEmailPage from "@/pages/verify-email-page";
+import NotificationsPage from "@/pages/notifications-page";
+import CareLogPage from "@/pages/care-log-page";
 import { ProtectedRoute } from "./lib/protected-route";
 import { Navigation } from "@/components/ui/navigation";
+import { EmailVerificationBanner } from "@/components/email-verification-banner";
 import { ReactElement } from "react";
 
 function Router() {
   return (
     <>
       <Navigation />
+      <EmailVerificationBanner />
       <Switch>
         <Route path="/auth" component={AuthPage} />
         <Route path="/reset-password" component={ResetPasswordPage} />
+        <Route path="/invite/:token" component={InvitePage} />
+        <Route path="/verify-email" component={VerifyEmailPage} />
         <ProtectedRoute path="/" component={HomePage} />
         <ProtectedRoute path="/profile" component={ProfilePage} />
+        <ProtectedRoute path="/log" component={CareLogPage} />
+        <ProtectedRoute path="/notifications" component={NotificationsPage} />
         <ProtectedRoute path="/cohorts/:id" component={CohortPage} />
         <ProtectedRoute path="/admin/cohorts" component={AdminCohortsPage} />
         <Route component={NotFound} />
@@ -0,0 +1,100 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Baby } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+} from "@/components/ui/dropdown-menu";
+import { Baby as BabyIcon, ChevronDown, Plus } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+
+interface BabySwitcherProps {
+  currentBabyId?: number;
+  onBabyChange: (babyId: number) => void;
+  onAddClick?: () => void;
+  className?: string;
+}
+
+export function BabySwitcher({
+  currentBabyId,
+  onBabyChange,
+  onAddClick,
+  className = "",
+}: BabySwitcherProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  // Query to get the user's babies
+  const { data: babies = [], isLoading } = useQuery<Baby[]>({
+    queryKey: ["/api/babies"],
+  });
+
+  const currentBaby = babies.find(b => b.id === currentBabyId);
+
+  const handleBabySelect = (babyId: number) => {
+    onBabyChange(babyId);
+    setIsOpen(false);
+  };
+
+  const handleAddClick = () => {
+    onAddClick?.();
+    setIsOpen(false);
+  };
+
+  return (
+    <DropdownMenu open={isOpen} onOpenChange={setIsOpen}>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className={`justify-between ${className}`}
+          disabled={isLoading}
+        >
+          <div className="flex items-center gap-2 truncate">
+            <BabyIcon className="h-4 w-4" />
+            <span className="truncate">
+              {isLoading
+                ? "Loading..."
+                : currentBaby
+                  ? currentBaby.name
+                  : "Select a baby"}
+            </span>
+          </div>
+          <ChevronDown className="h-4 w-4 ml-2 opacity-50" />
+        </Button>
+      </DropdownMenuTrigger>
+
+      <DropdownMenuContent className="w-56" align="end">
+        <DropdownMenuLabel>Your Babies</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+
+        {babies.map((baby) => (
+          <DropdownMenuItem
+            key={baby.id}
+            onClick={() => handleBabySelect(baby.id)}
+            className="flex justify-between items-center"
+          >
+            <span className="truncate">{baby.name}</span>
+            {currentBabyId === baby.id && (
+              <Badge variant="outline" className="ml-2">Current</Badge>
+            )}
+          </DropdownMenuItem>
+        ))}
+
+        {onAddClick && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onClick={handleAddClick} className="text-primary">
+              <Plus className="h-4 w-4 mr-2" />
+              Add Another Baby
+            </DropdownMenuItem>
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,583 @@
+import { useEffect, useState } from "react";
+import { addDays, addHours, differenceInMinutes, format, isSameDay, startOfDay, subDays } from "date-fns";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Baby, CareLogEntryInput, CareLogEntryWithUsers } from "@shared/schema";
+import {
+  breastSides,
+  careLogTypes,
+  diaperKinds,
+  feedMethods,
+  isTimedCareLogEntry,
+  type BreastSide,
+  type CareLogType,
+  type DiaperKind,
+  type FeedMethod,
+} from "@shared/care-log";
+import { useAuth } from "@/hooks/use-auth";
+import { useCareLog, useCareLogMutations } from "@/hooks/use-care-log";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Textarea } from "@/components/ui/textarea";
+import { ChevronLeft, ChevronRight, Droplet, Loader2, Milk, Moon, Pencil, Plus, Square, Trash2 } from "lucide-react";
+
+const WEEK_DAYS = 7;
+// How often running timers tick on screen
+const TIMER_TICK_MS = 30 * 1000;
+
+const typeLabels: Record<CareLogType, string> = { feed: "Feed", sleep: "Sleep", diaper: "Diaper" };
+const feedMethodLabels: Record<FeedMethod, string> = { breast: "Breast", bottle: "Bottle" };
+const sideLabels: Record<BreastSide, string> = { left: "Left", right: "Right", both: "Both sides" };
+const diaperLabels: Record<DiaperKind, string> = { wet: "Wet", dirty: "Dirty", both: "Wet and dirty" };
+
+const weekChartConfig = {
+  sleepHours: { label: "Sleep (hours)", color: "hsl(var(--primary))" },
+  feeds: { label: "Feeds", color: "hsl(var(--secondary-foreground))" },
+  diapers: { label: "Diapers", color: "hsl(var(--muted-foreground))" },
+} satisfies ChartConfig;
+
+type DaySummary = {
+  feeds: number;
+  breastMinutes: number;
+  bottleMl: number;
+  sleepMinutes: number;
+  diapers: number;
+  wet: number;
+  dirty: number;
+};
+
+function formatMinutes(minutes: number) {
+  const hours = Math.floor(minutes / 60);
+  const rest = Math.round(minutes % 60);
+  if (hours === 0) return `${rest}m`;
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+}
+
+function toDateTimeLocal(date: Date | string | null) {
+  return date ? format(new Date(date), "yyyy-MM-dd'T'HH:mm") : "";
+}
+
+function startedBetween(entry: CareLogEntryWithUsers, from: Date, to: Date) {
+  const startedAt = new Date(entry.startedAt);
+  return startedAt >= from && startedAt < to;
+}
+
+// Minutes of a timed entry that fall between from and to; sleeps that cross
+// midnight count towards both days
+function minutesWithin(entry: CareLogEntryWithUsers, from: Date, to: Date, now: Date) {
+  if (!isTimedCareLogEntry(entry)) return 0;
+  const start = Math.max(new Date(entry.startedAt).getTime(), from.getTime());
+  const end = Math.min(entry.endedAt ? new Date(entry.endedAt).getTime() : now.getTime(), to.getTime());
+  return end > start ? (end - start) / (60 * 1000) : 0;
+}
+
+function summarize(entries: CareLogEntryWithUsers[], from: Date, to: Date, now: Date): DaySummary {
+  const summary: DaySummary = { feeds: 0, breastMinutes: 0, bottleMl: 0, sleepMinutes: 0, diapers: 0, wet: 0, dirty: 0 };
+  entries.forEach((entry) => {
+    const startedWithin = startedBetween(entry, from, to);
+
+    if (entry.type === "sleep") {
+      summary.sleepMinutes += minutesWithin(entry, from, to, now);
+    } else if (entry.type === "feed") {
+      if (startedWithin) summary.feeds++;
+      if (entry.feedMethod === "breast") summary.breastMinutes += minutesWithin(entry, from, to, now);
+      if (startedWithin) summary.bottleMl += entry.bottleMl ?? 0;
+    } else if (startedWithin) {
+      summary.diapers++;
+      if (entry.diaperKind !== "dirty") summary.wet++;
+      if (entry.diaperKind !== "wet") summary.dirty++;
+    }
+  });
+  return summary;
+}
+
+function toEntryInput(entry: CareLogEntryWithUsers): CareLogEntryInput {
+  return {
+    type: entry.type,
+    startedAt: new Date(entry.startedAt),
+    endedAt: entry.endedAt && new Date(entry.endedAt),
+    feedMethod: entry.feedMethod,
+    breastSide: entry.breastSide,
+    bottleMl: entry.bottleMl,
+    diaperKind: entry.diaperKind,
+    note: entry.note,
+  };
+}
+
+function describeEntry(entry: CareLogEntryWithUsers) {
+  switch (entry.type) {
+    case "feed":
+      return entry.feedMethod === "bottle"
+        ? `Bottle, ${entry.bottleMl} ml`
+        : `Breast, ${entry.breastSide ? sideLabels[entry.breastSide].toLowerCase() : "unknown side"}`;
+    case "sleep":
+      return "Sleep";
+    case "diaper":
+      return `${entry.diaperKind ? diaperLabels[entry.diaperKind] : "Changed"} diaper`;
+  }
+}
+
+function EntryIcon({ type }: { type: CareLogType }) {
+  if (type === "feed") return <Milk className="h-4 w-4" />;
+  if (type === "sleep") return <Moon className="h-4 w-4" />;
+  return <Droplet className="h-4 w-4" />;
+}
+
+// Adding an entry after the fact, or correcting one when existing is set
+function EntryDialog({
+  baby,
+  existing,
+  defaultStart,
+  onClose,
+}: {
+  baby: Baby;
+  existing?: CareLogEntryWithUsers;
+  defaultStart: Date;
+  onClose: () => void;
+}) {
+  const { create, update, isPending } = useCareLogMutations(baby.id);
+  const [type, setType] = useState<CareLogType>(existing?.type ?? "feed");
+  const [startedAt, setStartedAt] = useState(toDateTimeLocal(existing?.startedAt ?? defaultStart));
+  const [endedAt, setEndedAt] = useState(toDateTimeLocal(existing?.endedAt ?? null));
+  const [feedMethod, setFeedMethod] = useState<FeedMethod>(existing?.feedMethod ?? "breast");
+  const [breastSide, setBreastSide] = useState<BreastSide>(existing?.breastSide ?? "left");
+  const [bottleMl, setBottleMl] = useState(existing?.bottleMl?.toString() ?? "");
+  const [diaperKind, setDiaperKind] = useState<DiaperKind>(existing?.diaperKind ?? "wet");
+  const [note, setNote] = useState(existing?.note ?? "");
+
+  const isTimed = isTimedCareLogEntry({ type, feedMethod });
+
+  const save = () => {
+    const entry: CareLogEntryInput = {
+      type,
+      startedAt: new Date(startedAt),
+      endedAt: isTimed && endedAt ? new Date(endedAt) : null,
+      feedMethod: type === "feed" ? feedMethod : null,
+      breastSide: type === "feed" && feedMethod === "breast" ? breastSide : null,
+      bottleMl: type === "feed" && feedMethod === "bottle" ? parseInt(bottleMl) || null : null,
+      diaperKind: type === "diaper" ? diaperKind : null,
+      note: note.trim() || null,
+    };
+    if (existing) {
+      update({ id: existing.id, version: existing.version, entry }, { onSuccess: onClose });
+    } else {
+      create(entry, { onSuccess: onClose });
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{existing ? "Edit entry" : "Add entry"}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>What</Label>
+            <Select value={type} onValueChange={(value) => setType(value as CareLogType)} disabled={!!existing}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {careLogTypes.map((t) => (
+                  <SelectItem key={t} value={t}>{typeLabels[t]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {type === "feed" && (
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-2">
+                <Label>Method</Label>
+                <Select value={feedMethod} onValueChange={(value) => setFeedMethod(value as FeedMethod)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {feedMethods.map((method) => (
+                      <SelectItem key={method} value={method}>{feedMethodLabels[method]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {feedMethod === "breast" ? (
+                <div className="space-y-2">
+                  <Label>Side</Label>
+                  <Select value={breastSide} onValueChange={(value) => setBreastSide(value as BreastSide)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {breastSides.map((side) => (
+                        <SelectItem key={side} value={side}>{sideLabels[side]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <Label htmlFor="care-log-bottle">Amount (ml)</Label>
+                  <Input
+                    id="care-log-bottle"
+                    type="number"
+                    inputMode="numeric"
+                    min="1"
+                    value={bottleMl}
+                    onChange={(e) => setBottleMl(e.target.value)}
+                  />
+                </div>
+              )}
+            </div>
+          )}
+
+          {type === "diaper" && (
+            <div className="space-y-2">
+              <Label>Kind</Label>
+              <Select value={diaperKind} onValueChange={(value) => setDiaperKind(value as DiaperKind)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {diaperKinds.map((kind) => (
+                    <SelectItem key={kind} value={kind}>{diaperLabels[kind]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="care-log-start">{isTimed ? "Started" : "Time"}</Label>
+              <Input
+                id="care-log-start"
+                type="datetime-local"
+                value={startedAt}
+                onChange={(e) => setStartedAt(e.target.value)}
+              />
+            </div>
+            {isTimed && (
+              <div className="space-y-2">
+                <Label htmlFor="care-log-end">Ended</Label>
+                <Input
+                  id="care-log-end"
+                  type="datetime-local"
+                  value={endedAt}
+                  onChange={(e) => setEndedAt(e.target.value)}
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="care-log-note">Note (optional)</Label>
+            <Textarea
+              id="care-log-note"
+              value={note}
+              maxLength={500}
+              onChange={(e) => setNote(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button onClick={save} disabled={isPending || !startedAt}>
+            {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// One-tap logging for right now. Breast feeds and sleeps start a timer that
+// either parent can stop.
+function QuickEntry({ baby, running, now }: { baby: Baby; running: CareLogEntryWithUsers[]; now: Date }) {
+  const { create, update, isPending } = useCareLogMutations(baby.id);
+  const [bottleOpen, setBottleOpen] = useState(false);
+  const [bottleMl, setBottleMl] = useState("");
+
+  const runningFeed = running.find((entry) => entry.type === "feed");
+  const runningSleep = running.find((entry) => entry.type === "sleep");
+
+  const logNow = (entry: Omit<CareLogEntryInput, "startedAt">) => create({ ...entry, startedAt: new Date() });
+  const stop = (entry: CareLogEntryWithUsers) =>
+    update({ id: entry.id, version: entry.version, entry: { ...toEntryInput(entry), endedAt: new Date() } });
+  const elapsed = (entry: CareLogEntryWithUsers) =>
+    formatMinutes(Math.max(differenceInMinutes(now, new Date(entry.startedAt)), 0));
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="w-16 text-sm font-medium text-muted-foreground">Feed</span>
+        {runningFeed ? (
+          <Button size="sm" onClick={() => stop(runningFeed)} disabled={isPending}>
+            <Square className="h-4 w-4 mr-1" />
+            End feed ({runningFeed.breastSide && sideLabels[runningFeed.breastSide].toLowerCase()}, {elapsed(runningFeed)})
+          </Button>
+        ) : (
+          (["left", "right"] as const).map((side) => (
+            <Button
+              key={side}
+              size="sm"
+              variant="outline"
+              onClick={() => logNow({ type: "feed", feedMethod: "breast", breastSide: side })}
+              disabled={isPending}
+            >
+              {sideLabels[side]}
+            </Button>
+          ))
+        )}
+        <Popover open={bottleOpen} onOpenChange={setBottleOpen}>
+          <PopoverTrigger asChild>
+            <Button size="sm" variant="outline" disabled={isPending}>Bottle</Button>
+          </PopoverTrigger>
+          <PopoverContent align="start" className="w-56">
+            <form
+              className="flex items-end gap-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                const ml = parseInt(bottleMl);
+                if (!ml) return;
+                logNow({ type: "feed", feedMethod: "bottle", bottleMl: ml });
+                setBottleMl("");
+                setBottleOpen(false);
+              }}
+            >
+              <div className="space-y-1 flex-1">
+                <Label htmlFor="quick-bottle">Amount (ml)</Label>
+                <Input
+                  id="quick-bottle"
+                  type="number"
+                  inputMode="numeric"
+                  min="1"
+                  autoFocus
+                  value={bottleMl}
+                  onChange={(e) => setBottleMl(e.target.value)}
+                />
+              </div>
+              <Button type="submit" size="sm">Log</Button>
+            </form>
+          </PopoverContent>
+        </Popover>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="w-16 text-sm font-medium text-muted-foreground">Sleep</span>
+        {runningSleep ? (
+          <Button size="sm" onClick={() => stop(runningSleep)} disabled={isPending}>
+            <Square className="h-4 w-4 mr-1" />
+            Woke up ({elapsed(runningSleep)})
+          </Button>
+        ) : (
+          <Button size="sm" variant="outline" onClick={() => logNow({ type: "sleep" })} disabled={isPending}>
+            Fell asleep
+          </Button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="w-16 text-sm font-medium text-muted-foreground">Diaper</span>
+        {diaperKinds.map((kind) => (
+          <Button
+            key={kind}
+            size="sm"
+            variant="outline"
+            onClick={() => logNow({ type: "diaper", diaperKind: kind })}
+            disabled={isPending}
+          >
+            {kind === "both" ? "Both" : diaperLabels[kind]}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function SummaryTiles({ summary }: { summary: DaySummary }) {
+  const tiles = [
+    { label: "Feeds", value: `${summary.feeds}` },
+    { label: "Breast", value: formatMinutes(summary.breastMinutes) },
+    { label: "Bottle", value: `${summary.bottleMl} ml` },
+    { label: "Sleep", value: formatMinutes(summary.sleepMinutes) },
+    { label: "Wet", value: `${summary.wet}` },
+    { label: "Dirty", value: `${summary.dirty}` },
+  ];
+  return (
+    <div className="grid grid-cols-3 md:grid-cols-6 gap-2">
+      {tiles.map((tile) => (
+        <div key={tile.label} className="rounded-md border p-2 text-center">
+          <p className="text-lg font-semibold">{tile.value}</p>
+          <p className="text-xs text-muted-foreground">{tile.label}</p>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// A baby's feeds, sleeps and diapers for a day, with a week of totals to
+// spot patterns. Days run midnight to midnight in the viewer's time zone.
+export function CareLog({ baby }: { baby: Baby }) {
+  const { user } = useAuth();
+  const [day, setDay] = useState(() => startOfDay(new Date()));
+  const [view, setView] = useState<"day" | "week">("day");
+  const [editing, setEditing] = useState<{ existing?: CareLogEntryWithUsers } | null>(null);
+  const [now, setNow] = useState(() => new Date());
+  const { remove } = useCareLogMutations(baby.id);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), TIMER_TICK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const dayEnd = addDays(day, 1);
+  const weekStart = subDays(day, WEEK_DAYS - 1);
+  const { data: entries = [], isLoading } = useCareLog(baby.id, weekStart, dayEnd);
+
+  const isToday = isSameDay(day, now);
+  const running = entries.filter((entry) => entry.endedAt === null && isTimedCareLogEntry(entry));
+  const dayEntries = entries
+    .filter((entry) => startedBetween(entry, day, dayEnd) || minutesWithin(entry, day, dayEnd, now) > 0)
+    .reverse();
+  const week = Array.from({ length: WEEK_DAYS }, (_, i) => {
+    const from = addDays(weekStart, i);
+    const summary = summarize(entries, from, addDays(from, 1), now);
+    return {
+      day: format(from, "EEE d"),
+      sleepHours: Math.round((summary.sleepMinutes / 60) * 10) / 10,
+      feeds: summary.feeds,
+      diapers: summary.diapers,
+    };
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-2xl">{baby.name}'s Daily Log</CardTitle>
+        <CardDescription>
+          Feeds, sleeps and diapers. Everyone in your household sees the same log.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <QuickEntry baby={baby} running={running} now={now} />
+
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="flex items-center gap-1">
+            <Button variant="ghost" size="icon" onClick={() => setDay(subDays(day, 1))} aria-label="Previous day">
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="font-medium min-w-[8rem] text-center">
+              {isToday ? "Today" : format(day, "EEE d MMM")}
+            </span>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setDay(addDays(day, 1))}
+              disabled={isToday}
+              aria-label="Next day"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="flex items-center gap-2">
+            <Tabs value={view} onValueChange={(value) => setView(value as "day" | "week")}>
+              <TabsList>
+                <TabsTrigger value="day">Day</TabsTrigger>
+                <TabsTrigger value="week">Week</TabsTrigger>
+              </TabsList>
+            </Tabs>
+            <Button size="sm" variant="outline" onClick={() => setEditing({})}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add
+            </Button>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : view === "day" ? (
+          <>
+            <SummaryTiles summary={summarize(entries, day, dayEnd, now)} />
+            {dayEntries.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Nothing logged for this day.</p>
+            ) : (
+              <ul className="divide-y">
+                {dayEntries.map((entry) => (
+                  <li key={entry.id} className="py-2 flex items-center gap-3">
+                    <EntryIcon type={entry.type} />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium">
+                        {format(new Date(entry.startedAt), "HH:mm")}
+                        {entry.endedAt && `–${format(new Date(entry.endedAt), "HH:mm")}`}
+                        {" · "}
+                        {describeEntry(entry)}
+                        {isTimedCareLogEntry(entry) &&
+                          ` · ${formatMinutes(minutesWithin(entry, new Date(entry.startedAt), now, now))}`}
+                        {entry.endedAt === null && isTimedCareLogEntry(entry) && " (ongoing)"}
+                      </p>
+                      {entry.note && <p className="text-sm text-muted-foreground truncate">{entry.note}</p>}
+                      {entry.loggedBy.id !== user?.id && (
+                        <p className="text-xs text-muted-foreground">Logged by {entry.loggedBy.fullName}</p>
+                      )}
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setEditing({ existing: entry })}
+                      aria-label="Edit entry"
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => remove(entry.id)} aria-label="Delete entry">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </>
+        ) : (
+          <ChartContainer config={weekChartConfig} className="w-full">
+            <BarChart data={week}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="day" tickLine={false} axisLine={false} />
+              <YAxis width={32} allowDecimals={false} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Bar dataKey="sleepHours" fill="var(--color-sleepHours)" radius={4} />
+              <Bar dataKey="feeds" fill="var(--color-feeds)" radius={4} />
+              <Bar dataKey="diapers" fill="var(--color-diapers)" radius={4} />
+            </BarChart>
+          </ChartContainer>
+        )}
+      </CardContent>
+
+      {editing && (
+        <EntryDialog
+          baby={baby}
+          existing={editing.existing}
+          defaultStart={isToday ? now : addHours(day, 12)}
+          onClose={() => setEditing(null)}
+        />
+      )}
+    </Card>
+  );
+}
@@ -3,11 +3,13 @@ import { useQuery } from "@tanstack/react-query";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Loader2, Baby as BabyIcon, User as UserIcon } from "lucide-react";
 import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
 
 // Define the interface for what we expect from the API
 interface BabyData {
   id: number;
   userId: number;
+  householdId?: number | null;
   name: string;
   birthDate: string;
   birthWeek?: string;
@@ -24,9 +26,12 @@ interface UserData {
   membershipRole: string;
 }
 
-interface BabyWithParent {
-  user: UserData;
+interface BabyWithParents {
   baby: BabyData;
+  // Parents in this cohort: the creator of the profile and any co-parents
+  parents: UserData[];
+  // True when the parent has another baby with the same birth date
+  isMultiple: boolean;
 }
 
 interface CohortBabiesListProps {
@@ -37,7 +42,7 @@ export function CohortBabiesList({ cohortId }: CohortBabiesListProps) {
   const { 
     data, 
     isLoading 
-  } = useQuery<BabyWithParent[]>({
+  } = useQuery<BabyWithParents[]>({
     queryKey: ["/api/cohorts", cohortId, "babies"],
     enabled: !!cohortId,
   });
@@ -88,19 +93,30 @@ export function CohortBabiesList({ cohortId }: CohortBabiesListProps) {
             </Avatar>
             <div className="flex-1 min-w-0">
               <div className="flex flex-col">
-                <p className="text-sm font-medium truncate">{item.baby.name}</p>
+                <div className="flex items-center gap-2">
+                  <p className="text-sm font-medium truncate">{item.baby.name}</p>
+                  {item.isMultiple && (
+                    <Badge variant="secondary" className="h-5 text-[10px] px-1.5">
+                      Multiples
+                    </Badge>
+                  )}
+                </div>
                 <p className="text-xs text-muted-foreground">
                   Born: {formatDateDisplay(item.baby.birthDate)}
                 </p>
               </div>
             </div>
-            <div className="flex items-center gap-2">
-              <Avatar className="h-8 w-8">
-                <AvatarFallback>
-                  <UserIcon className="h-4 w-4 text-muted-foreground" />
-                </AvatarFallback>
-              </Avatar>
-              <span className="text-xs font-medium">{item.user.fullName}</span>
+            <div className="flex flex-col gap-1">
+              {item.parents.map((parent) => (
+                <div key={parent.id} className="flex items-center gap-2">
+                  <Avatar className="h-6 w-6">
+                    <AvatarFallback>
+                      <UserIcon className="h-3 w-3 text-muted-foreground" />
+                    </AvatarFallback>
+                  </Avatar>
+                  <span className="text-xs font-medium">{parent.fullName}</span>
+                </div>
+              ))}
             </div>
           </div>
         ))}
@@ -0,0 +1,169 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { CohortInvite } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Copy, Link as LinkIcon, X } from "lucide-react";
+
+function inviteUrl(invite: CohortInvite) {
+  return `${window.location.origin}/invite/${invite.token}`;
+}
+
+function describeInvite(invite: CohortInvite) {
+  const uses = invite.maxUses
+    ? `${invite.useCount} of ${invite.maxUses} uses`
+    : `${invite.useCount} ${invite.useCount === 1 ? "use" : "uses"}`;
+  const expiry = invite.expiresAt
+    ? `expires ${new Date(invite.expiresAt).toLocaleDateString()}`
+    : "never expires";
+  return `${uses}, ${expiry}`;
+}
+
+export function CohortInviteLinks({ cohortId }: { cohortId: number }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [expiresInDays, setExpiresInDays] = useState("7");
+  const [maxUses, setMaxUses] = useState("");
+
+  const { data: invites = [], isLoading } = useQuery<CohortInvite[]>({
+    queryKey: ["/api/cohorts", cohortId, "invites"],
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const createInviteMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/cohorts/${cohortId}/invites`, {
+        expiresInDays: expiresInDays === "never" ? undefined : parseInt(expiresInDays),
+        maxUses: maxUses ? parseInt(maxUses) : undefined,
+      });
+      return response.json();
+    },
+    onSuccess: (invite: CohortInvite) => {
+      setMaxUses("");
+      queryClient.invalidateQueries({ queryKey: ["/api/cohorts", cohortId, "invites"] });
+      copyInvite(invite);
+    },
+    onError,
+  });
+
+  const revokeInviteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("DELETE", `/api/cohort-invites/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/cohorts", cohortId, "invites"] });
+      toast({
+        title: "Success",
+        description: "Invite link revoked",
+      });
+    },
+    onError,
+  });
+
+  const copyInvite = async (invite: CohortInvite) => {
+    try {
+      await navigator.clipboard.writeText(inviteUrl(invite));
+      toast({
+        title: "Link copied",
+        description: "Share it with anyone you'd like to join this cohort.",
+      });
+    } catch {
+      toast({
+        title: "Couldn't copy link",
+        description: inviteUrl(invite),
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <h4 className="text-sm font-medium">Invite Links</h4>
+
+      {isLoading ? (
+        <div className="text-sm text-muted-foreground">Loading invite links...</div>
+      ) : invites.length > 0 ? (
+        <div className="space-y-2">
+          {invites.map((invite) => (
+            <div key={invite.id} className="flex items-center justify-between text-sm">
+              <span className="flex items-center text-muted-foreground">
+                <LinkIcon className="h-3 w-3 mr-2" />
+                {describeInvite(invite)}
+              </span>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={() => copyInvite(invite)}>
+                  <Copy className="h-3 w-3 mr-1" />
+                  Copy
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => revokeInviteMutation.mutate(invite.id)}
+                  disabled={revokeInviteMutation.isPending}
+                >
+                  <X className="h-3 w-3 mr-1" />
+                  Revoke
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">No active invite links.</p>
+      )}
+
+      <div className="flex flex-col sm:flex-row gap-2 sm:items-end">
+        <div className="space-y-1">
+          <Label htmlFor="invite-expiry">Expires</Label>
+          <Select value={expiresInDays} onValueChange={setExpiresInDays}>
+            <SelectTrigger id="invite-expiry" className="w-full sm:w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="1">After 1 day</SelectItem>
+              <SelectItem value="7">After 7 days</SelectItem>
+              <SelectItem value="30">After 30 days</SelectItem>
+              <SelectItem value="never">Never</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="invite-max-uses">Max uses</Label>
+          <Input
+            id="invite-max-uses"
+            type="number"
+            min={1}
+            placeholder="Unlimited"
+            className="w-full sm:w-32"
+            value={maxUses}
+            onChange={(e) => setMaxUses(e.target.value)}
+          />
+        </div>
+        <Button
+          onClick={() => createInviteMutation.mutate()}
+          disabled={createInviteMutation.isPending}
+        >
+          <LinkIcon className="mr-2 h-4 w-4" />
+          {createInviteMutation.isPending ? "Creating..." : "Create Link"}
+        </Button>
+      </div>
+    </div>
+  );
+}
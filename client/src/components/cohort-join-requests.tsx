@@ -0,0 +1,95 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Check, X } from "lucide-react";
+
+interface JoinRequest {
+  id: number;
+  cohortId: number;
+  userId: number;
+  message: string | null;
+  createdAt: string;
+  fullName: string;
+  username: string;
+  email: string;
+}
+
+export function CohortJoinRequests({ cohortId }: { cohortId: number }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: requests = [], isLoading } = useQuery<JoinRequest[]>({
+    queryKey: ["/api/cohorts", cohortId, "join-requests"],
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: number; action: "approve" | "deny" }) => {
+      const response = await apiRequest("POST", `/api/cohort-join-requests/${id}/${action}`);
+      return response.json();
+    },
+    onSuccess: (_data, { action }) => {
+      toast({
+        title: "Success",
+        description: action === "approve" ? "Join request approved" : "Join request denied",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/cohorts", cohortId, "join-requests"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/cohorts", cohortId, "members"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to review join request",
+        variant: "destructive",
+      });
+    }
+  });
+
+  return (
+    <div className="space-y-4">
+      <h4 className="text-sm font-medium">Join Requests</h4>
+
+      {isLoading ? (
+        <div className="text-sm text-muted-foreground">Loading join requests...</div>
+      ) : requests.length > 0 ? (
+        <div className="divide-y">
+          {requests.map((request) => (
+            <div key={request.id} className="py-3 flex items-start justify-between gap-4">
+              <div>
+                <div className="font-medium">{request.fullName}</div>
+                <div className="text-sm text-muted-foreground">{request.email}</div>
+                {request.message && (
+                  <p className="text-sm mt-1 whitespace-pre-wrap">"{request.message}"</p>
+                )}
+                <div className="text-xs text-muted-foreground mt-1">
+                  Requested {new Date(request.createdAt).toLocaleDateString()}
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  onClick={() => reviewMutation.mutate({ id: request.id, action: "approve" })}
+                  disabled={reviewMutation.isPending}
+                >
+                  <Check className="h-3 w-3 mr-1" />
+                  Approve
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => reviewMutation.mutate({ id: request.id, action: "deny" })}
+                  disabled={reviewMutation.isPending}
+                >
+                  <X className="h-3 w-3 mr-1" />
+                  Deny
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">No pending join requests.</p>
+      )}
+    </div>
+  );
+}
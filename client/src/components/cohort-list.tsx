@@ -15,6 +15,7 @@ import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { Cohort, User } from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
+import { Globe, Lock } from "lucide-react";
 
 // Schema for creating a new cohort
 const createCohortSchema = z.object({
@@ -43,6 +44,28 @@ export function CohortList() {
     refetchInterval: 30000, // Refetch every 30 seconds
   });
   
+  // Query to get every cohort the user can discover (invite-only ones are hidden)
+  const { data: discoverableCohorts = [] } = useQuery<Cohort[]>({
+    queryKey: ["/api/cohorts"],
+  });
+
+  // Cohorts the user could join but hasn't yet
+  const otherCohorts = discoverableCohorts.filter(
+    (cohort) => !cohorts.some((joined) => joined.id === cohort.id),
+  );
+
+  // Query to get the join requests the user has sent
+  const { data: joinRequests = [] } = useQuery<{ cohortId: number; status: string }[]>({
+    queryKey: ["/api/user/join-requests"],
+  });
+
+  const hasPendingRequest = (cohortId: number) =>
+    joinRequests.some((request) => request.cohortId === cohortId && request.status === "pending");
+
+  // Cohort the user is writing a join request for
+  const [requestCohort, setRequestCohort] = useState<Cohort | null>(null);
+  const [requestMessage, setRequestMessage] = useState("");
+
   // Query to get current user info
   const { data: user } = useQuery<User>({
     queryKey: ["/api/user"],
@@ -74,6 +97,52 @@ export function CohortList() {
     },
   });
 
+  // Mutation to join a public cohort
+  const joinCohortMutation = useMutation({
+    mutationFn: async (cohortId: number) => {
+      return apiRequest("POST", `/api/cohorts/${cohortId}/join`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user/cohorts"] });
+      toast({
+        title: "Joined cohort",
+        description: "You're now a member of this cohort.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error joining cohort",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Mutation to ask a moderator to let the user into a request-to-join cohort
+  const joinRequestMutation = useMutation({
+    mutationFn: async ({ cohortId, message }: { cohortId: number; message: string }) => {
+      return apiRequest("POST", `/api/cohorts/${cohortId}/join-requests`, {
+        message: message.trim() || undefined,
+      });
+    },
+    onSuccess: () => {
+      setRequestCohort(null);
+      setRequestMessage("");
+      queryClient.invalidateQueries({ queryKey: ["/api/user/join-requests"] });
+      toast({
+        title: "Request sent",
+        description: "A moderator will review your request to join.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error sending request",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   // Function to handle form submission
   const onSubmit = (data: z.infer<typeof createCohortSchema>) => {
     createCohortMutation.mutate(data);
@@ -194,6 +263,101 @@ export function CohortList() {
           </Card>
         ))}
       </div>
+
+      {otherCohorts.length > 0 && (
+        <>
+          <div>
+            <h2 className="text-2xl font-bold">Discover Cohorts</h2>
+            <p className="text-muted-foreground">Find other parents to connect with.</p>
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+            {otherCohorts.map((cohort: Cohort) => (
+              <Card key={cohort.id} className="overflow-hidden">
+                <CardHeader className="pb-2">
+                  <div className="flex justify-between items-start">
+                    <CardTitle className="text-lg truncate">{cohort.name}</CardTitle>
+                    {cohort.privacy === "public" ? (
+                      <Badge variant="outline" className="ml-2">
+                        <Globe className="h-3 w-3 mr-1" />
+                        Public
+                      </Badge>
+                    ) : (
+                      <Badge variant="outline" className="ml-2">
+                        <Lock className="h-3 w-3 mr-1" />
+                        Approval required
+                      </Badge>
+                    )}
+                  </div>
+                  {cohort.description && (
+                    <CardDescription className="line-clamp-2">
+                      {cohort.description}
+                    </CardDescription>
+                  )}
+                </CardHeader>
+                <CardFooter>
+                  {cohort.privacy === "public" ? (
+                    <Button
+                      onClick={() => joinCohortMutation.mutate(cohort.id)}
+                      disabled={joinCohortMutation.isPending}
+                      variant="outline"
+                      className="w-full"
+                    >
+                      Join Cohort
+                    </Button>
+                  ) : hasPendingRequest(cohort.id) ? (
+                    <Button variant="outline" className="w-full" disabled>
+                      Request pending
+                    </Button>
+                  ) : (
+                    <Button
+                      onClick={() => setRequestCohort(cohort)}
+                      variant="outline"
+                      className="w-full"
+                    >
+                      Request to Join
+                    </Button>
+                  )}
+                </CardFooter>
+              </Card>
+            ))}
+          </div>
+        </>
+      )}
+
+      <Dialog
+        open={!!requestCohort}
+        onOpenChange={(open) => {
+          if (!open) setRequestCohort(null);
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Ask to join {requestCohort?.name}</DialogTitle>
+            <DialogDescription>
+              A moderator will review your request. You can tell them a little about yourself.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            placeholder="Optional message to the moderators..."
+            value={requestMessage}
+            maxLength={500}
+            onChange={(e) => setRequestMessage(e.target.value)}
+          />
+          <DialogFooter>
+            <Button
+              onClick={() =>
+                requestCohort &&
+                joinRequestMutation.mutate({ cohortId: requestCohort.id, message: requestMessage })
+              }
+              disabled={joinRequestMutation.isPending}
+              className="bg-primary hover:bg-primary/90"
+            >
+              {joinRequestMutation.isPending ? "Sending..." : "Send Request"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
\ No newline at end of file
@@ -29,6 +29,16 @@ import { Separator } from "@/components/ui/separator";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { X, UserPlus, ShieldCheck, Shield, Search, Users } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Cohort, CohortPrivacy, CohortSettings } from "@shared/schema";
+import { CohortInviteLinks } from "@/components/cohort-invite-links";
+import { CohortJoinRequests } from "@/components/cohort-join-requests";
+
+const privacyDescriptions: Record<CohortPrivacy, string> = {
+  public: "Anyone can find and join this cohort.",
+  request_to_join: "Anyone can find this cohort, but a moderator must approve new members.",
+  invite_only: "Hidden from discovery. Only people you add can join.",
+};
 
 interface CohortMember {
   id: number;
@@ -84,6 +94,10 @@ export function CohortManagement({ cohortId }: { cohortId: number }) {
     enabled: !!moderatorStatus || user?.role === "admin",
   });
   
+  const { data: cohort } = useQuery<Cohort>({
+    queryKey: ["/api/cohorts", cohortId],
+  });
+
   // Get all users (only for admin users)
   const { data: allUsers, isLoading: isLoadingUsers } = useQuery({
     queryKey: ["/api/users"],
@@ -159,6 +173,33 @@ export function CohortManagement({ cohortId }: { cohortId: number }) {
     }
   });
 
+  // Change who can find and join the cohort
+  const updateSettingsMutation = useMutation({
+    mutationFn: async (settings: Partial<CohortSettings>) => {
+      const response = await apiRequest("PUT", `/api/cohorts/${cohortId}`, {
+        privacy: cohort?.privacy,
+        requireVerifiedEmail: cohort?.requireVerifiedEmail,
+        ...settings,
+      });
+      return response.json();
+    },
+    onSuccess: (updatedCohort: Cohort) => {
+      toast({
+        title: "Success",
+        description: "Cohort settings updated",
+      });
+      queryClient.setQueryData(["/api/cohorts", cohortId], updatedCohort);
+      queryClient.invalidateQueries({ queryKey: ["/api/cohorts"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update cohort settings",
+        variant: "destructive",
+      });
+    }
+  });
+
   // Update a membership role
   const updateRoleMutation = useMutation({
     mutationFn: async ({ membershipId, role }: { membershipId: number; role: string }) => {
@@ -365,6 +406,53 @@ export function CohortManagement({ cohortId }: { cohortId: number }) {
           </CardTitle>
         </CardHeader>
         <CardContent>
+          {cohort && (
+            <div className="space-y-2 mb-6">
+              <Label htmlFor="cohort-privacy">Privacy</Label>
+              <Select
+                value={cohort.privacy}
+                onValueChange={(value) => updateSettingsMutation.mutate({ privacy: value as CohortPrivacy })}
+                disabled={updateSettingsMutation.isPending}
+              >
+                <SelectTrigger id="cohort-privacy" className="w-full sm:w-64">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="public">Public</SelectItem>
+                  <SelectItem value="request_to_join">Request to join</SelectItem>
+                  <SelectItem value="invite_only">Invite only</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-muted-foreground">
+                {privacyDescriptions[cohort.privacy]}
+              </p>
+              <div className="flex items-center justify-between gap-4 pt-2">
+                <div>
+                  <Label htmlFor="cohort-require-verified">Require a verified email</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Only people who have confirmed their email address can join.
+                  </p>
+                </div>
+                <Switch
+                  id="cohort-require-verified"
+                  checked={cohort.requireVerifiedEmail}
+                  onCheckedChange={(checked) => updateSettingsMutation.mutate({ requireVerifiedEmail: checked })}
+                  disabled={updateSettingsMutation.isPending}
+                />
+              </div>
+              <Separator className="mt-4" />
+            </div>
+          )}
+          {cohort?.privacy === "request_to_join" && (
+            <div className="mb-6">
+              <CohortJoinRequests cohortId={cohortId} />
+              <Separator className="mt-4" />
+            </div>
+          )}
+          <div className="mb-6">
+            <CohortInviteLinks cohortId={cohortId} />
+            <Separator className="mt-4" />
+          </div>
           {isLoadingMembers ? (
             <div className="text-center py-4">Loading members...</div>
           ) : (
@@ -0,0 +1,505 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { format } from "date-fns";
+import { MeetupInput, MeetupWithRsvps, RsvpInput, RsvpStatus } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import { cn } from "@/lib/utils";
+import { Baby as BabyIcon, CalendarPlus, Clock, Download, MapPin, Pencil, Trash2, Users } from "lucide-react";
+
+// The form keeps dates as datetime-local strings and capacity as text; they're
+// converted to a MeetupInput on submit and checked again by the server
+const meetupFormSchema = z.object({
+  title: z.string().trim().min(1, "Give the event a title").max(100, "Title must be 100 characters or less"),
+  startsAt: z.string().min(1, "Pick a start time"),
+  endsAt: z.string(),
+  location: z.string().trim().min(1, "Say where the event is").max(200, "Location must be 200 characters or less"),
+  capacity: z.string().regex(/^\d*$/, "Capacity must be a whole number"),
+  notes: z.string().max(2000, "Notes must be 2000 characters or less"),
+});
+
+type MeetupForm = z.infer<typeof meetupFormSchema>;
+
+const rsvpLabels: Record<RsvpStatus, string> = {
+  going: "Going",
+  maybe: "Maybe",
+  no: "Can't go",
+};
+
+function meetupsQueryKey(cohortId: number) {
+  return ["/api/cohorts", cohortId, "meetups"];
+}
+
+function toDateTimeLocal(date: Date | string | null) {
+  return date ? format(new Date(date), "yyyy-MM-dd'T'HH:mm") : "";
+}
+
+function toMeetupInput(values: MeetupForm): MeetupInput {
+  return {
+    title: values.title,
+    startsAt: new Date(values.startsAt),
+    endsAt: values.endsAt ? new Date(values.endsAt) : null,
+    location: values.location,
+    capacity: values.capacity ? parseInt(values.capacity) : null,
+    notes: values.notes.trim() || null,
+  };
+}
+
+function describeWhen(meetup: MeetupWithRsvps) {
+  const startsAt = new Date(meetup.startsAt);
+  const start = format(startsAt, "EEE d MMM yyyy, h:mm a");
+  if (!meetup.endsAt) return start;
+
+  const endsAt = new Date(meetup.endsAt);
+  const sameDay = format(startsAt, "yyyy-MM-dd") === format(endsAt, "yyyy-MM-dd");
+  return `${start} – ${format(endsAt, sameDay ? "h:mm a" : "EEE d MMM yyyy, h:mm a")}`;
+}
+
+// Creating a meetup, or editing one when meetup is set
+function MeetupDialog({
+  cohortId,
+  meetup,
+  open,
+  onOpenChange,
+}: {
+  cohortId: number;
+  meetup?: MeetupWithRsvps;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+
+  const form = useForm<MeetupForm>({
+    resolver: zodResolver(meetupFormSchema),
+    values: {
+      title: meetup?.title ?? "",
+      startsAt: toDateTimeLocal(meetup?.startsAt ?? null),
+      endsAt: toDateTimeLocal(meetup?.endsAt ?? null),
+      location: meetup?.location ?? "",
+      capacity: meetup?.capacity?.toString() ?? "",
+      notes: meetup?.notes ?? "",
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: MeetupForm) => {
+      const res = meetup
+        ? await apiRequest("PUT", `/api/meetups/${meetup.id}`, toMeetupInput(values))
+        : await apiRequest("POST", `/api/cohorts/${cohortId}/meetups`, toMeetupInput(values));
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: meetupsQueryKey(cohortId) });
+      onOpenChange(false);
+      form.reset();
+      toast({
+        title: meetup ? "Event updated" : "Event created",
+        description: meetup ? "Your changes have been saved." : "Members can now RSVP.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{meetup ? "Edit Event" : "New Event"}</DialogTitle>
+          <DialogDescription>
+            {meetup
+              ? "Members who RSVPed will see the new details."
+              : "Organize a meetup, class or playdate for the cohort."}
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((values) => saveMutation.mutate(values))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="title"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Title</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g., Picnic in the park" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid gap-4 sm:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="startsAt"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Starts</FormLabel>
+                    <FormControl>
+                      <Input type="datetime-local" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="endsAt"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Ends (optional)</FormLabel>
+                    <FormControl>
+                      <Input type="datetime-local" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="location"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Place</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g., Greenlake Park, north playground" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="capacity"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Capacity (optional)</FormLabel>
+                  <FormControl>
+                    <Input type="number" min={1} placeholder="No limit" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="notes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Notes (optional)</FormLabel>
+                  <FormControl>
+                    <Textarea placeholder="What to bring, where to park..." {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <Button type="submit" disabled={saveMutation.isPending}>
+                {saveMutation.isPending ? "Saving..." : meetup ? "Save Changes" : "Create Event"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function MeetupCard({
+  cohortId,
+  meetup,
+  canManage,
+  highlighted,
+}: {
+  cohortId: number;
+  meetup: MeetupWithRsvps;
+  canManage: boolean;
+  highlighted: boolean;
+}) {
+  const { toast } = useToast();
+  const [isEditing, setIsEditing] = useState(false);
+
+  const isPast = new Date(meetup.startsAt) <= new Date();
+  const isFull = meetup.capacity !== null && meetup.goingCount >= meetup.capacity;
+  const going = meetup.rsvps.filter((rsvp) => rsvp.status === "going");
+  const maybe = meetup.rsvps.filter((rsvp) => rsvp.status === "maybe");
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const rsvpMutation = useMutation({
+    mutationFn: async (rsvp: RsvpInput) => {
+      const res = await apiRequest("PUT", `/api/meetups/${meetup.id}/rsvp`, rsvp);
+      return (await res.json()) as MeetupWithRsvps;
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData<MeetupWithRsvps[]>(meetupsQueryKey(cohortId), (meetups) =>
+        meetups?.map((m) => (m.id === updated.id ? updated : m)),
+      );
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/meetups/${meetup.id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: meetupsQueryKey(cohortId) });
+      toast({
+        title: "Event cancelled",
+        description: "The event has been removed.",
+      });
+    },
+    onError,
+  });
+
+  const answer = (status: RsvpStatus) => {
+    rsvpMutation.mutate({
+      status,
+      bringingBaby: status !== "no" && (meetup.myRsvp?.bringingBaby ?? false),
+    });
+  };
+
+  // Reminder notifications link here with ?meetup=id
+  const scrollToHighlighted = (node: HTMLDivElement | null) => {
+    node?.scrollIntoView({ block: "center" });
+  };
+
+  return (
+    <Card
+      ref={highlighted ? scrollToHighlighted : undefined}
+      className={cn(highlighted && "border-primary", isPast && "opacity-75")}
+    >
+      <CardHeader className="pb-2">
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <CardTitle className="text-lg">{meetup.title}</CardTitle>
+            <CardDescription>Organized by {meetup.createdBy.fullName}</CardDescription>
+          </div>
+          {canManage && !isPast && (
+            <div className="flex gap-1">
+              <Button variant="ghost" size="icon" onClick={() => setIsEditing(true)} aria-label="Edit event">
+                <Pencil className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => {
+                  if (window.confirm("Cancel this event? Everyone's RSVPs will be lost.")) {
+                    deleteMutation.mutate();
+                  }
+                }}
+                disabled={deleteMutation.isPending}
+                aria-label="Cancel event"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3 text-sm">
+        <div className="space-y-1">
+          <div className="flex items-center gap-2">
+            <Clock className="h-4 w-4 text-muted-foreground" />
+            {describeWhen(meetup)}
+          </div>
+          <div className="flex items-center gap-2">
+            <MapPin className="h-4 w-4 text-muted-foreground" />
+            {meetup.location}
+          </div>
+          <div className="flex items-center gap-2">
+            <Users className="h-4 w-4 text-muted-foreground" />
+            {meetup.goingCount} going
+            {meetup.capacity !== null && ` of ${meetup.capacity} spots`}
+            {meetup.maybeCount > 0 && `, ${meetup.maybeCount} maybe`}
+            {meetup.babyCount > 0 && (
+              <Badge variant="outline" className="ml-1">
+                <BabyIcon className="h-3 w-3 mr-1" />
+                {meetup.babyCount} {meetup.babyCount === 1 ? "baby" : "babies"}
+              </Badge>
+            )}
+            {isFull && !isPast && <Badge variant="secondary">Full</Badge>}
+          </div>
+        </div>
+
+        {meetup.notes && <p className="whitespace-pre-wrap text-muted-foreground">{meetup.notes}</p>}
+
+        {(going.length > 0 || maybe.length > 0) && (
+          <div className="space-y-1">
+            {going.length > 0 && (
+              <p>
+                <span className="font-medium">Going: </span>
+                {going.map((rsvp) => rsvp.user.fullName + (rsvp.bringingBaby ? " +1 baby" : "")).join(", ")}
+              </p>
+            )}
+            {maybe.length > 0 && (
+              <p>
+                <span className="font-medium">Maybe: </span>
+                {maybe.map((rsvp) => rsvp.user.fullName).join(", ")}
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+      <CardFooter className="flex flex-wrap items-center justify-between gap-2">
+        {isPast ? (
+          <span className="text-sm text-muted-foreground">
+            {meetup.myRsvp ? `You answered: ${rsvpLabels[meetup.myRsvp.status]}` : "This event has passed"}
+          </span>
+        ) : (
+          <div className="flex flex-wrap items-center gap-3">
+            <div className="flex gap-1">
+              {(Object.keys(rsvpLabels) as RsvpStatus[]).map((status) => (
+                <Button
+                  key={status}
+                  size="sm"
+                  variant={meetup.myRsvp?.status === status ? "default" : "outline"}
+                  onClick={() => answer(status)}
+                  disabled={
+                    rsvpMutation.isPending ||
+                    (status === "going" && isFull && meetup.myRsvp?.status !== "going")
+                  }
+                >
+                  {rsvpLabels[status]}
+                </Button>
+              ))}
+            </div>
+            {meetup.myRsvp && meetup.myRsvp.status !== "no" && (
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id={`meetup-${meetup.id}-baby`}
+                  checked={meetup.myRsvp.bringingBaby}
+                  onCheckedChange={(checked) =>
+                    rsvpMutation.mutate({ status: meetup.myRsvp!.status, bringingBaby: checked === true })
+                  }
+                  disabled={rsvpMutation.isPending}
+                />
+                <Label htmlFor={`meetup-${meetup.id}-baby`}>+1 baby</Label>
+              </div>
+            )}
+          </div>
+        )}
+        <Button variant="ghost" size="sm" asChild>
+          <a href={`/api/meetups/${meetup.id}/calendar.ics`} download>
+            <Download className="h-4 w-4 mr-1" />
+            Add to calendar
+          </a>
+        </Button>
+      </CardFooter>
+
+      {canManage && (
+        <MeetupDialog cohortId={cohortId} meetup={meetup} open={isEditing} onOpenChange={setIsEditing} />
+      )}
+    </Card>
+  );
+}
+
+// The cohort page's Events tab: upcoming meetups first, then past ones
+export function CohortMeetups({
+  cohortId,
+  isModerator,
+  highlightedMeetupId,
+}: {
+  cohortId: number;
+  isModerator: boolean;
+  highlightedMeetupId?: number | null;
+}) {
+  const { user } = useAuth();
+  const [isCreating, setIsCreating] = useState(false);
+
+  const { data: meetups = [], isLoading, error } = useQuery<MeetupWithRsvps[]>({
+    queryKey: meetupsQueryKey(cohortId),
+    enabled: !!cohortId,
+  });
+
+  const now = new Date();
+  const upcoming = meetups.filter((meetup) => new Date(meetup.startsAt) > now);
+  const past = meetups.filter((meetup) => new Date(meetup.startsAt) <= now).reverse();
+
+  const canManage = (meetup: MeetupWithRsvps) =>
+    isModerator || user?.role === "admin" || meetup.createdById === user?.id;
+
+  const renderMeetups = (list: MeetupWithRsvps[]) =>
+    list.map((meetup) => (
+      <MeetupCard
+        key={meetup.id}
+        cohortId={cohortId}
+        meetup={meetup}
+        canManage={canManage(meetup)}
+        highlighted={meetup.id === highlightedMeetupId}
+      />
+    ));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-semibold">Upcoming Events</h2>
+        <Button onClick={() => setIsCreating(true)}>
+          <CalendarPlus className="h-4 w-4 mr-2" />
+          New Event
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-4">
+          <Skeleton className="h-40 w-full" />
+          <Skeleton className="h-40 w-full" />
+        </div>
+      ) : error ? (
+        <Card>
+          <CardContent className="py-4">
+            <p className="text-red-500">Error loading events. Please try again later.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          {upcoming.length === 0 ? (
+            <Card>
+              <CardContent className="py-8 text-center">
+                <p className="text-muted-foreground">No upcoming events. Why not organize one?</p>
+              </CardContent>
+            </Card>
+          ) : (
+            renderMeetups(upcoming)
+          )}
+
+          {past.length > 0 && (
+            <>
+              <h2 className="text-xl font-semibold pt-4">Past Events</h2>
+              {renderMeetups(past)}
+            </>
+          )}
+        </>
+      )}
+
+      <MeetupDialog cohortId={cohortId} open={isCreating} onOpenChange={setIsCreating} />
+    </div>
+  );
+}
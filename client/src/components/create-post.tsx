@@ -1,34 +1,148 @@
 import { useState, useRef } from "react";
 import { useMutation } from "@tanstack/react-query";
-import { insertPostSchema } from "@shared/schema";
+import { CreatePoll, MAX_POLL_OPTIONS, MIN_POLL_OPTIONS, createPostSchema } from "@shared/schema";
 import { Card, CardContent, CardFooter } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
-import { Loader2, ImageIcon, X } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Loader2, ImageIcon, X, BarChart3, Plus } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { cn } from "@/lib/utils";
+import { useMentionAutocomplete } from "@/hooks/use-mention-autocomplete";
+import { MentionSuggestions } from "@/components/mentions";
 
 interface CreatePostProps {
   cohortId: number;
 }
 
+const emptyPollOptions = () => Array.from({ length: MIN_POLL_OPTIONS }, () => "");
+
+// The poll part of the composer: its options and voting rules
+function PollEditor({
+  options,
+  onOptionsChange,
+  multipleChoice,
+  onMultipleChoiceChange,
+  anonymous,
+  onAnonymousChange,
+  closesAt,
+  onClosesAtChange,
+  disabled,
+}: {
+  options: string[];
+  onOptionsChange: (options: string[]) => void;
+  multipleChoice: boolean;
+  onMultipleChoiceChange: (value: boolean) => void;
+  anonymous: boolean;
+  onAnonymousChange: (value: boolean) => void;
+  closesAt: string;
+  onClosesAtChange: (value: string) => void;
+  disabled: boolean;
+}) {
+  return (
+    <div className="mb-4 space-y-3 rounded-md border p-3">
+      {options.map((option, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <Input
+            placeholder={`Option ${index + 1}`}
+            value={option}
+            maxLength={100}
+            onChange={(e) =>
+              onOptionsChange(options.map((o, i) => (i === index ? e.target.value : o)))
+            }
+            disabled={disabled}
+          />
+          {options.length > MIN_POLL_OPTIONS && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => onOptionsChange(options.filter((_, i) => i !== index))}
+              disabled={disabled}
+              aria-label={`Remove option ${index + 1}`}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      ))}
+
+      {options.length < MAX_POLL_OPTIONS && (
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={() => onOptionsChange([...options, ""])}
+          disabled={disabled}
+        >
+          <Plus className="mr-1 h-4 w-4" />
+          Add option
+        </Button>
+      )}
+
+      <div className="flex items-center justify-between">
+        <Label htmlFor="poll-multiple-choice">Allow multiple choices</Label>
+        <Switch
+          id="poll-multiple-choice"
+          checked={multipleChoice}
+          onCheckedChange={onMultipleChoiceChange}
+          disabled={disabled}
+        />
+      </div>
+      <div className="flex items-center justify-between">
+        <Label htmlFor="poll-anonymous">Hide who voted for what</Label>
+        <Switch
+          id="poll-anonymous"
+          checked={anonymous}
+          onCheckedChange={onAnonymousChange}
+          disabled={disabled}
+        />
+      </div>
+      <div className="flex items-center justify-between gap-4">
+        <Label htmlFor="poll-closes-at">Closes (optional)</Label>
+        <Input
+          id="poll-closes-at"
+          type="datetime-local"
+          value={closesAt}
+          onChange={(e) => onClosesAtChange(e.target.value)}
+          className="w-auto"
+          disabled={disabled}
+        />
+      </div>
+    </div>
+  );
+}
+
 export function CreatePost({ cohortId }: CreatePostProps) {
   const [content, setContent] = useState("");
   const [photoUrl, setPhotoUrl] = useState<string | null>(null);
   const [isUploading, setIsUploading] = useState(false);
+  const [hasPoll, setHasPoll] = useState(false);
+  const [pollOptions, setPollOptions] = useState(emptyPollOptions);
+  const [multipleChoice, setMultipleChoice] = useState(false);
+  const [anonymous, setAnonymous] = useState(false);
+  const [closesAt, setClosesAt] = useState("");
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
+  const mentions = useMentionAutocomplete(cohortId, content, setContent);
 
   const postMutation = useMutation({
-    mutationFn: async (data: { content: string; cohortId: number; photoUrl?: string }) => {
-      const validated = insertPostSchema.parse(data);
+    mutationFn: async (data: { content: string; cohortId: number; photoUrl?: string; poll?: CreatePoll }) => {
+      const result = createPostSchema.safeParse(data);
+      if (!result.success) {
+        throw new Error(result.error.errors[0].message);
+      }
+      const validated = result.data;
       const res = await apiRequest("POST", "/api/posts", validated);
       return res.json();
     },
     onSuccess: () => {
       setContent("");
       setPhotoUrl(null);
+      resetPoll();
       // Invalidate the posts query to refresh the feed
       queryClient.invalidateQueries({ queryKey: ['/api/cohorts', cohortId, 'posts'] });
       toast({
@@ -45,10 +159,18 @@ export function CreatePost({ cohortId }: CreatePostProps) {
     },
   });
 
+  const resetPoll = () => {
+    setHasPoll(false);
+    setPollOptions(emptyPollOptions());
+    setMultipleChoice(false);
+    setAnonymous(false);
+    setClosesAt("");
+  };
+
   const handleSubmit = () => {
     if (!content.trim()) return;
     
-    const postData: { content: string; cohortId: number; photoUrl?: string } = {
+    const postData: { content: string; cohortId: number; photoUrl?: string; poll?: CreatePoll } = {
       content,
       cohortId
     };
@@ -56,6 +178,15 @@ export function CreatePost({ cohortId }: CreatePostProps) {
     if (photoUrl) {
       postData.photoUrl = photoUrl;
     }
+
+    if (hasPoll) {
+      postData.poll = {
+        options: pollOptions,
+        multipleChoice,
+        anonymous,
+        closesAt: closesAt ? new Date(closesAt) : null,
+      };
+    }
     
     postMutation.mutate(postData);
   };
@@ -116,13 +247,40 @@ export function CreatePost({ cohortId }: CreatePostProps) {
   return (
     <Card>
       <CardContent className="pt-6">
-        <Textarea
-          placeholder="Share your parenting journey..."
-          value={content}
-          onChange={(e) => setContent(e.target.value)}
-          className="min-h-[100px] mb-4"
-        />
+        <div className="relative mb-4">
+          <Textarea
+            placeholder={
+              hasPoll
+                ? "Ask your cohort a question..."
+                : "Share your parenting journey... Use @ to mention someone"
+            }
+            value={content}
+            onChange={mentions.onChange}
+            onSelect={mentions.onSelect}
+            onKeyDown={mentions.onKeyDown}
+            className="min-h-[100px]"
+          />
+          <MentionSuggestions
+            suggestions={mentions.suggestions}
+            activeIndex={mentions.activeIndex}
+            onChoose={mentions.choose}
+          />
+        </div>
         
+        {hasPoll && (
+          <PollEditor
+            options={pollOptions}
+            onOptionsChange={setPollOptions}
+            multipleChoice={multipleChoice}
+            onMultipleChoiceChange={setMultipleChoice}
+            anonymous={anonymous}
+            onAnonymousChange={setAnonymous}
+            closesAt={closesAt}
+            onClosesAtChange={setClosesAt}
+            disabled={postMutation.isPending}
+          />
+        )}
+
         {photoUrl && (
           <div className="relative mb-4">
             <img 
@@ -163,6 +321,18 @@ export function CreatePost({ cohortId }: CreatePostProps) {
               <ImageIcon className={cn("h-4 w-4", photoUrl ? "text-primary" : "")} />
             )}
           </Button>
+
+          <Button
+            type="button"
+            variant="outline"
+            size="icon"
+            onClick={() => (hasPoll ? resetPoll() : setHasPoll(true))}
+            disabled={postMutation.isPending}
+            className={cn(hasPoll ? "bg-primary/10" : "")}
+            aria-label={hasPoll ? "Remove poll" : "Add a poll"}
+          >
+            <BarChart3 className={cn("h-4 w-4", hasPoll ? "text-primary" : "")} />
+          </Button>
           
           <Button
             onClick={handleSubmit}
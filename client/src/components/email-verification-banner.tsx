@@ -0,0 +1,53 @@
+import { useMutation } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { MailWarning } from "lucide-react";
+
+// Shown on every page until the signed-in user confirms their email address
+export function EmailVerificationBanner() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const resendMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/resend-verification");
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Verification email sent",
+        description: `Check ${user?.email} for a link to confirm your address.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!user || user.emailVerifiedAt) return null;
+
+  return (
+    <div className="border-b bg-amber-50">
+      <div className="container mx-auto px-4 py-2 flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+        <p className="text-sm flex items-center gap-2">
+          <MailWarning className="h-4 w-4 shrink-0" />
+          Please confirm your email address, {user.email}. Some cohorts only accept verified accounts.
+        </p>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => resendMutation.mutate()}
+          disabled={resendMutation.isPending}
+        >
+          {resendMutation.isPending ? "Sending..." : "Resend link"}
+        </Button>
+      </div>
+    </div>
+  );
+}
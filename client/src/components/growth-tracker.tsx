@@ -0,0 +1,400 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { CartesianGrid, ComposedChart, Line, XAxis, YAxis } from "recharts";
+import { Baby, GrowthMeasurementWithPercentiles } from "@shared/schema";
+import {
+  ageInMonths,
+  GROWTH_STANDARD_MAX_MONTHS,
+  GrowthMetric,
+  growthMetrics,
+  growthStandardValue,
+} from "@shared/growth-standards";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Textarea } from "@/components/ui/textarea";
+import { Download, Loader2, Pencil, Plus, Ruler, Trash2 } from "lucide-react";
+
+// The reference curves drawn behind the baby's own measurements
+const REFERENCE_PERCENTILES = [3, 15, 50, 85, 97];
+const CURVE_STEP_MONTHS = 0.5;
+
+type MeasurementField = "weightKg" | "lengthCm" | "headCircumferenceCm";
+
+const metricDisplay: Record<GrowthMetric, { label: string; unit: string; field: MeasurementField }> = {
+  weight: { label: "Weight", unit: "kg", field: "weightKg" },
+  length: { label: "Length", unit: "cm", field: "lengthCm" },
+  headCircumference: { label: "Head", unit: "cm", field: "headCircumferenceCm" },
+};
+
+const chartConfig = {
+  value: { label: "Measured", color: "hsl(var(--primary))" },
+  reference: { label: "WHO percentile", color: "hsl(var(--muted-foreground))" },
+} satisfies ChartConfig;
+
+function growthQueryKey(babyId: number) {
+  return ["/api/babies", babyId, "growth"];
+}
+
+function formatPercentile(percentile: number | null) {
+  if (percentile === null) return null;
+  if (percentile < 0.1) return "<0.1st";
+  if (percentile > 99.9) return ">99.9th";
+  const rounded = Math.round(percentile);
+  const suffix = rounded % 100 >= 11 && rounded % 100 <= 13
+    ? "th"
+    : ({ 1: "st", 2: "nd", 3: "rd" } as Record<number, string>)[rounded % 10] ?? "th";
+  return `${rounded}${suffix}`;
+}
+
+// Adding a check-up's measurements, or correcting one when existing is set
+function MeasurementDialog({
+  baby,
+  existing,
+  open,
+  onOpenChange,
+}: {
+  baby: Baby;
+  existing?: GrowthMeasurementWithPercentiles;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [measuredOn, setMeasuredOn] = useState(existing?.measuredOn ?? format(new Date(), "yyyy-MM-dd"));
+  const [values, setValues] = useState<Record<MeasurementField, string>>({
+    weightKg: existing?.weightKg?.toString() ?? "",
+    lengthCm: existing?.lengthCm?.toString() ?? "",
+    headCircumferenceCm: existing?.headCircumferenceCm?.toString() ?? "",
+  });
+  const [note, setNote] = useState(existing?.note ?? "");
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const toNumber = (value: string) => (value.trim() === "" ? null : parseFloat(value));
+      const body = {
+        measuredOn,
+        weightKg: toNumber(values.weightKg),
+        lengthCm: toNumber(values.lengthCm),
+        headCircumferenceCm: toNumber(values.headCircumferenceCm),
+        note: note.trim() || null,
+      };
+      await (existing
+        ? apiRequest("PUT", `/api/babies/${baby.id}/growth/${existing.id}`, body)
+        : apiRequest("POST", `/api/babies/${baby.id}/growth`, body));
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: growthQueryKey(baby.id) });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{existing ? "Edit measurement" : "Add measurement"}</DialogTitle>
+          <DialogDescription>
+            Fill in whatever was measured; the rest can stay blank.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="measured-on">Date</Label>
+            <Input
+              id="measured-on"
+              type="date"
+              value={measuredOn}
+              min={baby.birthDate}
+              max={format(new Date(), "yyyy-MM-dd")}
+              onChange={(e) => setMeasuredOn(e.target.value)}
+            />
+          </div>
+
+          <div className="grid grid-cols-3 gap-2">
+            {growthMetrics.map((metric) => {
+              const { label, unit, field } = metricDisplay[metric];
+              return (
+                <div key={metric} className="space-y-2">
+                  <Label htmlFor={`measurement-${metric}`}>{label} ({unit})</Label>
+                  <Input
+                    id={`measurement-${metric}`}
+                    type="number"
+                    inputMode="decimal"
+                    step="0.01"
+                    min="0"
+                    value={values[field]}
+                    onChange={(e) => setValues({ ...values, [field]: e.target.value })}
+                  />
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="measurement-note">Note (optional)</Label>
+            <Textarea
+              id="measurement-note"
+              value={note}
+              maxLength={500}
+              placeholder="e.g. 2 month check-up"
+              onChange={(e) => setNote(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending || !measuredOn}>
+            {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// A baby's measurements plotted against the WHO growth curves for their sex,
+// with the raw numbers underneath
+export function GrowthTracker({ baby }: { baby: Baby }) {
+  const { toast } = useToast();
+  const [metric, setMetric] = useState<GrowthMetric>("weight");
+  const [editing, setEditing] = useState<{ existing?: GrowthMeasurementWithPercentiles } | null>(null);
+
+  const { data: measurements = [], isLoading } = useQuery<GrowthMeasurementWithPercentiles[]>({
+    queryKey: growthQueryKey(baby.id),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/babies/${baby.id}/growth/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: growthQueryKey(baby.id) });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const { label, unit, field } = metricDisplay[metric];
+  const points = measurements.flatMap((measurement) => {
+    const value = measurement[field];
+    return value === null
+      ? []
+      : [{ months: ageInMonths(baby.birthDate, measurement.measuredOn), value }];
+  });
+
+  // Draw the curves a little past the latest measurement or today, whichever is later
+  const latestMonths = Math.max(
+    ageInMonths(baby.birthDate, format(new Date(), "yyyy-MM-dd")),
+    ...points.map((point) => point.months),
+  );
+  const chartMonths = Math.ceil(latestMonths) + 1;
+  const curveMonths = Math.min(chartMonths, GROWTH_STANDARD_MAX_MONTHS);
+  const sex = baby.sex;
+  const curves = sex
+    ? REFERENCE_PERCENTILES.map((percentile) => ({
+        percentile,
+        data: Array.from({ length: curveMonths / CURVE_STEP_MONTHS + 1 }, (_, i) => {
+          const months = i * CURVE_STEP_MONTHS;
+          return { months, reference: growthStandardValue(metric, sex, months, percentile) };
+        }),
+      }))
+    : [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-2xl flex items-center gap-2">
+          <Ruler className="h-6 w-6" />
+          {baby.name}'s Growth
+        </CardTitle>
+        <CardDescription>
+          {sex
+            ? "Measurements from check-ups, against the WHO growth standards."
+            : `Set ${baby.name}'s sex in Baby Information to compare with the WHO growth standards.`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <Tabs value={metric} onValueChange={(value) => setMetric(value as GrowthMetric)}>
+            <TabsList>
+              {growthMetrics.map((m) => (
+                <TabsTrigger key={m} value={m}>{metricDisplay[m].label}</TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+          <div className="flex gap-2">
+            {measurements.length > 0 && (
+              <Button variant="outline" size="sm" asChild>
+                <a href={`/api/babies/${baby.id}/growth.csv`} download>
+                  <Download className="h-4 w-4 mr-1" />
+                  Export CSV
+                </a>
+              </Button>
+            )}
+            <Button size="sm" onClick={() => setEditing({})}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add measurement
+            </Button>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : measurements.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No measurements yet.</p>
+        ) : (
+          <>
+            <ChartContainer config={chartConfig} className="w-full">
+              <ComposedChart margin={{ left: 0, right: 32, top: 8, bottom: 8 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis
+                  type="number"
+                  dataKey="months"
+                  domain={[0, chartMonths]}
+                  tickFormatter={(months: number) => `${months}m`}
+                />
+                <YAxis
+                  domain={["auto", "auto"]}
+                  width={40}
+                  tickFormatter={(value: number) => `${value}`}
+                  unit={` ${unit}`}
+                />
+                <ChartTooltip
+                  content={
+                    <ChartTooltipContent
+                      hideIndicator
+                      labelFormatter={(_, payload) =>
+                        `${Number(payload?.[0]?.payload?.months ?? 0).toFixed(1)} months`
+                      }
+                    />
+                  }
+                />
+                {curves.map(({ percentile, data }) => (
+                  <Line
+                    key={percentile}
+                    data={data}
+                    dataKey="reference"
+                    name={`${percentile}th percentile`}
+                    stroke="var(--color-reference)"
+                    strokeOpacity={percentile === 50 ? 0.8 : 0.35}
+                    strokeDasharray={percentile === 50 ? undefined : "4 4"}
+                    dot={false}
+                    activeDot={false}
+                    isAnimationActive={false}
+                  />
+                ))}
+                <Line
+                  data={points}
+                  dataKey="value"
+                  name={label}
+                  stroke="var(--color-value)"
+                  strokeWidth={2}
+                  dot={{ r: 4, fill: "var(--color-value)" }}
+                  isAnimationActive={false}
+                />
+              </ComposedChart>
+            </ChartContainer>
+            {sex && (
+              <p className="text-xs text-muted-foreground">
+                Dashed lines show the 3rd, 15th, 85th and 97th percentiles; the solid grey
+                line is the median. The WHO charts stop at 2 years.
+              </p>
+            )}
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-muted-foreground">
+                    <th className="py-2 font-medium">Date</th>
+                    {growthMetrics.map((m) => (
+                      <th key={m} className="py-2 font-medium">
+                        {metricDisplay[m].label} ({metricDisplay[m].unit})
+                      </th>
+                    ))}
+                    <th className="py-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {[...measurements].reverse().map((measurement) => (
+                    <tr key={measurement.id} className="border-b last:border-0">
+                      <td className="py-2">
+                        {format(parseISO(measurement.measuredOn), "d MMM yyyy")}
+                        {measurement.note && (
+                          <p className="text-xs text-muted-foreground">{measurement.note}</p>
+                        )}
+                      </td>
+                      {growthMetrics.map((m) => {
+                        const value = measurement[metricDisplay[m].field];
+                        const percentile = formatPercentile(measurement.percentiles[m]);
+                        return (
+                          <td key={m} className="py-2">
+                            {value ?? "–"}
+                            {value !== null && percentile && (
+                              <span className="text-xs text-muted-foreground"> · {percentile}</span>
+                            )}
+                          </td>
+                        );
+                      })}
+                      <td className="py-2 text-right whitespace-nowrap">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setEditing({ existing: measurement })}
+                          aria-label="Edit measurement"
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => deleteMutation.mutate(measurement.id)}
+                          disabled={deleteMutation.isPending}
+                          aria-label="Delete measurement"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </CardContent>
+
+      {editing && (
+        <MeasurementDialog
+          key={editing.existing?.id ?? "new"}
+          baby={baby}
+          existing={editing.existing}
+          open
+          onOpenChange={(open) => !open && setEditing(null)}
+        />
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,372 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { differenceInCalendarDays, format, parseISO } from "date-fns";
+import { Baby, ScheduledItem } from "@shared/schema";
+import { addToDate, ScheduleItemStatus, scheduleItemStatus } from "@shared/health-schedule";
+import { scheduleQueryKey, useScheduleMutations } from "@/hooks/use-health-schedule";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  CalendarPlus,
+  Check,
+  Copy,
+  Download,
+  Loader2,
+  Pencil,
+  RefreshCw,
+  Stethoscope,
+  Syringe,
+  Undo2,
+} from "lucide-react";
+
+// Items further ahead than this stay folded away until asked for
+const SHOWN_AHEAD_MONTHS = 6;
+
+const statusBadgeVariants: Record<ScheduleItemStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  done: "secondary",
+  overdue: "destructive",
+  due_soon: "default",
+  upcoming: "outline",
+};
+
+export function todayString() {
+  return format(new Date(), "yyyy-MM-dd");
+}
+
+// How a still-to-do item's due date reads next to it, e.g. "Due in 3 days"
+export function dueLabel(item: ScheduledItem, today: string) {
+  const days = differenceInCalendarDays(parseISO(item.dueOn), parseISO(today));
+  if (days < 0) return `Overdue since ${format(parseISO(item.dueOn), "d MMM")}`;
+  if (days === 0) return "Due today";
+  if (days === 1) return "Due tomorrow";
+  if (days <= 14) return `Due in ${days} days`;
+  return `Due ${format(parseISO(item.dueOn), "d MMM yyyy")}`;
+}
+
+function ageLabel(item: ScheduledItem) {
+  if (item.dueMonths === 0) {
+    return item.dueDays ? `${item.dueDays} days` : "At birth";
+  }
+  if (item.dueMonths < 24 || item.dueMonths % 6 !== 0) {
+    return `${item.dueMonths} ${item.dueMonths === 1 ? "month" : "months"}`;
+  }
+  const years = Math.floor(item.dueMonths / 12);
+  return `${years}${item.dueMonths % 12 ? "½" : ""} years`;
+}
+
+// Marking an item done, or changing when it was
+function CompleteDialog({
+  baby,
+  item,
+  onOpenChange,
+}: {
+  baby: Baby;
+  item: ScheduledItem;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { complete, isPending } = useScheduleMutations(baby.id);
+  const today = todayString();
+  const [completedOn, setCompletedOn] = useState(
+    item.completedOn ?? (item.dueOn < today ? item.dueOn : today),
+  );
+  const [note, setNote] = useState(item.note ?? "");
+
+  const save = () =>
+    complete(
+      { itemKey: item.key, completion: { completedOn, note: note.trim() || null } },
+      { onSuccess: () => onOpenChange(false) },
+    );
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{item.title}</DialogTitle>
+          <DialogDescription>
+            {item.kind === "vaccine" ? "When was it given?" : "When was the check-up?"}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="completed-on">Date</Label>
+            <Input
+              id="completed-on"
+              type="date"
+              value={completedOn}
+              min={baby.birthDate}
+              max={today}
+              onChange={(e) => setCompletedOn(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="schedule-note">Note (optional)</Label>
+            <Textarea
+              id="schedule-note"
+              value={note}
+              maxLength={500}
+              placeholder={item.kind === "vaccine" ? "e.g. batch number, any reaction" : "e.g. what the doctor said"}
+              onChange={(e) => setNote(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button onClick={save} disabled={isPending || !completedOn}>
+            {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// The user's own link to subscribe to the schedule from a calendar app, which
+// picks up changes as items are marked done
+function CalendarFeedPopover({ baby }: { baby: Baby }) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const feedQueryKey = [...scheduleQueryKey(baby.id), "feed"];
+
+  const { data: feed } = useQuery<{ url: string }>({
+    queryKey: feedQueryKey,
+    enabled: open,
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/babies/${baby.id}/schedule/feed`);
+      return (await res.json()) as { url: string };
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData(feedQueryKey, updated);
+      toast({
+        title: "Link reset",
+        description: "The old link no longer works. Add the new one to your calendar app.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const copyLink = async () => {
+    if (!feed) return;
+    try {
+      await navigator.clipboard.writeText(feed.url);
+      toast({
+        title: "Link copied",
+        description: "Add it to your calendar app as a subscription.",
+      });
+    } catch {
+      toast({
+        title: "Couldn't copy link",
+        description: feed.url,
+      });
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm">
+          <CalendarPlus className="h-4 w-4 mr-1" />
+          Add to calendar
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 space-y-3">
+        <p className="text-sm">
+          Subscribe to this link in your calendar app to see every due date, kept up to date as
+          you mark things done.
+        </p>
+        {feed ? (
+          <>
+            <div className="flex gap-2">
+              <Input value={feed.url} readOnly onFocus={(e) => e.target.select()} />
+              <Button variant="outline" size="icon" onClick={copyLink} aria-label="Copy link">
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Anyone with the link can see the schedule, so only share it with people you trust.
+              If it gets out, reset it and the old one stops working.
+            </p>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" className="flex-1" asChild>
+                <a href={feed.url} download>
+                  <Download className="h-4 w-4 mr-1" />
+                  Download .ics
+                </a>
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => resetMutation.mutate()}
+                disabled={resetMutation.isPending}
+              >
+                {resetMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                ) : (
+                  <RefreshCw className="h-4 w-4 mr-1" />
+                )}
+                Reset link
+              </Button>
+            </div>
+          </>
+        ) : (
+          <div className="flex justify-center py-2">
+            <Loader2 className="h-5 w-5 animate-spin text-primary" />
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+// A baby's vaccinations and well-baby check-ups, worked out from their birth
+// date, grouped by the age they're due at
+export function HealthSchedule({ baby }: { baby: Baby }) {
+  const { undo, isPending } = useScheduleMutations(baby.id);
+  const [completing, setCompleting] = useState<ScheduledItem | null>(null);
+  const [showAll, setShowAll] = useState(false);
+
+  const { data: items = [], isLoading } = useQuery<ScheduledItem[]>({
+    queryKey: scheduleQueryKey(baby.id),
+  });
+
+  const today = todayString();
+  const horizon = addToDate(today, SHOWN_AHEAD_MONTHS);
+  const shown = showAll ? items : items.filter((item) => item.dueOn <= horizon);
+  const hiddenCount = items.length - shown.length;
+
+  // Consecutive items due on the same day share a heading
+  const groups: { dueOn: string; items: ScheduledItem[] }[] = [];
+  for (const item of shown) {
+    const last = groups[groups.length - 1];
+    if (last?.dueOn === item.dueOn) last.items.push(item);
+    else groups.push({ dueOn: item.dueOn, items: [item] });
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-start justify-between gap-2">
+          <div className="space-y-1.5">
+            <CardTitle className="text-2xl flex items-center gap-2">
+              <Syringe className="h-6 w-6" />
+              Vaccines &amp; Check-ups
+            </CardTitle>
+            <CardDescription>
+              {baby.name}'s schedule, worked out from their birth date. Your provider may
+              suggest different timing; go with what they say.
+            </CardDescription>
+          </div>
+          <CalendarFeedPopover baby={baby} />
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <>
+            {groups.map((group) => (
+              <div key={group.dueOn} className="space-y-2">
+                <h4 className="text-sm font-medium">
+                  {ageLabel(group.items[0])}
+                  <span className="font-normal text-muted-foreground">
+                    {" "}· {format(parseISO(group.dueOn), "d MMM yyyy")}
+                  </span>
+                </h4>
+                <ul className="space-y-2">
+                  {group.items.map((item) => {
+                    const status = scheduleItemStatus(item, today);
+                    const Icon = item.kind === "vaccine" ? Syringe : Stethoscope;
+                    return (
+                      <li key={item.key} className="flex items-start gap-3 rounded-md border p-3">
+                        <Icon className="h-4 w-4 mt-0.5 shrink-0 text-muted-foreground" />
+                        <div className="flex-1 min-w-0">
+                          <p className={status === "done" ? "text-muted-foreground" : "font-medium"}>
+                            {item.title}
+                          </p>
+                          {item.description && (
+                            <p className="text-xs text-muted-foreground">{item.description}</p>
+                          )}
+                          {item.note && <p className="text-xs mt-1">{item.note}</p>}
+                        </div>
+                        <Badge variant={statusBadgeVariants[status]} className="shrink-0">
+                          {item.completedOn
+                            ? `Done ${format(parseISO(item.completedOn), "d MMM")}`
+                            : dueLabel(item, today)}
+                        </Badge>
+                        {item.completedOn ? (
+                          <div className="flex shrink-0">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => setCompleting(item)}
+                              aria-label="Change date"
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => undo(item.key)}
+                              disabled={isPending}
+                              aria-label="Mark not done"
+                            >
+                              <Undo2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        ) : (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="shrink-0"
+                            onClick={() => setCompleting(item)}
+                          >
+                            <Check className="h-4 w-4 mr-1" />
+                            Done
+                          </Button>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+            ))}
+            {hiddenCount > 0 && (
+              <Button variant="ghost" size="sm" className="w-full" onClick={() => setShowAll(true)}>
+                Show {hiddenCount} later {hiddenCount === 1 ? "item" : "items"}
+              </Button>
+            )}
+          </>
+        )}
+      </CardContent>
+
+      {completing && (
+        <CompleteDialog
+          key={completing.key}
+          baby={baby}
+          item={completing}
+          onOpenChange={(open) => !open && setCompleting(null)}
+        />
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,277 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { HouseholdInvitation } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Loader2, Home, Mail, UserPlus, X, Check } from "lucide-react";
+
+interface HouseholdMember {
+  id: number;
+  username: string;
+  fullName: string;
+  email: string;
+}
+
+interface HouseholdData {
+  id: number;
+  createdAt: string;
+  members: HouseholdMember[];
+  invitations: HouseholdInvitation[];
+}
+
+interface ReceivedInvitation {
+  id: number;
+  householdId: number;
+  email: string;
+  expiresAt: string;
+  createdAt: string;
+  invitedById: number;
+  invitedByName: string;
+}
+
+export function HouseholdCard() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [inviteEmail, setInviteEmail] = useState("");
+
+  const { data: household, isLoading: isHouseholdLoading } = useQuery<HouseholdData | null>({
+    queryKey: ["/api/household"],
+  });
+
+  // Invitations other parents have sent to this user's email
+  const { data: receivedInvitations = [] } = useQuery<ReceivedInvitation[]>({
+    queryKey: ["/api/household/invitations"],
+  });
+
+  // Joining or leaving a household changes which babies and cohorts the user sees
+  const invalidateHousehold = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/household"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/household/invitations"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/babies"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/user/cohorts"] });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const inviteMutation = useMutation({
+    mutationFn: async (email: string) => {
+      const res = await apiRequest("POST", "/api/household/invitations", { email });
+      return res.json();
+    },
+    onSuccess: () => {
+      setInviteEmail("");
+      invalidateHousehold();
+      toast({
+        title: "Invitation sent",
+        description: "They'll see it on their profile when they sign in with that email.",
+      });
+    },
+    onError,
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("DELETE", `/api/household/invitations/${id}`);
+      return res.json();
+    },
+    onSuccess: invalidateHousehold,
+    onError,
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("POST", `/api/household/invitations/${id}/accept`);
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateHousehold();
+      toast({
+        title: "Welcome to the household",
+        description: "You can now see and edit your shared baby profiles.",
+      });
+    },
+    onError,
+  });
+
+  const declineMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("POST", `/api/household/invitations/${id}/decline`);
+      return res.json();
+    },
+    onSuccess: invalidateHousehold,
+    onError,
+  });
+
+  const leaveMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/household/leave");
+      return res.json();
+    },
+    onSuccess: invalidateHousehold,
+    onError,
+  });
+
+  const handleInvite = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (inviteEmail.trim() === "") return;
+    inviteMutation.mutate(inviteEmail.trim());
+  };
+
+  const coParents = household?.members.filter(member => member.id !== user?.id) ?? [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-2xl flex items-center gap-2">
+          <Home className="h-6 w-6" />
+          Household
+        </CardTitle>
+        <CardDescription>
+          Co-parents in your household share baby profiles and cohorts
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isHouseholdLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <>
+            {/* Invitations this user has received */}
+            {!household && receivedInvitations.length > 0 && (
+              <div className="space-y-3">
+                <h4 className="text-sm font-medium">Invitations</h4>
+                {receivedInvitations.map((invitation) => (
+                  <div
+                    key={invitation.id}
+                    className="flex items-center justify-between p-3 rounded-lg border bg-primary/5"
+                  >
+                    <span className="text-sm">
+                      <span className="font-medium">{invitation.invitedByName}</span> invited you to
+                      share their household
+                    </span>
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        onClick={() => acceptMutation.mutate(invitation.id)}
+                        disabled={acceptMutation.isPending || declineMutation.isPending}
+                      >
+                        <Check className="h-4 w-4 mr-1" />
+                        Accept
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => declineMutation.mutate(invitation.id)}
+                        disabled={acceptMutation.isPending || declineMutation.isPending}
+                      >
+                        Decline
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* Co-parents */}
+            {coParents.length > 0 ? (
+              <div className="space-y-3">
+                {coParents.map((member) => (
+                  <div key={member.id} className="flex items-center gap-3">
+                    <Avatar className="h-8 w-8">
+                      <AvatarFallback className="text-xs">
+                        {member.fullName.split(" ").map((n) => n[0]).join("")}
+                      </AvatarFallback>
+                    </Avatar>
+                    <div>
+                      <div className="text-sm font-medium">{member.fullName}</div>
+                      <div className="text-xs text-muted-foreground">{member.email}</div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                You're not sharing your baby profiles with a co-parent yet.
+              </p>
+            )}
+
+            {/* Pending invitations sent from this household */}
+            {household && household.invitations.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">Pending Invitations</h4>
+                {household.invitations.map((invitation) => (
+                  <div key={invitation.id} className="flex items-center justify-between text-sm">
+                    <span className="flex items-center text-muted-foreground">
+                      <Mail className="h-3 w-3 mr-2" />
+                      {invitation.email}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => revokeMutation.mutate(invitation.id)}
+                      disabled={revokeMutation.isPending}
+                    >
+                      <X className="h-3 w-3 mr-1" />
+                      Revoke
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <Separator />
+
+            <form onSubmit={handleInvite} className="space-y-2">
+              <Label htmlFor="household-invite-email">Invite a co-parent</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="household-invite-email"
+                  type="email"
+                  placeholder="partner@example.com"
+                  value={inviteEmail}
+                  onChange={(e) => setInviteEmail(e.target.value)}
+                />
+                <Button type="submit" disabled={inviteMutation.isPending || !inviteEmail.trim()}>
+                  {inviteMutation.isPending ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <>
+                      <UserPlus className="h-4 w-4 mr-2" />
+                      Invite
+                    </>
+                  )}
+                </Button>
+              </div>
+            </form>
+
+            {household && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => leaveMutation.mutate()}
+                disabled={leaveMutation.isPending}
+              >
+                Leave Household
+              </Button>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
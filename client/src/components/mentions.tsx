@@ -0,0 +1,94 @@
+import { Fragment } from "react";
+import { Link } from "wouter";
+import { MentionedUser } from "@shared/schema";
+import { MentionCandidate } from "@/hooks/use-mention-autocomplete";
+import { cn } from "@/lib/utils";
+
+// Same rule the server uses to find mentions
+const MENTION_PATTERN = /(?<![\w@])@(\w(?:[\w.-]*\w)?)/g;
+
+// Renders post or comment text with each stored mention linked to the member
+// in the cohort's member list. "@name"s that didn't resolve to a member stay
+// plain text.
+export function MentionText({
+  content,
+  mentions,
+  cohortId,
+}: {
+  content: string;
+  mentions: MentionedUser[];
+  cohortId: number | null;
+}) {
+  if (mentions.length === 0 || !cohortId) return <>{content}</>;
+
+  const parts: React.ReactNode[] = [];
+  let lastIndex = 0;
+  for (const match of Array.from(content.matchAll(MENTION_PATTERN))) {
+    const mentioned = mentions.find(
+      (mention) => mention.username.toLowerCase() === match[1].toLowerCase(),
+    );
+    if (!mentioned) continue;
+
+    parts.push(content.slice(lastIndex, match.index));
+    parts.push(
+      <Link
+        key={match.index}
+        href={`/cohorts/${cohortId}?member=${encodeURIComponent(mentioned.username)}`}
+        className="text-primary font-medium hover:underline"
+      >
+        @{match[1]}
+      </Link>,
+    );
+    lastIndex = match.index! + match[0].length;
+  }
+  parts.push(content.slice(lastIndex));
+
+  return (
+    <>
+      {parts.map((part, index) => (
+        <Fragment key={index}>{part}</Fragment>
+      ))}
+    </>
+  );
+}
+
+// The dropdown under a post or comment box while typing "@name". Place it in
+// a relatively positioned wrapper around the field.
+export function MentionSuggestions({
+  suggestions,
+  activeIndex,
+  onChoose,
+}: {
+  suggestions: MentionCandidate[];
+  activeIndex: number;
+  onChoose: (member: MentionCandidate) => void;
+}) {
+  if (suggestions.length === 0) return null;
+
+  return (
+    <ul
+      role="listbox"
+      className="absolute left-0 top-full z-50 mt-1 w-64 rounded-md border bg-popover p-1 text-popover-foreground shadow-md"
+    >
+      {suggestions.map((member, index) => (
+        <li
+          key={member.id}
+          role="option"
+          aria-selected={index === activeIndex}
+          className={cn(
+            "cursor-pointer rounded-sm px-2 py-1.5 text-sm",
+            index === activeIndex && "bg-accent text-accent-foreground",
+          )}
+          // Keep focus in the field so typing can continue after choosing
+          onMouseDown={(e) => {
+            e.preventDefault();
+            onChoose(member);
+          }}
+        >
+          <span className="font-medium">{member.fullName}</span>
+          <span className="text-muted-foreground ml-2">@{member.username}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
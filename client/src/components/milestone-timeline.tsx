@@ -0,0 +1,380 @@
+import { useRef, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { differenceInMonths, format, parseISO } from "date-fns";
+import { Baby, BabyMilestoneWithDetails, Cohort, Milestone } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { feedQueryKey } from "@/hooks/use-cohort-feed";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { ImageIcon, Loader2, Pencil, Plus, Share2, Star, Trash2, X } from "lucide-react";
+
+const NOT_SHARED = "none";
+// How far ahead of the baby's age to suggest milestones
+const UPCOMING_LOOKAHEAD_MONTHS = 2;
+
+function milestonesQueryKey(babyId: number) {
+  return ["/api/babies", babyId, "milestones"];
+}
+
+function describeAge(birthDate: string, on: string) {
+  const months = differenceInMonths(parseISO(on), new Date(birthDate));
+  if (months < 1) return "in the first month";
+  return `at ${months} ${months === 1 ? "month" : "months"}`;
+}
+
+function describeTypicalAge(milestone: Milestone) {
+  return `Usually ${milestone.typicalFromMonths}–${milestone.typicalToMonths} months`;
+}
+
+// Logging a milestone, or editing one already logged when existing is set.
+// The parent can share it to one of their cohorts in the same step.
+function LogMilestoneDialog({
+  baby,
+  milestone,
+  existing,
+  open,
+  onOpenChange,
+}: {
+  baby: Baby;
+  milestone: Milestone;
+  existing?: BabyMilestoneWithDetails;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [achievedOn, setAchievedOn] = useState(existing?.achievedOn ?? format(new Date(), "yyyy-MM-dd"));
+  const [note, setNote] = useState(existing?.note ?? "");
+  const [photoUrl, setPhotoUrl] = useState<string | null>(existing?.photoUrl ?? null);
+  const [shareCohortId, setShareCohortId] = useState(NOT_SHARED);
+
+  const { data: cohorts = [] } = useQuery<Cohort[]>({
+    queryKey: ["/api/user/cohorts"],
+    enabled: open,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const url = `/api/babies/${baby.id}/milestones/${milestone.id}`;
+      await apiRequest("PUT", url, { achievedOn, note: note.trim() || null, photoUrl });
+      if (shareCohortId !== NOT_SHARED) {
+        await apiRequest("POST", `${url}/share`, { cohortId: parseInt(shareCohortId) });
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: milestonesQueryKey(baby.id) });
+      if (shareCohortId !== NOT_SHARED) {
+        queryClient.invalidateQueries({ queryKey: feedQueryKey(parseInt(shareCohortId)) });
+      }
+      onOpenChange(false);
+      toast({
+        title: "Milestone saved",
+        description: shareCohortId !== NOT_SHARED
+          ? "It's on the timeline and shared with your cohort."
+          : "It's on the timeline.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    if (file.size > 2 * 1024 * 1024) {
+      toast({
+        title: "Error",
+        description: "Image is too large. Please select an image smaller than 2MB.",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (!file.type.startsWith("image/")) {
+      toast({
+        title: "Error",
+        description: "Please select a valid image file.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = () => setPhotoUrl(reader.result as string);
+    reader.readAsDataURL(file);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{milestone.title}</DialogTitle>
+          <DialogDescription>
+            {milestone.description}. {describeTypicalAge(milestone)}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="milestone-date">When did it happen?</Label>
+            <Input
+              id="milestone-date"
+              type="date"
+              value={achievedOn}
+              min={baby.birthDate}
+              max={format(new Date(), "yyyy-MM-dd")}
+              onChange={(e) => setAchievedOn(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="milestone-note">Note (optional)</Label>
+            <Textarea
+              id="milestone-note"
+              value={note}
+              maxLength={500}
+              placeholder="How did it happen?"
+              onChange={(e) => setNote(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Photo (optional)</Label>
+            <input
+              type="file"
+              ref={fileInputRef}
+              onChange={handleFileChange}
+              accept="image/*"
+              className="hidden"
+            />
+            {photoUrl ? (
+              <div className="relative">
+                <img src={photoUrl} alt="Milestone" className="max-h-48 rounded-md object-contain bg-muted" />
+                <button
+                  onClick={() => {
+                    setPhotoUrl(null);
+                    if (fileInputRef.current) fileInputRef.current.value = "";
+                  }}
+                  className="absolute top-2 right-2 bg-background rounded-full p-1 shadow-sm"
+                  aria-label="Remove photo"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </div>
+            ) : (
+              <Button type="button" variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+                <ImageIcon className="h-4 w-4 mr-2" />
+                Add a photo
+              </Button>
+            )}
+          </div>
+
+          {cohorts.length > 0 && (
+            <div className="space-y-2">
+              <Label htmlFor="milestone-share">Share with a cohort</Label>
+              <Select value={shareCohortId} onValueChange={setShareCohortId}>
+                <SelectTrigger id="milestone-share">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NOT_SHARED}>Don't share</SelectItem>
+                  {cohorts.map((cohort) => (
+                    <SelectItem key={cohort.id} value={cohort.id.toString()}>
+                      {cohort.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending || !achievedOn}>
+            {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// A baby's milestones on the profile page: what they've reached so far, and
+// what's typically coming up for their age
+export function MilestoneTimeline({ baby }: { baby: Baby }) {
+  const { toast } = useToast();
+  const [logging, setLogging] = useState<{ milestone: Milestone; existing?: BabyMilestoneWithDetails } | null>(null);
+
+  const { data: catalogue = [] } = useQuery<Milestone[]>({
+    queryKey: ["/api/milestones"],
+  });
+
+  const { data: achieved = [], isLoading } = useQuery<BabyMilestoneWithDetails[]>({
+    queryKey: milestonesQueryKey(baby.id),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (milestoneId: number) => {
+      await apiRequest("DELETE", `/api/babies/${baby.id}/milestones/${milestoneId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: milestonesQueryKey(baby.id) });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const ageInMonths = differenceInMonths(new Date(), new Date(baby.birthDate));
+  const remaining = catalogue.filter(
+    (milestone) => !achieved.some((entry) => entry.milestoneId === milestone.id),
+  );
+  const upcoming = remaining.filter(
+    (milestone) => milestone.typicalFromMonths <= ageInMonths + UPCOMING_LOOKAHEAD_MONTHS,
+  );
+  const later = remaining.filter((milestone) => !upcoming.includes(milestone));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-2xl flex items-center gap-2">
+          <Star className="h-6 w-6" />
+          {baby.name}'s Milestones
+        </CardTitle>
+        <CardDescription>
+          Every baby gets there in their own time. Typical ages are only a guide.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : achieved.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No milestones logged yet.</p>
+        ) : (
+          <ol className="relative border-l ml-2 space-y-6">
+            {achieved.map((entry) => (
+              <li key={entry.id} className="ml-4">
+                <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full bg-primary" />
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <p className="text-sm text-muted-foreground">
+                      {format(parseISO(entry.achievedOn), "d MMM yyyy")} · {describeAge(baby.birthDate, entry.achievedOn)}
+                    </p>
+                    <p className="font-medium">{entry.milestone.title}</p>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    {entry.sharedPostId !== null && (
+                      <Badge variant="outline" className="mr-1">
+                        <Share2 className="h-3 w-3 mr-1" />
+                        Shared
+                      </Badge>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setLogging({ milestone: entry.milestone, existing: entry })}
+                      aria-label={`Edit ${entry.milestone.title}`}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => deleteMutation.mutate(entry.milestoneId)}
+                      disabled={deleteMutation.isPending}
+                      aria-label={`Remove ${entry.milestone.title}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+                {entry.note && <p className="text-sm whitespace-pre-wrap mt-1">{entry.note}</p>}
+                {entry.photoUrl && (
+                  <img
+                    src={entry.photoUrl}
+                    alt={entry.milestone.title}
+                    className="mt-2 max-h-48 rounded-md object-contain bg-muted"
+                  />
+                )}
+              </li>
+            ))}
+          </ol>
+        )}
+
+        {upcoming.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="font-semibold">Coming up around now</h3>
+            <ul className="divide-y">
+              {upcoming.map((milestone) => (
+                <li key={milestone.id} className="py-2 flex items-center justify-between gap-2">
+                  <div>
+                    <p className="font-medium">{milestone.title}</p>
+                    <p className="text-sm text-muted-foreground">{describeTypicalAge(milestone)}</p>
+                  </div>
+                  <Button variant="outline" size="sm" onClick={() => setLogging({ milestone })}>
+                    <Plus className="h-4 w-4 mr-1" />
+                    Log it
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {later.length > 0 && (
+          <div className="space-y-2">
+            <Label htmlFor="milestone-other">Reached something early?</Label>
+            <Select
+              value=""
+              onValueChange={(id) => {
+                const milestone = later.find((m) => m.id === parseInt(id));
+                if (milestone) setLogging({ milestone });
+              }}
+            >
+              <SelectTrigger id="milestone-other">
+                <SelectValue placeholder="Log another milestone" />
+              </SelectTrigger>
+              <SelectContent>
+                {later.map((milestone) => (
+                  <SelectItem key={milestone.id} value={milestone.id.toString()}>
+                    {milestone.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+      </CardContent>
+
+      {logging && (
+        <LogMilestoneDialog
+          key={`${logging.milestone.id}-${logging.existing?.id ?? "new"}`}
+          baby={baby}
+          milestone={logging.milestone}
+          existing={logging.existing}
+          open
+          onOpenChange={(open) => !open && setLogging(null)}
+        />
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,245 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Cohort,
+  NotificationCategory,
+  NotificationDelivery,
+  NotificationSettings,
+  defaultNotificationSettings,
+} from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Bell, Loader2 } from "lucide-react";
+
+const categoryLabels: Record<NotificationCategory, string> = {
+  comments: "Comments on my posts",
+  replies: "Replies to my comments",
+  reactions: "Reactions to my posts and comments",
+  newMembers: "New members in cohorts I moderate",
+  moderatorActions: "Moderator actions about me",
+  mentions: "Mentions",
+  meetupReminders: "Reminders for events I'm going to",
+  scheduleReminders: "Reminders for my baby's vaccines and check-ups",
+};
+
+const deliveryLabels: Record<NotificationDelivery, string> = {
+  in_app: "In-app only",
+  email: "In-app and email",
+  digest: "In-app and daily digest",
+  none: "Off",
+};
+
+const browserTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+const timeZones = Intl.supportedValuesOf("timeZone");
+
+export function NotificationSettingsCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [settings, setSettings] = useState<NotificationSettings>(defaultNotificationSettings);
+
+  const { data: savedSettings, isLoading } = useQuery<NotificationSettings>({
+    queryKey: ["/api/user/notification-settings"],
+  });
+
+  const { data: cohorts = [] } = useQuery<Cohort[]>({
+    queryKey: ["/api/user/cohorts"],
+  });
+
+  const { data: mutedCohortIds = [] } = useQuery<number[]>({
+    queryKey: ["/api/user/muted-cohorts"],
+  });
+
+  useEffect(() => {
+    if (savedSettings) setSettings(savedSettings);
+  }, [savedSettings]);
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: NotificationSettings) => {
+      const res = await apiRequest("PUT", "/api/user/notification-settings", data);
+      return res.json();
+    },
+    onSuccess: (updated: NotificationSettings) => {
+      queryClient.setQueryData(["/api/user/notification-settings"], updated);
+      toast({
+        title: "Success",
+        description: "Notification settings saved",
+      });
+    },
+    onError,
+  });
+
+  const muteMutation = useMutation({
+    mutationFn: async ({ cohortId, muted }: { cohortId: number; muted: boolean }) => {
+      const res = await apiRequest(muted ? "POST" : "DELETE", `/api/cohorts/${cohortId}/mute`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user/muted-cohorts"] });
+    },
+    onError,
+  });
+
+  const hasQuietHours = settings.quietHoursStart !== null;
+
+  const toggleQuietHours = (enabled: boolean) => {
+    setSettings({
+      ...settings,
+      quietHoursStart: enabled ? "22:00" : null,
+      quietHoursEnd: enabled ? "07:00" : null,
+      // Most people turning this on mean their own evening, not UTC's
+      timezone: enabled && settings.timezone === "UTC" ? browserTimeZone : settings.timezone,
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-2xl flex items-center gap-2">
+          <Bell className="h-6 w-6" />
+          Notification Settings
+        </CardTitle>
+        <CardDescription>Choose what you hear about and how</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <>
+            <div className="space-y-3">
+              {(Object.keys(categoryLabels) as NotificationCategory[]).map((category) => (
+                <div key={category} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                  <Label htmlFor={`notify-${category}`}>{categoryLabels[category]}</Label>
+                  <Select
+                    value={settings[category]}
+                    onValueChange={(value) =>
+                      setSettings({ ...settings, [category]: value as NotificationDelivery })
+                    }
+                  >
+                    <SelectTrigger id={`notify-${category}`} className="w-full sm:w-56">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(deliveryLabels) as NotificationDelivery[]).map((delivery) => (
+                        <SelectItem key={delivery} value={delivery}>
+                          {deliveryLabels[delivery]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            <Separator />
+
+            <div className="space-y-3">
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <Label htmlFor="quiet-hours">Quiet hours</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Emails are held until quiet hours end.
+                  </p>
+                </div>
+                <Switch id="quiet-hours" checked={hasQuietHours} onCheckedChange={toggleQuietHours} />
+              </div>
+              {hasQuietHours && (
+                <div className="flex flex-col sm:flex-row gap-2 sm:items-end">
+                  <div className="space-y-1">
+                    <Label htmlFor="quiet-hours-start">From</Label>
+                    <Input
+                      id="quiet-hours-start"
+                      type="time"
+                      className="w-full sm:w-32"
+                      value={settings.quietHoursStart ?? ""}
+                      onChange={(e) => setSettings({ ...settings, quietHoursStart: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="quiet-hours-end">Until</Label>
+                    <Input
+                      id="quiet-hours-end"
+                      type="time"
+                      className="w-full sm:w-32"
+                      value={settings.quietHoursEnd ?? ""}
+                      onChange={(e) => setSettings({ ...settings, quietHoursEnd: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-1 flex-1">
+                    <Label htmlFor="quiet-hours-timezone">Timezone</Label>
+                    <Select
+                      value={settings.timezone}
+                      onValueChange={(timezone) => setSettings({ ...settings, timezone })}
+                    >
+                      <SelectTrigger id="quiet-hours-timezone">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {timeZones.map((timeZone) => (
+                          <SelectItem key={timeZone} value={timeZone}>
+                            {timeZone.replace(/_/g, " ")}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              )}
+            </div>
+
+            <Button onClick={() => saveMutation.mutate(settings)} disabled={saveMutation.isPending}>
+              {saveMutation.isPending ? "Saving..." : "Save Settings"}
+            </Button>
+
+            {cohorts.length > 0 && (
+              <>
+                <Separator />
+                <div className="space-y-3">
+                  <div>
+                    <h4 className="text-sm font-medium">Muted cohorts</h4>
+                    <p className="text-sm text-muted-foreground">
+                      You won't get any notifications from a muted cohort.
+                    </p>
+                  </div>
+                  {cohorts.map((cohort) => (
+                    <div key={cohort.id} className="flex items-center justify-between gap-4">
+                      <Label htmlFor={`mute-cohort-${cohort.id}`}>{cohort.name}</Label>
+                      <Switch
+                        id={`mute-cohort-${cohort.id}`}
+                        checked={mutedCohortIds.includes(cohort.id)}
+                        onCheckedChange={(muted) => muteMutation.mutate({ cohortId: cohort.id, muted })}
+                        disabled={muteMutation.isPending}
+                      />
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
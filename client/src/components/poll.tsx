@@ -0,0 +1,172 @@
+import { useState } from "react";
+import { formatDistance } from "date-fns";
+import { PollResults } from "@shared/schema";
+import { usePollVote } from "@/hooks/use-poll";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { cn } from "@/lib/utils";
+import { Check, Loader2 } from "lucide-react";
+
+function describeClosing(closesAt: Date | null, isClosed: boolean) {
+  if (!closesAt) return null;
+  const distance = formatDistance(closesAt, new Date(), { addSuffix: true });
+  return isClosed ? `Closed ${distance}` : `Closes ${distance}`;
+}
+
+// A poll attached to a post. Members pick their options and vote; once they
+// have voted, or the poll has closed, they see the results instead.
+export function PollView({
+  cohortId,
+  postId,
+  poll,
+}: {
+  cohortId: number | null;
+  postId: number;
+  poll: PollResults;
+}) {
+  const { vote, retract, isPending } = usePollVote(cohortId, postId);
+  const [isChanging, setIsChanging] = useState(false);
+  const [selected, setSelected] = useState<number[]>([]);
+
+  const closesAt = poll.closesAt ? new Date(poll.closesAt) : null;
+  const isClosed = closesAt !== null && closesAt <= new Date();
+  const hasVoted = poll.myVotes.length > 0;
+  const showResults = isClosed || (hasVoted && !isChanging);
+
+  const toggleOption = (optionId: number) => {
+    if (!poll.multipleChoice) {
+      setSelected([optionId]);
+      return;
+    }
+    setSelected((current) =>
+      current.includes(optionId) ? current.filter((id) => id !== optionId) : [...current, optionId],
+    );
+  };
+
+  const startChanging = () => {
+    setSelected(poll.myVotes);
+    setIsChanging(true);
+  };
+
+  const submitVote = () => {
+    vote(selected);
+    setIsChanging(false);
+  };
+
+  const voteTotal = poll.options.reduce((sum, option) => sum + option.voteCount, 0);
+  const closing = describeClosing(closesAt, isClosed);
+
+  return (
+    <div className="space-y-2 rounded-md border p-3">
+      {showResults ? (
+        <TooltipProvider>
+          <ul className="space-y-2">
+            {poll.options.map((option) => {
+              const percent = voteTotal === 0 ? 0 : Math.round((option.voteCount / voteTotal) * 100);
+              const votedFor = poll.myVotes.includes(option.id);
+              const row = (
+                <div className="space-y-1">
+                  <div className="flex items-center justify-between text-sm">
+                    <span className={cn("flex items-center gap-1", votedFor && "font-medium")}>
+                      {votedFor && <Check className="h-3 w-3 text-primary" />}
+                      {option.text}
+                    </span>
+                    <span className="text-muted-foreground">{percent}%</span>
+                  </div>
+                  <Progress value={percent} className="h-2" />
+                </div>
+              );
+
+              return (
+                <li key={option.id}>
+                  {poll.anonymous || option.voters.length === 0 ? (
+                    row
+                  ) : (
+                    <Tooltip>
+                      <TooltipTrigger asChild>{row}</TooltipTrigger>
+                      <TooltipContent>
+                        {option.voters.map((voter) => voter.fullName).join(", ")}
+                      </TooltipContent>
+                    </Tooltip>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </TooltipProvider>
+      ) : (
+        <ul className="space-y-2">
+          {poll.options.map((option) => {
+            const isSelected = selected.includes(option.id);
+            return (
+              <li key={option.id}>
+                <Button
+                  type="button"
+                  variant="outline"
+                  className={cn(
+                    "w-full justify-start font-normal",
+                    isSelected && "border-primary bg-primary/10 text-primary",
+                  )}
+                  role={poll.multipleChoice ? "checkbox" : "radio"}
+                  aria-checked={isSelected}
+                  onClick={() => toggleOption(option.id)}
+                  disabled={isPending}
+                >
+                  {option.text}
+                </Button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-muted-foreground">
+        <span>
+          {poll.voterCount} {poll.voterCount === 1 ? "vote" : "votes"}
+          {poll.multipleChoice && " · Multiple choice"}
+          {poll.anonymous && " · Anonymous"}
+          {closing && ` · ${closing}`}
+        </span>
+
+        {!isClosed && (
+          <div className="flex gap-1">
+            {showResults ? (
+              <>
+                <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={startChanging} disabled={isPending}>
+                  Change vote
+                </Button>
+                <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={retract} disabled={isPending}>
+                  Take back vote
+                </Button>
+              </>
+            ) : (
+              <>
+                {isChanging && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 px-2 text-xs"
+                    onClick={() => setIsChanging(false)}
+                    disabled={isPending}
+                  >
+                    Cancel
+                  </Button>
+                )}
+                <Button
+                  size="sm"
+                  className="h-6 px-2 text-xs"
+                  onClick={submitVote}
+                  disabled={isPending || selected.length === 0}
+                >
+                  {isPending && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+                  Vote
+                </Button>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { Post, User, Comment } from "@shared/schema";
+import { CommentWithUser, FeedPost } from "@shared/schema";
 import { useState, useRef } from "react";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardFooter } from "@/components/ui/card";
@@ -15,15 +15,22 @@ import {
   X, 
   Check, 
   Loader2, 
-  Heart, 
   MessageSquare,
   ImageIcon,
-  Send
+  Send,
+  Reply,
+  ChevronDown,
+  ChevronRight
 } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
 import { cn } from "@/lib/utils";
+import { feedQueryKey, updateFeedPost } from "@/hooks/use-cohort-feed";
+import { useMentionAutocomplete } from "@/hooks/use-mention-autocomplete";
+import { MentionSuggestions, MentionText } from "@/components/mentions";
+import { ReactionBar } from "@/components/reactions";
+import { PollView } from "@/components/poll";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -47,8 +54,7 @@ import {
 } from "@/components/ui/collapsible";
 
 interface PostCardProps {
-  post: Post;
-  user: User;
+  post: FeedPost;
 }
 
 // Function to format the post time in a user-friendly way
@@ -69,103 +75,248 @@ function formatTime(date: Date): string {
   return format(date, "MMM d, yyyy 'at' h:mm a");
 }
 
-// Comment component
+// Replies nest up to this depth; deeper replies line up with their parent
+// instead of indenting further
+const MAX_REPLY_DEPTH = 3;
+
+type CommentNode = CommentWithUser & { replies: CommentNode[] };
+
+// Turns a post's flat comment list into threads, keeping the oldest-first
+// order. Replies whose parent is missing are shown as top-level comments.
+function buildCommentThreads(comments: CommentWithUser[]): CommentNode[] {
+  const nodes = new Map<number, CommentNode>(
+    comments.map((comment) => [comment.id, { ...comment, replies: [] }]),
+  );
+  const threads: CommentNode[] = [];
+  nodes.forEach((node) => {
+    const parent = node.parentCommentId !== null ? nodes.get(node.parentCommentId) : undefined;
+    (parent ? parent.replies : threads).push(node);
+  });
+  return threads;
+}
+
+function countReplies(comment: CommentNode): number {
+  return comment.replies.reduce(
+    (count, reply) => count + (reply.deletedAt ? 0 : 1) + countReplies(reply),
+    0,
+  );
+}
+
+// Comment component, rendering its replies beneath it
 function CommentItem({ 
   comment, 
+  depth,
+  replyingTo,
+  cohortId,
   onDelete, 
-  onUpdate 
+  onUpdate,
+  onReply
 }: { 
-  comment: any;
+  comment: CommentNode;
+  depth: number;
+  replyingTo?: string;
+  cohortId: number | null;
   onDelete: (id: number) => void;
   onUpdate: (id: number, content: string) => void;
+  onReply: (parentCommentId: number, content: string) => void;
 }) {
   const { user } = useAuth();
   const [isEditing, setIsEditing] = useState(false);
   const [editedContent, setEditedContent] = useState(comment.content);
+  const [isReplying, setIsReplying] = useState(false);
+  const [replyContent, setReplyContent] = useState("");
+  const [showReplies, setShowReplies] = useState(true);
+  const replyMentions = useMentionAutocomplete(cohortId, replyContent, setReplyContent);
   const isAuthor = user && user.id === comment.userId;
+  const replyCount = countReplies(comment);
   
   const handleUpdateComment = () => {
     if (editedContent.trim() === "") return;
     onUpdate(comment.id, editedContent);
     setIsEditing(false);
   };
+
+  const handleReply = () => {
+    if (replyContent.trim() === "") return;
+    onReply(comment.id, replyContent);
+    setReplyContent("");
+    setIsReplying(false);
+    setShowReplies(true);
+  };
   
   return (
-    <div className="flex gap-2 py-2">
-      <Avatar className="h-8 w-8">
-        <AvatarFallback className="text-xs">
-          {comment.fullName?.split(" ").map((n: string) => n[0]).join("") || "?"}
-        </AvatarFallback>
-      </Avatar>
-      
-      <div className="flex-1 space-y-1">
-        <div className="flex justify-between items-start">
-          <div>
-            <span className="text-sm font-medium">{comment.fullName || comment.username}</span>
-            <span className="text-xs text-muted-foreground ml-2">
-              {formatTime(new Date(comment.createdAt))}
-            </span>
-          </div>
+    <div>
+      {comment.deletedAt ? (
+        <p className="text-sm italic text-muted-foreground py-2">This comment was deleted</p>
+      ) : (
+        <div className="flex gap-2 py-2">
+          <Avatar className="h-8 w-8">
+            <AvatarFallback className="text-xs">
+              {comment.fullName?.split(" ").map((n: string) => n[0]).join("") || "?"}
+            </AvatarFallback>
+          </Avatar>
           
-          {isAuthor && !isEditing && (
-            <DropdownMenu>
-              <DropdownMenuTrigger asChild>
-                <Button variant="ghost" size="sm" className="h-6 w-6 p-0">
-                  <MoreHorizontal className="h-3 w-3" />
-                </Button>
-              </DropdownMenuTrigger>
-              <DropdownMenuContent align="end" className="text-xs">
-                <DropdownMenuItem onClick={() => setIsEditing(true)}>
-                  <Pencil className="mr-2 h-3 w-3" />
-                  Edit
-                </DropdownMenuItem>
-                <DropdownMenuItem onClick={() => onDelete(comment.id)}>
-                  <Trash2 className="mr-2 h-3 w-3" />
-                  Delete
-                </DropdownMenuItem>
-              </DropdownMenuContent>
-            </DropdownMenu>
-          )}
-        </div>
-        
-        {isEditing ? (
-          <div className="space-y-2">
-            <Input
-              value={editedContent}
-              onChange={(e) => setEditedContent(e.target.value)}
-              className="text-sm h-8"
-            />
-            <div className="flex justify-end gap-2">
-              <Button
-                variant="outline"
-                size="sm"
-                className="h-7 text-xs"
-                onClick={() => {
-                  setIsEditing(false);
-                  setEditedContent(comment.content);
-                }}
-              >
-                Cancel
-              </Button>
-              <Button
-                size="sm"
-                className="h-7 text-xs"
-                onClick={handleUpdateComment}
-                disabled={editedContent.trim() === ""}
-              >
-                Save
-              </Button>
+          <div className="flex-1 space-y-1">
+            <div className="flex justify-between items-start">
+              <div>
+                <span className="text-sm font-medium">{comment.fullName || comment.username}</span>
+                {replyingTo && (
+                  <span className="text-xs text-muted-foreground ml-2">replying to @{replyingTo}</span>
+                )}
+                <span className="text-xs text-muted-foreground ml-2">
+                  {formatTime(new Date(comment.createdAt!))}
+                </span>
+              </div>
+              
+              {isAuthor && !isEditing && (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="ghost" size="sm" className="h-6 w-6 p-0">
+                      <MoreHorizontal className="h-3 w-3" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end" className="text-xs">
+                    <DropdownMenuItem onClick={() => setIsEditing(true)}>
+                      <Pencil className="mr-2 h-3 w-3" />
+                      Edit
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => onDelete(comment.id)}>
+                      <Trash2 className="mr-2 h-3 w-3" />
+                      Delete
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
             </div>
+            
+            {isEditing ? (
+              <div className="space-y-2">
+                <Input
+                  value={editedContent}
+                  onChange={(e) => setEditedContent(e.target.value)}
+                  className="text-sm h-8"
+                />
+                <div className="flex justify-end gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-7 text-xs"
+                    onClick={() => {
+                      setIsEditing(false);
+                      setEditedContent(comment.content);
+                    }}
+                  >
+                    Cancel
+                  </Button>
+                  <Button
+                    size="sm"
+                    className="h-7 text-xs"
+                    onClick={handleUpdateComment}
+                    disabled={editedContent.trim() === ""}
+                  >
+                    Save
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <>
+                <p className="text-sm">
+                  <MentionText content={comment.content} mentions={comment.mentions ?? []} cohortId={cohortId} />
+                </p>
+                <div className="flex flex-wrap items-center gap-1">
+                  <ReactionBar
+                    target={{ cohortId, postId: comment.postId, commentId: comment.id }}
+                    reactions={comment.reactions}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 px-2 text-xs text-muted-foreground"
+                    onClick={() => setIsReplying(!isReplying)}
+                  >
+                    <Reply className="mr-1 h-3 w-3" />
+                    Reply
+                  </Button>
+                </div>
+              </>
+            )}
+
+            {isReplying && (
+              <div className="flex items-center gap-2">
+                <div className="relative flex-1">
+                  <Input
+                    autoFocus
+                    placeholder={`Reply to ${comment.fullName || comment.username}...`}
+                    value={replyContent}
+                    onChange={replyMentions.onChange}
+                    onSelect={replyMentions.onSelect}
+                    className="text-sm h-8"
+                    onKeyDown={(e) => {
+                      if (replyMentions.onKeyDown(e)) return;
+                      if (e.key === 'Enter' && !e.shiftKey) {
+                        e.preventDefault();
+                        handleReply();
+                      } else if (e.key === 'Escape') {
+                        setIsReplying(false);
+                      }
+                    }}
+                  />
+                  <MentionSuggestions
+                    suggestions={replyMentions.suggestions}
+                    activeIndex={replyMentions.activeIndex}
+                    onChoose={replyMentions.choose}
+                  />
+                </div>
+                <Button
+                  size="sm"
+                  className="h-8 px-3"
+                  onClick={handleReply}
+                  disabled={!replyContent.trim()}
+                >
+                  <Send className="h-3 w-3" />
+                </Button>
+              </div>
+            )}
           </div>
-        ) : (
-          <p className="text-sm">{comment.content}</p>
-        )}
-      </div>
+        </div>
+      )}
+
+      {comment.replies.length > 0 && (
+        <div className={cn(depth < MAX_REPLY_DEPTH && "ml-4 pl-3 border-l")}>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 px-2 -ml-2 text-xs text-muted-foreground"
+            onClick={() => setShowReplies(!showReplies)}
+          >
+            {showReplies ? (
+              <ChevronDown className="mr-1 h-3 w-3" />
+            ) : (
+              <ChevronRight className="mr-1 h-3 w-3" />
+            )}
+            {showReplies ? "Hide" : "Show"} {replyCount} {replyCount === 1 ? "reply" : "replies"}
+          </Button>
+          {showReplies &&
+            comment.replies.map((reply) => (
+              <CommentItem
+                key={reply.id}
+                comment={reply}
+                depth={Math.min(depth + 1, MAX_REPLY_DEPTH)}
+                replyingTo={depth >= MAX_REPLY_DEPTH && !comment.deletedAt ? comment.username : undefined}
+                cohortId={cohortId}
+                onDelete={onDelete}
+                onUpdate={onUpdate}
+                onReply={onReply}
+              />
+            ))}
+        </div>
+      )}
     </div>
   );
 }
 
-export function PostCard({ post, user }: PostCardProps) {
+export function PostCard({ post }: PostCardProps) {
+  const { user } = post;
   const { user: currentUser } = useAuth();
   const [isEditing, setIsEditing] = useState(false);
   const [editedContent, setEditedContent] = useState(post.content);
@@ -176,31 +327,14 @@ export function PostCard({ post, user }: PostCardProps) {
   const [newComment, setNewComment] = useState("");
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
+  const commentMentions = useMentionAutocomplete(post.cohortId, newComment, setNewComment);
   
   // Check if current user is the post author
   const isAuthor = currentUser && currentUser.id === post.userId;
   
-  // Fetch upvote count and user's upvote status
-  const { data: upvoteData } = useQuery({
-    queryKey: ['/api/posts', post.id, 'upvotes/count'],
-    queryFn: async () => {
-      const res = await apiRequest("GET", `/api/posts/${post.id}/upvotes/count`);
-      return res.json();
-    },
-    staleTime: 10000, // 10 seconds
-  });
-  
-  const { data: userUpvoteData } = useQuery({
-    queryKey: ['/api/posts', post.id, 'upvotes/user'],
-    queryFn: async () => {
-      const res = await apiRequest("GET", `/api/posts/${post.id}/upvotes/user`);
-      return res.json();
-    },
-    staleTime: 10000, // 10 seconds
-  });
-  
+  // Upvote and comment counts come with the post from the feed
   // Fetch comments when expanded
-  const { data: comments } = useQuery({
+  const { data: comments } = useQuery<CommentWithUser[]>({
     queryKey: ['/api/posts', post.id, 'comments'],
     queryFn: async () => {
       const res = await apiRequest("GET", `/api/posts/${post.id}/comments`);
@@ -218,7 +352,7 @@ export function PostCard({ post, user }: PostCardProps) {
     onSuccess: () => {
       setIsEditing(false);
       // Invalidate to refresh posts
-      queryClient.invalidateQueries({ queryKey: ['/api/cohorts', post.cohortId, 'posts'] });
+      queryClient.invalidateQueries({ queryKey: feedQueryKey(post.cohortId) });
       toast({
         title: "Success",
         description: "Post updated successfully",
@@ -241,7 +375,7 @@ export function PostCard({ post, user }: PostCardProps) {
     },
     onSuccess: () => {
       // Invalidate to refresh posts
-      queryClient.invalidateQueries({ queryKey: ['/api/cohorts', post.cohortId, 'posts'] });
+      queryClient.invalidateQueries({ queryKey: feedQueryKey(post.cohortId) });
       toast({
         title: "Success",
         description: "Post deleted successfully",
@@ -256,55 +390,20 @@ export function PostCard({ post, user }: PostCardProps) {
     },
   });
   
-  // Upvote mutations
-  const upvoteMutation = useMutation({
-    mutationFn: async (postId: number) => {
-      const res = await apiRequest("POST", "/api/upvotes", { postId });
-      return res.json();
-    },
-    onSuccess: () => {
-      // Invalidate upvote queries
-      queryClient.invalidateQueries({ queryKey: ['/api/posts', post.id, 'upvotes/count'] });
-      queryClient.invalidateQueries({ queryKey: ['/api/posts', post.id, 'upvotes/user'] });
-    },
-    onError: (error: Error) => {
-      toast({
-        title: "Error",
-        description: error.message || "Failed to upvote post",
-        variant: "destructive",
-      });
-    },
-  });
-  
-  const removeUpvoteMutation = useMutation({
-    mutationFn: async (postId: number) => {
-      const res = await apiRequest("DELETE", `/api/posts/${postId}/upvotes`);
-      return res.json();
-    },
-    onSuccess: () => {
-      // Invalidate upvote queries
-      queryClient.invalidateQueries({ queryKey: ['/api/posts', post.id, 'upvotes/count'] });
-      queryClient.invalidateQueries({ queryKey: ['/api/posts', post.id, 'upvotes/user'] });
-    },
-    onError: (error: Error) => {
-      toast({
-        title: "Error",
-        description: error.message || "Failed to remove upvote",
-        variant: "destructive",
-      });
-    },
-  });
-  
   // Comment mutations
   const addCommentMutation = useMutation({
-    mutationFn: async (data: { postId: number, content: string }) => {
+    mutationFn: async (data: { postId: number, content: string, parentCommentId?: number }) => {
       const res = await apiRequest("POST", "/api/comments", data);
       return res.json();
     },
-    onSuccess: () => {
-      setNewComment("");
+    onSuccess: (_data, variables) => {
+      // Replies are written in their own box under the comment
+      if (!variables.parentCommentId) {
+        setNewComment("");
+      }
       // Invalidate comments query to refresh
       queryClient.invalidateQueries({ queryKey: ['/api/posts', post.id, 'comments'] });
+      updateFeedPost(post.cohortId, post.id, (p) => ({ ...p, commentCount: p.commentCount + 1 }));
     },
     onError: (error: Error) => {
       toast({
@@ -341,6 +440,7 @@ export function PostCard({ post, user }: PostCardProps) {
     onSuccess: () => {
       // Invalidate comments query to refresh
       queryClient.invalidateQueries({ queryKey: ['/api/posts', post.id, 'comments'] });
+      updateFeedPost(post.cohortId, post.id, (p) => ({ ...p, commentCount: Math.max(p.commentCount - 1, 0) }));
     },
     onError: (error: Error) => {
       toast({
@@ -372,15 +472,6 @@ export function PostCard({ post, user }: PostCardProps) {
     setEditedPhotoUrl(post.photoUrl || null); // Reset photo URL
   };
   
-  // Toggle upvote
-  const toggleUpvote = () => {
-    if (userUpvoteData?.hasUpvoted) {
-      removeUpvoteMutation.mutate(post.id);
-    } else {
-      upvoteMutation.mutate(post.id);
-    }
-  };
-  
   // Add a comment
   const addComment = () => {
     if (newComment.trim() === "") return;
@@ -558,7 +649,11 @@ export function PostCard({ post, user }: PostCardProps) {
           </div>
         ) : (
           <div className="space-y-4">
-            <p className="whitespace-pre-wrap">{post.content}</p>
+            <p className="whitespace-pre-wrap">
+              <MentionText content={post.content} mentions={post.mentions} cohortId={post.cohortId} />
+            </p>
+
+            {post.poll && <PollView cohortId={post.cohortId} postId={post.id} poll={post.poll} />}
             
             {post.photoUrl && (
               <img 
@@ -574,26 +669,10 @@ export function PostCard({ post, user }: PostCardProps) {
       {!isEditing && (
         <CardFooter className="py-2 px-6 flex justify-between">
           <div className="flex items-center gap-6">
-            <Button 
-              variant="ghost" 
-              size="sm" 
-              onClick={toggleUpvote}
-              disabled={upvoteMutation.isPending || removeUpvoteMutation.isPending}
-              className={cn(
-                "flex items-center gap-1 px-2", 
-                userUpvoteData?.hasUpvoted ? "text-primary" : ""
-              )}
-            >
-              <Heart 
-                className={cn(
-                  "h-4 w-4", 
-                  userUpvoteData?.hasUpvoted ? "fill-primary" : ""
-                )} 
-              />
-              <span className="text-xs">
-                {upvoteData?.count || 0}
-              </span>
-            </Button>
+            <ReactionBar
+              target={{ cohortId: post.cohortId, postId: post.id, commentId: null }}
+              reactions={post.reactions}
+            />
             
             <Collapsible 
               open={showComments} 
@@ -608,7 +687,7 @@ export function PostCard({ post, user }: PostCardProps) {
                 >
                   <MessageSquare className="h-4 w-4" />
                   <span className="text-xs">
-                    {comments?.length || 0}
+                    {comments ? comments.filter((comment) => !comment.deletedAt).length : post.commentCount}
                   </span>
                 </Button>
               </CollapsibleTrigger>
@@ -630,18 +709,27 @@ export function PostCard({ post, user }: PostCardProps) {
                     {currentUser?.fullName.split(" ").map((n) => n[0]).join("") || "?"}
                   </AvatarFallback>
                 </Avatar>
-                <Input
-                  placeholder="Write a comment..."
-                  value={newComment}
-                  onChange={(e) => setNewComment(e.target.value)}
-                  className="flex-1 h-9"
-                  onKeyDown={(e) => {
-                    if (e.key === 'Enter' && !e.shiftKey) {
-                      e.preventDefault();
-                      addComment();
-                    }
-                  }}
-                />
+                <div className="relative flex-1">
+                  <Input
+                    placeholder="Write a comment..."
+                    value={newComment}
+                    onChange={commentMentions.onChange}
+                    onSelect={commentMentions.onSelect}
+                    className="h-9"
+                    onKeyDown={(e) => {
+                      if (commentMentions.onKeyDown(e)) return;
+                      if (e.key === 'Enter' && !e.shiftKey) {
+                        e.preventDefault();
+                        addComment();
+                      }
+                    }}
+                  />
+                  <MentionSuggestions
+                    suggestions={commentMentions.suggestions}
+                    activeIndex={commentMentions.activeIndex}
+                    onChoose={commentMentions.choose}
+                  />
+                </div>
                 <Button 
                   size="sm" 
                   onClick={addComment}
@@ -659,12 +747,17 @@ export function PostCard({ post, user }: PostCardProps) {
               {/* Comments list */}
               <div className="space-y-1 mt-4">
                 {comments && comments.length > 0 ? (
-                  comments.map((comment: any) => (
+                  buildCommentThreads(comments).map((comment) => (
                     <CommentItem 
                       key={comment.id} 
                       comment={comment} 
+                      depth={0}
+                      cohortId={post.cohortId}
                       onDelete={(id) => deleteCommentMutation.mutate(id)}
                       onUpdate={(id, content) => updateCommentMutation.mutate({ id, content })}
+                      onReply={(parentCommentId, content) =>
+                        addCommentMutation.mutate({ postId: post.id, content, parentCommentId })
+                      }
                     />
                   ))
                 ) : (
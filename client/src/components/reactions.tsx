@@ -0,0 +1,136 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { ReactionSummary, ReactionType, ReactionWithUser, reactionTypes } from "@shared/schema";
+import { ReactionTarget, reactionsQueryKey, useReactions } from "@/hooks/use-reactions";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { cn } from "@/lib/utils";
+import { Loader2, SmilePlus } from "lucide-react";
+
+const reactionDisplay: Record<ReactionType, { emoji: string; label: string }> = {
+  heart: { emoji: "❤️", label: "Love" },
+  hug: { emoji: "🤗", label: "Hug" },
+  laugh: { emoji: "😂", label: "Haha" },
+  same_here: { emoji: "🙋", label: "Same here" },
+  wow: { emoji: "😮", label: "Wow" },
+  sad: { emoji: "😢", label: "Sad" },
+};
+
+// Lists who reacted, fetched when the popover opens
+function WhoReacted({ target, total }: { target: ReactionTarget; total: number }) {
+  const [open, setOpen] = useState(false);
+
+  const { data: reactions = [], isLoading } = useQuery<ReactionWithUser[]>({
+    queryKey: reactionsQueryKey(target),
+    enabled: open,
+  });
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="link" size="sm" className="h-6 px-1 text-xs text-muted-foreground">
+          {total} {total === 1 ? "reaction" : "reactions"}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-64 p-2">
+        {isLoading ? (
+          <div className="flex justify-center py-2">
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <ul className="max-h-64 overflow-y-auto space-y-1">
+            {reactions.map((reaction) => (
+              <li
+                key={`${reaction.user.id}-${reaction.type}`}
+                className="flex items-center justify-between text-sm"
+              >
+                <span>{reaction.user.fullName}</span>
+                <span title={reactionDisplay[reaction.type].label}>
+                  {reactionDisplay[reaction.type].emoji}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+// The reactions on a post or comment. Clicking a reaction adds or takes back
+// the user's own; the picker offers the rest of the palette.
+export function ReactionBar({
+  target,
+  reactions,
+  className,
+}: {
+  target: ReactionTarget;
+  reactions: ReactionSummary[];
+  className?: string;
+}) {
+  const { toggle, isPending } = useReactions(target);
+  const [pickerOpen, setPickerOpen] = useState(false);
+
+  const summaries = reactionTypes.flatMap((type) => {
+    const summary = reactions.find((reaction) => reaction.type === type);
+    return summary ? [summary] : [];
+  });
+  const total = summaries.reduce((sum, summary) => sum + summary.count, 0);
+  const hasReacted = (type: ReactionType) =>
+    summaries.some((summary) => summary.type === type && summary.reacted);
+
+  return (
+    <div className={cn("flex flex-wrap items-center gap-1", className)}>
+      {summaries.map((summary) => (
+        <Button
+          key={summary.type}
+          variant="outline"
+          size="sm"
+          title={reactionDisplay[summary.type].label}
+          className={cn(
+            "h-6 px-2 gap-1 rounded-full text-xs",
+            summary.reacted && "border-primary bg-primary/10 text-primary",
+          )}
+          onClick={() => toggle(summary.type, summary.reacted)}
+          disabled={isPending}
+        >
+          <span>{reactionDisplay[summary.type].emoji}</span>
+          {summary.count}
+        </Button>
+      ))}
+
+      <Popover open={pickerOpen} onOpenChange={setPickerOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 w-6 p-0 text-muted-foreground"
+            aria-label="Add a reaction"
+          >
+            <SmilePlus className="h-4 w-4" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="start" className="w-auto p-1 flex gap-1">
+          {reactionTypes.map((type) => (
+            <Button
+              key={type}
+              variant="ghost"
+              size="sm"
+              title={reactionDisplay[type].label}
+              className={cn("h-8 w-8 p-0 text-lg", hasReacted(type) && "bg-primary/10")}
+              onClick={() => {
+                toggle(type, hasReacted(type));
+                setPickerOpen(false);
+              }}
+              disabled={isPending}
+            >
+              {reactionDisplay[type].emoji}
+            </Button>
+          ))}
+        </PopoverContent>
+      </Popover>
+
+      {total > 0 && <WhoReacted target={target} total={total} />}
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { SuggestedCohort } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Baby as BabyIcon, Loader2, MessageSquare, Users } from "lucide-react";
+
+function describeAgeGap(weeks: number) {
+  if (weeks === 0) return "Babies born the same week as yours";
+  if (weeks <= 4) return `Babies within ${weeks} ${weeks === 1 ? "week" : "weeks"} of yours`;
+  return `Babies about ${Math.round(weeks / 4)} months apart from yours`;
+}
+
+export function SuggestedCohorts() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: suggestions = [], isLoading } = useQuery<SuggestedCohort[]>({
+    queryKey: ["/api/cohorts/suggested"],
+  });
+
+  const { data: joinRequests = [] } = useQuery<{ cohortId: number; status: string }[]>({
+    queryKey: ["/api/user/join-requests"],
+  });
+
+  const hasPendingRequest = (cohortId: number) =>
+    joinRequests.some((request) => request.cohortId === cohortId && request.status === "pending");
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const joinMutation = useMutation({
+    mutationFn: async (cohortId: number) => {
+      return apiRequest("POST", `/api/cohorts/${cohortId}/join`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user/cohorts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/cohorts/suggested"] });
+      toast({
+        title: "Joined cohort",
+        description: "You're now a member of this cohort.",
+      });
+    },
+    onError,
+  });
+
+  const requestMutation = useMutation({
+    mutationFn: async (cohortId: number) => {
+      return apiRequest("POST", `/api/cohorts/${cohortId}/join-requests`, {});
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user/join-requests"] });
+      toast({
+        title: "Request sent",
+        description: "A moderator will review your request to join.",
+      });
+    },
+    onError,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (suggestions.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-xl font-semibold">Suggested Cohorts</h2>
+      {suggestions.map((cohort) => (
+        <Card key={cohort.id}>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-lg">{cohort.name}</CardTitle>
+            {cohort.description && (
+              <CardDescription className="line-clamp-2">{cohort.description}</CardDescription>
+            )}
+            <div className="flex flex-wrap gap-2 pt-2">
+              {cohort.birthWeekGap !== null && (
+                <Badge variant="outline">
+                  <BabyIcon className="h-3 w-3 mr-1" />
+                  {describeAgeGap(cohort.birthWeekGap)}
+                </Badge>
+              )}
+              <Badge variant="outline">
+                <Users className="h-3 w-3 mr-1" />
+                {cohort.memberCount} {cohort.memberCount === 1 ? "member" : "members"}
+              </Badge>
+              {cohort.recentPostCount > 0 && (
+                <Badge variant="outline">
+                  <MessageSquare className="h-3 w-3 mr-1" />
+                  {cohort.recentPostCount} posts this month
+                </Badge>
+              )}
+            </div>
+          </CardHeader>
+          <CardFooter>
+            {cohort.privacy === "public" ? (
+              <Button
+                className="w-full"
+                onClick={() => joinMutation.mutate(cohort.id)}
+                disabled={joinMutation.isPending}
+              >
+                Join Cohort
+              </Button>
+            ) : hasPendingRequest(cohort.id) ? (
+              <Button variant="outline" className="w-full" disabled>
+                Request pending
+              </Button>
+            ) : (
+              <Button
+                variant="outline"
+                className="w-full"
+                onClick={() => requestMutation.mutate(cohort.id)}
+                disabled={requestMutation.isPending}
+              >
+                Request to Join
+              </Button>
+            )}
+          </CardFooter>
+        </Card>
+      ))}
+    </div>
+  );
+}
@@ -1,12 +1,19 @@
 import { Link, useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
 import { Button } from "@/components/ui/button";
-import { Users, Shield } from "lucide-react";
+import { Users, Shield, Bell } from "lucide-react";
 
 export function Navigation() {
   const { user, logoutMutation } = useAuth();
   const [location] = useLocation();
 
+  const { data: unread } = useQuery<{ count: number }>({
+    queryKey: ["/api/notifications/unread-count"],
+    enabled: !!user,
+    refetchInterval: 30000, // Refetch every 30 seconds
+  });
+
   if (!user) return null;
 
   const isAdmin = user.role === "admin";
@@ -19,6 +26,9 @@ export function Navigation() {
             <Link href="/" className={`text-lg ${location === "/" ? "font-bold text-black" : "text-foreground"}`}>
               Home
             </Link>
+            <Link href="/log" className={`text-lg ${location === "/log" ? "font-bold text-black" : "text-foreground"}`}>
+              Daily Log
+            </Link>
             <Link href="/profile" className={`text-lg ${location === "/profile" ? "font-bold text-black" : "text-foreground"}`}>
               Profile
             </Link>
@@ -32,13 +42,25 @@ export function Navigation() {
               </Link>
             )}
           </div>
-          <Button 
-            variant="ghost" 
-            onClick={() => logoutMutation.mutate()}
-            disabled={logoutMutation.isPending}
-          >
-            Logout
-          </Button>
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" size="icon" asChild className="relative">
+              <Link href="/notifications" aria-label="Notifications">
+                <Bell className="h-5 w-5" />
+                {!!unread?.count && (
+                  <span className="absolute -top-0.5 -right-0.5 min-w-[1.25rem] h-5 px-1 rounded-full bg-primary text-primary-foreground text-xs flex items-center justify-center">
+                    {unread.count > 99 ? "99+" : unread.count}
+                  </span>
+                )}
+              </Link>
+            </Button>
+            <Button 
+              variant="ghost" 
+              onClick={() => logoutMutation.mutate()}
+              disabled={logoutMutation.isPending}
+            >
+              Logout
+            </Button>
+          </div>
         </div>
       </div>
     </nav>
@@ -0,0 +1,81 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { BabySchedule, ScheduledItem } from "@shared/schema";
+import { scheduleItemStatus } from "@shared/health-schedule";
+import { upcomingScheduleQueryKey, useScheduleMutations } from "@/hooks/use-health-schedule";
+import { dueLabel, todayString } from "@/components/health-schedule";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { CalendarClock, Check } from "lucide-react";
+
+// The rest are on the baby's full schedule
+const MAX_ITEMS_PER_BABY = 4;
+
+function UpcomingItem({ babyId, item, today }: { babyId: number; item: ScheduledItem; today: string }) {
+  const { complete, isPending } = useScheduleMutations(babyId);
+  const status = scheduleItemStatus(item, today);
+
+  return (
+    <li className="flex items-center gap-2">
+      <div className="flex-1 min-w-0">
+        <p className="text-sm truncate">{item.title}</p>
+        <p className={`text-xs ${status === "overdue" ? "text-destructive" : "text-muted-foreground"}`}>
+          {dueLabel(item, today)}
+        </p>
+      </div>
+      {/* Quick way to tick off something done today; the full schedule takes
+          other dates */}
+      {item.dueOn <= today && (
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => complete({ itemKey: item.key, completion: { completedOn: today } })}
+          disabled={isPending}
+          aria-label={`Mark ${item.title} done today`}
+        >
+          <Check className="h-4 w-4" />
+        </Button>
+      )}
+    </li>
+  );
+}
+
+// Vaccines and check-ups coming up in the next few weeks, or overdue, for
+// each of the user's babies. Hidden when there's nothing to do.
+export function UpcomingSchedule() {
+  const { data: schedules = [] } = useQuery<BabySchedule[]>({
+    queryKey: upcomingScheduleQueryKey,
+  });
+
+  if (schedules.length === 0) return null;
+
+  const today = todayString();
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <CalendarClock className="h-5 w-5" />
+          Coming Up
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {schedules.map(({ baby, items }) => (
+          <div key={baby.id} className="space-y-2">
+            {schedules.length > 1 && <h4 className="text-sm font-medium">{baby.name}</h4>}
+            <ul className="space-y-2">
+              {items.slice(0, MAX_ITEMS_PER_BABY).map((item) => (
+                <UpcomingItem key={item.key} babyId={baby.id} item={item} today={today} />
+              ))}
+            </ul>
+            <Link href={`/profile?baby=${baby.id}`} className="text-xs text-primary hover:underline">
+              {items.length > MAX_ITEMS_PER_BABY
+                ? `${items.length - MAX_ITEMS_PER_BABY} more on ${baby.name}'s schedule`
+                : `${baby.name}'s full schedule`}
+            </Link>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -11,7 +11,8 @@ import {
   Users, 
   Calendar, 
   User as UserIcon,
-  ShieldCheck
+  ShieldCheck,
+  Clock
 } from "lucide-react";
 import { format } from "date-fns";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
@@ -19,12 +20,27 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Link } from "wouter";
 
+interface JoinRequest {
+  id: number;
+  cohortId: number;
+  message: string | null;
+  status: "pending" | "approved" | "denied";
+  reviewedAt: string | null;
+  createdAt: string;
+  cohortName: string;
+}
+
 export function UserCohortsList() {
   // Fetch all cohorts the user belongs to
   const { data: cohorts = [], isLoading: isCohortsLoading } = useQuery<Cohort[]>({
     queryKey: ["/api/user/cohorts"],
   });
 
+  // Fetch the user's requests to join cohorts
+  const { data: joinRequests = [] } = useQuery<JoinRequest[]>({
+    queryKey: ["/api/user/join-requests"],
+  });
+
   if (isCohortsLoading) {
     return (
       <div className="flex justify-center py-4">
@@ -33,19 +49,44 @@ export function UserCohortsList() {
     );
   }
 
-  if (cohorts.length === 0) {
-    return (
-      <p className="text-sm text-muted-foreground py-2">
-        You are not a member of any cohorts yet.
-      </p>
-    );
-  }
-
   return (
     <div className="space-y-6">
-      {cohorts.map((cohort) => (
-        <CohortItem key={cohort.id} cohort={cohort} />
-      ))}
+      {joinRequests.length > 0 && <JoinRequestList requests={joinRequests} />}
+
+      {cohorts.length === 0 ? (
+        <p className="text-sm text-muted-foreground py-2">
+          You are not a member of any cohorts yet.
+        </p>
+      ) : (
+        cohorts.map((cohort) => (
+          <CohortItem key={cohort.id} cohort={cohort} />
+        ))
+      )}
+    </div>
+  );
+}
+
+function JoinRequestList({ requests }: { requests: JoinRequest[] }) {
+  return (
+    <div>
+      <div className="flex items-center mb-2">
+        <Clock className="h-4 w-4 mr-1 text-primary" />
+        <span className="text-sm font-medium">Join Requests</span>
+      </div>
+      <div className="space-y-2">
+        {requests.map((request) => (
+          <div key={request.id} className="flex items-center justify-between text-sm">
+            <span>{request.cohortName}</span>
+            {request.status === "pending" ? (
+              <Badge variant="outline">Pending</Badge>
+            ) : request.status === "approved" ? (
+              <Badge variant="outline" className="bg-green-100 text-green-800">Approved</Badge>
+            ) : (
+              <Badge variant="outline" className="bg-red-100 text-red-800">Denied</Badge>
+            )}
+          </div>
+        ))}
+      </div>
     </div>
   );
 }
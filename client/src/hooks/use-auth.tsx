@@ -22,12 +22,14 @@ type AuthContextType = {
   setIsNewUser: (value: boolean) => void;
   loginMutation: UseMutationResult<SelectUser, Error, LoginData>;
   logoutMutation: UseMutationResult<void, Error, void>;
-  registerMutation: UseMutationResult<SelectUser, Error, InsertUser>;
-  forgotPasswordMutation: UseMutationResult<{message: string, token?: string}, Error, ForgotPassword>;
+  registerMutation: UseMutationResult<SelectUser, Error, RegisterData>;
+  forgotPasswordMutation: UseMutationResult<{message: string}, Error, ForgotPassword>;
   resetPasswordMutation: UseMutationResult<{message: string}, Error, ResetPassword>;
 };
 
 type LoginData = Pick<InsertUser, "username" | "password">;
+// inviteToken joins the new account to the cohort behind an invite link
+type RegisterData = InsertUser & { inviteToken?: string };
 
 export const AuthContext = createContext<AuthContextType | null>(null);
 
@@ -72,7 +74,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   });
 
   const registerMutation = useMutation({
-    mutationFn: async (credentials: InsertUser) => {
+    mutationFn: async (credentials: RegisterData) => {
       const res = await apiRequest("POST", "/api/register", credentials);
       return await res.json();
     },
@@ -0,0 +1,74 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { CareLogEntry, CareLogEntryInput, CareLogEntryWithUsers } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+// Co-parents usually log from their own phones; polling keeps each one's view
+// close to the other's
+const CARE_LOG_REFRESH_MS = 30 * 1000;
+
+export function careLogQueryKey(babyId: number) {
+  return ["/api/babies", babyId, "care-log"];
+}
+
+// Everything overlapping from-to, including feeds and sleeps still going on
+export function useCareLog(babyId: number, from: Date, to: Date) {
+  return useQuery<CareLogEntryWithUsers[]>({
+    queryKey: [...careLogQueryKey(babyId), from.toISOString(), to.toISOString()],
+    queryFn: async () => {
+      const params = new URLSearchParams({ from: from.toISOString(), to: to.toISOString() });
+      const res = await apiRequest("GET", `/api/babies/${babyId}/care-log?${params}`);
+      return res.json();
+    },
+    refetchInterval: CARE_LOG_REFRESH_MS,
+  });
+}
+
+// Adds, changes and removes entries. A change refused because a co-parent got
+// there first reloads the log, so they see what's there now.
+export function useCareLogMutations(babyId: number) {
+  const { toast } = useToast();
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: careLogQueryKey(babyId) });
+  const onError = (error: Error) => {
+    invalidate();
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (entry: CareLogEntryInput) => {
+      const res = await apiRequest("POST", `/api/babies/${babyId}/care-log`, entry);
+      return (await res.json()) as CareLogEntry;
+    },
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, version, entry }: { id: number; version: number; entry: CareLogEntryInput }) => {
+      const res = await apiRequest("PUT", `/api/babies/${babyId}/care-log/${id}`, { ...entry, version });
+      return (await res.json()) as CareLogEntry;
+    },
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/babies/${babyId}/care-log/${id}`);
+    },
+    onSuccess: invalidate,
+    onError,
+  });
+
+  return {
+    create: createMutation.mutate,
+    update: updateMutation.mutate,
+    remove: deleteMutation.mutate,
+    isPending: createMutation.isPending || updateMutation.isPending || deleteMutation.isPending,
+  };
+}
@@ -0,0 +1,138 @@
+import { useEffect } from "react";
+import { InfiniteData } from "@tanstack/react-query";
+import { CohortEvent, CommentWithUser, FeedPage } from "@shared/schema";
+import { queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { feedQueryKey, updateFeedPost } from "@/hooks/use-cohort-feed";
+import { updateCachedReactions } from "@/hooks/use-reactions";
+
+const MAX_RECONNECT_DELAY_MS = 30 * 1000;
+
+function commentsQueryKey(postId: number) {
+  return ["/api/posts", postId, "comments"];
+}
+
+function applyCohortEvent(event: CohortEvent, viewerId: number) {
+  switch (event.type) {
+    case "post_created":
+      queryClient.setQueryData<InfiniteData<FeedPage>>(feedQueryKey(event.cohortId), (data) => {
+        if (!data || data.pages.some((page) => page.posts.some((p) => p.id === event.post.id))) {
+          return data;
+        }
+        const [first, ...rest] = data.pages;
+        return { ...data, pages: [{ ...first, posts: [event.post, ...first.posts] }, ...rest] };
+      });
+      break;
+
+    case "post_updated":
+      updateFeedPost(event.cohortId, event.post.id, (post) => ({
+        ...post,
+        content: event.post.content,
+        photoUrl: event.post.photoUrl,
+        updatedAt: event.post.updatedAt,
+        mentions: event.post.mentions,
+      }));
+      break;
+
+    case "post_deleted":
+      queryClient.setQueryData<InfiniteData<FeedPage>>(feedQueryKey(event.cohortId), (data) =>
+        data && {
+          ...data,
+          pages: data.pages.map((page) => ({
+            ...page,
+            posts: page.posts.filter((post) => post.id !== event.postId),
+          })),
+        },
+      );
+      queryClient.removeQueries({ queryKey: ["/api/posts", event.postId] });
+      break;
+
+    case "comment_created":
+      // Our own comments and reactions are already applied by their mutations
+      if (event.actorId === viewerId) break;
+      queryClient.setQueryData<CommentWithUser[]>(commentsQueryKey(event.postId), (comments) =>
+        comments && !comments.some((c) => c.id === event.comment.id)
+          ? [...comments, event.comment]
+          : comments,
+      );
+      updateFeedPost(event.cohortId, event.postId, (post) => ({
+        ...post,
+        commentCount: event.commentCount,
+      }));
+      break;
+
+    case "reactions_changed":
+      if (event.actorId === viewerId) break;
+      // Take the new counts but keep our own reacted flags
+      updateCachedReactions(event, (current) =>
+        event.reactions.map((summary) => ({
+          ...summary,
+          reacted: current.some((reaction) => reaction.type === summary.type && reaction.reacted),
+        })),
+      );
+      break;
+
+    case "poll_voted":
+      if (event.actorId === viewerId) break;
+      // Take the new tallies but keep our own votes
+      updateFeedPost(event.cohortId, event.postId, (post) => ({
+        ...post,
+        poll: { ...event.poll, myVotes: post.poll?.myVotes ?? [] },
+      }));
+      break;
+  }
+}
+
+// Keeps a cohort's cached feed and comments up to date with what other members
+// post, over the server's /ws socket. Reconnects with backoff if the connection
+// drops, and refetches the feed afterwards to catch up on anything missed.
+export function useCohortEvents(cohortId: number | undefined) {
+  const { user } = useAuth();
+  const viewerId = user?.id;
+
+  useEffect(() => {
+    if (!cohortId || isNaN(cohortId) || !viewerId) return;
+
+    let socket: WebSocket;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let reconnectDelay = 1000;
+    let hasConnected = false;
+    let stopped = false;
+
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      socket = new WebSocket(`${protocol}//${window.location.host}/ws`);
+
+      socket.onopen = () => {
+        reconnectDelay = 1000;
+        socket.send(JSON.stringify({ type: "subscribe", cohortId }));
+        if (hasConnected) {
+          queryClient.invalidateQueries({ queryKey: feedQueryKey(cohortId) });
+        }
+        hasConnected = true;
+      };
+
+      socket.onmessage = (message) => {
+        try {
+          applyCohortEvent(JSON.parse(message.data), viewerId);
+        } catch (err) {
+          console.error("Failed to apply cohort event", err);
+        }
+      };
+
+      socket.onclose = () => {
+        if (stopped) return;
+        reconnectTimer = setTimeout(connect, reconnectDelay);
+        reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY_MS);
+      };
+    };
+
+    connect();
+
+    return () => {
+      stopped = true;
+      clearTimeout(reconnectTimer);
+      socket.close();
+    };
+  }, [cohortId, viewerId]);
+}
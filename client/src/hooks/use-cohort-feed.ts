@@ -0,0 +1,76 @@
+import { useCallback, useEffect, useMemo, useRef } from "react";
+import { InfiniteData, useInfiniteQuery } from "@tanstack/react-query";
+import { FeedPage, FeedPost } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useCohortEvents } from "@/hooks/use-cohort-events";
+
+export function feedQueryKey(cohortId: number | null | undefined) {
+  return ["/api/cohorts", cohortId, "posts"];
+}
+
+// Patches a single post in every cached page of a cohort's feed, so reactions and
+// comment counts update without refetching the whole feed
+export function updateFeedPost(
+  cohortId: number | null | undefined,
+  postId: number,
+  update: (post: FeedPost) => FeedPost,
+) {
+  queryClient.setQueryData<InfiniteData<FeedPage>>(feedQueryKey(cohortId), (data) => {
+    if (!data) return data;
+    return {
+      ...data,
+      pages: data.pages.map((page) => ({
+        ...page,
+        posts: page.posts.map((post) => (post.id === postId ? update(post) : post)),
+      })),
+    };
+  });
+}
+
+// New posts, comments and reactions from other members arrive over the cohort's
+// realtime socket as they happen, so the feed isn't polled. The socket refetches
+// it after reconnecting to catch up on anything it missed.
+export function useCohortFeed(cohortId: number | undefined) {
+  useCohortEvents(cohortId);
+
+  const query = useInfiniteQuery({
+    queryKey: feedQueryKey(cohortId),
+    queryFn: async ({ pageParam }) => {
+      const url = pageParam
+        ? `/api/cohorts/${cohortId}/posts?cursor=${pageParam}`
+        : `/api/cohorts/${cohortId}/posts`;
+      const res = await apiRequest("GET", url);
+      return (await res.json()) as FeedPage;
+    },
+    initialPageParam: null as number | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: !!cohortId && !isNaN(cohortId),
+  });
+
+  const { hasNextPage, isFetchingNextPage, fetchNextPage } = query;
+  const observerRef = useRef<IntersectionObserver | null>(null);
+
+  // Attach to an element at the bottom of the feed; the next page loads as it
+  // scrolls into view
+  const loadMoreRef = useCallback(
+    (node: HTMLElement | null) => {
+      observerRef.current?.disconnect();
+      if (!node) return;
+
+      observerRef.current = new IntersectionObserver((entries) => {
+        if (entries[0].isIntersecting && hasNextPage && !isFetchingNextPage) {
+          fetchNextPage();
+        }
+      });
+      observerRef.current.observe(node);
+    },
+    [hasNextPage, isFetchingNextPage, fetchNextPage],
+  );
+
+  useEffect(() => () => observerRef.current?.disconnect(), []);
+
+  // Stable between renders so callers can depend on it in effects
+  const posts = useMemo(() => query.data?.pages.flatMap((page) => page.posts) ?? [], [query.data]);
+
+  return { ...query, posts, loadMoreRef };
+}
@@ -0,0 +1,53 @@
+import { useMutation } from "@tanstack/react-query";
+import { ScheduledItem, ScheduleItemCompletion } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+export function scheduleQueryKey(babyId: number) {
+  return ["/api/babies", babyId, "schedule"];
+}
+
+// What's coming up for all of the user's babies, shown on the home page
+export const upcomingScheduleQueryKey = ["/api/schedule/upcoming"];
+
+// Marks vaccines and check-ups done, or undoes that, keeping both the baby's
+// full schedule and the home page's list in step
+export function useScheduleMutations(babyId: number) {
+  const { toast } = useToast();
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: scheduleQueryKey(babyId) });
+    queryClient.invalidateQueries({ queryKey: upcomingScheduleQueryKey });
+  };
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const completeMutation = useMutation({
+    mutationFn: async ({ itemKey, completion }: { itemKey: string; completion: ScheduleItemCompletion }) => {
+      const res = await apiRequest("PUT", `/api/babies/${babyId}/schedule/${itemKey}`, completion);
+      return (await res.json()) as ScheduledItem;
+    },
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const undoMutation = useMutation({
+    mutationFn: async (itemKey: string) => {
+      const res = await apiRequest("DELETE", `/api/babies/${babyId}/schedule/${itemKey}`);
+      return (await res.json()) as ScheduledItem;
+    },
+    onSuccess: invalidate,
+    onError,
+  });
+
+  return {
+    complete: completeMutation.mutate,
+    undo: undoMutation.mutate,
+    isPending: completeMutation.isPending || undoMutation.isPending,
+  };
+}
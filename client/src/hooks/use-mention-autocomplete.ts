@@ -0,0 +1,94 @@
+import { KeyboardEvent, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { User } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+
+export type MentionCandidate = Pick<User, "id" | "username" | "fullName">;
+
+const MAX_SUGGESTIONS = 5;
+
+// The "@partial" the caret is sitting at the end of, if any
+function findMentionQuery(value: string, caret: number) {
+  const match = /(?:^|\s)@([\w.-]*)$/.exec(value.slice(0, caret));
+  return match ? { start: caret - match[1].length - 1, text: match[1] } : null;
+}
+
+// Suggests cohort members while the user types "@name" into a post or comment
+// box. Wire onChange, onKeyDown and onSelect into the field and render
+// MentionSuggestions with the rest.
+export function useMentionAutocomplete(
+  cohortId: number | null | undefined,
+  value: string,
+  setValue: (value: string) => void,
+) {
+  const { user } = useAuth();
+  const [query, setQuery] = useState<{ start: number; text: string } | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const { data: members = [] } = useQuery<MentionCandidate[]>({
+    queryKey: ["/api/cohorts", cohortId, "members"],
+    enabled: !!cohortId && query !== null,
+  });
+
+  const suggestions = query
+    ? members
+        .filter((member) => {
+          const text = query.text.toLowerCase();
+          return (
+            member.id !== user?.id &&
+            (member.username.toLowerCase().startsWith(text) ||
+              member.fullName.toLowerCase().includes(text))
+          );
+        })
+        .slice(0, MAX_SUGGESTIONS)
+    : [];
+
+  const updateQuery = (field: HTMLInputElement | HTMLTextAreaElement) => {
+    setQuery(findMentionQuery(field.value, field.selectionStart ?? field.value.length));
+    setActiveIndex(0);
+  };
+
+  const choose = (member: MentionCandidate) => {
+    if (!query) return;
+    const before = value.slice(0, query.start);
+    const after = value.slice(query.start + 1 + query.text.length);
+    setValue(`${before}@${member.username} ${after.replace(/^\s+/, "")}`);
+    setQuery(null);
+  };
+
+  return {
+    suggestions,
+    activeIndex,
+    choose,
+    onChange: (e: { target: HTMLInputElement | HTMLTextAreaElement }) => {
+      setValue(e.target.value);
+      updateQuery(e.target);
+    },
+    onSelect: (e: { currentTarget: HTMLInputElement | HTMLTextAreaElement }) => {
+      updateQuery(e.currentTarget);
+    },
+    // Returns true when the key was used to pick a suggestion, so callers can
+    // skip their own handling (e.g. Enter to submit)
+    onKeyDown: (e: KeyboardEvent) => {
+      if (suggestions.length === 0) return false;
+
+      if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+        e.preventDefault();
+        const step = e.key === "ArrowDown" ? 1 : -1;
+        setActiveIndex((activeIndex + step + suggestions.length) % suggestions.length);
+        return true;
+      }
+      if (e.key === "Enter" || e.key === "Tab") {
+        e.preventDefault();
+        choose(suggestions[activeIndex]);
+        return true;
+      }
+      if (e.key === "Escape") {
+        e.preventDefault();
+        setQuery(null);
+        return true;
+      }
+      return false;
+    },
+  };
+}
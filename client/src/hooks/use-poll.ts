@@ -0,0 +1,35 @@
+import { useMutation } from "@tanstack/react-query";
+import { PollResults } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { updateFeedPost } from "@/hooks/use-cohort-feed";
+
+// Votes, changes a vote or takes one back in a post's poll
+export function usePollVote(cohortId: number | null, postId: number) {
+  const { toast } = useToast();
+
+  const mutation = useMutation({
+    mutationFn: async (optionIds: number[]) => {
+      const res = optionIds.length > 0
+        ? await apiRequest("PUT", `/api/posts/${postId}/poll/vote`, { optionIds })
+        : await apiRequest("DELETE", `/api/posts/${postId}/poll/vote`);
+      return (await res.json()) as PollResults;
+    },
+    onSuccess: (poll) => {
+      updateFeedPost(cohortId, postId, (post) => ({ ...post, poll }));
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save your vote",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    vote: (optionIds: number[]) => mutation.mutate(optionIds),
+    retract: () => mutation.mutate([]),
+    isPending: mutation.isPending,
+  };
+}
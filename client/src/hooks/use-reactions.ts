@@ -0,0 +1,75 @@
+import { useMutation } from "@tanstack/react-query";
+import { CommentWithUser, ReactionSummary, ReactionType } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { updateFeedPost } from "@/hooks/use-cohort-feed";
+
+// A post, or one of its comments when commentId is set
+export type ReactionTarget = {
+  cohortId: number | null;
+  postId: number;
+  commentId: number | null;
+};
+
+function reactionsUrl(target: ReactionTarget) {
+  return target.commentId === null
+    ? `/api/posts/${target.postId}/reactions`
+    : `/api/comments/${target.commentId}/reactions`;
+}
+
+// Who reacted to the target
+export function reactionsQueryKey(target: ReactionTarget) {
+  return target.commentId === null
+    ? ["/api/posts", target.postId, "reactions"]
+    : ["/api/comments", target.commentId, "reactions"];
+}
+
+// Rewrites the target's reaction summary wherever it's cached: the cohort feed
+// for posts, the post's comments for comments
+export function updateCachedReactions(
+  target: ReactionTarget,
+  update: (reactions: ReactionSummary[]) => ReactionSummary[],
+) {
+  if (target.commentId === null) {
+    updateFeedPost(target.cohortId, target.postId, (post) => ({
+      ...post,
+      reactions: update(post.reactions),
+    }));
+  } else {
+    queryClient.setQueryData<CommentWithUser[]>(["/api/posts", target.postId, "comments"], (comments) =>
+      comments?.map((comment) =>
+        comment.id === target.commentId ? { ...comment, reactions: update(comment.reactions) } : comment,
+      ),
+    );
+  }
+  queryClient.invalidateQueries({ queryKey: reactionsQueryKey(target) });
+}
+
+// Adds or takes back the current user's reactions to a post or comment
+export function useReactions(target: ReactionTarget) {
+  const { toast } = useToast();
+
+  const mutation = useMutation({
+    mutationFn: async ({ type, reacted }: { type: ReactionType; reacted: boolean }) => {
+      const res = reacted
+        ? await apiRequest("DELETE", `${reactionsUrl(target)}/${type}`)
+        : await apiRequest("POST", reactionsUrl(target), { type });
+      return (await res.json()) as { reactions: ReactionSummary[] };
+    },
+    onSuccess: ({ reactions }) => {
+      updateCachedReactions(target, () => reactions);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update reaction",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    toggle: (type: ReactionType, reacted: boolean) => mutation.mutate({ type, reacted }),
+    isPending: mutation.isPending,
+  };
+}
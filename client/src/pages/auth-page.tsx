@@ -10,12 +10,20 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { insertUserSchema, InsertUser, forgotPasswordSchema, ForgotPassword } from "@shared/schema";
 import { Loader2 } from "lucide-react";
 import { Redirect, useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
 
 type AuthView = "login" | "register" | "forgotPassword";
 
 export default function AuthPage() {
   const { user, isNewUser, setIsNewUser, loginMutation, registerMutation, forgotPasswordMutation } = useAuth();
-  const [view, setView] = useState<AuthView>("login");
+  // Set when the visitor followed a cohort invite link
+  const [inviteToken] = useState(() => new URLSearchParams(window.location.search).get("invite"));
+  const [view, setView] = useState<AuthView>(inviteToken ? "register" : "login");
+
+  const { data: invite } = useQuery<{ cohort: { id: number; name: string } }>({
+    queryKey: ["/api/invites", inviteToken],
+    enabled: !!inviteToken,
+  });
   
   // Create a wrapper for setView that also resets the form
   const changeView = (newView: AuthView) => {
@@ -62,8 +70,9 @@ export default function AuthPage() {
   });
 
   if (user) {
-    // After registration/login, redirect to profile page
-    return <Redirect to="/profile" />;
+    // After registration/login, redirect to profile page, or back to the invite
+    // link the visitor came from
+    return <Redirect to={inviteToken ? `/invite/${inviteToken}` : "/profile"} />;
   }
 
   const onSubmit = (data: InsertUser) => {
@@ -76,7 +85,7 @@ export default function AuthPage() {
       });
     } else {
       console.log("Attempting registration");
-      registerMutation.mutate(data);
+      registerMutation.mutate(inviteToken ? { ...data, inviteToken } : data);
     }
   };
 
@@ -84,7 +93,7 @@ export default function AuthPage() {
     console.log("Forgot password submitted", data);
     forgotPasswordMutation.mutate(data, {
       onSuccess: () => {
-        // If we have the token in our response (for demo purposes), show success message
+        // The reset link is emailed, so send the user back to the login form
         console.log("Forgot password success, changing view to login");
         changeView("login");
       },
@@ -110,6 +119,14 @@ export default function AuthPage() {
             </CardTitle>
           </CardHeader>
           <CardContent>
+            {invite && view !== "forgotPassword" && (
+              <div className="mb-4 p-3 bg-primary/5 border rounded-md text-sm">
+                You've been invited to join <span className="font-medium">{invite.cohort.name}</span>.{" "}
+                {view === "register"
+                  ? "Create an account to join."
+                  : "Log in to accept the invitation."}
+              </div>
+            )}
             {view === "login" && (
               <Form {...loginForm}>
                 <form 
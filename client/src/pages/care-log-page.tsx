@@ -0,0 +1,55 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Baby } from "@shared/schema";
+import { CareLog } from "@/components/care-log";
+import { BabySwitcher } from "@/components/baby-switcher";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Loader2 } from "lucide-react";
+
+export default function CareLogPage() {
+  const [selectedBabyId, setSelectedBabyId] = useState<number | undefined>(undefined);
+
+  const { data: babies = [], isLoading } = useQuery<Baby[]>({
+    queryKey: ["/api/babies"],
+  });
+
+  // Defaults to the first baby, like the profile page
+  const baby = babies.find((b) => b.id === selectedBabyId) ?? babies[0];
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-3xl space-y-4">
+      {!baby ? (
+        <Card>
+          <CardHeader>
+            <CardTitle>Daily Log</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-muted-foreground">Add your baby's details to start logging feeds, sleeps and diapers.</p>
+            <Button asChild>
+              <Link href="/profile">Go to Profile</Link>
+            </Button>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          {babies.length > 1 && (
+            <div className="flex justify-end">
+              <BabySwitcher currentBabyId={baby.id} onBabyChange={setSelectedBabyId} />
+            </div>
+          )}
+          <CareLog key={baby.id} baby={baby} />
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,8 +1,8 @@
 import { useEffect, useState } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { useRoute, Link } from "wouter";
+import { useRoute, useSearch, Link } from "wouter";
 import { useAuth } from "@/hooks/use-auth";
-import { ArrowLeft, Users, CalendarDays, Shield, ShieldCheck, Mail } from "lucide-react";
+import { ArrowLeft, Users, CalendarDays, CalendarCheck, Shield, ShieldCheck, Mail, Loader2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -12,7 +12,9 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { CreatePost } from "@/components/create-post";
 import { PostCard } from "@/components/post-card";
 import { CohortManagement } from "@/components/cohort-management";
-import { Cohort, Post, User } from "@shared/schema";
+import { CohortMeetups } from "@/components/cohort-meetups";
+import { Cohort } from "@shared/schema";
+import { useCohortFeed } from "@/hooks/use-cohort-feed";
 
 interface CohortMember {
   id: number;
@@ -24,7 +26,7 @@ interface CohortMember {
   membershipRole?: string;
 }
 
-const MembersList = ({ cohortId }: { cohortId: number }) => {
+const MembersList = ({ cohortId, highlightedUsername }: { cohortId: number; highlightedUsername?: string | null }) => {
   const { isLoading, error, data: members = [] } = useQuery<CohortMember[]>({
     queryKey: ["/api/cohorts", cohortId, "members"],
     enabled: !!cohortId,
@@ -42,10 +44,19 @@ const MembersList = ({ cohortId }: { cohortId: number }) => {
     return <div className="text-center py-4 text-muted-foreground">No members found in this cohort</div>;
   }
 
+  // Mentions link here with ?member=username
+  const scrollToHighlighted = (node: HTMLDivElement | null) => {
+    node?.scrollIntoView({ block: "center" });
+  };
+
   return (
     <div className="divide-y">
       {members.map((member) => (
-        <div key={member.id} className="py-3 flex items-center justify-between">
+        <div
+          key={member.id}
+          ref={member.username === highlightedUsername ? scrollToHighlighted : undefined}
+          className={`py-3 flex items-center justify-between ${member.username === highlightedUsername ? "bg-primary/10 -mx-2 px-2 rounded-md" : ""}`}
+        >
           <div>
             <div className="font-medium">{member.fullName}</div>
             <div className="text-sm text-muted-foreground">
@@ -71,7 +82,21 @@ export default function CohortPage() {
   const [match, params] = useRoute<{ id: string }>("/cohorts/:id");
   const cohortId = match ? parseInt(params.id) : 0;
   const { user } = useAuth();
-  const [activeTab, setActiveTab] = useState("feed");
+  const searchParams = new URLSearchParams(useSearch());
+  const highlightedUsername = searchParams.get("member");
+  const highlightedMeetupId = searchParams.get("meetup") ? parseInt(searchParams.get("meetup")!) : null;
+  const [activeTab, setActiveTab] = useState(
+    highlightedUsername ? "members" : highlightedMeetupId ? "events" : "feed",
+  );
+
+  // Following a mention or reminder link while already on this cohort's page
+  useEffect(() => {
+    if (highlightedUsername) setActiveTab("members");
+  }, [highlightedUsername]);
+
+  useEffect(() => {
+    if (highlightedMeetupId) setActiveTab("events");
+  }, [highlightedMeetupId]);
 
   // Fetch cohort details
   const { 
@@ -85,15 +110,13 @@ export default function CohortPage() {
 
   // Fetch posts for this cohort
   const { 
-    data: posts = [], 
+    posts, 
     isLoading: isLoadingPosts,
     error: postsError,
-    refetch: refetchPosts
-  } = useQuery<Post[]>({
-    queryKey: ["/api/cohorts", cohortId, "posts"],
-    enabled: !!cohortId && !isNaN(cohortId),
-    refetchInterval: 30000, // Refetch every 30 seconds
-  });
+    refetch: refetchPosts,
+    isFetchingNextPage,
+    loadMoreRef,
+  } = useCohortFeed(cohortId);
 
   // Fetch user's moderator status
   const { 
@@ -158,6 +181,10 @@ export default function CohortPage() {
               <CalendarDays className="h-4 w-4" />
               Feed
             </TabsTrigger>
+            <TabsTrigger value="events" className="flex items-center gap-2">
+              <CalendarCheck className="h-4 w-4" />
+              Events
+            </TabsTrigger>
             <TabsTrigger value="members" className="flex items-center gap-2">
               <Users className="h-4 w-4" />
               Members
@@ -208,16 +235,27 @@ export default function CohortPage() {
             </Card>
           ) : (
             <div className="space-y-4">
-              {posts
-                .sort((a, b) => new Date(b.createdAt || 0).getTime() - new Date(a.createdAt || 0).getTime())
-                .map((post) => (
-                  <PostCard key={post.id} post={post} user={user as User} />
-                ))
-              }
+              {posts.map((post) => (
+                <PostCard key={post.id} post={post} />
+              ))}
+              {/* Loads the next page when scrolled into view */}
+              <div ref={loadMoreRef} className="flex justify-center py-4">
+                {isFetchingNextPage && <Loader2 className="h-6 w-6 animate-spin text-primary" />}
+              </div>
             </div>
           )}
         </TabsContent>
 
+        <TabsContent value="events">
+          {cohort && (
+            <CohortMeetups
+              cohortId={cohortId}
+              isModerator={isModerator}
+              highlightedMeetupId={highlightedMeetupId}
+            />
+          )}
+        </TabsContent>
+
         <TabsContent value="members">
           {isLoadingCohort ? (
             <Skeleton className="h-64 w-full" />
@@ -233,7 +271,7 @@ export default function CohortPage() {
                 </CardDescription>
               </CardHeader>
               <CardContent>
-                <MembersList cohortId={cohortId} />
+                <MembersList cohortId={cohortId} highlightedUsername={highlightedUsername} />
               </CardContent>
             </Card>
           )}
@@ -1,6 +1,6 @@
 import { useAuth } from "@/hooks/use-auth";
 import { useQuery } from "@tanstack/react-query";
-import { Baby, Cohort, Post, User } from "@shared/schema";
+import { Cohort } from "@shared/schema";
 import { CohortCard } from "@/components/cohort-card";
 import { PostCard } from "@/components/post-card";
 import { CreatePost } from "@/components/create-post";
@@ -12,8 +12,9 @@ import { Redirect, useLocation } from "wouter";
 import { useEffect, useState } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { CohortList } from "@/components/cohort-list";
-
-type PostWithUser = Post & { user: User };
+import { SuggestedCohorts } from "@/components/suggested-cohorts";
+import { UpcomingSchedule } from "@/components/upcoming-schedule";
+import { useCohortFeed } from "@/hooks/use-cohort-feed";
 
 export default function HomePage() {
   const { user } = useAuth();
@@ -43,15 +44,14 @@ export default function HomePage() {
   const activeCohort = userCohorts.find(c => c.id === activeCohortId);
 
   const { 
-    data: posts = [], 
+    posts, 
     isLoading: isPostsLoading,
     isFetching: isPostsFetching,
-    refetch: refetchPosts
-  } = useQuery<PostWithUser[]>({
-    queryKey: ["/api/cohorts", activeCohortId, "posts"],
-    enabled: !!activeCohortId,
-    refetchInterval: 10000, // Refetch posts every 10 seconds
-  });
+    isFetchingNextPage,
+    hasNextPage,
+    refetch: refetchPosts,
+    loadMoreRef,
+  } = useCohortFeed(activeCohortId);
   
   // Check for new posts when posts are fetched
   useEffect(() => {
@@ -89,10 +89,15 @@ export default function HomePage() {
           <h1 className="text-3xl font-bold mb-6 text-center">Welcome to BabyConnect</h1>
           <p className="text-center mb-8">You're not a member of any cohorts yet.</p>
           
-          <div className="space-y-4">
+          <div className="space-y-8">
+            <UpcomingSchedule />
+
+            <SuggestedCohorts />
+
             <Button 
               onClick={() => navigate("/profile")} 
               className="w-full"
+              variant="outline"
             >
               <Users className="mr-2 h-4 w-4" />
               Create Your First Cohort
@@ -121,6 +126,9 @@ export default function HomePage() {
               <CohortCard cohort={activeCohort} baby={null} />
             </>
           )}
+          <div className="mt-4">
+            <UpcomingSchedule />
+          </div>
         </div>
 
         {/* Main Content - Post Wall */}
@@ -130,7 +138,7 @@ export default function HomePage() {
               <h2 className="text-2xl font-bold">{activeCohort?.name} Feed</h2>
             </div>
             <div className="flex items-center gap-3">
-              {isPostsFetching && !isPostsLoading && (
+              {isPostsFetching && !isPostsLoading && !isFetchingNextPage && (
                 <div className="flex items-center text-sm text-muted-foreground">
                   <Loader2 className="h-4 w-4 animate-spin mr-2" />
                   Refreshing...
@@ -161,8 +169,16 @@ export default function HomePage() {
             ) : posts && posts.length > 0 ? (
               <div className="space-y-4">
                 {posts.map((post) => (
-                  <PostCard key={post.id} post={post} user={post.user} />
+                  <PostCard key={post.id} post={post} />
                 ))}
+                {/* Loads the next page when scrolled into view */}
+                <div ref={loadMoreRef} className="flex justify-center py-4">
+                  {isFetchingNextPage ? (
+                    <Loader2 className="h-6 w-6 animate-spin text-primary" />
+                  ) : !hasNextPage && posts.length > 0 ? (
+                    <p className="text-sm text-muted-foreground">You're all caught up!</p>
+                  ) : null}
+                </div>
               </div>
             ) : (
               <div className="text-center py-8 text-muted-foreground">
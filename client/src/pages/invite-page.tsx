@@ -0,0 +1,116 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link, Redirect, useLocation, useRoute } from "wouter";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Loader2, Users } from "lucide-react";
+
+interface InvitePreview {
+  cohort: {
+    id: number;
+    name: string;
+    description: string | null;
+  };
+  isMember: boolean;
+}
+
+export default function InvitePage() {
+  const [, params] = useRoute<{ token: string }>("/invite/:token");
+  const token = params?.token;
+  const { user, isLoading: isUserLoading } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [, setLocation] = useLocation();
+
+  // Always refetch: whether the user is already a member changes once they sign in
+  const { data: invite, isLoading, error } = useQuery<InvitePreview>({
+    queryKey: ["/api/invites", token],
+    enabled: !!token,
+    refetchOnMount: "always",
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/invites/${token}/accept`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user/cohorts"] });
+      toast({
+        title: "Joined cohort",
+        description: `Welcome to ${invite?.cohort.name}!`,
+      });
+      setLocation(`/cohorts/${invite?.cohort.id}`);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (invite?.isMember) {
+    return <Redirect to={`/cohorts/${invite.cohort.id}`} />;
+  }
+
+  return (
+    <div className="container mx-auto py-8 px-4 flex justify-center">
+      <Card className="w-full max-w-md">
+        {isLoading || isUserLoading ? (
+          <CardContent className="flex justify-center py-10">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </CardContent>
+        ) : error || !invite ? (
+          <>
+            <CardHeader>
+              <CardTitle>Invite Link Unavailable</CardTitle>
+              <CardDescription>
+                {(error as Error)?.message || "This invite link doesn't exist."} Ask a
+                moderator of the cohort for a new link.
+              </CardDescription>
+            </CardHeader>
+            <CardFooter>
+              <Button asChild variant="outline">
+                <Link href="/">Go Home</Link>
+              </Button>
+            </CardFooter>
+          </>
+        ) : (
+          <>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Users className="h-6 w-6" />
+                {invite.cohort.name}
+              </CardTitle>
+              <CardDescription>You've been invited to join this cohort.</CardDescription>
+            </CardHeader>
+            {invite.cohort.description && (
+              <CardContent>
+                <p className="text-sm text-muted-foreground">{invite.cohort.description}</p>
+              </CardContent>
+            )}
+            <CardFooter>
+              {user ? (
+                <Button
+                  className="w-full"
+                  onClick={() => acceptMutation.mutate()}
+                  disabled={acceptMutation.isPending}
+                >
+                  {acceptMutation.isPending ? "Joining..." : "Join Cohort"}
+                </Button>
+              ) : (
+                <Button asChild className="w-full">
+                  <Link href={`/auth?invite=${token}`}>Sign Up to Join</Link>
+                </Button>
+              )}
+            </CardFooter>
+          </>
+        )}
+      </Card>
+    </div>
+  );
+}
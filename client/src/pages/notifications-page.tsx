@@ -0,0 +1,149 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { NotificationItem } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Bell, Loader2 } from "lucide-react";
+import { format, formatDistance, parseISO } from "date-fns";
+
+function describeNotification(notification: NotificationItem) {
+  const actor = notification.actor?.fullName ?? "Someone";
+  const cohort = notification.cohortName ?? "a cohort";
+
+  switch (notification.type) {
+    case "comment":
+      return `${actor} commented on your post in ${cohort}`;
+    case "reply":
+      return `${actor} replied to your comment in ${cohort}`;
+    case "reaction":
+      return `${actor} reacted to your ${notification.commentId ? "comment" : "post"} in ${cohort}`;
+    case "cohort_membership":
+      return `${actor} added you to ${cohort}`;
+    case "cohort_role":
+      return notification.role === "moderator"
+        ? `${actor} made you a moderator of ${cohort}`
+        : `${actor} changed your role in ${cohort} to member`;
+    case "cohort_new_member":
+      return `${actor} joined ${cohort}`;
+    case "mention":
+      return `${actor} mentioned you in a ${notification.commentId ? "comment" : "post"} in ${cohort}`;
+    case "meetup_reminder":
+      return `Reminder: ${notification.meetupTitle ?? "an event"} in ${cohort} is coming up tomorrow`;
+    case "schedule_reminder": {
+      const dueOn = notification.scheduleDueOn
+        ? format(parseISO(notification.scheduleDueOn), "EEEE, MMMM d")
+        : "soon";
+      return `Reminder: ${notification.babyName ?? "Your baby"} has vaccines or a check-up due ${dueOn}`;
+    }
+  }
+}
+
+export default function NotificationsPage() {
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+
+  const { data: notifications = [], isLoading } = useQuery<NotificationItem[]>({
+    queryKey: ["/api/notifications"],
+    refetchOnMount: "always",
+  });
+
+  const invalidateNotifications = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/notifications/unread-count"] });
+  };
+
+  const markReadMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("POST", `/api/notifications/${id}/read`);
+      return res.json();
+    },
+    onSuccess: invalidateNotifications,
+  });
+
+  const markAllReadMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/notifications/read-all");
+      return res.json();
+    },
+    onSuccess: invalidateNotifications,
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openNotification = (notification: NotificationItem) => {
+    if (!notification.readAt) {
+      markReadMutation.mutate(notification.id);
+    }
+    if (notification.babyId) {
+      setLocation(`/profile?baby=${notification.babyId}`);
+    } else if (notification.cohortId && notification.meetupId) {
+      setLocation(`/cohorts/${notification.cohortId}?meetup=${notification.meetupId}`);
+    } else if (notification.cohortId) {
+      setLocation(`/cohorts/${notification.cohortId}`);
+    }
+  };
+
+  const hasUnread = notifications.some((notification) => !notification.readAt);
+
+  return (
+    <div className="container mx-auto py-8 px-4 max-w-2xl">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle className="text-2xl flex items-center gap-2">
+            <Bell className="h-6 w-6" />
+            Notifications
+          </CardTitle>
+          {hasUnread && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => markAllReadMutation.mutate()}
+              disabled={markAllReadMutation.isPending}
+            >
+              Mark all as read
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : notifications.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-2">You don't have any notifications yet.</p>
+          ) : (
+            <div className="divide-y">
+              {notifications.map((notification) => (
+                <button
+                  key={notification.id}
+                  type="button"
+                  className="w-full text-left py-3 flex items-start gap-3 hover:bg-muted/50"
+                  onClick={() => openNotification(notification)}
+                >
+                  <span
+                    className={`mt-2 h-2 w-2 shrink-0 rounded-full ${notification.readAt ? "bg-transparent" : "bg-primary"}`}
+                  />
+                  <span>
+                    <span className={`block text-sm ${notification.readAt ? "" : "font-medium"}`}>
+                      {describeNotification(notification)}
+                    </span>
+                    <span className="block text-xs text-muted-foreground">
+                      {formatDistance(new Date(notification.createdAt), new Date(), { addSuffix: true })}
+                    </span>
+                  </span>
+                </button>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
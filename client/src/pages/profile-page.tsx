@@ -1,6 +1,7 @@
 import { useAuth } from "@/hooks/use-auth";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { Baby, insertBabySchema, Cohort } from "@shared/schema";
+import { babySexes, BabySex } from "@shared/growth-standards";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -18,7 +19,9 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
-import { Loader2, Baby as BabyIcon, Users, Calendar, ShieldCheck, Upload, Pencil, Save, X } from "lucide-react";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Baby as BabyIcon, Users, Calendar, ShieldCheck, Upload, Pencil, Save, X, Trash2 } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useLocation, Link } from "wouter";
@@ -26,8 +29,27 @@ import { format } from "date-fns";
 import { CohortManagement } from "@/components/cohort-management";
 import { CohortList } from "@/components/cohort-list";
 import { UserCohortsList } from "@/components/user-cohorts-list";
+import { BabySwitcher } from "@/components/baby-switcher";
+import { HouseholdCard } from "@/components/household-card";
+import { NotificationSettingsCard } from "@/components/notification-settings-card";
+import { MilestoneTimeline } from "@/components/milestone-timeline";
+import { GrowthTracker } from "@/components/growth-tracker";
+import { HealthSchedule } from "@/components/health-schedule";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+const sexLabels: Record<BabySex, string> = { female: "Girl", male: "Boy" };
+const SEX_NOT_SET = "not_set";
 
 // Edit form for baby information
 function BabyEditForm({ baby, onCancel }: { baby: Baby; onCancel: () => void }) {
@@ -39,6 +61,7 @@ function BabyEditForm({ baby, onCancel }: { baby: Baby; onCancel: () => void })
   const updateBabySchema = z.object({
     name: z.string().min(1, "Name is required"),
     birthDate: z.string().min(1, "Birth date is required"),
+    sex: z.enum(babySexes).nullable(),
   });
   
   type BabyFormValues = z.infer<typeof updateBabySchema>;
@@ -48,17 +71,20 @@ function BabyEditForm({ baby, onCancel }: { baby: Baby; onCancel: () => void })
     defaultValues: {
       name: baby.name,
       birthDate: new Date(baby.birthDate).toISOString().split('T')[0],
+      sex: baby.sex,
     },
   });
   
   // Mutation for updating baby information
   const updateBabyMutation = useMutation({
     mutationFn: async (data: BabyFormValues & { photoUrl?: string }) => {
-      const res = await apiRequest("PUT", `/api/baby/${baby.id}`, data);
+      const res = await apiRequest("PUT", `/api/babies/${baby.id}`, data);
       return res.json();
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/baby"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/babies"] });
+      // A new birth date can move the baby into a different birth-month cohort
+      queryClient.invalidateQueries({ queryKey: ["/api/user/cohorts"] });
       toast({
         title: "Success",
         description: "Baby information updated successfully!",
@@ -177,6 +203,36 @@ function BabyEditForm({ baby, onCancel }: { baby: Baby; onCancel: () => void })
             </FormItem>
           )}
         />
+
+        <FormField
+          control={form.control}
+          name="sex"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Sex</FormLabel>
+              <Select
+                value={field.value ?? SEX_NOT_SET}
+                onValueChange={(value) => field.onChange(value === SEX_NOT_SET ? null : value)}
+              >
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value={SEX_NOT_SET}>Prefer not to say</SelectItem>
+                  {babySexes.map((sex) => (
+                    <SelectItem key={sex} value={sex}>{sexLabels[sex]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormDescription>
+                Used only to compare growth with the WHO charts for girls or boys
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
         
         <div className="flex gap-2 pt-2">
           <Button 
@@ -217,11 +273,23 @@ export default function ProfilePage() {
   const { toast } = useToast();
   const [, setLocation] = useLocation();
   const [isEditing, setIsEditing] = useState(false);
+  const [isAdding, setIsAdding] = useState(false);
+  // Links to one baby's schedule, e.g. from a reminder, use ?baby=
+  const [selectedBabyId, setSelectedBabyId] = useState<number | undefined>(() => {
+    const id = parseInt(new URLSearchParams(window.location.search).get("baby") ?? "");
+    return isNaN(id) ? undefined : id;
+  });
+  const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  const [isEditingEmail, setIsEditingEmail] = useState(false);
+  const [newEmail, setNewEmail] = useState("");
 
-  // Fetch baby information
-  const { data: baby, isLoading: isBabyLoading } = useQuery<Baby>({
-    queryKey: ["/api/baby"],
+  // Fetch all of the user's babies
+  const { data: babies = [], isLoading: isBabyLoading } = useQuery<Baby[]>({
+    queryKey: ["/api/babies"],
   });
+
+  // The baby shown in the card; defaults to the first one
+  const baby = babies.find(b => b.id === selectedBabyId) ?? babies[0];
   
   // Fetch cohort information
   const { data: cohort, isLoading: isCohortLoading } = useQuery<Cohort>({
@@ -240,11 +308,16 @@ export default function ProfilePage() {
 
   const babyMutation = useMutation({
     mutationFn: async (data: { name: string; birthDate: string }) => {
-      const res = await apiRequest("POST", "/api/baby", data);
+      const res = await apiRequest("POST", "/api/babies", data);
       return res.json();
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/baby"] });
+    onSuccess: (newBaby: Baby) => {
+      const isFirstBaby = babies.length === 0;
+      queryClient.invalidateQueries({ queryKey: ["/api/babies"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/cohorts"] });
+      setSelectedBabyId(newBaby.id);
+      setIsAdding(false);
+      form.reset();
       
       // Reset the new user flag if this was a new user
       if (isNewUser) {
@@ -260,8 +333,75 @@ export default function ProfilePage() {
         });
       }
       
-      // Redirect to home page after successfully adding baby information
-      setLocation("/");
+      // Redirect to home page after adding the first baby; siblings are added
+      // from the profile page so stay here
+      if (isFirstBaby) {
+        setLocation("/");
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Opt in or out of joining babies' birth-month cohorts automatically
+  const autoJoinMutation = useMutation({
+    mutationFn: async (autoJoinBirthCohorts: boolean) => {
+      const res = await apiRequest("PUT", "/api/user/settings", { autoJoinBirthCohorts });
+      return res.json();
+    },
+    onSuccess: (updatedUser) => {
+      queryClient.setQueryData(["/api/user"], updatedUser);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Changing email sends a verification link to the new address
+  const changeEmailMutation = useMutation({
+    mutationFn: async (email: string) => {
+      const res = await apiRequest("PUT", "/api/user/email", { email });
+      return res.json();
+    },
+    onSuccess: (updatedUser) => {
+      queryClient.setQueryData(["/api/user"], updatedUser);
+      setIsEditingEmail(false);
+      toast({
+        title: "Email updated",
+        description: `We've sent a verification link to ${updatedUser.email}.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteBabyMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("DELETE", `/api/babies/${id}`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/babies"] });
+      setSelectedBabyId(undefined);
+      setIsEditing(false);
+      toast({
+        title: "Success",
+        description: "Baby removed from your profile",
+      });
     },
     onError: (error: Error) => {
       toast({
@@ -381,8 +521,47 @@ export default function ProfilePage() {
                   <p className="text-lg font-medium mt-1">{user?.fullName}</p>
                 </div>
                 <div>
-                  <Label>Email</Label>
-                  <p className="text-lg font-medium mt-1">{user?.email}</p>
+                  <Label htmlFor="parent-email">Email</Label>
+                  {isEditingEmail ? (
+                    <form
+                      className="flex gap-2 mt-1"
+                      onSubmit={(e) => {
+                        e.preventDefault();
+                        changeEmailMutation.mutate(newEmail);
+                      }}
+                    >
+                      <Input
+                        id="parent-email"
+                        type="email"
+                        value={newEmail}
+                        onChange={(e) => setNewEmail(e.target.value)}
+                        required
+                      />
+                      <Button type="submit" size="icon" disabled={changeEmailMutation.isPending}>
+                        <Save className="h-4 w-4" />
+                      </Button>
+                      <Button type="button" variant="ghost" size="icon" onClick={() => setIsEditingEmail(false)}>
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </form>
+                  ) : (
+                    <div className="flex items-center gap-2 mt-1">
+                      <p className="text-lg font-medium">{user?.email}</p>
+                      <span className={`text-xs ${user?.emailVerifiedAt ? "text-green-600" : "text-muted-foreground"}`}>
+                        {user?.emailVerifiedAt ? "Verified" : "Not verified"}
+                      </span>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => {
+                          setNewEmail(user?.email || "");
+                          setIsEditingEmail(true);
+                        }}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  )}
                 </div>
               </CardContent>
             </Card>
@@ -394,8 +573,19 @@ export default function ProfilePage() {
                   <BabyIcon className="h-6 w-6" />
                   Baby Information
                 </CardTitle>
-                {baby && (
-                  <div className="flex justify-end">
+                {baby && !isAdding && (
+                  <div className="flex justify-end gap-2">
+                    <BabySwitcher
+                      currentBabyId={baby.id}
+                      onBabyChange={(id) => {
+                        setSelectedBabyId(id);
+                        setIsEditing(false);
+                      }}
+                      onAddClick={() => {
+                        setIsAdding(true);
+                        setIsEditing(false);
+                      }}
+                    />
                     <Button 
                       variant="outline" 
                       size="sm"
@@ -413,13 +603,24 @@ export default function ProfilePage() {
                         </>
                       )}
                     </Button>
+                    {!isEditing && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setShowDeleteDialog(true)}
+                        disabled={deleteBabyMutation.isPending}
+                      >
+                        <Trash2 className="h-4 w-4 mr-2" />
+                        Remove
+                      </Button>
+                    )}
                   </div>
                 )}
               </CardHeader>
               <CardContent>
-                {baby ? (
+                {baby && !isAdding ? (
                   isEditing ? (
-                    <BabyEditForm baby={baby} onCancel={() => setIsEditing(false)} />
+                    <BabyEditForm key={baby.id} baby={baby} onCancel={() => setIsEditing(false)} />
                   ) : (
                     <div className="space-y-6">
                       <div className="flex justify-center mb-4">
@@ -484,22 +685,48 @@ export default function ProfilePage() {
                         )}
                       />
 
-                      <Button
-                        type="submit"
-                        className="w-full"
-                        disabled={babyMutation.isPending}
-                      >
-                        {babyMutation.isPending && (
-                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      <div className="flex gap-2">
+                        <Button
+                          type="submit"
+                          className="flex-1"
+                          disabled={babyMutation.isPending}
+                        >
+                          {babyMutation.isPending && (
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          )}
+                          Add Baby Information
+                        </Button>
+                        {isAdding && (
+                          <Button
+                            type="button"
+                            variant="outline"
+                            className="flex-1"
+                            onClick={() => {
+                              setIsAdding(false);
+                              form.reset();
+                            }}
+                            disabled={babyMutation.isPending}
+                          >
+                            <X className="mr-2 h-4 w-4" />
+                            Cancel
+                          </Button>
                         )}
-                        Add Baby Information
-                      </Button>
+                      </div>
                     </form>
                   </Form>
                 )}
               </CardContent>
             </Card>
 
+            {baby && !isAdding && <MilestoneTimeline key={baby.id} baby={baby} />}
+
+            {baby && !isAdding && <GrowthTracker key={baby.id} baby={baby} />}
+
+            {baby && !isAdding && <HealthSchedule key={baby.id} baby={baby} />}
+
+            {/* Co-parents sharing the baby profiles */}
+            <HouseholdCard />
+
             {/* Cohorts Information - Show all cohorts user has joined */}
             <Card>
               <CardHeader>
@@ -512,14 +739,55 @@ export default function ProfilePage() {
                 </CardDescription>
               </CardHeader>
               <CardContent>
+                <div className="flex items-center justify-between gap-4 mb-6">
+                  <div>
+                    <Label htmlFor="auto-join-birth-cohorts">Join birth-month cohorts automatically</Label>
+                    <p className="text-sm text-muted-foreground">
+                      When you add a baby or change their birth date, you'll join the cohort for
+                      babies born around the same time.
+                    </p>
+                  </div>
+                  <Switch
+                    id="auto-join-birth-cohorts"
+                    checked={user?.autoJoinBirthCohorts ?? true}
+                    onCheckedChange={(checked) => autoJoinMutation.mutate(checked)}
+                    disabled={autoJoinMutation.isPending}
+                  />
+                </div>
                 <UserCohortsList />
               </CardContent>
             </Card>
+
+            <NotificationSettingsCard />
             
             {/* Cohort Management - only shown if user is a moderator or admin */}
             {baby && cohort && <CohortManagement cohortId={cohort.id} />}
           </>
         )}
+
+        {/* Remove baby confirmation dialog */}
+        <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Remove {baby?.name}?</AlertDialogTitle>
+              <AlertDialogDescription>
+                This will permanently remove this baby from your profile.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={() => {
+                  if (baby) deleteBabyMutation.mutate(baby.id);
+                  setShowDeleteDialog(false);
+                }}
+                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              >
+                Remove
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
       </div>
     </div>
   );
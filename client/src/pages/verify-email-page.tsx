@@ -0,0 +1,67 @@
+import { useEffect, useRef } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { CheckCircle2, Loader2 } from "lucide-react";
+
+export default function VerifyEmailPage() {
+  const { user } = useAuth();
+  const token = new URLSearchParams(window.location.search).get("token");
+  const submitted = useRef(false);
+
+  const verifyMutation = useMutation({
+    mutationFn: async (token: string) => {
+      const res = await apiRequest("POST", "/api/verify-email", { token });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+    },
+  });
+
+  // Tokens are single use, so only submit once even if the effect re-runs
+  useEffect(() => {
+    if (token && !submitted.current) {
+      submitted.current = true;
+      verifyMutation.mutate(token);
+    }
+  }, [token]);
+
+  return (
+    <div className="container mx-auto py-8 px-4 flex justify-center">
+      <Card className="w-full max-w-md">
+        {verifyMutation.isSuccess ? (
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <CheckCircle2 className="h-6 w-6 text-green-600" />
+              Email Verified
+            </CardTitle>
+            <CardDescription>Thanks for confirming your email address.</CardDescription>
+          </CardHeader>
+        ) : !token || verifyMutation.isError ? (
+          <CardHeader>
+            <CardTitle>Invalid Verification Link</CardTitle>
+            <CardDescription>
+              This link is invalid or has expired.{" "}
+              {user ? "Use the banner at the top of the page to send a new one." : "Sign in to send a new one."}
+            </CardDescription>
+          </CardHeader>
+        ) : (
+          <CardContent className="flex justify-center py-10">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </CardContent>
+        )}
+        {(verifyMutation.isSuccess || !token || verifyMutation.isError) && (
+          <CardFooter>
+            <Button asChild variant="outline">
+              <Link href={user ? "/" : "/auth"}>{user ? "Go Home" : "Sign In"}</Link>
+            </Button>
+          </CardFooter>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -1,12 +1,21 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express } from "express";
 import session from "express-session";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
 import { storage } from "./storage";
-import { User as SelectUser, forgotPasswordSchema, resetPasswordSchema } from "@shared/schema";
+import { Express } from "express";
+import {
+  User as SelectUser,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+  verifyEmailSchema,
+  changeEmailSchema,
+} from "@shared/schema";
 import { log } from "./vite";
+import { meetsCohortJoinRequirements } from "./cohort-access";
+import { notifyNewMember } from "./notifications";
+import { sendEmail, passwordResetEmail, verificationEmail, appUrl } from "./mail";
 
 declare global {
   namespace Express {
@@ -29,6 +38,21 @@ async function comparePasswords(supplied: string, stored: string) {
   return timingSafeEqual(hashedBuf, suppliedBuf);
 }
 
+// Sends a fresh verification link to the user's current address. Failures are
+// logged rather than thrown, since the user can always ask for another link.
+async function sendVerificationEmail(user: SelectUser) {
+  const token = await storage.createEmailVerificationToken(user.id, user.email);
+  try {
+    await sendEmail(user.email, verificationEmail({
+      name: user.fullName,
+      verifyUrl: appUrl(`/verify-email?token=${token}`),
+    }));
+    log(`Sent verification email to user ${user.id}`);
+  } catch (err) {
+    log(`Error sending verification email to user ${user.id}: ${err}`);
+  }
+}
+
 export function setupAuth(app: Express) {
   const sessionSettings: session.SessionOptions = {
     secret: process.env.SESSION_SECRET || "development_secret",
@@ -40,8 +64,10 @@ export function setupAuth(app: Express) {
     },
   };
 
+  const sessionMiddleware = session(sessionSettings);
+
   app.set("trust proxy", 1);
-  app.use(session(sessionSettings));
+  app.use(sessionMiddleware);
   app.use(passport.initialize());
   app.use(passport.session());
 
@@ -76,11 +102,28 @@ export function setupAuth(app: Express) {
         return res.status(400).send("Username already exists");
       }
 
+      // Visitors who arrive through a cohort invite link join it as they sign up
+      const { inviteToken, ...userData } = req.body;
       const user = await storage.createUser({
-        ...req.body,
+        ...userData,
         password: await hashPassword(req.body.password),
       });
 
+      // New accounts aren't verified yet, so cohorts that require a verified
+      // email are left for the user to join once they've confirmed it
+      const invite = inviteToken && (await storage.getCohortInviteByToken(inviteToken));
+      const inviteCohort = invite && (await storage.getCohort(invite.cohortId));
+      if (inviteCohort && meetsCohortJoinRequirements(user, inviteCohort)) {
+        const membership = await storage.redeemCohortInvite(inviteToken, user.id);
+        if (membership) {
+          await notifyNewMember(membership);
+        } else {
+          log(`Invite link used at registration was no longer valid for user ${user.id}`);
+        }
+      }
+
+      await sendVerificationEmail(user);
+
       req.login(user, (err) => {
         if (err) return next(err);
         res.status(201).json(user);
@@ -124,30 +167,95 @@ export function setupAuth(app: Express) {
     res.json(req.user);
   });
   
+  // Confirm an email address from the link in a verification email
+  app.post("/api/verify-email", async (req, res) => {
+    try {
+      const data = verifyEmailSchema.parse(req.body);
+      const user = await storage.verifyEmail(data.token);
+
+      if (!user) {
+        return res.status(400).json({ error: "Invalid or expired verification link" });
+      }
+
+      res.status(200).json({ message: "Your email address has been verified" });
+    } catch (error) {
+      log(`Error in verify email: ${error}`);
+      res.status(400).json({ error: "Invalid request" });
+    }
+  });
+
+  // Send another verification email to the current user
+  app.post("/api/resend-verification", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      if (req.user.emailVerifiedAt) {
+        return res.status(400).json({ error: "Your email address is already verified" });
+      }
+
+      await sendVerificationEmail(req.user);
+      res.status(200).json({ message: "A new verification link has been sent" });
+    } catch (error) {
+      log(`Error in resend verification: ${error}`);
+      res.status(500).json({ error: "Failed to send verification email" });
+    }
+  });
+
+  // Change the current user's email; the new address has to be verified again
+  app.put("/api/user/email", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const result = changeEmailSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: result.error.errors[0].message });
+      }
+
+      if (result.data.email === req.user.email) {
+        return res.status(400).json({ error: "That's already your email address" });
+      }
+
+      const existingUser = await storage.getUserByEmail(result.data.email);
+      if (existingUser) {
+        return res.status(400).json({ error: "An account with that email already exists" });
+      }
+
+      const user = await storage.updateUserEmail(req.user.id, result.data.email);
+      await sendVerificationEmail(user);
+      res.json(user);
+    } catch (error) {
+      log(`Error changing email: ${error}`);
+      res.status(500).json({ error: "Failed to change email" });
+    }
+  });
+
   // Forgot password route - send reset link
   app.post("/api/forgot-password", async (req, res) => {
     try {
       const data = forgotPasswordSchema.parse(req.body);
       const user = await storage.getUserByEmail(data.email);
       
-      // Always return 200 even if email doesn't exist to prevent email enumeration
+      // Always return the same response whether or not the email exists, to
+      // prevent email enumeration
+      const message = "If an account with that email exists, a password reset link has been sent.";
       if (!user) {
         log(`Reset request for non-existent email: ${data.email}`);
-        return res.status(200).json({ message: "If an account with that email exists, a password reset link has been sent." });
+        return res.status(200).json({ message });
       }
       
-      // Generate reset token
+      // The token only ever leaves the server inside the email
       const token = await storage.createPasswordResetToken(user.id);
+      try {
+        await sendEmail(user.email, passwordResetEmail({
+          name: user.fullName,
+          resetUrl: appUrl(`/reset-password?token=${token}`),
+        }));
+        log(`Sent password reset email to user ${user.id}`);
+      } catch (err) {
+        log(`Error sending password reset email to user ${user.id}: ${err}`);
+      }
       
-      // TODO: In a real app, send an email with the reset link
-      // For now, we just return the token in the response
-      log(`Generated reset token ${token} for user ${user.id}`);
-      
-      res.status(200).json({ 
-        message: "If an account with that email exists, a password reset link has been sent.",
-        // In production, remove this token from the response and email it instead
-        token
-      });
+      res.status(200).json({ message });
     } catch (error) {
       log(`Error in forgot password: ${error}`);
       res.status(400).json({ error: "Invalid request" });
@@ -179,4 +287,7 @@ export function setupAuth(app: Express) {
       res.status(400).json({ error: "Invalid request" });
     }
   });
+
+  // The realtime socket authenticates its upgrade requests with the same sessions
+  return sessionMiddleware;
 }
@@ -0,0 +1,126 @@
+// Route tests for requireCohortAccess: non-members are turned away from
+// everything scoped to a cohort, while members and admins get through
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { Server } from "http";
+import { storage } from "./storage";
+import { startTestServer, stopTestServer, TestClient } from "./test-utils";
+
+let server: Server;
+
+let member: TestClient;
+let outsider: TestClient;
+let admin: TestClient;
+let cohortId: number;
+let postId: number;
+let commentId: number;
+
+before(async () => {
+  server = await startTestServer();
+
+  member = await TestClient.register("member");
+  outsider = await TestClient.register("outsider");
+  admin = await TestClient.register("admin");
+  await storage.updateUserRole(admin.id, "admin");
+
+  const cohort = await member.request("POST", "/api/cohorts", { name: "March babies", description: null });
+  assert.equal(cohort.status, 201);
+  cohortId = cohort.body.id;
+
+  const post = await member.request("POST", "/api/posts", { cohortId, content: "Hello everyone" });
+  assert.equal(post.status, 201);
+  postId = post.body.id;
+
+  const comment = await member.request("POST", "/api/comments", { postId, content: "First!" });
+  assert.equal(comment.status, 201);
+  commentId = comment.body.id;
+});
+
+after(() => stopTestServer(server));
+
+describe("cohort routes", () => {
+  for (const path of ["posts", "members", "babies"]) {
+    test(`GET /api/cohorts/:id/${path} is 403 for non-members`, async () => {
+      const res = await outsider.request("GET", `/api/cohorts/${cohortId}/${path}`);
+      assert.equal(res.status, 403);
+    });
+
+    test(`GET /api/cohorts/:id/${path} works for members and admins`, async () => {
+      assert.equal((await member.request("GET", `/api/cohorts/${cohortId}/${path}`)).status, 200);
+      assert.equal((await admin.request("GET", `/api/cohorts/${cohortId}/${path}`)).status, 200);
+    });
+  }
+});
+
+test("the member list never includes password hashes", async () => {
+  const res = await member.request("GET", `/api/cohorts/${cohortId}/members`);
+  assert.equal(res.status, 200);
+  assert.ok(res.body.length > 0);
+  for (const user of res.body) {
+    assert.equal("password" in user, false, `member ${user.id} came with a password`);
+  }
+
+  const moderators = await member.request("GET", `/api/cohorts/${cohortId}/moderators`);
+  for (const user of moderators.body) {
+    assert.equal("password" in user, false, `moderator ${user.id} came with a password`);
+  }
+});
+
+describe("posts", () => {
+  test("POST /api/posts is 403 for non-members", async () => {
+    const res = await outsider.request("POST", "/api/posts", { cohortId, content: "Let me in" });
+    assert.equal(res.status, 403);
+  });
+
+  test("POST /api/posts works for members and admins", async () => {
+    assert.equal((await member.request("POST", "/api/posts", { cohortId, content: "Hi" })).status, 201);
+    assert.equal((await admin.request("POST", "/api/posts", { cohortId, content: "Welcome" })).status, 201);
+  });
+});
+
+describe("comments on a post in another cohort", () => {
+  test("reading and writing comments is 403 for non-members", async () => {
+    assert.equal((await outsider.request("GET", `/api/posts/${postId}/comments`)).status, 403);
+    assert.equal(
+      (await outsider.request("POST", "/api/comments", { postId, content: "Sneaky" })).status,
+      403,
+    );
+    assert.equal(
+      (await outsider.request("PUT", `/api/comments/${commentId}`, { content: "Edited" })).status,
+      403,
+    );
+    assert.equal((await outsider.request("DELETE", `/api/comments/${commentId}`)).status, 403);
+  });
+
+  test("members and admins can read and comment", async () => {
+    assert.equal((await member.request("GET", `/api/posts/${postId}/comments`)).status, 200);
+    assert.equal((await admin.request("GET", `/api/posts/${postId}/comments`)).status, 200);
+    assert.equal(
+      (await admin.request("POST", "/api/comments", { postId, content: "Nice to meet you" })).status,
+      201,
+    );
+  });
+});
+
+// Reactions replaced the original upvotes
+describe("reactions on a post in another cohort", () => {
+  test("reacting is 403 for non-members", async () => {
+    assert.equal(
+      (await outsider.request("POST", `/api/posts/${postId}/reactions`, { type: "heart" })).status,
+      403,
+    );
+    assert.equal((await outsider.request("DELETE", `/api/posts/${postId}/reactions/heart`)).status, 403);
+    assert.equal((await outsider.request("GET", `/api/posts/${postId}/reactions`)).status, 403);
+    assert.equal(
+      (await outsider.request("POST", `/api/comments/${commentId}/reactions`, { type: "hug" })).status,
+      403,
+    );
+  });
+
+  test("members and admins can react", async () => {
+    const memberReaction = await member.request("POST", `/api/posts/${postId}/reactions`, { type: "heart" });
+    assert.ok(memberReaction.status < 300, `member got ${memberReaction.status}`);
+    const adminReaction = await admin.request("POST", `/api/comments/${commentId}/reactions`, { type: "hug" });
+    assert.ok(adminReaction.status < 300, `admin got ${adminReaction.status}`);
+  });
+});
@@ -0,0 +1,64 @@
+import type { Request, RequestHandler } from "express";
+import type { Cohort, User } from "@shared/schema";
+import { storage } from "./storage";
+
+// Works out which cohort a request touches. Returns undefined when the
+// referenced cohort, post or comment doesn't exist.
+type CohortResolver = (req: Request) => Promise<number | null | undefined>;
+
+// Only members of a cohort (and admins) may read or write anything scoped to
+// it. Put this in front of every cohort-scoped route with the resolver that
+// matches where the route gets its cohort from.
+export function requireCohortAccess(resolveCohortId: CohortResolver): RequestHandler {
+  return async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const cohortId = await resolveCohortId(req);
+      if (cohortId == null || isNaN(cohortId)) {
+        return res.status(404).json({ error: "Cohort not found" });
+      }
+
+      if (req.user.role !== "admin" && !(await storage.isCohortMember(req.user.id, cohortId))) {
+        return res.status(403).json({ error: "You are not a member of this cohort" });
+      }
+
+      next();
+    } catch (err) {
+      next(err);
+    }
+  };
+}
+
+// Cohorts can require a verified email before anyone joins by themselves.
+// Moderators adding members directly aren't held to this.
+export function meetsCohortJoinRequirements(user: User, cohort: Cohort) {
+  return user.role === "admin" || !cohort.requireVerifiedEmail || user.emailVerifiedAt != null;
+}
+
+export const unverifiedEmailError = "Verify your email address before joining this cohort";
+
+// GET /api/cohorts/:id/...
+export const cohortFromParam: CohortResolver = async (req) => parseInt(req.params.id);
+
+// POST bodies carrying a cohortId, e.g. new posts
+export const cohortFromBody: CohortResolver = async (req) =>
+  req.body?.cohortId === undefined ? undefined : Number(req.body.cohortId);
+
+// /api/posts/:id/...
+export const cohortFromPostParam: CohortResolver = async (req) =>
+  (await storage.getPost(parseInt(req.params.id)))?.cohortId;
+
+// POST bodies carrying a postId, e.g. new comments
+export const cohortFromBodyPost: CohortResolver = async (req) =>
+  (await storage.getPost(Number(req.body?.postId)))?.cohortId;
+
+// /api/comments/:id
+export const cohortFromCommentParam: CohortResolver = async (req) => {
+  const comment = await storage.getComment(parseInt(req.params.id));
+  return comment && (await storage.getPost(comment.postId))?.cohortId;
+};
+
+// /api/meetups/:id/...
+export const cohortFromMeetupParam: CohortResolver = async (req) =>
+  (await storage.getMeetup(parseInt(req.params.id)))?.cohortId;
@@ -0,0 +1,55 @@
+// Suggestions compare the user's babies with every baby a cohort's members
+// look after, including the ones a co-parent shares through their household
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { Server } from "http";
+import { storage } from "./storage";
+import { startTestServer, stopTestServer, TestClient } from "./test-utils";
+
+let server: Server;
+let cohortId: number;
+let newcomer: TestClient;
+
+before(async () => {
+  server = await startTestServer();
+
+  // The cohort's only member has no baby of their own, just one shared by
+  // their co-parent, who isn't in the cohort
+  const member = await TestClient.register("member");
+  const cohort = await member.request("POST", "/api/cohorts", { name: "Night owls", description: null });
+  assert.equal(cohort.status, 201);
+  cohortId = cohort.body.id;
+
+  const coparent = await TestClient.register("coparent");
+  assert.equal(
+    (await coparent.request("POST", "/api/babies", { name: "Ada", birthDate: "2025-03-12" })).status,
+    201,
+  );
+  assert.equal(
+    (await coparent.request("POST", "/api/household/invitations", { email: "member@example.com" })).status,
+    201,
+  );
+  const user = (await storage.getUser(member.id))!;
+  await storage.verifyEmail(await storage.createEmailVerificationToken(user.id, user.email));
+  const [invitation] = (await member.request("GET", "/api/household/invitations")).body;
+  assert.equal((await member.request("POST", `/api/household/invitations/${invitation.id}/accept`)).status, 200);
+
+  newcomer = await TestClient.register("newcomer");
+  assert.equal(
+    (await newcomer.request("POST", "/api/babies", { name: "Bo", birthDate: "2025-03-13" })).status,
+    201,
+  );
+});
+
+after(() => stopTestServer(server));
+
+describe("GET /api/cohorts/suggested", () => {
+  test("counts babies shared with a member's household when comparing ages", async () => {
+    const res = await newcomer.request("GET", "/api/cohorts/suggested");
+    assert.equal(res.status, 200);
+
+    const suggestion = res.body.find((cohort: { id: number }) => cohort.id === cohortId);
+    assert.ok(suggestion, "the cohort should be suggested");
+    assert.equal(suggestion.birthWeekGap, 0);
+  });
+});
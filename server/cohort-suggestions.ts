@@ -0,0 +1,68 @@
+import type { SuggestedCohort } from "@shared/schema";
+import { storage, type JoinableCohortStats } from "./storage";
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+// Posts in this window count towards a cohort's activity
+const ACTIVITY_WINDOW_DAYS = 30;
+
+// Weeks between two dates, ignoring direction
+function weeksApart(a: Date, b: Date) {
+  return Math.abs(a.getTime() - b.getTime()) / WEEK_MS;
+}
+
+// How far a cohort is from the user's babies: the smallest gap to any member's
+// baby, or to the cohort's date range for system birth-month cohorts
+function birthWeekGap(stats: JoinableCohortStats, userBirthWeeks: Date[]): number | null {
+  let gap: number | null = null;
+  const { startDate, endDate } = stats.cohort;
+
+  for (const birthWeek of userBirthWeeks) {
+    for (const memberBirthWeek of stats.memberBirthWeeks) {
+      const weeks = weeksApart(birthWeek, new Date(memberBirthWeek));
+      if (gap === null || weeks < gap) gap = weeks;
+    }
+
+    if (startDate && endDate) {
+      const start = new Date(startDate);
+      const end = new Date(endDate);
+      const weeks = birthWeek < start
+        ? weeksApart(birthWeek, start)
+        : birthWeek > end
+          ? weeksApart(birthWeek, end)
+          : 0;
+      if (gap === null || weeks < gap) gap = weeks;
+    }
+  }
+
+  return gap === null ? null : Math.round(gap);
+}
+
+// Each signal is scaled to 0..1. Babies of a similar age matter most; size and
+// activity break ties between similarly aged cohorts.
+function score(cohort: SuggestedCohort) {
+  const proximity = cohort.birthWeekGap === null ? 0 : 1 / (1 + cohort.birthWeekGap / 2);
+  const size = Math.min(Math.log1p(cohort.memberCount) / Math.log1p(50), 1);
+  const activity = Math.min(Math.log1p(cohort.recentPostCount) / Math.log1p(30), 1);
+  return 3 * proximity + size + activity;
+}
+
+// Ranks the cohorts a user could join by how close their members' babies are in
+// age to the user's own, then by member count and recent posts.
+export async function suggestCohorts(userId: number, limit: number): Promise<SuggestedCohort[]> {
+  const activeSince = new Date(Date.now() - ACTIVITY_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+  const [babies, stats] = await Promise.all([
+    storage.getBabiesByUserId(userId),
+    storage.getJoinableCohortStats(userId, activeSince),
+  ]);
+  const userBirthWeeks = babies.map((baby) => new Date(baby.birthWeek));
+
+  return stats
+    .map((cohortStats) => ({
+      ...cohortStats.cohort,
+      memberCount: cohortStats.memberCount,
+      recentPostCount: cohortStats.recentPostCount,
+      birthWeekGap: birthWeekGap(cohortStats, userBirthWeeks),
+    }))
+    .sort((a, b) => score(b) - score(a) || b.memberCount - a.memberCount)
+    .slice(0, limit);
+}
@@ -0,0 +1,93 @@
+// Deleting a comment with replies leaves a blank placeholder so the replies
+// keep their place; once the last reply goes, the placeholder has nothing
+// left to hold up and goes too
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { Server } from "http";
+import { startTestServer, stopTestServer, TestClient } from "./test-utils";
+
+let server: Server;
+let alice: TestClient;
+let bob: TestClient;
+let cohortId: number;
+
+before(async () => {
+  server = await startTestServer();
+
+  alice = await TestClient.register("alice");
+  bob = await TestClient.register("bob");
+  const cohort = await alice.request("POST", "/api/cohorts", { name: "June babies", description: null });
+  cohortId = cohort.body.id;
+  assert.equal((await bob.request("POST", `/api/cohorts/${cohortId}/join`)).status, 201);
+});
+
+after(() => stopTestServer(server));
+
+async function createPost() {
+  const res = await alice.request("POST", "/api/posts", { cohortId, content: "Best white noise app?" });
+  assert.equal(res.status, 201);
+  return res.body.id as number;
+}
+
+async function reply(client: TestClient, postId: number, content: string, parentCommentId: number | null = null) {
+  const res = await client.request("POST", "/api/comments", { postId, content, parentCommentId });
+  assert.equal(res.status, 201);
+  return res.body.id as number;
+}
+
+async function deleteComment(client: TestClient, id: number) {
+  assert.equal((await client.request("DELETE", `/api/comments/${id}`)).status, 200);
+}
+
+async function thread(postId: number) {
+  const res = await alice.request("GET", `/api/posts/${postId}/comments`);
+  assert.equal(res.status, 200);
+  return res.body.map((comment: { id: number; content: string; deletedAt: string | null }) => ({
+    id: comment.id,
+    deleted: comment.deletedAt !== null,
+  }));
+}
+
+describe("DELETE /api/comments/:id", () => {
+  test("leaves a placeholder while the comment still has replies", async () => {
+    const postId = await createPost();
+    const question = await reply(alice, postId, "Which one do you use?");
+    const answer = await reply(bob, postId, "The rain one", question);
+
+    await deleteComment(alice, question);
+    assert.deepEqual(await thread(postId), [
+      { id: question, deleted: true },
+      { id: answer, deleted: false },
+    ]);
+  });
+
+  test("removes the placeholder once its last reply is deleted", async () => {
+    const postId = await createPost();
+    const question = await reply(alice, postId, "Which one do you use?");
+    const first = await reply(bob, postId, "The rain one", question);
+    const second = await reply(alice, postId, "Thanks!", question);
+
+    await deleteComment(alice, question);
+    await deleteComment(bob, first);
+    assert.deepEqual(await thread(postId), [
+      { id: question, deleted: true },
+      { id: second, deleted: false },
+    ]);
+
+    await deleteComment(alice, second);
+    assert.deepEqual(await thread(postId), []);
+  });
+
+  test("removes every placeholder up the thread that is left without replies", async () => {
+    const postId = await createPost();
+    const sibling = await reply(bob, postId, "Fan on full");
+    const question = await reply(alice, postId, "Which one do you use?");
+    const answer = await reply(bob, postId, "The rain one", question);
+    const followUp = await reply(alice, postId, "Does it loop?", answer);
+
+    await deleteComment(alice, question);
+    await deleteComment(bob, answer);
+    await deleteComment(alice, followUp);
+    assert.deepEqual(await thread(postId), [{ id: sibling, deleted: false }]);
+  });
+});
@@ -0,0 +1,19 @@
+// Minimal CSV (RFC 4180) output for downloads people open in a spreadsheet
+
+export type CsvValue = string | number | null | undefined;
+
+// Quote fields that contain separators, quotes or line breaks. Fields that
+// start like a formula are prefixed with a quote so spreadsheets show them as
+// text instead of evaluating them.
+function formatField(value: CsvValue) {
+  if (value === null || value === undefined) return "";
+  let text = String(value);
+  if (typeof value === "string" && /^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function buildCsv(header: string[], rows: CsvValue[][]) {
+  return [header, ...rows].map((row) => row.map(formatField).join(",")).join("\r\n") + "\r\n";
+}
@@ -5,27 +5,14 @@ import * as schema from "@shared/schema";
 
 neonConfig.webSocketConstructor = ws;
 
-if (!process.env.DATABASE_URL) {
+// STORAGE=memory runs the whole app against MemStorage, so no database is needed
+export const useMemStorage = process.env.STORAGE === "memory";
+
+if (!process.env.DATABASE_URL && !useMemStorage) {
   throw new Error(
     "DATABASE_URL must be set. Did you forget to provision a database?",
   );
 }
 
-
-export async function updateAllBirthWeeks() {
-  await db.execute(sql`
-    ALTER TABLE babies 
-    ADD COLUMN IF NOT EXISTS birth_week DATE;
-
-    UPDATE babies 
-    SET birth_week = date_trunc('week', birth_date)
-    WHERE birth_week IS NULL;
-
-    ALTER TABLE babies
-    ALTER COLUMN birth_week SET NOT NULL;
-  `);
-  console.log('Added and populated birth_week column');
-}
-
 export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
 export const db = drizzle({ client: pool, schema });
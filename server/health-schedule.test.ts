@@ -0,0 +1,94 @@
+// A baby's calendar feed link is a secret that stands in for a session: it
+// must be resettable, stop working for anyone who is no longer a parent, and
+// never be written to the log
+import { after, before, describe, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import type { Server } from "http";
+import { storage } from "./storage";
+import { startTestServer, stopTestServer, TestClient } from "./test-utils";
+
+let server: Server;
+let parent: TestClient;
+let stranger: TestClient;
+let babyId: number;
+
+function feedPath(url: string) {
+  return new URL(url).pathname;
+}
+
+before(async () => {
+  server = await startTestServer({ logRequests: true });
+
+  parent = await TestClient.register("parent");
+  stranger = await TestClient.register("stranger");
+  const baby = await parent.request("POST", "/api/babies", { name: "Ada", birthDate: "2026-01-10" });
+  assert.equal(baby.status, 201);
+  babyId = baby.body.id;
+});
+
+after(() => stopTestServer(server));
+
+describe("schedule feed links", () => {
+  test("only the baby's parents can get a link, which stays the same until reset", async () => {
+    assert.equal((await stranger.request("GET", `/api/babies/${babyId}/schedule/feed`)).status, 404);
+
+    const first = await parent.request("GET", `/api/babies/${babyId}/schedule/feed`);
+    const second = await parent.request("GET", `/api/babies/${babyId}/schedule/feed`);
+    assert.equal(first.status, 200);
+    assert.equal(first.body.url, second.body.url);
+
+    // Calendar apps fetch the feed without a session
+    const feed = await new TestClient().request("GET", feedPath(first.body.url));
+    assert.equal(feed.status, 200);
+    assert.match(feed.body, /BEGIN:VCALENDAR/);
+  });
+
+  test("resetting the link stops the old one working", async () => {
+    const old = await parent.request("GET", `/api/babies/${babyId}/schedule/feed`);
+    assert.equal((await stranger.request("POST", `/api/babies/${babyId}/schedule/feed`)).status, 404);
+
+    const reset = await parent.request("POST", `/api/babies/${babyId}/schedule/feed`);
+    assert.equal(reset.status, 200);
+    assert.notEqual(reset.body.url, old.body.url);
+
+    const anonymous = new TestClient();
+    assert.equal((await anonymous.request("GET", feedPath(old.body.url))).status, 404);
+    assert.equal((await anonymous.request("GET", feedPath(reset.body.url))).status, 200);
+  });
+
+  test("a link stops working once its holder is no longer a parent", async () => {
+    const coParent = await TestClient.register("coparent");
+    const user = (await storage.getUser(coParent.id))!;
+    await storage.verifyEmail(await storage.createEmailVerificationToken(user.id, user.email));
+    await parent.request("POST", "/api/household/invitations", { email: user.email });
+    const [invitation] = (await coParent.request("GET", "/api/household/invitations")).body;
+    assert.equal((await coParent.request("POST", `/api/household/invitations/${invitation.id}/accept`)).status, 200);
+
+    const link = await coParent.request("GET", `/api/babies/${babyId}/schedule/feed`);
+    assert.equal(link.status, 200);
+    assert.equal((await new TestClient().request("GET", feedPath(link.body.url))).status, 200);
+
+    await coParent.request("POST", "/api/household/leave");
+    assert.equal((await new TestClient().request("GET", feedPath(link.body.url))).status, 404);
+  });
+
+  test("tokens are kept out of the request log", async () => {
+    const logged: string[] = [];
+    const consoleLog = mock.method(console, "log", (line: string) => logged.push(line));
+    try {
+      const link = await parent.request("GET", `/api/babies/${babyId}/schedule/feed`);
+      const reset = await parent.request("POST", `/api/babies/${babyId}/schedule/feed`);
+      await new TestClient().request("GET", feedPath(reset.body.url));
+
+      // Let the loggers, which run as each response finishes, catch up
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      const tokens = [link.body.url, reset.body.url].map((url) => feedPath(url).split("/").pop()!.replace(".ics", ""));
+      assert.ok(logged.some((line) => line.includes("/api/schedule-feeds/[redacted]")));
+      for (const token of tokens) {
+        assert.ok(!logged.some((line) => line.includes(token)), `token ${token} was logged`);
+      }
+    } finally {
+      consoleLog.mock.restore();
+    }
+  });
+});
@@ -0,0 +1,52 @@
+import { readFileSync } from "fs";
+import type { Baby, HealthScheduleRecord, ScheduledItem } from "@shared/schema";
+import {
+  defaultHealthSchedule,
+  healthScheduleSchema,
+  scheduleDueOn,
+  type ScheduleItem,
+} from "@shared/health-schedule";
+
+// Read once at startup. A broken schedule file stops the server from booting
+// rather than quietly falling back to the default.
+function loadHealthSchedule(): ScheduleItem[] {
+  const file = process.env.HEALTH_SCHEDULE_FILE;
+  if (!file) return defaultHealthSchedule;
+
+  const result = healthScheduleSchema.safeParse(JSON.parse(readFileSync(file, "utf8")));
+  if (!result.success) {
+    const issue = result.error.errors[0];
+    const where = issue.path.length > 0 ? ` (item ${issue.path.join(".")})` : "";
+    throw new Error(`Invalid health schedule in ${file}${where}: ${issue.message}`);
+  }
+  return result.data;
+}
+
+export const healthSchedule = loadHealthSchedule();
+
+// The latest any item falls due, in months after birth. Babies older than
+// this have nothing left to remind anyone of.
+export const HEALTH_SCHEDULE_MAX_MONTHS = Math.max(
+  ...healthSchedule.map((item) => item.dueMonths + Math.ceil((item.dueDays ?? 0) / 28)),
+);
+
+export function getScheduleItem(key: string) {
+  return healthSchedule.find((item) => item.key === key);
+}
+
+export function scheduledItem(baby: Baby, item: ScheduleItem, record?: HealthScheduleRecord): ScheduledItem {
+  return {
+    ...item,
+    dueOn: scheduleDueOn(baby.birthDate, item),
+    completedOn: record?.completedOn ?? null,
+    note: record?.note ?? null,
+  };
+}
+
+// The whole schedule for a baby, soonest first. Items due the same day keep
+// the schedule's own order, so each check-up comes before its vaccines.
+export function babySchedule(baby: Baby, records: HealthScheduleRecord[]): ScheduledItem[] {
+  return healthSchedule
+    .map((item) => scheduledItem(baby, item, records.find((record) => record.itemKey === item.key)))
+    .sort((a, b) => a.dueOn.localeCompare(b.dueOn));
+}
@@ -0,0 +1,85 @@
+// Household invitations give full access to a family's babies, so only the
+// verified owner of the invited address may accept one; and a parent who
+// leaves takes the babies they created with them
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { Server } from "http";
+import { storage } from "./storage";
+import { startTestServer, stopTestServer, TestClient } from "./test-utils";
+
+let server: Server;
+let inviter: TestClient;
+let invitee: TestClient;
+let inviterBabyId: number;
+let inviteeBabyId: number;
+
+async function verifyEmail(client: TestClient) {
+  const user = (await storage.getUser(client.id))!;
+  await storage.verifyEmail(await storage.createEmailVerificationToken(user.id, user.email));
+}
+
+async function babyNames(client: TestClient) {
+  const res = await client.request("GET", "/api/babies");
+  assert.equal(res.status, 200);
+  return res.body.map((baby: { name: string }) => baby.name).sort();
+}
+
+before(async () => {
+  server = await startTestServer();
+
+  inviter = await TestClient.register("inviter");
+  inviterBabyId = (await inviter.request("POST", "/api/babies", { name: "Ada", birthDate: "2026-01-10" })).body.id;
+  assert.equal(
+    (await inviter.request("POST", "/api/household/invitations", { email: "coparent@example.com" })).status,
+    201,
+  );
+
+  invitee = await TestClient.register("coparent");
+  inviteeBabyId = (await invitee.request("POST", "/api/babies", { name: "Bo", birthDate: "2025-06-02" })).body.id;
+});
+
+after(() => stopTestServer(server));
+
+describe("accepting a household invitation", () => {
+  test("is refused while the invited address is unverified", async () => {
+    const [invitation] = (await invitee.request("GET", "/api/household/invitations")).body;
+    assert.ok(invitation, "the invitation should be listed for the invited address");
+
+    const res = await invitee.request("POST", `/api/household/invitations/${invitation.id}/accept`);
+    assert.equal(res.status, 403);
+    assert.equal(await storage.getHouseholdByUserId(invitee.id), undefined);
+    assert.deepEqual(await babyNames(invitee), ["Bo"]);
+  });
+
+  test("works once the address is verified, sharing both parents' babies", async () => {
+    await verifyEmail(invitee);
+    const [invitation] = (await invitee.request("GET", "/api/household/invitations")).body;
+
+    const res = await invitee.request("POST", `/api/household/invitations/${invitation.id}/accept`);
+    assert.equal(res.status, 200);
+    assert.deepEqual(await babyNames(invitee), ["Ada", "Bo"]);
+    assert.deepEqual(await babyNames(inviter), ["Ada", "Bo"]);
+  });
+});
+
+describe("leaving a household", () => {
+  test("takes the leaving parent's babies out of it and leaves the others behind", async () => {
+    assert.equal((await invitee.request("POST", "/api/household/leave")).status, 200);
+
+    assert.deepEqual(await babyNames(inviter), ["Ada"]);
+    assert.deepEqual(await babyNames(invitee), ["Bo"]);
+    assert.equal((await storage.getBaby(inviteeBabyId))!.householdId, null);
+    assert.notEqual((await storage.getBaby(inviterBabyId))!.householdId, null);
+  });
+
+  test("a household the parent founds later shares their babies again", async () => {
+    assert.equal(
+      (await invitee.request("POST", "/api/household/invitations", { email: "someone@example.com" })).status,
+      201,
+    );
+
+    const household = await storage.getHouseholdByUserId(invitee.id);
+    assert.ok(household);
+    assert.equal((await storage.getBaby(inviteeBabyId))!.householdId, household.id);
+  });
+});
@@ -0,0 +1,88 @@
+// Minimal iCalendar (RFC 5545) output, enough for calendar apps to import
+// events from a download or subscribe to a feed
+
+export interface CalendarEntry {
+  // Stable across downloads so re-importing updates the event instead of
+  // duplicating it
+  uid: string;
+  title: string;
+  startsAt: Date;
+  endsAt: Date;
+  // Whole-day events use startsAt and endsAt's UTC dates; endsAt is the day
+  // after the last one
+  allDay?: boolean;
+  location?: string | null;
+  description?: string | null;
+  url?: string | null;
+  updatedAt?: Date | null;
+}
+
+const PRODUCT_ID = "-//BabyConnect//Cohorts//EN";
+const MAX_LINE_OCTETS = 75;
+
+function escapeText(value: string) {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// 20261019T120000Z
+function formatDateTime(date: Date) {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+// 20261019
+function formatDate(date: Date) {
+  return date.toISOString().slice(0, 10).replace(/-/g, "");
+}
+
+// Long lines are folded onto continuation lines that start with a space
+function foldLine(line: string) {
+  const chunks: string[] = [];
+  let current = "";
+  for (const char of Array.from(line)) {
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (Buffer.byteLength(current + char) > limit) {
+      chunks.push(current);
+      current = "";
+    }
+    current += char;
+  }
+  chunks.push(current);
+  return chunks.join("\r\n ");
+}
+
+export function buildCalendar(name: string, entries: CalendarEntry[], now = new Date()) {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+  ];
+
+  for (const entry of entries) {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${entry.uid}`,
+      `DTSTAMP:${formatDateTime(entry.updatedAt ?? now)}`,
+      entry.allDay
+        ? `DTSTART;VALUE=DATE:${formatDate(entry.startsAt)}`
+        : `DTSTART:${formatDateTime(entry.startsAt)}`,
+      entry.allDay
+        ? `DTEND;VALUE=DATE:${formatDate(entry.endsAt)}`
+        : `DTEND:${formatDateTime(entry.endsAt)}`,
+      `SUMMARY:${escapeText(entry.title)}`,
+    );
+    if (entry.location) lines.push(`LOCATION:${escapeText(entry.location)}`);
+    if (entry.description) lines.push(`DESCRIPTION:${escapeText(entry.description)}`);
+    if (entry.url) lines.push(`URL:${entry.url}`);
+    lines.push("END:VEVENT");
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
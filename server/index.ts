@@ -1,53 +1,23 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
-import { updateAllBirthWeeks } from "./db";
+import { useMemStorage } from "./db";
+import { requestLogger } from "./request-log";
+import { assertSchemaUpToDate } from "./migrations";
+import { startNotificationEmails, startMeetupReminders, startScheduleReminders } from "./notifications";
 
 const app = express();
 app.use(express.json({ limit: '2mb' }));
 app.use(express.urlencoded({ extended: false, limit: '2mb' }));
 
-app.post('/api/migrate/birthweek', async (req, res) => {
-  try {
-    await updateAllBirthWeeks();
-    res.json({ success: true });
-  } catch (error) {
-    console.error('Migration failed:', error);
-    res.status(500).json({ error: 'Migration failed' });
-  }
-});
-
-app.use((req, res, next) => {
-  const start = Date.now();
-  const path = req.path;
-  let capturedJsonResponse: Record<string, any> | undefined = undefined;
-
-  const originalResJson = res.json;
-  res.json = function (bodyJson, ...args) {
-    capturedJsonResponse = bodyJson;
-    return originalResJson.apply(res, [bodyJson, ...args]);
-  };
-
-  res.on("finish", () => {
-    const duration = Date.now() - start;
-    if (path.startsWith("/api")) {
-      let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
-      if (capturedJsonResponse) {
-        logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
-      }
-
-      if (logLine.length > 80) {
-        logLine = logLine.slice(0, 79) + "…";
-      }
-
-      log(logLine);
-    }
-  });
-
-  next();
-});
+app.use(requestLogger);
 
 (async () => {
+  // Refuse to boot against a database that hasn't been migrated to this build
+  if (!useMemStorage) {
+    await assertSchemaUpToDate();
+  }
+
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -78,4 +48,8 @@ app.use((req, res, next) => {
   }, () => {
     log(`serving on port ${port}`);
   });
+
+  startNotificationEmails();
+  startMeetupReminders();
+  startScheduleReminders();
 })();
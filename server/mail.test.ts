@@ -0,0 +1,94 @@
+// Links in emails must point at APP_URL, whatever Host header the request
+// that triggered them came with, and the server must refuse to boot where
+// mail links or delivery would be silently wrong
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { execFile } from "node:child_process";
+import { mkdtemp, readdir, readFile, rm } from "node:fs/promises";
+import { request as httpRequest, type Server } from "node:http";
+import { tmpdir } from "node:os";
+import path from "node:path";
+
+const outboxDir = await mkdtemp(path.join(tmpdir(), "outbox-"));
+process.env.APP_URL = "https://babyconnect.test/";
+process.env.MAIL_OUTBOX_DIR = outboxDir;
+// Read the environment above when they load
+const { startTestServer, stopTestServer, TestClient } = await import("./test-utils");
+
+let server: Server;
+
+before(async () => {
+  server = await startTestServer();
+});
+
+after(async () => {
+  await stopTestServer(server);
+  await rm(outboxDir, { recursive: true, force: true });
+});
+
+async function sentEmails(): Promise<{ to: string; subject: string; text: string; html: string }[]> {
+  const files = (await readdir(outboxDir)).sort();
+  return Promise.all(files.map(async (file) => JSON.parse(await readFile(path.join(outboxDir, file), "utf8"))));
+}
+
+// fetch won't let a caller pick the Host header, so send this one by hand
+function postWithHost(host: string, urlPath: string, body: unknown) {
+  const { port } = server.address() as { port: number };
+  return new Promise<number>((resolve, reject) => {
+    const req = httpRequest(
+      { host: "127.0.0.1", port, path: urlPath, method: "POST", headers: { Host: host, "Content-Type": "application/json" } },
+      (res) => {
+        res.resume();
+        res.on("end", () => resolve(res.statusCode!));
+      },
+    );
+    req.on("error", reject);
+    req.end(JSON.stringify(body));
+  });
+}
+
+describe("email links", () => {
+  test("a password reset requested with a forged Host header still links to APP_URL", async () => {
+    await TestClient.register("victim");
+    assert.equal(
+      await postWithHost("attacker.example", "/api/forgot-password", { email: "victim@example.com" }),
+      200,
+    );
+
+    const reset = (await sentEmails()).find((email) => email.to === "victim@example.com" && /reset/i.test(email.subject));
+    assert.ok(reset, "no password reset email was sent");
+    assert.doesNotMatch(reset.text + reset.html, /attacker\.example/);
+    assert.match(reset.text, /https:\/\/babyconnect\.test\/reset-password\?token=/);
+  });
+});
+
+describe("startup checks outside development", () => {
+  function loadMail(env: Record<string, string>) {
+    const script = 'await import("./server/mail/index.ts")';
+    return new Promise<{ code: number | null; stderr: string }>((resolve) => {
+      execFile(
+        process.execPath,
+        ["--import", "tsx", "--input-type=module", "--eval", script],
+        { env: { PATH: process.env.PATH!, NODE_ENV: "production", ...env } },
+        (err, _stdout, stderr) => resolve({ code: err ? (err.code as number) : 0, stderr }),
+      );
+    });
+  }
+
+  test("APP_URL is required", async () => {
+    const { code, stderr } = await loadMail({ SMTP_HOST: "smtp.example.com" });
+    assert.notEqual(code, 0);
+    assert.match(stderr, /APP_URL must be set/);
+  });
+
+  test("SMTP_HOST is required unless the outbox is asked for", async () => {
+    const { code, stderr } = await loadMail({ APP_URL: "https://babyconnect.test" });
+    assert.notEqual(code, 0);
+    assert.match(stderr, /SMTP_HOST must be set/);
+
+    assert.equal(
+      (await loadMail({ APP_URL: "https://babyconnect.test", MAIL_TRANSPORT: "outbox" })).code,
+      0,
+    );
+  });
+});
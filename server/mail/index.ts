@@ -0,0 +1,68 @@
+import { MailTransport, OutboxTransport, SmtpTransport } from "./transports";
+import type { RenderedEmail } from "./templates";
+
+export * from "./templates";
+export type { MailMessage, MailTransport } from "./transports";
+
+const from = process.env.MAIL_FROM || "BabyConnect <no-reply@babyconnect.app>";
+
+// Same rule as Express's app.get("env")
+const isDevelopment = (process.env.NODE_ENV || "development") === "development";
+
+// MAIL_TRANSPORT picks how email goes out: "smtp" (the default when SMTP_HOST
+// is set) or "outbox", which writes messages to MAIL_OUTBOX_DIR instead.
+// Outside development the outbox has to be asked for, so a missing SMTP_HOST
+// stops the server from booting rather than quietly sending nothing.
+function createTransport(): MailTransport {
+  const transport = process.env.MAIL_TRANSPORT || (process.env.SMTP_HOST ? "smtp" : "outbox");
+  if (!process.env.MAIL_TRANSPORT && transport === "outbox" && !isDevelopment) {
+    throw new Error(
+      'SMTP_HOST must be set to send email, or set MAIL_TRANSPORT=outbox to keep messages on disk',
+    );
+  }
+
+  if (transport === "smtp") {
+    if (!process.env.SMTP_HOST) {
+      throw new Error("SMTP_HOST must be set to send email over SMTP");
+    }
+    return new SmtpTransport({
+      host: process.env.SMTP_HOST,
+      port: parseInt(process.env.SMTP_PORT || "587"),
+      secure: process.env.SMTP_SECURE === "true",
+      user: process.env.SMTP_USER,
+      pass: process.env.SMTP_PASS,
+    });
+  }
+
+  if (transport === "outbox") {
+    return new OutboxTransport(process.env.MAIL_OUTBOX_DIR || ".outbox");
+  }
+
+  throw new Error(`Unknown MAIL_TRANSPORT "${transport}"`);
+}
+
+const transport = createTransport();
+
+export async function sendEmail(to: string, email: RenderedEmail): Promise<void> {
+  await transport.send({ from, to, ...email });
+}
+
+// Where links back into the app point. Never taken from the request's Host
+// header, which anyone can forge to send password reset links elsewhere.
+function loadAppBaseUrl() {
+  const url = process.env.APP_URL;
+  if (!url) {
+    if (!isDevelopment) {
+      throw new Error("APP_URL must be set to the app's public address, e.g. https://babyconnect.app");
+    }
+    return "http://localhost:5000";
+  }
+  return url.replace(/\/$/, "");
+}
+
+const appBaseUrl = loadAppBaseUrl();
+
+// Builds a link back into the app, for emails, calendar files and the like
+export function appUrl(path: string) {
+  return `${appBaseUrl}${path}`;
+}
@@ -0,0 +1,148 @@
+// Every email has an HTML and a plain-text body. Values interpolated into HTML
+// must go through escapeHtml.
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function layout(title: string, body: string) {
+  return `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8">
+    <title>${escapeHtml(title)}</title>
+  </head>
+  <body style="margin:0;padding:24px;background:#f6f6f9;font-family:Helvetica,Arial,sans-serif;color:#1f2937;">
+    <div style="max-width:520px;margin:0 auto;background:#ffffff;border-radius:8px;padding:32px;">
+      <h1 style="margin-top:0;font-size:20px;">${escapeHtml(title)}</h1>
+      ${body}
+      <p style="margin-top:32px;font-size:12px;color:#6b7280;">BabyConnect</p>
+    </div>
+  </body>
+</html>`;
+}
+
+function button(label: string, url: string) {
+  return `<p style="margin:24px 0;"><a href="${escapeHtml(url)}" style="display:inline-block;padding:12px 20px;background:#7c3aed;color:#ffffff;border-radius:6px;text-decoration:none;">${escapeHtml(label)}</a></p>`;
+}
+
+export function verificationEmail({ name, verifyUrl }: { name: string; verifyUrl: string }): RenderedEmail {
+  const subject = "Confirm your BabyConnect email address";
+  return {
+    subject,
+    html: layout(
+      subject,
+      `<p>Hi ${escapeHtml(name)},</p>
+      <p>Please confirm this is your email address. The link below works for 24 hours.</p>
+      ${button("Confirm email", verifyUrl)}
+      <p>If you didn't sign up for BabyConnect, you can ignore this email.</p>`,
+    ),
+    text: `Hi ${name},
+
+Please confirm this is your email address. The link below works for 24 hours.
+
+${verifyUrl}
+
+If you didn't sign up for BabyConnect, you can ignore this email.
+
+BabyConnect`,
+  };
+}
+
+export function notificationEmail({
+  name,
+  message,
+  url,
+  settingsUrl,
+}: {
+  name: string;
+  message: string;
+  url: string;
+  settingsUrl: string;
+}): RenderedEmail {
+  return {
+    subject: message,
+    html: layout(
+      "You have a new notification",
+      `<p>Hi ${escapeHtml(name)},</p>
+      <p>${escapeHtml(message)}.</p>
+      ${button("View on BabyConnect", url)}
+      <p style="font-size:12px;color:#6b7280;">You can choose which emails you get in your <a href="${escapeHtml(settingsUrl)}">notification settings</a>.</p>`,
+    ),
+    text: `Hi ${name},
+
+${message}.
+
+${url}
+
+You can choose which emails you get in your notification settings: ${settingsUrl}
+
+BabyConnect`,
+  };
+}
+
+export function notificationDigestEmail({
+  name,
+  items,
+  settingsUrl,
+}: {
+  name: string;
+  items: { message: string; url: string }[];
+  settingsUrl: string;
+}): RenderedEmail {
+  const subject = `Your BabyConnect digest: ${items.length} new ${items.length === 1 ? "notification" : "notifications"}`;
+  return {
+    subject,
+    html: layout(
+      "Here's what you missed",
+      `<p>Hi ${escapeHtml(name)},</p>
+      <ul style="padding-left:20px;">
+        ${items.map((item) => `<li style="margin-bottom:8px;"><a href="${escapeHtml(item.url)}">${escapeHtml(item.message)}</a></li>`).join("\n        ")}
+      </ul>
+      <p style="font-size:12px;color:#6b7280;">You can choose which emails you get in your <a href="${escapeHtml(settingsUrl)}">notification settings</a>.</p>`,
+    ),
+    text: `Hi ${name},
+
+Here's what you missed:
+
+${items.map((item) => `- ${item.message}: ${item.url}`).join("\n")}
+
+You can choose which emails you get in your notification settings: ${settingsUrl}
+
+BabyConnect`,
+  };
+}
+
+export function passwordResetEmail({ name, resetUrl }: { name: string; resetUrl: string }): RenderedEmail {
+  const subject = "Reset your BabyConnect password";
+  return {
+    subject,
+    html: layout(
+      subject,
+      `<p>Hi ${escapeHtml(name)},</p>
+      <p>We received a request to reset your password. The link below works for one hour.</p>
+      ${button("Reset password", resetUrl)}
+      <p>If you didn't ask to reset your password, you can ignore this email.</p>`,
+    ),
+    text: `Hi ${name},
+
+We received a request to reset your password. The link below works for one hour.
+
+${resetUrl}
+
+If you didn't ask to reset your password, you can ignore this email.
+
+BabyConnect`,
+  };
+}
@@ -0,0 +1,55 @@
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import nodemailer from "nodemailer";
+import { log } from "../vite";
+
+export interface MailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+// Delivers through any SMTP server
+export class SmtpTransport implements MailTransport {
+  private transporter: nodemailer.Transporter;
+
+  constructor(options: {
+    host: string;
+    port: number;
+    secure: boolean;
+    user?: string;
+    pass?: string;
+  }) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user ? { user: options.user, pass: options.pass } : undefined,
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail(message);
+  }
+}
+
+// Writes each message to a JSON file instead of sending it, for local
+// development and tests. Open the file to follow links from an email.
+export class OutboxTransport implements MailTransport {
+  private count = 0;
+
+  constructor(private dir: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    const file = path.join(this.dir, `${Date.now()}-${++this.count}.json`);
+    await writeFile(file, JSON.stringify({ ...message, sentAt: new Date() }, null, 2));
+    log(`Wrote email "${message.subject}" to ${file}`);
+  }
+}
@@ -0,0 +1,37 @@
+import { storage } from "./storage";
+import { notifyMentions } from "./notifications";
+
+// "@" followed by a username, not preceded by a word character so email
+// addresses don't count. Trailing dots and dashes are punctuation, not part of
+// the name.
+const MENTION_PATTERN = /(?<![\w@])@(\w(?:[\w.-]*\w)?)/g;
+
+export function extractMentionedUsernames(content: string) {
+  const usernames = Array.from(content.matchAll(MENTION_PATTERN), (match) => match[1].toLowerCase());
+  return Array.from(new Set(usernames));
+}
+
+// Stores who a post or comment mentions and notifies anyone newly mentioned,
+// so editing a post doesn't notify the same people twice. Only members of
+// the cohort can be mentioned and authors can't mention themselves.
+export async function syncMentions({
+  content,
+  authorId,
+  postId,
+  commentId,
+}: {
+  content: string;
+  authorId: number;
+  postId: number;
+  commentId?: number;
+}) {
+  const cohortId = (await storage.getPost(postId))?.cohortId ?? null;
+  const usernames = extractMentionedUsernames(content);
+  const members = usernames.length > 0 && cohortId ? await storage.getCohortMembers(cohortId) : [];
+  const userIds = members
+    .filter((member) => member.id !== authorId && usernames.includes(member.username.toLowerCase()))
+    .map((member) => member.id as number);
+
+  const added = await storage.setMentions(postId, commentId ?? null, userIds);
+  await notifyMentions(added, { actorId: authorId, cohortId, postId, commentId });
+}
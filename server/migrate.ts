@@ -0,0 +1,56 @@
+import { pool } from "./db";
+import {
+  getAppliedMigrations,
+  getPendingMigrations,
+  migrateDown,
+  migrateUp,
+} from "./migrations";
+
+// Usage:
+//   tsx server/migrate.ts up           apply all pending migrations
+//   tsx server/migrate.ts down [steps] roll back the last N migrations (default 1)
+//   tsx server/migrate.ts status       list applied and pending migrations
+async function main() {
+  const [command = "up", arg] = process.argv.slice(2);
+
+  switch (command) {
+    case "up": {
+      const applied = await migrateUp();
+      console.log(
+        applied.length > 0
+          ? `Applied ${applied.length} migration(s): ${applied.join(", ")}`
+          : "Database is already up to date",
+      );
+      break;
+    }
+    case "down": {
+      const steps = arg ? parseInt(arg) : 1;
+      if (isNaN(steps) || steps < 1) {
+        throw new Error(`Invalid number of steps: ${arg}`);
+      }
+      const rolledBack = await migrateDown(steps);
+      console.log(
+        rolledBack.length > 0
+          ? `Rolled back ${rolledBack.length} migration(s): ${rolledBack.join(", ")}`
+          : "No migrations to roll back",
+      );
+      break;
+    }
+    case "status": {
+      const applied = await getAppliedMigrations();
+      const pending = await getPendingMigrations();
+      applied.forEach((name) => console.log(`[x] ${name}`));
+      pending.forEach((migration) => console.log(`[ ] ${migration.name}`));
+      break;
+    }
+    default:
+      throw new Error(`Unknown command "${command}". Use up, down or status.`);
+  }
+}
+
+main()
+  .catch((err) => {
+    console.error(err instanceof Error ? err.message : err);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
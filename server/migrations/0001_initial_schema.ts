@@ -0,0 +1,102 @@
+import { sql } from "drizzle-orm";
+import type { Migration } from "./types";
+
+// Schema as it existed before versioned migrations, when changes were applied
+// with `drizzle-kit push`. Every statement is idempotent so databases created
+// that way can adopt the migration history without being recreated.
+export const initialSchema: Migration = {
+  name: "0001_initial_schema",
+
+  async up(tx) {
+    await tx.execute(sql`
+      CREATE TABLE IF NOT EXISTS users (
+        id serial PRIMARY KEY,
+        username text NOT NULL UNIQUE,
+        password text NOT NULL,
+        full_name text NOT NULL,
+        email text NOT NULL UNIQUE,
+        role text DEFAULT 'user' NOT NULL
+      )
+    `);
+    await tx.execute(sql`
+      CREATE TABLE IF NOT EXISTS cohorts (
+        id serial PRIMARY KEY,
+        name text NOT NULL,
+        description text,
+        creator_id integer NOT NULL REFERENCES users(id),
+        created_at timestamp DEFAULT now() NOT NULL,
+        start_date date,
+        end_date date
+      )
+    `);
+    await tx.execute(sql`
+      CREATE TABLE IF NOT EXISTS cohort_memberships (
+        id serial PRIMARY KEY,
+        user_id integer NOT NULL REFERENCES users(id),
+        cohort_id integer NOT NULL REFERENCES cohorts(id),
+        role text DEFAULT 'member' NOT NULL,
+        created_at timestamp DEFAULT now() NOT NULL
+      )
+    `);
+    await tx.execute(sql`
+      CREATE TABLE IF NOT EXISTS password_reset_tokens (
+        id serial PRIMARY KEY,
+        user_id integer NOT NULL REFERENCES users(id),
+        token uuid NOT NULL UNIQUE,
+        expires_at timestamp NOT NULL,
+        created_at timestamp DEFAULT now(),
+        used integer DEFAULT 0
+      )
+    `);
+    await tx.execute(sql`
+      CREATE TABLE IF NOT EXISTS babies (
+        id serial PRIMARY KEY,
+        user_id integer REFERENCES users(id),
+        name text NOT NULL,
+        birth_date date NOT NULL,
+        cohort_id integer REFERENCES cohorts(id),
+        photo_url text
+      )
+    `);
+    await tx.execute(sql`
+      CREATE TABLE IF NOT EXISTS posts (
+        id serial PRIMARY KEY,
+        user_id integer REFERENCES users(id),
+        cohort_id integer REFERENCES cohorts(id),
+        content text NOT NULL,
+        photo_url text,
+        created_at timestamp DEFAULT now(),
+        updated_at timestamp DEFAULT now()
+      )
+    `);
+    await tx.execute(sql`
+      CREATE TABLE IF NOT EXISTS comments (
+        id serial PRIMARY KEY,
+        post_id integer NOT NULL REFERENCES posts(id),
+        user_id integer NOT NULL REFERENCES users(id),
+        content text NOT NULL,
+        created_at timestamp DEFAULT now(),
+        updated_at timestamp DEFAULT now()
+      )
+    `);
+    await tx.execute(sql`
+      CREATE TABLE IF NOT EXISTS upvotes (
+        id serial PRIMARY KEY,
+        post_id integer NOT NULL REFERENCES posts(id),
+        user_id integer NOT NULL REFERENCES users(id),
+        created_at timestamp DEFAULT now()
+      )
+    `);
+  },
+
+  async down(tx) {
+    await tx.execute(sql`DROP TABLE IF EXISTS upvotes`);
+    await tx.execute(sql`DROP TABLE IF EXISTS comments`);
+    await tx.execute(sql`DROP TABLE IF EXISTS posts`);
+    await tx.execute(sql`DROP TABLE IF EXISTS babies`);
+    await tx.execute(sql`DROP TABLE IF EXISTS password_reset_tokens`);
+    await tx.execute(sql`DROP TABLE IF EXISTS cohort_memberships`);
+    await tx.execute(sql`DROP TABLE IF EXISTS cohorts`);
+    await tx.execute(sql`DROP TABLE IF EXISTS users`);
+  },
+};
@@ -0,0 +1,22 @@
+import { sql } from "drizzle-orm";
+import type { Migration } from "./types";
+
+// Replaces the old POST /api/migrate/birthweek endpoint. The week starts on
+// Sunday to match how createBaby and updateBaby compute birthWeek.
+export const babiesBirthWeek: Migration = {
+  name: "0002_babies_birth_week",
+
+  async up(tx) {
+    await tx.execute(sql`ALTER TABLE babies ADD COLUMN IF NOT EXISTS birth_week date`);
+    await tx.execute(sql`
+      UPDATE babies
+      SET birth_week = birth_date - EXTRACT(DOW FROM birth_date)::integer
+      WHERE birth_week IS NULL
+    `);
+    await tx.execute(sql`ALTER TABLE babies ALTER COLUMN birth_week SET NOT NULL`);
+  },
+
+  async down(tx) {
+    await tx.execute(sql`ALTER TABLE babies DROP COLUMN IF EXISTS birth_week`);
+  },
+};
@@ -0,0 +1,44 @@
+import { sql } from "drizzle-orm";
+import type { Migration } from "./types";
+
+export const households: Migration = {
+  name: "0003_households",
+
+  async up(tx) {
+    await tx.execute(sql`
+      CREATE TABLE households (
+        id serial PRIMARY KEY,
+        created_at timestamp DEFAULT now() NOT NULL
+      )
+    `);
+    await tx.execute(sql`
+      CREATE TABLE household_members (
+        id serial PRIMARY KEY,
+        household_id integer NOT NULL REFERENCES households(id),
+        user_id integer NOT NULL UNIQUE REFERENCES users(id),
+        created_at timestamp DEFAULT now() NOT NULL
+      )
+    `);
+    await tx.execute(sql`
+      CREATE TABLE household_invitations (
+        id serial PRIMARY KEY,
+        household_id integer NOT NULL REFERENCES households(id),
+        invited_by_id integer NOT NULL REFERENCES users(id),
+        email text NOT NULL,
+        status text DEFAULT 'pending' NOT NULL,
+        expires_at timestamp NOT NULL,
+        created_at timestamp DEFAULT now() NOT NULL
+      )
+    `);
+    await tx.execute(sql`
+      ALTER TABLE babies ADD COLUMN household_id integer REFERENCES households(id)
+    `);
+  },
+
+  async down(tx) {
+    await tx.execute(sql`ALTER TABLE babies DROP COLUMN household_id`);
+    await tx.execute(sql`DROP TABLE household_invitations`);
+    await tx.execute(sql`DROP TABLE household_members`);
+    await tx.execute(sql`DROP TABLE households`);
+  },
+};
@@ -0,0 +1,17 @@
+import { sql } from "drizzle-orm";
+import type { Migration } from "./types";
+
+export const cohortPrivacy: Migration = {
+  name: "0004_cohort_privacy",
+
+  async up(tx) {
+    // Existing cohorts were all listed publicly, so they stay public
+    await tx.execute(sql`
+      ALTER TABLE cohorts ADD COLUMN privacy text DEFAULT 'public' NOT NULL
+    `);
+  },
+
+  async down(tx) {
+    await tx.execute(sql`ALTER TABLE cohorts DROP COLUMN privacy`);
+  },
+};
@@ -0,0 +1,26 @@
+import { sql } from "drizzle-orm";
+import type { Migration } from "./types";
+
+export const cohortInvites: Migration = {
+  name: "0005_cohort_invites",
+
+  async up(tx) {
+    await tx.execute(sql`
+      CREATE TABLE cohort_invites (
+        id serial PRIMARY KEY,
+        cohort_id integer NOT NULL REFERENCES cohorts(id),
+        created_by_id integer NOT NULL REFERENCES users(id),
+        token text NOT NULL UNIQUE,
+        expires_at timestamp,
+        max_uses integer,
+        use_count integer DEFAULT 0 NOT NULL,
+        revoked_at timestamp,
+        created_at timestamp DEFAULT now() NOT NULL
+      )
+    `);
+  },
+
+  async down(tx) {
+    await tx.execute(sql`DROP TABLE cohort_invites`);
+  },
+};
@@ -0,0 +1,25 @@
+import { sql } from "drizzle-orm";
+import type { Migration } from "./types";
+
+export const cohortJoinRequests: Migration = {
+  name: "0006_cohort_join_requests",
+
+  async up(tx) {
+    await tx.execute(sql`
+      CREATE TABLE cohort_join_requests (
+        id serial PRIMARY KEY,
+        cohort_id integer NOT NULL REFERENCES cohorts(id),
+        user_id integer NOT NULL REFERENCES users(id),
+        message text,
+        status text DEFAULT 'pending' NOT NULL,
+        reviewed_by_id integer REFERENCES users(id),
+        reviewed_at timestamp,
+        created_at timestamp DEFAULT now() NOT NULL
+      )
+    `);
+  },
+
+  async down(tx) {
+    await tx.execute(sql`DROP TABLE cohort_join_requests`);
+  },
+};
@@ -0,0 +1,39 @@
+import { sql } from "drizzle-orm";
+import type { Migration } from "./types";
+
+export const birthCohortMemberships: Migration = {
+  name: "0007_birth_cohort_memberships",
+
+  async up(tx) {
+    await tx.execute(sql`
+      ALTER TABLE users ADD COLUMN auto_join_birth_cohorts boolean DEFAULT true NOT NULL
+    `);
+
+    // Backfill: babies have always pointed at their birth-month cohort, but
+    // their parents were never made members of it. Enroll the parent who
+    // created each baby and any co-parents in its household.
+    await tx.execute(sql`
+      INSERT INTO cohort_memberships (user_id, cohort_id, role)
+      SELECT DISTINCT parents.user_id, parents.cohort_id, 'member'
+      FROM (
+        SELECT user_id, cohort_id FROM babies WHERE user_id IS NOT NULL
+        UNION
+        SELECT household_members.user_id, babies.cohort_id
+        FROM babies
+        INNER JOIN household_members ON household_members.household_id = babies.household_id
+      ) parents
+      WHERE parents.cohort_id IS NOT NULL
+        AND NOT EXISTS (
+          SELECT 1 FROM cohort_memberships
+          WHERE cohort_memberships.user_id = parents.user_id
+            AND cohort_memberships.cohort_id = parents.cohort_id
+        )
+    `);
+  },
+
+  // Backfilled memberships are left in place: they can't be told apart from
+  // ones created since, and members may already have posted.
+  async down(tx) {
+    await tx.execute(sql`ALTER TABLE users DROP COLUMN auto_join_birth_cohorts`);
+  },
+};
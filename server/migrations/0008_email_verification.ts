@@ -0,0 +1,31 @@
+import { sql } from "drizzle-orm";
+import type { Migration } from "./types";
+
+export const emailVerification: Migration = {
+  name: "0008_email_verification",
+
+  async up(tx) {
+    // Existing accounts start unverified and are asked to verify on next sign-in
+    await tx.execute(sql`ALTER TABLE users ADD COLUMN email_verified_at timestamp`);
+    await tx.execute(sql`
+      CREATE TABLE email_verification_tokens (
+        id serial PRIMARY KEY,
+        user_id integer NOT NULL REFERENCES users(id),
+        email text NOT NULL,
+        token uuid NOT NULL UNIQUE,
+        expires_at timestamp NOT NULL,
+        created_at timestamp DEFAULT now(),
+        used integer DEFAULT 0
+      )
+    `);
+    await tx.execute(sql`
+      ALTER TABLE cohorts ADD COLUMN require_verified_email boolean DEFAULT false NOT NULL
+    `);
+  },
+
+  async down(tx) {
+    await tx.execute(sql`ALTER TABLE cohorts DROP COLUMN require_verified_email`);
+    await tx.execute(sql`DROP TABLE email_verification_tokens`);
+    await tx.execute(sql`ALTER TABLE users DROP COLUMN email_verified_at`);
+  },
+};
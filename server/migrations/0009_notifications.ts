@@ -0,0 +1,31 @@
+import { sql } from "drizzle-orm";
+import type { Migration } from "./types";
+
+export const notifications: Migration = {
+  name: "0009_notifications",
+
+  async up(tx) {
+    await tx.execute(sql`
+      CREATE TABLE notifications (
+        id serial PRIMARY KEY,
+        user_id integer NOT NULL REFERENCES users(id),
+        actor_id integer REFERENCES users(id),
+        type text NOT NULL,
+        cohort_id integer REFERENCES cohorts(id),
+        post_id integer REFERENCES posts(id) ON DELETE CASCADE,
+        comment_id integer REFERENCES comments(id) ON DELETE CASCADE,
+        role text,
+        read_at timestamp,
+        created_at timestamp DEFAULT now() NOT NULL
+      )
+    `);
+    // The unread count is fetched on every page
+    await tx.execute(sql`
+      CREATE INDEX notifications_user_id_read_at_idx ON notifications (user_id, read_at)
+    `);
+  },
+
+  async down(tx) {
+    await tx.execute(sql`DROP TABLE notifications`);
+  },
+};
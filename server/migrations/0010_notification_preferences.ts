@@ -0,0 +1,43 @@
+import { sql } from "drizzle-orm";
+import type { Migration } from "./types";
+
+export const notificationPreferences: Migration = {
+  name: "0010_notification_preferences",
+
+  async up(tx) {
+    await tx.execute(sql`ALTER TABLE notifications ADD COLUMN email text`);
+    await tx.execute(sql`ALTER TABLE notifications ADD COLUMN emailed_at timestamp`);
+    await tx.execute(sql`
+      CREATE TABLE notification_preferences (
+        id serial PRIMARY KEY,
+        user_id integer NOT NULL UNIQUE REFERENCES users(id),
+        comments text DEFAULT 'in_app' NOT NULL,
+        replies text DEFAULT 'in_app' NOT NULL,
+        upvotes text DEFAULT 'in_app' NOT NULL,
+        new_members text DEFAULT 'in_app' NOT NULL,
+        moderator_actions text DEFAULT 'in_app' NOT NULL,
+        mentions text DEFAULT 'in_app' NOT NULL,
+        quiet_hours_start text,
+        quiet_hours_end text,
+        timezone text DEFAULT 'UTC' NOT NULL,
+        last_digest_sent_at timestamp
+      )
+    `);
+    await tx.execute(sql`
+      CREATE TABLE cohort_mutes (
+        id serial PRIMARY KEY,
+        user_id integer NOT NULL REFERENCES users(id),
+        cohort_id integer NOT NULL REFERENCES cohorts(id),
+        created_at timestamp DEFAULT now() NOT NULL,
+        UNIQUE (user_id, cohort_id)
+      )
+    `);
+  },
+
+  async down(tx) {
+    await tx.execute(sql`DROP TABLE cohort_mutes`);
+    await tx.execute(sql`DROP TABLE notification_preferences`);
+    await tx.execute(sql`ALTER TABLE notifications DROP COLUMN emailed_at`);
+    await tx.execute(sql`ALTER TABLE notifications DROP COLUMN email`);
+  },
+};
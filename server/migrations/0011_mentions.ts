@@ -0,0 +1,23 @@
+import { sql } from "drizzle-orm";
+import type { Migration } from "./types";
+
+export const mentions: Migration = {
+  name: "0011_mentions",
+
+  async up(tx) {
+    await tx.execute(sql`
+      CREATE TABLE mentions (
+        id serial PRIMARY KEY,
+        user_id integer NOT NULL REFERENCES users(id),
+        post_id integer NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+        comment_id integer REFERENCES comments(id) ON DELETE CASCADE,
+        created_at timestamp DEFAULT now() NOT NULL
+      )
+    `);
+    await tx.execute(sql`CREATE INDEX mentions_post_id_idx ON mentions (post_id)`);
+  },
+
+  async down(tx) {
+    await tx.execute(sql`DROP TABLE mentions`);
+  },
+};
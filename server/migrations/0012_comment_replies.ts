@@ -0,0 +1,22 @@
+import { sql } from "drizzle-orm";
+import type { Migration } from "./types";
+
+export const commentReplies: Migration = {
+  name: "0012_comment_replies",
+
+  async up(tx) {
+    await tx.execute(sql`
+      ALTER TABLE comments
+        ADD COLUMN parent_comment_id integer REFERENCES comments(id) ON DELETE SET NULL,
+        ADD COLUMN deleted_at timestamp
+    `);
+  },
+
+  async down(tx) {
+    await tx.execute(sql`
+      ALTER TABLE comments
+        DROP COLUMN deleted_at,
+        DROP COLUMN parent_comment_id
+    `);
+  },
+};
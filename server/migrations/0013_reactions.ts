@@ -0,0 +1,63 @@
+import { sql } from "drizzle-orm";
+import type { Migration } from "./types";
+
+// Replaces upvotes with reactions. Every upvote becomes a heart on the same
+// post, and upvote notifications and preferences carry over to reactions.
+export const reactions: Migration = {
+  name: "0013_reactions",
+
+  async up(tx) {
+    await tx.execute(sql`
+      CREATE TABLE reactions (
+        id serial PRIMARY KEY,
+        user_id integer NOT NULL REFERENCES users(id),
+        post_id integer NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+        comment_id integer REFERENCES comments(id) ON DELETE CASCADE,
+        type text NOT NULL,
+        created_at timestamp DEFAULT now() NOT NULL
+      )
+    `);
+    // One of each type per user, on a post and on each of its comments
+    await tx.execute(sql`
+      CREATE UNIQUE INDEX reactions_post_user_type_idx ON reactions (post_id, user_id, type)
+        WHERE comment_id IS NULL
+    `);
+    await tx.execute(sql`
+      CREATE UNIQUE INDEX reactions_comment_user_type_idx ON reactions (comment_id, user_id, type)
+        WHERE comment_id IS NOT NULL
+    `);
+
+    await tx.execute(sql`
+      INSERT INTO reactions (user_id, post_id, type, created_at)
+      SELECT DISTINCT ON (post_id, user_id) user_id, post_id, 'heart', coalesce(created_at, now())
+      FROM upvotes
+      ORDER BY post_id, user_id, created_at
+    `);
+    await tx.execute(sql`DROP TABLE upvotes`);
+
+    await tx.execute(sql`UPDATE notifications SET type = 'reaction' WHERE type = 'upvote'`);
+    await tx.execute(sql`ALTER TABLE notification_preferences RENAME COLUMN upvotes TO reactions`);
+  },
+
+  async down(tx) {
+    await tx.execute(sql`ALTER TABLE notification_preferences RENAME COLUMN reactions TO upvotes`);
+    await tx.execute(sql`DELETE FROM notifications WHERE type = 'reaction' AND comment_id IS NOT NULL`);
+    await tx.execute(sql`UPDATE notifications SET type = 'upvote' WHERE type = 'reaction'`);
+
+    await tx.execute(sql`
+      CREATE TABLE upvotes (
+        id serial PRIMARY KEY,
+        post_id integer NOT NULL REFERENCES posts(id),
+        user_id integer NOT NULL REFERENCES users(id),
+        created_at timestamp DEFAULT now()
+      )
+    `);
+    // Only hearts on posts map back to upvotes; other reactions are lost
+    await tx.execute(sql`
+      INSERT INTO upvotes (post_id, user_id, created_at)
+      SELECT post_id, user_id, created_at FROM reactions
+      WHERE type = 'heart' AND comment_id IS NULL
+    `);
+    await tx.execute(sql`DROP TABLE reactions`);
+  },
+};
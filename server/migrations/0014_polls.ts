@@ -0,0 +1,44 @@
+import { sql } from "drizzle-orm";
+import type { Migration } from "./types";
+
+export const polls: Migration = {
+  name: "0014_polls",
+
+  async up(tx) {
+    await tx.execute(sql`
+      CREATE TABLE polls (
+        id serial PRIMARY KEY,
+        post_id integer NOT NULL UNIQUE REFERENCES posts(id) ON DELETE CASCADE,
+        multiple_choice boolean DEFAULT false NOT NULL,
+        anonymous boolean DEFAULT false NOT NULL,
+        closes_at timestamp,
+        created_at timestamp DEFAULT now() NOT NULL
+      )
+    `);
+    await tx.execute(sql`
+      CREATE TABLE poll_options (
+        id serial PRIMARY KEY,
+        poll_id integer NOT NULL REFERENCES polls(id) ON DELETE CASCADE,
+        text text NOT NULL,
+        position integer NOT NULL
+      )
+    `);
+    await tx.execute(sql`
+      CREATE TABLE poll_votes (
+        id serial PRIMARY KEY,
+        poll_id integer NOT NULL REFERENCES polls(id) ON DELETE CASCADE,
+        option_id integer NOT NULL REFERENCES poll_options(id) ON DELETE CASCADE,
+        user_id integer NOT NULL REFERENCES users(id),
+        created_at timestamp DEFAULT now() NOT NULL,
+        UNIQUE (option_id, user_id)
+      )
+    `);
+    await tx.execute(sql`CREATE INDEX poll_votes_poll_id_idx ON poll_votes (poll_id)`);
+  },
+
+  async down(tx) {
+    await tx.execute(sql`DROP TABLE poll_votes`);
+    await tx.execute(sql`DROP TABLE poll_options`);
+    await tx.execute(sql`DROP TABLE polls`);
+  },
+};
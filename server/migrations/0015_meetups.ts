@@ -0,0 +1,53 @@
+import { sql } from "drizzle-orm";
+import type { Migration } from "./types";
+
+export const meetups: Migration = {
+  name: "0015_meetups",
+
+  async up(tx) {
+    await tx.execute(sql`
+      CREATE TABLE meetups (
+        id serial PRIMARY KEY,
+        cohort_id integer NOT NULL REFERENCES cohorts(id),
+        created_by_id integer NOT NULL REFERENCES users(id),
+        title text NOT NULL,
+        starts_at timestamp NOT NULL,
+        ends_at timestamp,
+        location text NOT NULL,
+        capacity integer,
+        notes text,
+        reminder_sent_at timestamp,
+        created_at timestamp DEFAULT now() NOT NULL,
+        updated_at timestamp DEFAULT now() NOT NULL
+      )
+    `);
+    await tx.execute(sql`CREATE INDEX meetups_cohort_id_starts_at_idx ON meetups (cohort_id, starts_at)`);
+    await tx.execute(sql`
+      CREATE TABLE meetup_rsvps (
+        id serial PRIMARY KEY,
+        meetup_id integer NOT NULL REFERENCES meetups(id) ON DELETE CASCADE,
+        user_id integer NOT NULL REFERENCES users(id),
+        status text NOT NULL,
+        bringing_baby boolean DEFAULT false NOT NULL,
+        created_at timestamp DEFAULT now() NOT NULL,
+        updated_at timestamp DEFAULT now() NOT NULL,
+        UNIQUE (meetup_id, user_id)
+      )
+    `);
+
+    await tx.execute(sql`
+      ALTER TABLE notifications ADD COLUMN meetup_id integer REFERENCES meetups(id) ON DELETE CASCADE
+    `);
+    await tx.execute(sql`
+      ALTER TABLE notification_preferences ADD COLUMN meetup_reminders text DEFAULT 'in_app' NOT NULL
+    `);
+  },
+
+  async down(tx) {
+    await tx.execute(sql`ALTER TABLE notification_preferences DROP COLUMN meetup_reminders`);
+    await tx.execute(sql`DELETE FROM notifications WHERE type = 'meetup_reminder'`);
+    await tx.execute(sql`ALTER TABLE notifications DROP COLUMN meetup_id`);
+    await tx.execute(sql`DROP TABLE meetup_rsvps`);
+    await tx.execute(sql`DROP TABLE meetups`);
+  },
+};
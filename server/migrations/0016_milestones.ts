@@ -0,0 +1,51 @@
+import { sql } from "drizzle-orm";
+import { milestoneCatalogue } from "@shared/milestones";
+import type { Migration } from "./types";
+
+export const milestones: Migration = {
+  name: "0016_milestones",
+
+  async up(tx) {
+    await tx.execute(sql`
+      CREATE TABLE milestones (
+        id serial PRIMARY KEY,
+        key text NOT NULL UNIQUE,
+        title text NOT NULL,
+        category text NOT NULL,
+        description text NOT NULL,
+        typical_from_months integer NOT NULL,
+        typical_to_months integer NOT NULL,
+        position integer NOT NULL
+      )
+    `);
+    await tx.execute(sql`
+      CREATE TABLE baby_milestones (
+        id serial PRIMARY KEY,
+        baby_id integer NOT NULL REFERENCES babies(id) ON DELETE CASCADE,
+        milestone_id integer NOT NULL REFERENCES milestones(id),
+        achieved_on date NOT NULL,
+        note text,
+        photo_url text,
+        logged_by_id integer NOT NULL REFERENCES users(id),
+        shared_post_id integer REFERENCES posts(id) ON DELETE SET NULL,
+        created_at timestamp DEFAULT now() NOT NULL,
+        updated_at timestamp DEFAULT now() NOT NULL,
+        UNIQUE (baby_id, milestone_id)
+      )
+    `);
+
+    for (let position = 0; position < milestoneCatalogue.length; position++) {
+      const milestone = milestoneCatalogue[position];
+      await tx.execute(sql`
+        INSERT INTO milestones (key, title, category, description, typical_from_months, typical_to_months, position)
+        VALUES (${milestone.key}, ${milestone.title}, ${milestone.category}, ${milestone.description},
+          ${milestone.typicalFromMonths}, ${milestone.typicalToMonths}, ${position})
+      `);
+    }
+  },
+
+  async down(tx) {
+    await tx.execute(sql`DROP TABLE baby_milestones`);
+    await tx.execute(sql`DROP TABLE milestones`);
+  },
+};
@@ -0,0 +1,32 @@
+import { sql } from "drizzle-orm";
+import type { Migration } from "./types";
+
+export const growthMeasurements: Migration = {
+  name: "0017_growth_measurements",
+
+  async up(tx) {
+    await tx.execute(sql`ALTER TABLE babies ADD COLUMN sex text`);
+    await tx.execute(sql`
+      CREATE TABLE growth_measurements (
+        id serial PRIMARY KEY,
+        baby_id integer NOT NULL REFERENCES babies(id) ON DELETE CASCADE,
+        measured_on date NOT NULL,
+        weight_kg real,
+        length_cm real,
+        head_circumference_cm real,
+        note text,
+        logged_by_id integer NOT NULL REFERENCES users(id),
+        created_at timestamp DEFAULT now() NOT NULL,
+        updated_at timestamp DEFAULT now() NOT NULL
+      )
+    `);
+    await tx.execute(sql`
+      CREATE INDEX growth_measurements_baby_id_measured_on_idx ON growth_measurements (baby_id, measured_on)
+    `);
+  },
+
+  async down(tx) {
+    await tx.execute(sql`DROP TABLE growth_measurements`);
+    await tx.execute(sql`ALTER TABLE babies DROP COLUMN sex`);
+  },
+};
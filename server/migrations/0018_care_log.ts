@@ -0,0 +1,35 @@
+import { sql } from "drizzle-orm";
+import type { Migration } from "./types";
+
+export const careLog: Migration = {
+  name: "0018_care_log",
+
+  async up(tx) {
+    await tx.execute(sql`
+      CREATE TABLE care_log_entries (
+        id serial PRIMARY KEY,
+        baby_id integer NOT NULL REFERENCES babies(id) ON DELETE CASCADE,
+        type text NOT NULL,
+        started_at timestamp NOT NULL,
+        ended_at timestamp,
+        feed_method text,
+        breast_side text,
+        bottle_ml integer,
+        diaper_kind text,
+        note text,
+        logged_by_id integer NOT NULL REFERENCES users(id),
+        updated_by_id integer NOT NULL REFERENCES users(id),
+        version integer DEFAULT 1 NOT NULL,
+        created_at timestamp DEFAULT now() NOT NULL,
+        updated_at timestamp DEFAULT now() NOT NULL
+      )
+    `);
+    await tx.execute(sql`
+      CREATE INDEX care_log_entries_baby_id_started_at_idx ON care_log_entries (baby_id, started_at)
+    `);
+  },
+
+  async down(tx) {
+    await tx.execute(sql`DROP TABLE care_log_entries`);
+  },
+};
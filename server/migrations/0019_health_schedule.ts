@@ -0,0 +1,39 @@
+import { sql } from "drizzle-orm";
+import type { Migration } from "./types";
+
+export const healthSchedule: Migration = {
+  name: "0019_health_schedule",
+
+  async up(tx) {
+    await tx.execute(sql`
+      CREATE TABLE health_schedule_records (
+        id serial PRIMARY KEY,
+        baby_id integer NOT NULL REFERENCES babies(id) ON DELETE CASCADE,
+        item_key text NOT NULL,
+        completed_on date,
+        completed_by_id integer REFERENCES users(id),
+        note text,
+        reminded_for_due_on date,
+        created_at timestamp DEFAULT now() NOT NULL,
+        updated_at timestamp DEFAULT now() NOT NULL,
+        UNIQUE (baby_id, item_key)
+      )
+    `);
+
+    await tx.execute(sql`
+      ALTER TABLE notifications ADD COLUMN baby_id integer REFERENCES babies(id) ON DELETE CASCADE
+    `);
+    await tx.execute(sql`ALTER TABLE notifications ADD COLUMN schedule_due_on date`);
+    await tx.execute(sql`
+      ALTER TABLE notification_preferences ADD COLUMN schedule_reminders text DEFAULT 'in_app' NOT NULL
+    `);
+  },
+
+  async down(tx) {
+    await tx.execute(sql`ALTER TABLE notification_preferences DROP COLUMN schedule_reminders`);
+    await tx.execute(sql`DELETE FROM notifications WHERE type = 'schedule_reminder'`);
+    await tx.execute(sql`ALTER TABLE notifications DROP COLUMN schedule_due_on`);
+    await tx.execute(sql`ALTER TABLE notifications DROP COLUMN baby_id`);
+    await tx.execute(sql`DROP TABLE health_schedule_records`);
+  },
+};
@@ -0,0 +1,23 @@
+import { sql } from "drizzle-orm";
+import type { Migration } from "./types";
+
+export const scheduleFeedTokens: Migration = {
+  name: "0020_schedule_feed_tokens",
+
+  async up(tx) {
+    await tx.execute(sql`
+      CREATE TABLE schedule_feed_tokens (
+        id serial PRIMARY KEY,
+        baby_id integer NOT NULL REFERENCES babies(id) ON DELETE CASCADE,
+        user_id integer NOT NULL REFERENCES users(id),
+        token text NOT NULL UNIQUE,
+        created_at timestamp DEFAULT now() NOT NULL,
+        UNIQUE (baby_id, user_id)
+      )
+    `);
+  },
+
+  async down(tx) {
+    await tx.execute(sql`DROP TABLE schedule_feed_tokens`);
+  },
+};
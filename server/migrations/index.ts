@@ -0,0 +1,136 @@
+import { sql } from "drizzle-orm";
+import { db } from "../db";
+import { log } from "../vite";
+import type { Migration } from "./types";
+import { initialSchema } from "./0001_initial_schema";
+import { babiesBirthWeek } from "./0002_babies_birth_week";
+import { households } from "./0003_households";
+import { cohortPrivacy } from "./0004_cohort_privacy";
+import { cohortInvites } from "./0005_cohort_invites";
+import { cohortJoinRequests } from "./0006_cohort_join_requests";
+import { birthCohortMemberships } from "./0007_birth_cohort_memberships";
+import { emailVerification } from "./0008_email_verification";
+import { notifications } from "./0009_notifications";
+import { notificationPreferences } from "./0010_notification_preferences";
+import { mentions } from "./0011_mentions";
+import { commentReplies } from "./0012_comment_replies";
+import { reactions } from "./0013_reactions";
+import { polls } from "./0014_polls";
+import { meetups } from "./0015_meetups";
+import { milestones } from "./0016_milestones";
+import { growthMeasurements } from "./0017_growth_measurements";
+import { careLog } from "./0018_care_log";
+import { healthSchedule } from "./0019_health_schedule";
+import { scheduleFeedTokens } from "./0020_schedule_feed_tokens";
+
+export type { Migration, MigrationTx } from "./types";
+
+// Every migration, in the order it must be applied. New migrations are
+// appended here; never reorder or rename one that has shipped.
+export const migrations: Migration[] = [
+  initialSchema,
+  babiesBirthWeek,
+  households,
+  cohortPrivacy,
+  cohortInvites,
+  cohortJoinRequests,
+  birthCohortMemberships,
+  emailVerification,
+  notifications,
+  notificationPreferences,
+  mentions,
+  commentReplies,
+  reactions,
+  polls,
+  meetups,
+  milestones,
+  growthMeasurements,
+  careLog,
+  healthSchedule,
+  scheduleFeedTokens,
+];
+
+async function ensureMigrationsTable() {
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      id serial PRIMARY KEY,
+      name text NOT NULL UNIQUE,
+      applied_at timestamp DEFAULT now() NOT NULL
+    )
+  `);
+}
+
+export async function getAppliedMigrations(): Promise<string[]> {
+  await ensureMigrationsTable();
+  const result = await db.execute<{ name: string }>(
+    sql`SELECT name FROM schema_migrations ORDER BY id`,
+  );
+  return result.rows.map((row) => row.name);
+}
+
+export async function getPendingMigrations(): Promise<Migration[]> {
+  const applied = new Set(await getAppliedMigrations());
+  return migrations.filter((migration) => !applied.has(migration.name));
+}
+
+// Applies all pending migrations in order, each in its own transaction.
+export async function migrateUp(): Promise<string[]> {
+  const pending = await getPendingMigrations();
+
+  for (const migration of pending) {
+    log(`Applying migration ${migration.name}`, "migrate");
+    await db.transaction(async (tx) => {
+      await migration.up(tx);
+      await tx.execute(
+        sql`INSERT INTO schema_migrations (name) VALUES (${migration.name})`,
+      );
+    });
+  }
+
+  return pending.map((migration) => migration.name);
+}
+
+// Rolls back the most recently applied migrations, newest first.
+export async function migrateDown(steps = 1): Promise<string[]> {
+  const applied = await getAppliedMigrations();
+  const rolledBack: string[] = [];
+
+  for (const name of applied.slice(-steps).reverse()) {
+    const migration = migrations.find((m) => m.name === name);
+    if (!migration) {
+      throw new Error(`Cannot roll back unknown migration ${name}`);
+    }
+
+    log(`Rolling back migration ${name}`, "migrate");
+    await db.transaction(async (tx) => {
+      await migration.down(tx);
+      await tx.execute(sql`DELETE FROM schema_migrations WHERE name = ${name}`);
+    });
+    rolledBack.push(name);
+  }
+
+  return rolledBack;
+}
+
+// Called at startup: refuse to serve requests against a database whose schema
+// doesn't match the migrations this build was written for.
+export async function assertSchemaUpToDate(): Promise<void> {
+  const applied = await getAppliedMigrations();
+  const known = new Set(migrations.map((migration) => migration.name));
+
+  const unknown = applied.filter((name) => !known.has(name));
+  if (unknown.length > 0) {
+    throw new Error(
+      `Database has migrations this build doesn't know about: ${unknown.join(", ")}`,
+    );
+  }
+
+  const pending = await getPendingMigrations();
+  if (pending.length > 0) {
+    throw new Error(
+      `Database schema is out of date. Pending migrations: ${pending
+        .map((migration) => migration.name)
+        .join(", ")}. Run "npm run db:migrate" first.`,
+    );
+  }
+}
@@ -0,0 +1,10 @@
+import { db } from "../db";
+
+export type MigrationTx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export interface Migration {
+  // Unique, sortable name. Also the key stored in the schema_migrations table.
+  name: string;
+  up(tx: MigrationTx): Promise<void>;
+  down(tx: MigrationTx): Promise<void>;
+}
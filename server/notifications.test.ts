@@ -0,0 +1,101 @@
+// Notification emails are queued when something happens and sent later, so
+// what the user wants has to be checked again when they go out
+import { after, before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, readdir, readFile, rm } from "node:fs/promises";
+import type { Server } from "node:http";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { defaultNotificationSettings, type NotificationSettings } from "@shared/schema";
+
+const outboxDir = await mkdtemp(path.join(tmpdir(), "outbox-"));
+process.env.MAIL_OUTBOX_DIR = outboxDir;
+// Read the environment above when they load
+const { startTestServer, stopTestServer, TestClient } = await import("./test-utils");
+const { deliverNotificationEmails } = await import("./notifications");
+const { storage } = await import("./storage");
+
+let server: Server;
+let author: InstanceType<typeof TestClient>;
+let commenter: InstanceType<typeof TestClient>;
+let cohortId: number;
+let postId: number;
+
+async function emailsTo(email: string) {
+  const files = await readdir(outboxDir);
+  const messages = await Promise.all(
+    files.map(async (file) => JSON.parse(await readFile(path.join(outboxDir, file), "utf8"))),
+  );
+  return messages.filter((message) => message.to === email);
+}
+
+async function setCommentDelivery(comments: NotificationSettings["comments"]) {
+  const res = await author.request("PUT", "/api/user/notification-settings", {
+    ...defaultNotificationSettings,
+    comments,
+  });
+  assert.equal(res.status, 200);
+}
+
+async function comment() {
+  const res = await commenter.request("POST", "/api/comments", { postId, content: "Same here!" });
+  assert.equal(res.status, 201);
+}
+
+before(async () => {
+  server = await startTestServer();
+
+  author = await TestClient.register("author");
+  commenter = await TestClient.register("commenter");
+  const cohort = await author.request("POST", "/api/cohorts", { name: "May babies", description: null });
+  cohortId = cohort.body.id;
+  assert.equal((await commenter.request("POST", `/api/cohorts/${cohortId}/join`)).status, 201);
+  postId = (await author.request("POST", "/api/posts", { cohortId, content: "Anyone else up at 3am?" })).body.id;
+});
+
+beforeEach(async () => {
+  // Start each test with an empty queue
+  await deliverNotificationEmails();
+});
+
+after(async () => {
+  await stopTestServer(server);
+  await rm(outboxDir, { recursive: true, force: true });
+});
+
+describe("deliverNotificationEmails", () => {
+  test("sends queued emails the user still wants", async () => {
+    await setCommentDelivery("email");
+    const before = (await emailsTo("author@example.com")).length;
+    await comment();
+
+    await deliverNotificationEmails();
+    assert.equal((await emailsTo("author@example.com")).length, before + 1);
+  });
+
+  test("drops queued emails once the user turns email off for that kind", async () => {
+    await setCommentDelivery("email");
+    const before = (await emailsTo("author@example.com")).length;
+    await comment();
+    await setCommentDelivery("in_app");
+
+    await deliverNotificationEmails();
+    assert.equal((await emailsTo("author@example.com")).length, before);
+    // Taken out of the queue, so turning email back on doesn't send it late
+    assert.deepEqual(
+      (await storage.getUnsentEmailNotifications()).filter((n) => n.userId === author.id),
+      [],
+    );
+  });
+
+  test("drops queued emails from a cohort the user has since muted", async () => {
+    await setCommentDelivery("email");
+    const before = (await emailsTo("author@example.com")).length;
+    await comment();
+    assert.ok((await author.request("POST", `/api/cohorts/${cohortId}/mute`)).status < 300);
+
+    await deliverNotificationEmails();
+    assert.equal((await emailsTo("author@example.com")).length, before);
+    await author.request("DELETE", `/api/cohorts/${cohortId}/mute`);
+  });
+});
@@ -0,0 +1,413 @@
+import type {
+  Baby,
+  Comment,
+  Reaction,
+  CohortMembership,
+  InsertNotification,
+  Meetup,
+  NotificationCategory,
+  NotificationItem,
+  NotificationPreferences,
+  NotificationSettings,
+  NotificationType,
+} from "@shared/schema";
+import { defaultNotificationSettings } from "@shared/schema";
+import { addToDate } from "@shared/health-schedule";
+import { format, parseISO } from "date-fns";
+import { storage, getBabyParents } from "./storage";
+import { babySchedule, HEALTH_SCHEDULE_MAX_MONTHS } from "./health-schedule";
+import { log } from "./vite";
+import { sendEmail, notificationEmail, notificationDigestEmail, appUrl } from "./mail";
+
+// Which preference controls each kind of notification
+const notificationCategories: Record<NotificationType, NotificationCategory> = {
+  comment: "comments",
+  reply: "replies",
+  reaction: "reactions",
+  cohort_new_member: "newMembers",
+  cohort_membership: "moderatorActions",
+  cohort_role: "moderatorActions",
+  mention: "mentions",
+  meetup_reminder: "meetupReminders",
+  schedule_reminder: "scheduleReminders",
+};
+
+const EMAIL_INTERVAL_MS = 60 * 1000;
+const MEETUP_REMINDER_INTERVAL_MS = 5 * 60 * 1000;
+// Members who said they're going, or might, hear about a meetup this long
+// before it starts
+const MEETUP_REMINDER_LEAD_MS = 24 * 60 * 60 * 1000;
+const SCHEDULE_REMINDER_INTERVAL_MS = 60 * 60 * 1000;
+// Parents hear about vaccines and check-ups this many days before they're due
+const SCHEDULE_REMINDER_LEAD_DAYS = 7;
+// Digests go out once a day, at or after this hour in the user's timezone
+const DIGEST_HOUR = 8;
+
+function toNotificationSettings(preferences: NotificationPreferences | undefined): NotificationSettings {
+  if (!preferences) return defaultNotificationSettings;
+
+  const { id, userId, lastDigestSentAt, ...settings } = preferences;
+  return settings;
+}
+
+export async function getNotificationSettings(userId: number): Promise<NotificationSettings> {
+  return toNotificationSettings(await storage.getNotificationPreferences(userId));
+}
+
+// Notifications are a side effect of whatever the actor just did, so failing
+// to record one is logged and never fails the actor's request. Nobody is
+// notified about their own actions, or about anything in a cohort they muted.
+async function notify(notification: InsertNotification) {
+  if (notification.userId === notification.actorId) return;
+
+  try {
+    const settings = await getNotificationSettings(notification.userId);
+    const delivery = settings[notificationCategories[notification.type]];
+    if (delivery === "none") return;
+
+    if (notification.cohortId) {
+      const mutedCohortIds = await storage.getMutedCohortIds(notification.userId);
+      if (mutedCohortIds.includes(notification.cohortId)) return;
+    }
+
+    // Emails are sent by deliverNotificationEmails, which honours quiet hours
+    await storage.createNotification({
+      ...notification,
+      email: delivery === "email" ? "immediate" : delivery === "digest" ? "digest" : null,
+    });
+  } catch (err) {
+    log(`Error creating ${notification.type} notification for user ${notification.userId}: ${err}`);
+  }
+}
+
+// Tell a post's author someone commented on it, and for replies the author of
+// the comment being replied to. Someone who is both only hears about the reply.
+export async function notifyComment(comment: Comment) {
+  const post = await storage.getPost(comment.postId);
+  if (!post?.userId) return;
+
+  const parent = comment.parentCommentId ? await storage.getComment(comment.parentCommentId) : undefined;
+  if (parent && !parent.deletedAt) {
+    await notify({
+      userId: parent.userId,
+      actorId: comment.userId,
+      type: "reply",
+      cohortId: post.cohortId,
+      postId: post.id,
+      commentId: comment.id,
+    });
+    if (parent.userId === post.userId) return;
+  }
+
+  await notify({
+    userId: post.userId,
+    actorId: comment.userId,
+    type: "comment",
+    cohortId: post.cohortId,
+    postId: post.id,
+    commentId: comment.id,
+  });
+}
+
+// Tell the author of a post or comment someone reacted to it
+export async function notifyReaction(reaction: Reaction) {
+  const post = await storage.getPost(reaction.postId);
+  const comment = reaction.commentId ? await storage.getComment(reaction.commentId) : undefined;
+  const authorId = reaction.commentId ? comment?.userId : post?.userId;
+  if (!post || !authorId) return;
+
+  await notify({
+    userId: authorId,
+    actorId: reaction.userId,
+    type: "reaction",
+    cohortId: post.cohortId,
+    postId: post.id,
+    commentId: reaction.commentId,
+  });
+}
+
+// Tell a user they were let into a cohort by someone else, e.g. a moderator
+// adding them or approving their join request
+export async function notifyMembershipGranted(
+  membership: Pick<CohortMembership, "userId" | "cohortId" | "role">,
+  actorId: number,
+) {
+  await notify({
+    userId: membership.userId,
+    actorId,
+    type: "cohort_membership",
+    cohortId: membership.cohortId,
+    role: membership.role,
+  });
+}
+
+// Tell a member a moderator changed their role in a cohort
+export async function notifyRoleChanged(membership: CohortMembership, actorId: number) {
+  await notify({
+    userId: membership.userId,
+    actorId,
+    type: "cohort_role",
+    cohortId: membership.cohortId,
+    role: membership.role,
+  });
+}
+
+// Tell a cohort's moderators someone new joined
+export async function notifyNewMember(membership: Pick<CohortMembership, "userId" | "cohortId">) {
+  const moderators = await storage.getCohortModerators(membership.cohortId);
+  for (const moderator of moderators) {
+    await notify({
+      userId: moderator.id,
+      actorId: membership.userId,
+      type: "cohort_new_member",
+      cohortId: membership.cohortId,
+    });
+  }
+}
+
+// Tell members they were mentioned in a post, or in a comment when commentId
+// is set
+export async function notifyMentions(
+  userIds: number[],
+  mention: { actorId: number; cohortId: number | null; postId: number; commentId?: number },
+) {
+  for (const userId of userIds) {
+    await notify({ userId, type: "mention", ...mention });
+  }
+}
+
+// Remind the members going to a meetup, or who might, that it's coming up.
+// Meetups organized less than a day ahead get no reminder; everyone who
+// answered just heard about it.
+async function remindMeetup(meetup: Meetup) {
+  if (meetup.startsAt.getTime() - meetup.createdAt.getTime() >= MEETUP_REMINDER_LEAD_MS) {
+    const rsvps = await storage.getMeetupRsvps(meetup.id);
+    for (const rsvp of rsvps.filter((r) => r.status !== "no")) {
+      if (!(await storage.isCohortMember(rsvp.userId, meetup.cohortId))) continue;
+      await notify({
+        userId: rsvp.userId,
+        actorId: null,
+        type: "meetup_reminder",
+        cohortId: meetup.cohortId,
+        meetupId: meetup.id,
+      });
+    }
+  }
+  await storage.markMeetupReminderSent(meetup.id);
+}
+
+export async function sendMeetupReminders(now = new Date()) {
+  const due = await storage.getMeetupsDueReminders(now, new Date(now.getTime() + MEETUP_REMINDER_LEAD_MS));
+  for (const meetup of due) {
+    try {
+      await remindMeetup(meetup);
+    } catch (err) {
+      log(`Error sending reminders for meetup ${meetup.id}: ${err}`);
+    }
+  }
+}
+
+// Remind a baby's parents of the vaccines and check-ups due in the coming
+// days, once for each due date. Nothing is sent for items already marked
+// done, or already past due, e.g. when an older baby's profile is added.
+async function remindSchedule(baby: Baby, today: string) {
+  const records = await storage.getHealthScheduleRecords(baby.id);
+  const lastDay = addToDate(today, 0, SCHEDULE_REMINDER_LEAD_DAYS);
+  const due = babySchedule(baby, records).filter(
+    (item) =>
+      !item.completedOn &&
+      item.dueOn >= today &&
+      item.dueOn <= lastDay &&
+      records.find((record) => record.itemKey === item.key)?.remindedForDueOn !== item.dueOn,
+  );
+  if (due.length === 0) return;
+
+  const parents = await getBabyParents(storage, baby);
+  for (const dueOn of Array.from(new Set(due.map((item) => item.dueOn)))) {
+    for (const parent of parents) {
+      await notify({
+        userId: parent.id,
+        actorId: null,
+        type: "schedule_reminder",
+        babyId: baby.id,
+        scheduleDueOn: dueOn,
+      });
+    }
+    const keys = due.filter((item) => item.dueOn === dueOn).map((item) => item.key);
+    await storage.markScheduleItemsReminded(baby.id, keys, dueOn);
+  }
+}
+
+export async function sendScheduleReminders(now = new Date()) {
+  const today = now.toISOString().split("T")[0];
+  const babies = await storage.getBabiesBornSince(addToDate(today, -HEALTH_SCHEDULE_MAX_MONTHS));
+  for (const baby of babies) {
+    try {
+      await remindSchedule(baby, today);
+    } catch (err) {
+      log(`Error sending schedule reminders for baby ${baby.id}: ${err}`);
+    }
+  }
+}
+
+export function describeNotification(notification: NotificationItem) {
+  const actor = notification.actor?.fullName ?? "Someone";
+  const cohort = notification.cohortName ?? "a cohort";
+
+  switch (notification.type) {
+    case "comment":
+      return `${actor} commented on your post in ${cohort}`;
+    case "reply":
+      return `${actor} replied to your comment in ${cohort}`;
+    case "reaction":
+      return `${actor} reacted to your ${notification.commentId ? "comment" : "post"} in ${cohort}`;
+    case "cohort_membership":
+      return `${actor} added you to ${cohort}`;
+    case "cohort_role":
+      return notification.role === "moderator"
+        ? `${actor} made you a moderator of ${cohort}`
+        : `${actor} changed your role in ${cohort} to member`;
+    case "cohort_new_member":
+      return `${actor} joined ${cohort}`;
+    case "mention":
+      return `${actor} mentioned you in a ${notification.commentId ? "comment" : "post"} in ${cohort}`;
+    case "meetup_reminder":
+      return `Reminder: ${notification.meetupTitle ?? "an event"} in ${cohort} is coming up tomorrow`;
+    case "schedule_reminder": {
+      const dueOn = notification.scheduleDueOn
+        ? format(parseISO(notification.scheduleDueOn), "EEEE, MMMM d")
+        : "soon";
+      return `Reminder: ${notification.babyName ?? "Your baby"} has vaccines or a check-up due ${dueOn}`;
+    }
+  }
+}
+
+// The user's wall-clock time as "HH:MM" and their calendar date as
+// "YYYY-MM-DD"
+function localTime(date: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(date);
+  const part = (type: string) => parts.find((p) => p.type === type)?.value;
+  return {
+    time: `${part("hour")}:${part("minute")}`,
+    date: `${part("year")}-${part("month")}-${part("day")}`,
+  };
+}
+
+// Quiet hours may run past midnight, e.g. 22:00 to 07:00
+export function isInQuietHours(settings: NotificationSettings, now: Date) {
+  const { quietHoursStart: start, quietHoursEnd: end } = settings;
+  if (!start || !end || start === end) return false;
+
+  const { time } = localTime(now, settings.timezone);
+  return start < end ? time >= start && time < end : time >= start || time < end;
+}
+
+function isDigestDue(settings: NotificationSettings, lastDigestSentAt: Date | null, now: Date) {
+  const local = localTime(now, settings.timezone);
+  if (parseInt(local.time) < DIGEST_HOUR) return false;
+  return !lastDigestSentAt || localTime(lastDigestSentAt, settings.timezone).date !== local.date;
+}
+
+function notificationUrl(notification: NotificationItem) {
+  if (notification.babyId) {
+    return appUrl(`/profile?baby=${notification.babyId}`);
+  }
+  if (notification.cohortId && notification.meetupId) {
+    return appUrl(`/cohorts/${notification.cohortId}?meetup=${notification.meetupId}`);
+  }
+  return appUrl(notification.cohortId ? `/cohorts/${notification.cohortId}` : "/notifications");
+}
+
+// Sends the emails users asked for: each "email" notification on its own and
+// "digest" notifications bundled once a day. Nothing goes out during a
+// user's quiet hours; it waits for the next run after they end. A failed send
+// is retried on the next run. Preferences and muted cohorts are checked again
+// here, since the user may have changed them since the notification queued.
+export async function deliverNotificationEmails(now = new Date()) {
+  const pending = await storage.getUnsentEmailNotifications();
+  const byUser = new Map<number, NotificationItem[]>();
+  for (const notification of pending) {
+    byUser.set(notification.userId, [...(byUser.get(notification.userId) ?? []), notification]);
+  }
+
+  const settingsUrl = appUrl("/profile");
+
+  for (const [userId, notifications] of Array.from(byUser.entries())) {
+    try {
+      const user = await storage.getUser(userId);
+      if (!user) continue;
+
+      const preferences = await storage.getNotificationPreferences(userId);
+      const settings = toNotificationSettings(preferences);
+      if (isInQuietHours(settings, now)) continue;
+
+      const mutedCohortIds = await storage.getMutedCohortIds(userId);
+      const deliveryOf = (notification: NotificationItem) =>
+        notification.cohortId && mutedCohortIds.includes(notification.cohortId)
+          ? "none"
+          : settings[notificationCategories[notification.type]];
+
+      // No longer wanted by email: take them out of the queue unsent
+      const unwanted = notifications.filter((n) => !["email", "digest"].includes(deliveryOf(n)));
+      if (unwanted.length > 0) {
+        await storage.markNotificationsEmailed(unwanted.map((n) => n.id));
+      }
+
+      for (const notification of notifications.filter((n) => deliveryOf(n) === "email")) {
+        await sendEmail(user.email, notificationEmail({
+          name: user.fullName,
+          message: describeNotification(notification),
+          url: notificationUrl(notification),
+          settingsUrl,
+        }));
+        await storage.markNotificationsEmailed([notification.id]);
+      }
+
+      const digest = notifications.filter((n) => deliveryOf(n) === "digest");
+      if (digest.length > 0 && isDigestDue(settings, preferences?.lastDigestSentAt ?? null, now)) {
+        await sendEmail(user.email, notificationDigestEmail({
+          name: user.fullName,
+          items: digest.map((notification) => ({
+            message: describeNotification(notification),
+            url: notificationUrl(notification),
+          })),
+          settingsUrl,
+        }));
+        await storage.markNotificationsEmailed(digest.map((n) => n.id));
+        await storage.updateLastDigestSentAt(userId, now);
+      }
+    } catch (err) {
+      log(`Error sending notification emails to user ${userId}: ${err}`);
+    }
+  }
+}
+
+export function startNotificationEmails() {
+  const timer = setInterval(() => {
+    deliverNotificationEmails().catch((err) => log(`Error delivering notification emails: ${err}`));
+  }, EMAIL_INTERVAL_MS);
+  // Don't keep the process alive just for this
+  timer.unref();
+}
+
+export function startMeetupReminders() {
+  const timer = setInterval(() => {
+    sendMeetupReminders().catch((err) => log(`Error sending meetup reminders: ${err}`));
+  }, MEETUP_REMINDER_INTERVAL_MS);
+  timer.unref();
+}
+
+export function startScheduleReminders() {
+  const timer = setInterval(() => {
+    sendScheduleReminders().catch((err) => log(`Error sending schedule reminders: ${err}`));
+  }, SCHEDULE_REMINDER_INTERVAL_MS);
+  timer.unref();
+}
@@ -0,0 +1,72 @@
+// Cohort events go to every subscriber, so they must not reveal anything
+// only one member should see, like how someone voted in an anonymous poll
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { Server } from "http";
+import { nextEvent, startTestServer, stopTestServer, TestClient } from "./test-utils";
+
+let server: Server;
+let author: TestClient;
+let voter: TestClient;
+let cohortId: number;
+
+before(async () => {
+  server = await startTestServer();
+
+  author = await TestClient.register("author");
+  voter = await TestClient.register("voter");
+
+  const cohort = await author.request("POST", "/api/cohorts", { name: "April babies", description: null });
+  assert.equal(cohort.status, 201);
+  cohortId = cohort.body.id;
+  assert.equal((await voter.request("POST", `/api/cohorts/${cohortId}/join`)).status, 201);
+});
+
+after(() => stopTestServer(server));
+
+async function createPoll(anonymous: boolean) {
+  const post = await author.request("POST", "/api/posts", {
+    cohortId,
+    content: "Swaddle or sleep sack?",
+    poll: { options: ["Swaddle", "Sleep sack"], anonymous },
+  });
+  assert.equal(post.status, 201);
+  const feed = await author.request("GET", `/api/cohorts/${cohortId}/posts`);
+  const { poll } = feed.body.posts.find((p: { id: number }) => p.id === post.body.id);
+  return { postId: post.body.id as number, optionIds: poll.options.map((o: { id: number }) => o.id) };
+}
+
+describe("poll_voted events", () => {
+  test("an anonymous poll's broadcast results say nothing about who voted for what", async () => {
+    const { postId, optionIds } = await createPoll(true);
+    const { socket, events } = await author.subscribe(cohortId);
+    try {
+      const vote = await voter.request("PUT", `/api/posts/${postId}/poll/vote`, { optionIds: [optionIds[1]] });
+      assert.equal(vote.status, 200);
+      // The voter's own response still has their vote
+      assert.deepEqual(vote.body.myVotes, [optionIds[1]]);
+
+      const event = await nextEvent(events, "poll_voted");
+      assert.equal(event.actorId, voter.id);
+      assert.deepEqual(event.poll.myVotes, []);
+      assert.deepEqual(event.poll.options.map((o) => o.voters), [[], []]);
+      assert.deepEqual(event.poll.options.map((o) => o.voteCount), [0, 1]);
+    } finally {
+      socket.close();
+    }
+  });
+
+  test("a named poll's broadcast results list voters but leave myVotes empty", async () => {
+    const { postId, optionIds } = await createPoll(false);
+    const { socket, events } = await author.subscribe(cohortId);
+    try {
+      await voter.request("PUT", `/api/posts/${postId}/poll/vote`, { optionIds: [optionIds[0]] });
+
+      const event = await nextEvent(events, "poll_voted");
+      assert.deepEqual(event.poll.myVotes, []);
+      assert.deepEqual(event.poll.options[0].voters.map((v) => v.id), [voter.id]);
+    } finally {
+      socket.close();
+    }
+  });
+});
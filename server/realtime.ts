@@ -0,0 +1,220 @@
+import type { IncomingMessage, Server } from "http";
+import type { Request, RequestHandler, Response } from "express";
+import { WebSocketServer, WebSocket } from "ws";
+import type { CohortEvent, Comment, Post, User } from "@shared/schema";
+import { storage } from "./storage";
+import { log } from "./vite";
+
+const REALTIME_PATH = "/ws";
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+// Messages clients send to choose which cohorts they hear about
+type ClientMessage = { type: "subscribe" | "unsubscribe"; cohortId: number };
+
+interface Client {
+  socket: WebSocket;
+  user: User;
+  cohortIds: Set<number>;
+  alive: boolean;
+}
+
+const clients = new Set<Client>();
+
+// Passport keeps the signed-in user's id in the session (see serializeUser)
+async function authenticate(req: IncomingMessage, sessionMiddleware: RequestHandler) {
+  const request = req as Request;
+  await new Promise<void>((resolve, reject) => {
+    sessionMiddleware(request, {} as Response, (err?: unknown) => (err ? reject(err) : resolve()));
+  });
+  const userId = (request.session as { passport?: { user?: number } } | undefined)?.passport?.user;
+  return userId ? storage.getUser(userId) : undefined;
+}
+
+async function handleMessage(client: Client, data: string) {
+  let message: ClientMessage;
+  try {
+    message = JSON.parse(data);
+  } catch {
+    return;
+  }
+
+  const cohortId = Number(message.cohortId);
+  if (!Number.isInteger(cohortId)) return;
+
+  if (message.type === "unsubscribe") {
+    client.cohortIds.delete(cohortId);
+    return;
+  }
+
+  // Same rule as requireCohortAccess: members and admins only
+  if (
+    message.type === "subscribe" &&
+    (client.user.role === "admin" || (await storage.isCohortMember(client.user.id, cohortId)))
+  ) {
+    client.cohortIds.add(cohortId);
+  }
+}
+
+// Serves the cohort event socket on the same HTTP server as the API. The
+// browser's session cookie comes with the upgrade request, so only signed-in
+// users can connect, and they can only subscribe to their own cohorts.
+export function setupRealtime(httpServer: Server, sessionMiddleware: RequestHandler) {
+  const wss = new WebSocketServer({ noServer: true });
+
+  httpServer.on("upgrade", async (req, socket, head) => {
+    // Leave other upgrades, like Vite's HMR socket in development, alone
+    if (new URL(req.url ?? "", "http://localhost").pathname !== REALTIME_PATH) return;
+
+    try {
+      const user = await authenticate(req, sessionMiddleware);
+      if (!user) {
+        socket.write("HTTP/1.1 401 Unauthorized\r\n\r\n");
+        socket.destroy();
+        return;
+      }
+
+      wss.handleUpgrade(req, socket, head, (ws) => {
+        const client: Client = { socket: ws, user, cohortIds: new Set(), alive: true };
+        clients.add(client);
+
+        ws.on("message", (data) => {
+          handleMessage(client, data.toString()).catch((err) =>
+            log(`Error handling realtime message from user ${user.id}: ${err}`),
+          );
+        });
+        ws.on("pong", () => {
+          client.alive = true;
+        });
+        ws.on("close", () => clients.delete(client));
+      });
+    } catch (err) {
+      log(`Error opening realtime connection: ${err}`);
+      socket.destroy();
+    }
+  });
+
+  // Drop connections that stopped answering pings, e.g. a laptop that went to sleep
+  const heartbeat = setInterval(() => {
+    clients.forEach((client) => {
+      if (!client.alive) {
+        client.socket.terminate();
+        clients.delete(client);
+        return;
+      }
+      client.alive = false;
+      client.socket.ping();
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+  heartbeat.unref();
+}
+
+// Stops sending a cohort's events to a user, e.g. once they've been removed
+// from it
+export function unsubscribeFromCohort(userId: number, cohortId: number) {
+  clients.forEach((client) => {
+    if (client.user.id === userId) {
+      client.cohortIds.delete(cohortId);
+    }
+  });
+}
+
+function subscribersOf(cohortId: number | null) {
+  return Array.from(clients).filter(
+    (client) => cohortId !== null && client.cohortIds.has(cohortId),
+  );
+}
+
+function publish(event: CohortEvent) {
+  const message = JSON.stringify(event);
+  subscribersOf(event.cohortId).forEach((client) => {
+    if (client.socket.readyState === WebSocket.OPEN) {
+      client.socket.send(message);
+    }
+  });
+}
+
+// Events are best-effort: clients fall back to refetching, so a failure here
+// must never fail the request that caused it
+async function publishSafely(description: string, build: () => Promise<CohortEvent | undefined>) {
+  try {
+    const event = await build();
+    if (event) publish(event);
+  } catch (err) {
+    log(`Error publishing ${description}: ${err}`);
+  }
+}
+
+export function publishPostCreated(post: Post) {
+  return publishPostChange("post_created", post);
+}
+
+export function publishPostUpdated(post: Post) {
+  return publishPostChange("post_updated", post);
+}
+
+function publishPostChange(type: "post_created" | "post_updated", post: Post) {
+  return publishSafely(`${type} event for post ${post.id}`, async () => {
+    if (subscribersOf(post.cohortId).length === 0) return undefined;
+    // Sent to the whole cohort, so from nobody's point of view: clients keep
+    // their own reactions and votes
+    const feedPost = await storage.getFeedPost(post.id, null);
+    return feedPost && { type, cohortId: post.cohortId!, actorId: post.userId!, post: feedPost };
+  });
+}
+
+export function publishPostDeleted(post: Post, actorId: number) {
+  return publishSafely(`post_deleted event for post ${post.id}`, async () =>
+    post.cohortId === null
+      ? undefined
+      : { type: "post_deleted", cohortId: post.cohortId, actorId, postId: post.id },
+  );
+}
+
+export function publishCommentCreated(comment: Comment) {
+  return publishSafely(`comment_created event for comment ${comment.id}`, async () => {
+    const post = await storage.getPost(comment.postId);
+    if (!post || subscribersOf(post.cohortId).length === 0) return undefined;
+
+    const comments = await storage.getCommentsWithUsersByPost(post.id, comment.userId);
+    const created = comments.find((c) => c.id === comment.id);
+    return created && {
+      type: "comment_created",
+      cohortId: post.cohortId!,
+      actorId: comment.userId,
+      postId: post.id,
+      comment: created,
+      commentCount: comments.filter((c) => !c.deletedAt).length,
+    };
+  });
+}
+
+// commentId is null for reactions to the post itself
+export function publishReactionsChanged(postId: number, commentId: number | null, actorId: number) {
+  return publishSafely(`reactions_changed event for post ${postId}`, async () => {
+    const post = await storage.getPost(postId);
+    if (!post || subscribersOf(post.cohortId).length === 0) return undefined;
+
+    return {
+      type: "reactions_changed",
+      cohortId: post.cohortId!,
+      actorId,
+      postId,
+      commentId,
+      reactions: await storage.getReactionSummaries(postId, commentId, actorId),
+    };
+  });
+}
+
+// Sent after a member votes, changes or takes back their vote in a poll
+export function publishPollVoted(postId: number, actorId: number) {
+  return publishSafely(`poll_voted event for post ${postId}`, async () => {
+    const post = await storage.getPost(postId);
+    if (!post || subscribersOf(post.cohortId).length === 0) return undefined;
+
+    // Sent to the whole cohort, so it mustn't say who voted for what:
+    // myVotes is left empty and clients keep their own
+    const results = await storage.getPollResults([postId], null);
+    const poll = results.get(postId);
+    return poll && { type: "poll_voted", cohortId: post.cohortId!, actorId, postId, poll };
+  });
+}
@@ -0,0 +1,46 @@
+import type { RequestHandler } from "express";
+import { log } from "./vite";
+
+// Never write credentials from a response body to the log
+const REDACTED_FIELDS = new Set(["password", "token"]);
+
+// Links whose path is itself a secret, like a calendar feed's token
+const SECRET_PATHS = /(\/api\/schedule-feeds\/)[^/".?]+/g;
+
+function redactSecretPaths(text: string) {
+  return text.replace(SECRET_PATHS, "$1[redacted]");
+}
+
+// Logs each API request with its status, timing and (redacted) JSON response
+export const requestLogger: RequestHandler = (req, res, next) => {
+  const start = Date.now();
+  const path = req.path;
+  let capturedJsonResponse: Record<string, any> | undefined = undefined;
+
+  const originalResJson = res.json;
+  res.json = function (bodyJson, ...args) {
+    capturedJsonResponse = bodyJson;
+    return originalResJson.apply(res, [bodyJson, ...args]);
+  };
+
+  res.on("finish", () => {
+    const duration = Date.now() - start;
+    if (path.startsWith("/api")) {
+      let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
+      if (capturedJsonResponse) {
+        logLine += ` :: ${JSON.stringify(capturedJsonResponse, (key, value) =>
+          REDACTED_FIELDS.has(key) ? "[redacted]" : value
+        )}`;
+      }
+      logLine = redactSecretPaths(logLine);
+
+      if (logLine.length > 80) {
+        logLine = logLine.slice(0, 79) + "…";
+      }
+
+      log(logLine);
+    }
+  });
+
+  next();
+};
@@ -1,21 +1,190 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { setupAuth } from "./auth";
-import { storage } from "./storage";
+import { storage, isCohortInviteUsable, HouseholdCohortPlan } from "./storage";
 import { 
   insertBabySchema, 
-  insertPostSchema, 
+  createPostSchema, 
+  pollVoteSchema,
+  meetupSchema,
+  babyMilestoneSchema,
+  shareMilestoneSchema,
+  growthMeasurementSchema,
+  careLogEntrySchema,
+  careLogEntryUpdateSchema,
+  scheduleItemCompletionSchema,
+  rsvpSchema,
   insertCohortMembershipSchema, 
   insertCohortSchema,
+  cohortSettingsSchema,
+  cohortInviteSchema,
+  cohortJoinRequestSchema,
   insertCommentSchema,
-  insertUpvoteSchema
+  reactionSchema,
+  householdInvitationSchema,
+  userSettingsSchema,
+  notificationSettingsSchema,
+  type Baby,
+  type BabySchedule,
+  type BabyMilestone,
+  type CareLogEntry,
+  type CareLogEntryInput,
+  type GrowthMeasurement,
+  type GrowthMeasurementWithPercentiles,
+  type Meetup,
+  type Milestone,
+  type User
 } from "@shared/schema";
 import { log } from "./vite";
+import {
+  requireCohortAccess,
+  cohortFromParam,
+  cohortFromBody,
+  cohortFromPostParam,
+  cohortFromBodyPost,
+  cohortFromCommentParam,
+  cohortFromMeetupParam,
+  meetsCohortJoinRequirements,
+  unverifiedEmailError
+} from "./cohort-access";
+import { suggestCohorts } from "./cohort-suggestions";
+import { syncMentions } from "./mentions";
+import { buildCalendar } from "./ical";
+import { buildCsv } from "./csv";
+import { appUrl } from "./mail";
+import { differenceInMonths, differenceInWeeks } from "date-fns";
+import { ageInMonths, babySexes, growthPercentile, type GrowthMetric } from "@shared/growth-standards";
+import { isTimedCareLogEntry } from "@shared/care-log";
+import { addToDate } from "@shared/health-schedule";
+import { babySchedule, scheduledItem, getScheduleItem } from "./health-schedule";
+import {
+  setupRealtime,
+  unsubscribeFromCohort,
+  publishPostCreated,
+  publishPostUpdated,
+  publishPostDeleted,
+  publishCommentCreated,
+  publishReactionsChanged,
+  publishPollVoted
+} from "./realtime";
+import {
+  notifyComment,
+  notifyReaction,
+  notifyMembershipGranted,
+  notifyRoleChanged,
+  notifyNewMember,
+  getNotificationSettings
+} from "./notifications";
+
+const FEED_PAGE_SIZE = 20;
+const MAX_FEED_PAGE_SIZE = 50;
+const SUGGESTED_COHORTS_LIMIT = 6;
+const NOTIFICATIONS_LIMIT = 50;
+// Calendar downloads for meetups without an end time block out this long
+const DEFAULT_MEETUP_DURATION_MS = 60 * 60 * 1000;
+
+// Dates parents log milestones and measurements on may run a day ahead of
+// the server's clock for parents in time zones east of it
+const LOGGED_DATE_SLACK_MS = 24 * 60 * 60 * 1000;
+
+// Why a date can't be logged against a baby, if it can't
+function loggedDateError(baby: Baby, date: string) {
+  const loggedOn = new Date(date);
+  if (isNaN(loggedOn.getTime()) || loggedOn < new Date(baby.birthDate)) {
+    return `The date can't be before ${baby.name} was born`;
+  }
+  if (loggedOn.getTime() > Date.now() + LOGGED_DATE_SLACK_MS) {
+    return "The date can't be in the future";
+  }
+  return undefined;
+}
+
+// The longest span of care log one request can fetch
+const CARE_LOG_MAX_RANGE_MS = 31 * 24 * 60 * 60 * 1000;
+// Quick entries are stamped with the parent's clock, which may run a little fast
+const CARE_LOG_CLOCK_SLACK_MS = 5 * 60 * 1000;
+
+// Why a care log entry's times can't be saved, if they can't
+function careLogTimeError(baby: Baby, entry: CareLogEntryInput) {
+  const latest = Date.now() + CARE_LOG_CLOCK_SLACK_MS;
+  if (entry.startedAt.getTime() < new Date(baby.birthDate).getTime() - LOGGED_DATE_SLACK_MS) {
+    return `The time can't be before ${baby.name} was born`;
+  }
+  if (entry.startedAt.getTime() > latest || (entry.endedAt && entry.endedAt.getTime() > latest)) {
+    return "The time can't be in the future";
+  }
+  return undefined;
+}
+
+// Only one sleep and one breast feed can be going on at a time, so two
+// parents tapping "start" together don't log it twice
+function conflictingRunningEntry(running: CareLogEntry[], entry: CareLogEntryInput, entryId?: number) {
+  if (!isTimedCareLogEntry(entry) || entry.endedAt) return undefined;
+  return running.find((other) => other.id !== entryId && other.type === entry.type);
+}
+
+// The home page lists vaccines and check-ups due this many days ahead, along
+// with any still outstanding from before
+const SCHEDULE_UPCOMING_DAYS = 30;
+
+// Places a measurement on the WHO growth standards for the baby's sex and age
+function withPercentiles(baby: Baby, measurement: GrowthMeasurement): GrowthMeasurementWithPercentiles {
+  const months = ageInMonths(baby.birthDate, measurement.measuredOn);
+  const percentile = (value: number | null, metric: GrowthMetric) =>
+    baby.sex && value !== null ? growthPercentile(metric, baby.sex, months, value) : null;
+
+  return {
+    ...measurement,
+    percentiles: {
+      weight: percentile(measurement.weightKg, "weight"),
+      length: percentile(measurement.lengthCm, "length"),
+      headCircumference: percentile(measurement.headCircumferenceCm, "headCircumference"),
+    },
+  };
+}
+
+// The post a milestone is shared to a cohort as
+function milestonePostContent(baby: Baby, milestone: Milestone, babyMilestone: BabyMilestone) {
+  const birthDate = new Date(baby.birthDate);
+  const achievedOn = new Date(babyMilestone.achievedOn);
+  const months = differenceInMonths(achievedOn, birthDate);
+  const weeks = differenceInWeeks(achievedOn, birthDate);
+  const age = months >= 2
+    ? `${months} months`
+    : `${weeks} ${weeks === 1 ? "week" : "weeks"}`;
+
+  const headline = `🎉 Milestone: ${baby.name} reached "${milestone.title}" at ${age} old!`;
+  return babyMilestone.note ? `${headline}\n\n${babyMilestone.note}` : headline;
+}
+
+// Whoever organized a meetup can change or cancel it, as can the cohort's
+// moderators
+async function canManageMeetup(user: User, meetup: Meetup) {
+  return (
+    meetup.createdById === user.id ||
+    user.role === "admin" ||
+    (await storage.isCohortModerator(user.id, meetup.cohortId))
+  );
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
-  setupAuth(app);
+  const sessionMiddleware = setupAuth(app);
+
+  // Get all babies for the current user
+  app.get("/api/babies", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const babies = await storage.getBabiesByUserId(req.user!.id);
+      res.json(babies);
+    } catch (err) {
+      log(`Error fetching babies: ${err}`);
+      res.status(500).json({ error: "Failed to fetch babies" });
+    }
+  });
 
-  app.post("/api/baby", async (req, res) => {
+  // Add a baby (parents of twins or siblings add one per child)
+  app.post("/api/babies", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
 
     try {
@@ -27,15 +196,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/baby", async (req, res) => {
+  app.get("/api/babies/:id", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
 
-    const baby = await storage.getBabyByUserId(req.user!.id);
-    if (!baby) return res.status(404).json({ error: "Baby not found" });
+    const babyId = parseInt(req.params.id);
+    const baby = await storage.getBaby(babyId);
+    if (!baby || !(await storage.isBabyParent(baby, req.user!.id))) {
+      return res.status(404).json({ error: "Baby not found" });
+    }
     res.json(baby);
   });
   
-  app.put("/api/baby/:id", async (req, res) => {
+  app.put("/api/babies/:id", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
     try {
@@ -43,9 +215,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const updateData = req.body;
       
       // Validate that we have at least one valid field to update
-      if (!updateData.name && !updateData.birthDate && !updateData.photoUrl) {
+      if (!updateData.name && !updateData.birthDate && !updateData.photoUrl && updateData.sex === undefined) {
         return res.status(400).json({ error: "No valid fields to update" });
       }
+      if (updateData.sex !== undefined && updateData.sex !== null && !babySexes.includes(updateData.sex)) {
+        return res.status(400).json({ error: "Invalid sex" });
+      }
       
       const updatedBaby = await storage.updateBaby(babyId, updateData, req.user!.id);
       
@@ -59,365 +234,1603 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.status(500).json({ error: "Failed to update baby information" });
     }
   });
+
+  app.delete("/api/babies/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const babyId = parseInt(req.params.id);
+      const success = await storage.deleteBaby(babyId, req.user!.id);
+
+      if (!success) {
+        return res.status(404).json({ error: "Baby not found or you do not have permission to delete it" });
+      }
+
+      res.json({ success: true });
+    } catch (err) {
+      log(`Error deleting baby: ${err}`);
+      res.status(500).json({ error: "Failed to delete baby" });
+    }
+  });
   
-  // This API route is deprecated and replaced by /api/user/cohorts
-  // The old route relied on baby's cohortId which is no longer the model
-  // we're using with user-created cohorts
+  // MILESTONE ROUTES
 
-  app.get("/api/cohorts/:id", async (req, res) => {
+  // The catalogue of standard milestones, roughly by typical age
+  app.get("/api/milestones", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
-    
+
     try {
-      const cohortId = parseInt(req.params.id);
-      const cohort = await storage.getCohort(cohortId);
-      if (!cohort) return res.status(404).json({ error: "Cohort not found" });
-      
-      res.json(cohort);
+      res.json(await storage.getMilestones());
     } catch (err) {
-      res.status(500).json({ error: "Failed to fetch cohort" });
+      log(`Error fetching milestones: ${err}`);
+      res.status(500).json({ error: "Failed to fetch milestones" });
     }
   });
 
-  app.post("/api/posts", async (req, res) => {
+  // The milestones a baby has reached, oldest first
+  app.get("/api/babies/:id/milestones", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
 
     try {
-      const postData = insertPostSchema.parse(req.body);
-      const post = await storage.createPost(postData, req.user!.id);
-      log(`Created post: ${JSON.stringify(post)}`);
-      res.status(201).json(post);
+      const baby = await storage.getBaby(parseInt(req.params.id));
+      if (!baby || !(await storage.isBabyParent(baby, req.user.id))) {
+        return res.status(404).json({ error: "Baby not found" });
+      }
+
+      res.json(await storage.getBabyMilestones(baby.id));
     } catch (err) {
-      log(`Error creating post: ${err}`);
-      res.status(400).json({ error: "Invalid post data" });
+      log(`Error fetching baby milestones: ${err}`);
+      res.status(500).json({ error: "Failed to fetch milestones" });
     }
   });
 
-  app.get("/api/cohorts/:id/posts", async (req, res) => {
+  // Log when a baby reached a milestone, or change an earlier entry
+  app.put("/api/babies/:id/milestones/:milestoneId", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
 
     try {
-      const cohortId = parseInt(req.params.id);
-      log(`Fetching posts for cohort ${cohortId}`);
+      const result = babyMilestoneSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: result.error.errors[0].message });
+      }
 
-      let posts = await storage.getPostsByCohort(cohortId);
-      
-      // Sort posts by createdAt in descending order (newest first)
-      posts = posts.sort((a, b) => {
-        // Since createdAt has a defaultNow(), it should always exist
-        return new Date(b.createdAt!).getTime() - new Date(a.createdAt!).getTime();
-      });
-      
-      log(`Found ${posts.length} posts`);
+      const baby = await storage.getBaby(parseInt(req.params.id));
+      if (!baby || !(await storage.isBabyParent(baby, req.user.id))) {
+        return res.status(404).json({ error: "Baby not found" });
+      }
+      const milestone = await storage.getMilestone(parseInt(req.params.milestoneId));
+      if (!milestone) {
+        return res.status(404).json({ error: "Milestone not found" });
+      }
 
-      const postsWithUsers = await Promise.all(
-        posts.map(async (post) => {
-          // We can be sure that userId is not null in our application
-          const user = await storage.getUser(post.userId!);
-          return { ...post, user };
-        })
-      );
+      const dateError = loggedDateError(baby, result.data.achievedOn);
+      if (dateError) {
+        return res.status(400).json({ error: dateError });
+      }
 
-      log(`Returning ${postsWithUsers.length} posts with user data`);
-      res.json(postsWithUsers);
+      const saved = await storage.setBabyMilestone(baby.id, milestone.id, req.user.id, result.data);
+      log(`Logged milestone ${milestone.key} for baby ${baby.id}`);
+      res.json(saved);
     } catch (err) {
-      log(`Error fetching posts: ${err}`);
-      res.status(500).json({ error: "Failed to fetch posts" });
+      log(`Error logging milestone: ${err}`);
+      res.status(500).json({ error: "Failed to save milestone" });
     }
   });
 
-  // Update a post
-  app.put("/api/posts/:id", async (req, res) => {
+  // Take a milestone off a baby's timeline. A post it was shared as stays.
+  app.delete("/api/babies/:id/milestones/:milestoneId", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
 
     try {
-      const postId = parseInt(req.params.id);
-      const { content, photoUrl } = req.body;
-      
-      if (!content || content.trim() === "") {
-        return res.status(400).json({ error: "Post content cannot be empty" });
+      const baby = await storage.getBaby(parseInt(req.params.id));
+      if (!baby || !(await storage.isBabyParent(baby, req.user.id))) {
+        return res.status(404).json({ error: "Baby not found" });
       }
 
-      const userId = req.user.id;
-      log(`Updating post ${postId} for user ${userId}`);
+      const deleted = await storage.deleteBabyMilestone(baby.id, parseInt(req.params.milestoneId));
+      if (!deleted) {
+        return res.status(404).json({ error: "Milestone not logged" });
+      }
+      res.json({ success: true });
+    } catch (err) {
+      log(`Error deleting milestone: ${err}`);
+      res.status(500).json({ error: "Failed to delete milestone" });
+    }
+  });
 
-      const updatedPost = await storage.updatePost(postId, content, userId, photoUrl);
-      if (!updatedPost) {
-        return res.status(404).json({ error: "Post not found or you don't have permission to edit it" });
+  // Share a logged milestone to one of the parent's cohorts as a post
+  app.post("/api/babies/:id/milestones/:milestoneId/share", requireCohortAccess(cohortFromBody), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const result = shareMilestoneSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: result.error.errors[0].message });
       }
 
-      log(`Post ${postId} updated successfully`);
-      res.json(updatedPost);
+      const baby = await storage.getBaby(parseInt(req.params.id));
+      if (!baby || !(await storage.isBabyParent(baby, req.user.id))) {
+        return res.status(404).json({ error: "Baby not found" });
+      }
+      const milestone = await storage.getMilestone(parseInt(req.params.milestoneId));
+      const babyMilestone = milestone && (await storage.getBabyMilestone(baby.id, milestone.id));
+      if (!milestone || !babyMilestone) {
+        return res.status(404).json({ error: "Milestone not logged" });
+      }
+
+      const post = await storage.createPost({
+        content: milestonePostContent(baby, milestone, babyMilestone),
+        cohortId: result.data.cohortId,
+        photoUrl: babyMilestone.photoUrl,
+      }, req.user.id);
+      await storage.setBabyMilestoneSharedPost(babyMilestone.id, post.id);
+      log(`Shared milestone ${babyMilestone.id} as post ${post.id}`);
+      await publishPostCreated(post);
+      res.status(201).json(post);
     } catch (err) {
-      log(`Error updating post: ${err}`);
-      res.status(500).json({ error: "Failed to update post" });
+      log(`Error sharing milestone: ${err}`);
+      res.status(500).json({ error: "Failed to share milestone" });
     }
   });
 
-  // Delete a post
-  app.delete("/api/posts/:id", async (req, res) => {
+  // GROWTH ROUTES
+
+  // A baby's measurements, oldest first, with WHO percentiles
+  app.get("/api/babies/:id/growth", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
 
     try {
-      const postId = parseInt(req.params.id);
-      const userId = req.user.id;
-      log(`Deleting post ${postId} for user ${userId}`);
+      const baby = await storage.getBaby(parseInt(req.params.id));
+      if (!baby || !(await storage.isBabyParent(baby, req.user.id))) {
+        return res.status(404).json({ error: "Baby not found" });
+      }
 
-      const success = await storage.deletePost(postId, userId);
-      if (!success) {
-        return res.status(404).json({ error: "Post not found or you don't have permission to delete it" });
+      const measurements = await storage.getGrowthMeasurements(baby.id);
+      res.json(measurements.map((measurement) => withPercentiles(baby, measurement)));
+    } catch (err) {
+      log(`Error fetching growth measurements: ${err}`);
+      res.status(500).json({ error: "Failed to fetch measurements" });
+    }
+  });
+
+  // Record measurements from a check-up
+  app.post("/api/babies/:id/growth", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const result = growthMeasurementSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: result.error.errors[0].message });
       }
 
-      log(`Post ${postId} deleted successfully`);
+      const baby = await storage.getBaby(parseInt(req.params.id));
+      if (!baby || !(await storage.isBabyParent(baby, req.user.id))) {
+        return res.status(404).json({ error: "Baby not found" });
+      }
+      const dateError = loggedDateError(baby, result.data.measuredOn);
+      if (dateError) {
+        return res.status(400).json({ error: dateError });
+      }
+
+      const measurement = await storage.createGrowthMeasurement(baby.id, req.user.id, result.data);
+      res.status(201).json(withPercentiles(baby, measurement));
+    } catch (err) {
+      log(`Error saving growth measurement: ${err}`);
+      res.status(500).json({ error: "Failed to save measurement" });
+    }
+  });
+
+  // Correct a measurement
+  app.put("/api/babies/:id/growth/:measurementId", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const result = growthMeasurementSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: result.error.errors[0].message });
+      }
+
+      const baby = await storage.getBaby(parseInt(req.params.id));
+      if (!baby || !(await storage.isBabyParent(baby, req.user.id))) {
+        return res.status(404).json({ error: "Baby not found" });
+      }
+      const existing = await storage.getGrowthMeasurement(parseInt(req.params.measurementId));
+      if (!existing || existing.babyId !== baby.id) {
+        return res.status(404).json({ error: "Measurement not found" });
+      }
+      const dateError = loggedDateError(baby, result.data.measuredOn);
+      if (dateError) {
+        return res.status(400).json({ error: dateError });
+      }
+
+      const measurement = await storage.updateGrowthMeasurement(existing.id, result.data);
+      res.json(withPercentiles(baby, measurement!));
+    } catch (err) {
+      log(`Error updating growth measurement: ${err}`);
+      res.status(500).json({ error: "Failed to update measurement" });
+    }
+  });
+
+  app.delete("/api/babies/:id/growth/:measurementId", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const baby = await storage.getBaby(parseInt(req.params.id));
+      if (!baby || !(await storage.isBabyParent(baby, req.user.id))) {
+        return res.status(404).json({ error: "Baby not found" });
+      }
+      const existing = await storage.getGrowthMeasurement(parseInt(req.params.measurementId));
+      if (!existing || existing.babyId !== baby.id) {
+        return res.status(404).json({ error: "Measurement not found" });
+      }
+
+      await storage.deleteGrowthMeasurement(existing.id);
       res.json({ success: true });
     } catch (err) {
-      log(`Error deleting post: ${err}`);
-      res.status(500).json({ error: "Failed to delete post" });
+      log(`Error deleting growth measurement: ${err}`);
+      res.status(500).json({ error: "Failed to delete measurement" });
     }
   });
 
-  // Get all members for a cohort
-  app.get("/api/cohorts/:id/members", async (req, res) => {
+  // The raw measurements as a spreadsheet, e.g. to take to the pediatrician
+  app.get("/api/babies/:id/growth.csv", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
 
     try {
-      const cohortId = parseInt(req.params.id);
-      const members = await storage.getCohortMembers(cohortId);
-      res.json(members);
+      const baby = await storage.getBaby(parseInt(req.params.id));
+      if (!baby || !(await storage.isBabyParent(baby, req.user.id))) {
+        return res.status(404).json({ error: "Baby not found" });
+      }
+
+      const measurements = await storage.getGrowthMeasurements(baby.id);
+      const csv = buildCsv(
+        ["Date", "Weight (kg)", "Length (cm)", "Head circumference (cm)", "Note"],
+        measurements.map((measurement) => [
+          measurement.measuredOn,
+          measurement.weightKg,
+          measurement.lengthCm,
+          measurement.headCircumferenceCm,
+          measurement.note,
+        ]),
+      );
+
+      const filename = `${baby.name.replace(/[^\w-]+/g, "-")}-growth.csv`;
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      res.send(csv);
     } catch (err) {
-      log(`Error fetching cohort members: ${err}`);
-      res.status(500).json({ error: "Failed to fetch cohort members" });
+      log(`Error exporting growth measurements: ${err}`);
+      res.status(500).json({ error: "Failed to export measurements" });
     }
   });
 
-  // Get cohort moderators
-  app.get("/api/cohorts/:id/moderators", async (req, res) => {
+  // CARE LOG ROUTES
+
+  // A baby's feeds, sleeps and diapers overlapping the from-to range (ISO
+  // timestamps), including anything still going on
+  app.get("/api/babies/:id/care-log", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
 
     try {
-      const cohortId = parseInt(req.params.id);
-      const moderators = await storage.getCohortModerators(cohortId);
-      res.json(moderators);
+      const from = new Date(String(req.query.from));
+      const to = new Date(String(req.query.to));
+      if (isNaN(from.getTime()) || isNaN(to.getTime()) || to <= from) {
+        return res.status(400).json({ error: "Give a valid from and to time" });
+      }
+      if (to.getTime() - from.getTime() > CARE_LOG_MAX_RANGE_MS) {
+        return res.status(400).json({ error: "Fetch at most 31 days at a time" });
+      }
+
+      const baby = await storage.getBaby(parseInt(req.params.id));
+      if (!baby || !(await storage.isBabyParent(baby, req.user.id))) {
+        return res.status(404).json({ error: "Baby not found" });
+      }
+
+      res.json(await storage.getCareLogEntries(baby.id, from, to));
     } catch (err) {
-      log(`Error fetching cohort moderators: ${err}`);
-      res.status(500).json({ error: "Failed to fetch cohort moderators" });
+      log(`Error fetching care log: ${err}`);
+      res.status(500).json({ error: "Failed to fetch care log" });
     }
   });
 
-  // Check if user is a moderator for a cohort
-  app.get("/api/cohorts/:id/is-moderator", async (req, res) => {
+  app.post("/api/babies/:id/care-log", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
 
     try {
-      const cohortId = parseInt(req.params.id);
-      const userId = req.user.id;
-      const isModerator = await storage.isCohortModerator(userId, cohortId);
-      // Return just the boolean value directly for easier consumption by useQuery
-      res.json(isModerator);
+      const result = careLogEntrySchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: result.error.errors[0].message });
+      }
+
+      const baby = await storage.getBaby(parseInt(req.params.id));
+      if (!baby || !(await storage.isBabyParent(baby, req.user.id))) {
+        return res.status(404).json({ error: "Baby not found" });
+      }
+      const timeError = careLogTimeError(baby, result.data);
+      if (timeError) {
+        return res.status(400).json({ error: timeError });
+      }
+      const running = await storage.getRunningCareLogEntries(baby.id);
+      if (conflictingRunningEntry(running, result.data)) {
+        return res.status(409).json({ error: `A ${result.data.type} is already in progress` });
+      }
+
+      const entry = await storage.createCareLogEntry(baby.id, req.user.id, result.data);
+      res.status(201).json(entry);
     } catch (err) {
-      log(`Error checking moderator status: ${err}`);
-      res.status(500).json({ error: "Failed to check moderator status" });
+      log(`Error saving care log entry: ${err}`);
+      res.status(500).json({ error: "Failed to save entry" });
     }
   });
 
-  // Create cohort membership (add a user to a cohort)
-  app.post("/api/cohort-membership", async (req, res) => {
+  // Change an entry, e.g. to end a sleep. The request carries the version it
+  // was made from, and is refused if a co-parent has changed it since.
+  app.put("/api/babies/:id/care-log/:entryId", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
 
     try {
-      const { cohortId, userId, role } = req.body;
-      
-      // Check if the requesting user is a moderator
-      const requestingUserId = req.user.id;
-      const isModerator = await storage.isCohortModerator(requestingUserId, cohortId);
-      
-      if (!isModerator && req.user.role !== 'admin') {
-        return res.status(403).json({ error: "Only moderators and admins can add members to a cohort" });
+      const result = careLogEntryUpdateSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: result.error.errors[0].message });
       }
-      
-      const membershipData = insertCohortMembershipSchema.parse(req.body);
-      const membership = await storage.createCohortMembership(
-        membershipData.cohortId,
-        membershipData.userId,
-        membershipData.role || 'member'
-      );
-      
-      res.status(201).json(membership);
+
+      const baby = await storage.getBaby(parseInt(req.params.id));
+      if (!baby || !(await storage.isBabyParent(baby, req.user.id))) {
+        return res.status(404).json({ error: "Baby not found" });
+      }
+      const existing = await storage.getCareLogEntry(parseInt(req.params.entryId));
+      if (!existing || existing.babyId !== baby.id) {
+        return res.status(404).json({ error: "Entry not found" });
+      }
+      const { version, ...entry } = result.data;
+      const timeError = careLogTimeError(baby, entry);
+      if (timeError) {
+        return res.status(400).json({ error: timeError });
+      }
+      const running = await storage.getRunningCareLogEntries(baby.id);
+      if (conflictingRunningEntry(running, entry, existing.id)) {
+        return res.status(409).json({ error: `A ${entry.type} is already in progress` });
+      }
+
+      const updated = await storage.updateCareLogEntry(existing.id, version, req.user.id, entry);
+      if (!updated) {
+        return res.status(409).json({ error: "Someone else changed this entry. Check their changes and try again." });
+      }
+      res.json(updated);
     } catch (err) {
-      log(`Error creating cohort membership: ${err}`);
-      res.status(400).json({ error: "Invalid cohort membership data" });
+      log(`Error updating care log entry: ${err}`);
+      res.status(500).json({ error: "Failed to update entry" });
     }
   });
 
-  // Update cohort membership role
-  app.put("/api/cohort-membership/:id", async (req, res) => {
+  app.delete("/api/babies/:id/care-log/:entryId", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
 
     try {
-      const membershipId = parseInt(req.params.id);
-      const { role } = req.body;
-      
-      if (!role || (role !== 'member' && role !== 'moderator')) {
-        return res.status(400).json({ error: "Invalid role" });
+      const baby = await storage.getBaby(parseInt(req.params.id));
+      if (!baby || !(await storage.isBabyParent(baby, req.user.id))) {
+        return res.status(404).json({ error: "Baby not found" });
       }
-      
-      // Get the membership to check the cohort
-      const membership = await storage.getCohortMembershipById(membershipId);
-      if (!membership) {
-        return res.status(404).json({ error: "Membership not found" });
+      const existing = await storage.getCareLogEntry(parseInt(req.params.entryId));
+      if (!existing || existing.babyId !== baby.id) {
+        return res.status(404).json({ error: "Entry not found" });
       }
-      
-      // Check if the requesting user is a moderator for this cohort
-      const requestingUserId = req.user.id;
-      const isModerator = await storage.isCohortModerator(requestingUserId, membership.cohortId);
-      
-      if (!isModerator && req.user.role !== 'admin') {
-        return res.status(403).json({ error: "Only moderators and admins can update membership roles" });
+
+      await storage.deleteCareLogEntry(existing.id);
+      res.json({ success: true });
+    } catch (err) {
+      log(`Error deleting care log entry: ${err}`);
+      res.status(500).json({ error: "Failed to delete entry" });
+    }
+  });
+
+  // HEALTH SCHEDULE ROUTES
+
+  // A baby's vaccinations and check-ups, soonest first, with those done
+  app.get("/api/babies/:id/schedule", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const baby = await storage.getBaby(parseInt(req.params.id));
+      if (!baby || !(await storage.isBabyParent(baby, req.user.id))) {
+        return res.status(404).json({ error: "Baby not found" });
       }
-      
-      const updatedMembership = await storage.updateCohortMembershipRole(membershipId, role);
-      res.json(updatedMembership);
+
+      res.json(babySchedule(baby, await storage.getHealthScheduleRecords(baby.id)));
     } catch (err) {
-      log(`Error updating cohort membership: ${err}`);
-      res.status(500).json({ error: "Failed to update cohort membership" });
+      log(`Error fetching health schedule: ${err}`);
+      res.status(500).json({ error: "Failed to fetch schedule" });
     }
   });
 
-  // Delete cohort membership (remove a user from a cohort)
-  app.delete("/api/cohort-membership/:id", async (req, res) => {
+  // Mark a vaccine given or a check-up done, or change when it was
+  app.put("/api/babies/:id/schedule/:itemKey", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
 
     try {
-      const membershipId = parseInt(req.params.id);
-      
-      // Get the membership to check the cohort
-      const membership = await storage.getCohortMembershipById(membershipId);
-      if (!membership) {
-        return res.status(404).json({ error: "Membership not found" });
+      const result = scheduleItemCompletionSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: result.error.errors[0].message });
       }
-      
-      // Check if the requesting user is a moderator for this cohort
-      const requestingUserId = req.user.id;
-      const isModerator = await storage.isCohortModerator(requestingUserId, membership.cohortId);
-      
-      if (!isModerator && req.user.role !== 'admin') {
-        return res.status(403).json({ error: "Only moderators and admins can remove members from a cohort" });
+
+      const baby = await storage.getBaby(parseInt(req.params.id));
+      if (!baby || !(await storage.isBabyParent(baby, req.user.id))) {
+        return res.status(404).json({ error: "Baby not found" });
       }
-      
-      const success = await storage.deleteCohortMembership(membershipId);
-      res.json({ success });
+      const item = getScheduleItem(req.params.itemKey);
+      if (!item) {
+        return res.status(404).json({ error: "Schedule item not found" });
+      }
+      const dateError = loggedDateError(baby, result.data.completedOn);
+      if (dateError) {
+        return res.status(400).json({ error: dateError });
+      }
+
+      const record = await storage.completeScheduleItem(baby.id, item.key, req.user.id, result.data);
+      res.json(scheduledItem(baby, item, record));
+    } catch (err) {
+      log(`Error completing schedule item: ${err}`);
+      res.status(500).json({ error: "Failed to save schedule item" });
+    }
+  });
+
+  // Undo marking an item done
+  app.delete("/api/babies/:id/schedule/:itemKey", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const baby = await storage.getBaby(parseInt(req.params.id));
+      if (!baby || !(await storage.isBabyParent(baby, req.user.id))) {
+        return res.status(404).json({ error: "Baby not found" });
+      }
+      const item = getScheduleItem(req.params.itemKey);
+      if (!item) {
+        return res.status(404).json({ error: "Schedule item not found" });
+      }
+
+      await storage.uncompleteScheduleItem(baby.id, item.key);
+      res.json(scheduledItem(baby, item));
+    } catch (err) {
+      log(`Error undoing schedule item: ${err}`);
+      res.status(500).json({ error: "Failed to update schedule item" });
+    }
+  });
+
+  // The current user's link for subscribing to a baby's schedule from a
+  // calendar app
+  app.get("/api/babies/:id/schedule/feed", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const baby = await storage.getBaby(parseInt(req.params.id));
+      if (!baby || !(await storage.isBabyParent(baby, req.user.id))) {
+        return res.status(404).json({ error: "Baby not found" });
+      }
+
+      const feed = await storage.getScheduleFeedToken(baby.id, req.user.id);
+      res.json({ url: appUrl(`/api/schedule-feeds/${feed.token}.ics`) });
+    } catch (err) {
+      log(`Error creating schedule feed link: ${err}`);
+      res.status(500).json({ error: "Failed to create calendar link" });
+    }
+  });
+
+  // Replace the current user's calendar link, e.g. after it was shared too
+  // widely. The old link stops working straight away.
+  app.post("/api/babies/:id/schedule/feed", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const baby = await storage.getBaby(parseInt(req.params.id));
+      if (!baby || !(await storage.isBabyParent(baby, req.user.id))) {
+        return res.status(404).json({ error: "Baby not found" });
+      }
+
+      const feed = await storage.resetScheduleFeedToken(baby.id, req.user.id);
+      log(`User ${req.user.id} reset their calendar link for baby ${baby.id}`);
+      res.json({ url: appUrl(`/api/schedule-feeds/${feed.token}.ics`) });
+    } catch (err) {
+      log(`Error resetting schedule feed link: ${err}`);
+      res.status(500).json({ error: "Failed to reset calendar link" });
+    }
+  });
+
+  // A baby's schedule as an iCal feed. Calendar apps fetch this without a
+  // session, so the token in the link stands in for one. It only works while
+  // the parent it was made for is still one of the baby's parents.
+  app.get("/api/schedule-feeds/:token.ics", async (req, res) => {
+    try {
+      const feed = await storage.getScheduleFeedByToken(req.params.token);
+      const baby = feed && (await storage.getBaby(feed.babyId));
+      if (!feed || !baby || !(await storage.isBabyParent(baby, feed.userId))) {
+        return res.status(404).json({ error: "Calendar not found" });
+      }
+
+      const url = appUrl(`/profile?baby=${baby.id}`);
+      const items = babySchedule(baby, await storage.getHealthScheduleRecords(baby.id));
+      const calendar = buildCalendar(`${baby.name}'s health schedule`, items.map((item) => {
+        const dueOn = new Date(`${item.dueOn}T00:00:00Z`);
+        return {
+          uid: `schedule-${baby.id}-${item.key}@${new URL(url).hostname}`,
+          title: `${baby.name}: ${item.title}${item.completedOn ? " ✓" : ""}`,
+          startsAt: dueOn,
+          endsAt: new Date(`${addToDate(item.dueOn, 0, 1)}T00:00:00Z`),
+          allDay: true,
+          description: [
+            item.description,
+            item.completedOn && `Done on ${item.completedOn}`,
+            item.note,
+            url,
+          ].filter(Boolean).join("\n\n"),
+          url,
+        };
+      }));
+
+      const filename = `${baby.name.replace(/[^\w-]+/g, "-")}-health-schedule.ics`;
+      res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+      res.setHeader("Content-Disposition", `inline; filename="${filename}"`);
+      res.send(calendar);
+    } catch (err) {
+      log(`Error building schedule calendar feed: ${err}`);
+      res.status(500).json({ error: "Failed to build calendar" });
+    }
+  });
+
+  // What's due soon, or overdue, across all of the user's babies
+  app.get("/api/schedule/upcoming", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const lastDay = addToDate(new Date().toISOString().split("T")[0], 0, SCHEDULE_UPCOMING_DAYS);
+      const schedules: BabySchedule[] = [];
+      for (const baby of await storage.getBabiesByUserId(req.user.id)) {
+        const items = babySchedule(baby, await storage.getHealthScheduleRecords(baby.id)).filter(
+          (item) => !item.completedOn && item.dueOn <= lastDay,
+        );
+        if (items.length > 0) {
+          schedules.push({ baby: { id: baby.id, name: baby.name }, items });
+        }
+      }
+      res.json(schedules);
+    } catch (err) {
+      log(`Error fetching upcoming schedule items: ${err}`);
+      res.status(500).json({ error: "Failed to fetch upcoming appointments" });
+    }
+  });
+
+  // HOUSEHOLD ROUTES
+
+  // Get the current user's household with its co-parents and pending invitations
+  app.get("/api/household", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const household = await storage.getHouseholdByUserId(req.user.id);
+      if (!household) return res.json(null);
+
+      const members = await storage.getHouseholdMembers(household.id);
+      const invitations = await storage.getPendingHouseholdInvitationsByHousehold(household.id);
+
+      res.json({
+        ...household,
+        // Return limited information for privacy
+        members: members.map(member => ({
+          id: member.id,
+          username: member.username,
+          fullName: member.fullName,
+          email: member.email,
+        })),
+        invitations,
+      });
+    } catch (err) {
+      log(`Error fetching household: ${err}`);
+      res.status(500).json({ error: "Failed to fetch household" });
+    }
+  });
+
+  // Invite a co-parent by email to share baby profiles
+  app.post("/api/household/invitations", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const { email } = householdInvitationSchema.parse(req.body);
+
+      if (email.toLowerCase() === req.user.email.toLowerCase()) {
+        return res.status(400).json({ error: "You can't invite yourself" });
+      }
+
+      const invitee = await storage.getUserByEmail(email);
+      if (invitee && await storage.getHouseholdByUserId(invitee.id)) {
+        return res.status(400).json({ error: "That person is already part of a household" });
+      }
+
+      const household = await storage.getHouseholdByUserId(req.user.id);
+      if (household) {
+        const pending = await storage.getPendingHouseholdInvitationsByHousehold(household.id);
+        if (pending.some(invitation => invitation.email === email.toLowerCase())) {
+          return res.status(400).json({ error: "An invitation has already been sent to that email" });
+        }
+      }
+
+      const invitation = await storage.createHouseholdInvitation(req.user.id, email);
+      log(`User ${req.user.id} invited ${email} to household ${invitation.householdId}`);
+      res.status(201).json(invitation);
+    } catch (err) {
+      log(`Error creating household invitation: ${err}`);
+      res.status(400).json({ error: "Invalid invitation data" });
+    }
+  });
+
+  // Get pending invitations sent to the current user's email
+  app.get("/api/household/invitations", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const invitations = await storage.getPendingHouseholdInvitationsByEmail(req.user.email);
+      res.json(invitations);
+    } catch (err) {
+      log(`Error fetching household invitations: ${err}`);
+      res.status(500).json({ error: "Failed to fetch household invitations" });
+    }
+  });
+
+  // Accept an invitation and join the inviter's household
+  app.post("/api/household/invitations/:id/accept", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const invitationId = parseInt(req.params.id);
+      const invitation = await storage.getHouseholdInvitation(invitationId);
+
+      if (
+        !invitation ||
+        invitation.status !== "pending" ||
+        invitation.expiresAt < new Date() ||
+        invitation.email !== req.user.email.toLowerCase()
+      ) {
+        return res.status(404).json({ error: "Invitation not found or expired" });
+      }
+
+      // Anyone can sign up with, or switch to, the invited address, so it has
+      // to be proven before they see the household's babies
+      if (!req.user.emailVerifiedAt) {
+        return res.status(403).json({ error: "Verify your email address before joining this household" });
+      }
+
+      if (await storage.getHouseholdByUserId(req.user.id)) {
+        return res.status(400).json({ error: "Leave your current household before joining another" });
+      }
+
+      // Bring the new co-parent into the inviter's cohorts, holding them to
+      // the same rules as joining by themselves
+      const plan: HouseholdCohortPlan = { joinCohortIds: [], requestCohortIds: [] };
+      for (const { cohortId } of await storage.getCohortMembershipsByUserId(invitation.invitedById)) {
+        const cohort = await storage.getCohort(cohortId);
+        if (
+          !cohort ||
+          (await storage.isCohortMember(req.user.id, cohortId)) ||
+          (await storage.getPendingCohortJoinRequest(cohortId, req.user.id))
+        ) {
+          continue;
+        }
+        const canJoin =
+          (cohort.privacy === "public" || req.user.role === "admin") &&
+          meetsCohortJoinRequirements(req.user, cohort);
+        (canJoin ? plan.joinCohortIds : plan.requestCohortIds).push(cohortId);
+      }
+
+      const household = await storage.acceptHouseholdInvitation(invitationId, req.user.id, plan);
+      for (const cohortId of plan.joinCohortIds) {
+        await notifyNewMember({ userId: req.user.id, cohortId });
+      }
+      log(`User ${req.user.id} joined household ${household.id}`);
+      res.json(household);
+    } catch (err) {
+      log(`Error accepting household invitation: ${err}`);
+      res.status(500).json({ error: "Failed to accept invitation" });
+    }
+  });
+
+  // Decline an invitation sent to the current user
+  app.post("/api/household/invitations/:id/decline", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const invitationId = parseInt(req.params.id);
+      const invitation = await storage.getHouseholdInvitation(invitationId);
+
+      if (!invitation || invitation.status !== "pending" || invitation.email !== req.user.email.toLowerCase()) {
+        return res.status(404).json({ error: "Invitation not found" });
+      }
+
+      await storage.updateHouseholdInvitationStatus(invitationId, "declined");
+      res.json({ success: true });
+    } catch (err) {
+      log(`Error declining household invitation: ${err}`);
+      res.status(500).json({ error: "Failed to decline invitation" });
+    }
+  });
+
+  // Revoke an invitation sent from the current user's household
+  app.delete("/api/household/invitations/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const invitationId = parseInt(req.params.id);
+      const invitation = await storage.getHouseholdInvitation(invitationId);
+      const household = await storage.getHouseholdByUserId(req.user.id);
+
+      if (!invitation || invitation.status !== "pending" || invitation.householdId !== household?.id) {
+        return res.status(404).json({ error: "Invitation not found" });
+      }
+
+      await storage.updateHouseholdInvitationStatus(invitationId, "revoked");
+      res.json({ success: true });
+    } catch (err) {
+      log(`Error revoking household invitation: ${err}`);
+      res.status(500).json({ error: "Failed to revoke invitation" });
+    }
+  });
+
+  // Leave the current household
+  app.post("/api/household/leave", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const success = await storage.leaveHousehold(req.user.id);
+      res.json({ success });
+    } catch (err) {
+      log(`Error leaving household: ${err}`);
+      res.status(500).json({ error: "Failed to leave household" });
+    }
+  });
+  
+  // Suggest cohorts to join, closest in baby age first. Registered before
+  // /api/cohorts/:id so "suggested" isn't taken for a cohort id.
+  app.get("/api/cohorts/suggested", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const suggestions = await suggestCohorts(req.user.id, SUGGESTED_COHORTS_LIMIT);
+      res.json(suggestions);
+    } catch (err) {
+      log(`Error fetching suggested cohorts: ${err}`);
+      res.status(500).json({ error: "Failed to fetch suggested cohorts" });
+    }
+  });
+
+  // Get a cohort's details
+  app.get("/api/cohorts/:id", requireCohortAccess(cohortFromParam), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const cohortId = parseInt(req.params.id);
+      const cohort = await storage.getCohort(cohortId);
+      if (!cohort) return res.status(404).json({ error: "Cohort not found" });
+      
+      res.json(cohort);
+    } catch (err) {
+      res.status(500).json({ error: "Failed to fetch cohort" });
+    }
+  });
+
+  // Update cohort settings such as privacy (moderators and admins only)
+  app.put("/api/cohorts/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const cohortId = parseInt(req.params.id);
+      const isModerator = await storage.isCohortModerator(req.user.id, cohortId);
+      if (!isModerator && req.user.role !== 'admin') {
+        return res.status(403).json({ error: "Only moderators and admins can change cohort settings" });
+      }
+
+      const result = cohortSettingsSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid cohort settings" });
+      }
+
+      const cohort = await storage.updateCohortSettings(cohortId, result.data);
+      if (!cohort) return res.status(404).json({ error: "Cohort not found" });
+
+      res.json(cohort);
+    } catch (err) {
+      log(`Error updating cohort settings: ${err}`);
+      res.status(500).json({ error: "Failed to update cohort settings" });
+    }
+  });
+
+  app.post("/api/posts", requireCohortAccess(cohortFromBody), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const result = createPostSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: result.error.errors[0].message });
+      }
+
+      const { poll, ...postData } = result.data;
+      const post = await storage.createPost(postData, req.user!.id, poll);
+      log(`Created post${poll ? " with a poll" : ""}: ${JSON.stringify(post)}`);
+      await syncMentions({ content: post.content, authorId: req.user.id, postId: post.id });
+      await publishPostCreated(post);
+      res.status(201).json(post);
+    } catch (err) {
+      log(`Error creating post: ${err}`);
+      res.status(400).json({ error: "Invalid post data" });
+    }
+  });
+
+  // Cursor-paginated cohort feed, newest first. Pass the previous page's
+  // nextCursor as ?cursor= to load older posts.
+  app.get("/api/cohorts/:id/posts", requireCohortAccess(cohortFromParam), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const cohortId = parseInt(req.params.id);
+      const cursor = req.query.cursor ? parseInt(req.query.cursor as string) : undefined;
+      const limit = Math.min(
+        Math.max(parseInt(req.query.limit as string) || FEED_PAGE_SIZE, 1),
+        MAX_FEED_PAGE_SIZE
+      );
+
+      if (cursor !== undefined && isNaN(cursor)) {
+        return res.status(400).json({ error: "Invalid cursor" });
+      }
+
+      const page = await storage.getCohortFeed(cohortId, req.user.id, { cursor, limit });
+      log(`Returning ${page.posts.length} posts for cohort ${cohortId}`);
+      res.json(page);
+    } catch (err) {
+      log(`Error fetching posts: ${err}`);
+      res.status(500).json({ error: "Failed to fetch posts" });
+    }
+  });
+
+  // Update a post
+  app.put("/api/posts/:id", requireCohortAccess(cohortFromPostParam), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const postId = parseInt(req.params.id);
+      const { content, photoUrl } = req.body;
+      
+      if (!content || content.trim() === "") {
+        return res.status(400).json({ error: "Post content cannot be empty" });
+      }
+
+      const userId = req.user.id;
+      log(`Updating post ${postId} for user ${userId}`);
+
+      const updatedPost = await storage.updatePost(postId, content, userId, photoUrl);
+      if (!updatedPost) {
+        return res.status(404).json({ error: "Post not found or you don't have permission to edit it" });
+      }
+
+      log(`Post ${postId} updated successfully`);
+      await syncMentions({ content: updatedPost.content, authorId: userId, postId });
+      await publishPostUpdated(updatedPost);
+      res.json(updatedPost);
+    } catch (err) {
+      log(`Error updating post: ${err}`);
+      res.status(500).json({ error: "Failed to update post" });
+    }
+  });
+
+  // Delete a post
+  app.delete("/api/posts/:id", requireCohortAccess(cohortFromPostParam), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const postId = parseInt(req.params.id);
+      const userId = req.user.id;
+      log(`Deleting post ${postId} for user ${userId}`);
+
+      const post = await storage.getPost(postId);
+      const success = await storage.deletePost(postId, userId);
+      if (!post || !success) {
+        return res.status(404).json({ error: "Post not found or you don't have permission to delete it" });
+      }
+
+      log(`Post ${postId} deleted successfully`);
+      await publishPostDeleted(post, userId);
+      res.json({ success: true });
+    } catch (err) {
+      log(`Error deleting post: ${err}`);
+      res.status(500).json({ error: "Failed to delete post" });
+    }
+  });
+
+  // Get all members for a cohort
+  app.get("/api/cohorts/:id/members", requireCohortAccess(cohortFromParam), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const cohortId = parseInt(req.params.id);
+      const members = await storage.getCohortMembers(cohortId);
+      res.json(members);
+    } catch (err) {
+      log(`Error fetching cohort members: ${err}`);
+      res.status(500).json({ error: "Failed to fetch cohort members" });
+    }
+  });
+
+  // Get cohort moderators
+  app.get("/api/cohorts/:id/moderators", requireCohortAccess(cohortFromParam), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const cohortId = parseInt(req.params.id);
+      const moderators = await storage.getCohortModerators(cohortId);
+      res.json(moderators);
+    } catch (err) {
+      log(`Error fetching cohort moderators: ${err}`);
+      res.status(500).json({ error: "Failed to fetch cohort moderators" });
+    }
+  });
+
+  // Check if user is a moderator for a cohort
+  app.get("/api/cohorts/:id/is-moderator", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const cohortId = parseInt(req.params.id);
+      const userId = req.user.id;
+      const isModerator = await storage.isCohortModerator(userId, cohortId);
+      // Return just the boolean value directly for easier consumption by useQuery
+      res.json(isModerator);
+    } catch (err) {
+      log(`Error checking moderator status: ${err}`);
+      res.status(500).json({ error: "Failed to check moderator status" });
+    }
+  });
+
+  // Create cohort membership (add a user to a cohort)
+  app.post("/api/cohort-membership", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const { cohortId, userId, role } = req.body;
+      
+      // Check if the requesting user is a moderator
+      const requestingUserId = req.user.id;
+      const isModerator = await storage.isCohortModerator(requestingUserId, cohortId);
+      
+      if (!isModerator && req.user.role !== 'admin') {
+        return res.status(403).json({ error: "Only moderators and admins can add members to a cohort" });
+      }
+      
+      const membershipData = insertCohortMembershipSchema.parse(req.body);
+      const membership = await storage.createCohortMembership(
+        membershipData.cohortId,
+        membershipData.userId,
+        membershipData.role || 'member'
+      );
+      await notifyMembershipGranted(membership, req.user.id);
+      
+      res.status(201).json(membership);
+    } catch (err) {
+      log(`Error creating cohort membership: ${err}`);
+      res.status(400).json({ error: "Invalid cohort membership data" });
+    }
+  });
+
+  // Update cohort membership role
+  app.put("/api/cohort-membership/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const membershipId = parseInt(req.params.id);
+      const { role } = req.body;
+      
+      if (!role || (role !== 'member' && role !== 'moderator')) {
+        return res.status(400).json({ error: "Invalid role" });
+      }
+      
+      // Get the membership to check the cohort
+      const membership = await storage.getCohortMembershipById(membershipId);
+      if (!membership) {
+        return res.status(404).json({ error: "Membership not found" });
+      }
+      
+      // Check if the requesting user is a moderator for this cohort
+      const requestingUserId = req.user.id;
+      const isModerator = await storage.isCohortModerator(requestingUserId, membership.cohortId);
+      
+      if (!isModerator && req.user.role !== 'admin') {
+        return res.status(403).json({ error: "Only moderators and admins can update membership roles" });
+      }
+      
+      const previousRole = membership.role;
+      const updatedMembership = await storage.updateCohortMembershipRole(membershipId, role);
+      if (updatedMembership && previousRole !== updatedMembership.role) {
+        await notifyRoleChanged(updatedMembership, req.user.id);
+      }
+      res.json(updatedMembership);
+    } catch (err) {
+      log(`Error updating cohort membership: ${err}`);
+      res.status(500).json({ error: "Failed to update cohort membership" });
+    }
+  });
+
+  // Delete cohort membership (remove a user from a cohort)
+  app.delete("/api/cohort-membership/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const membershipId = parseInt(req.params.id);
+      
+      // Get the membership to check the cohort
+      const membership = await storage.getCohortMembershipById(membershipId);
+      if (!membership) {
+        return res.status(404).json({ error: "Membership not found" });
+      }
+      
+      // Check if the requesting user is a moderator for this cohort
+      const requestingUserId = req.user.id;
+      const isModerator = await storage.isCohortModerator(requestingUserId, membership.cohortId);
+      
+      if (!isModerator && req.user.role !== 'admin') {
+        return res.status(403).json({ error: "Only moderators and admins can remove members from a cohort" });
+      }
+      
+      const success = await storage.deleteCohortMembership(membershipId);
+      if (success) {
+        unsubscribeFromCohort(membership.userId, membership.cohortId);
+      }
+      res.json({ success });
+    } catch (err) {
+      log(`Error deleting cohort membership: ${err}`);
+      res.status(500).json({ error: "Failed to delete cohort membership" });
+    }
+  });
+  
+  // Ask to join a request-to-join cohort
+  app.post("/api/cohorts/:id/join-requests", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const cohortId = parseInt(req.params.id);
+      const cohort = await storage.getCohort(cohortId);
+      if (!cohort || cohort.privacy === "invite_only") {
+        return res.status(404).json({ error: "Cohort not found" });
+      }
+      if (cohort.privacy === "public") {
+        return res.status(400).json({ error: "This cohort is public, so you can join it directly" });
+      }
+      if (!meetsCohortJoinRequirements(req.user, cohort)) {
+        return res.status(403).json({ error: unverifiedEmailError });
+      }
+
+      if (await storage.isCohortMember(req.user.id, cohortId)) {
+        return res.status(400).json({ error: "You are already a member of this cohort" });
+      }
+      if (await storage.getPendingCohortJoinRequest(cohortId, req.user.id)) {
+        return res.status(400).json({ error: "You have already asked to join this cohort" });
+      }
+
+      const result = cohortJoinRequestSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: result.error.errors[0].message });
+      }
+
+      const request = await storage.createCohortJoinRequest(
+        cohortId,
+        req.user.id,
+        result.data.message || null
+      );
+      res.status(201).json(request);
+    } catch (err) {
+      log(`Error creating join request: ${err}`);
+      res.status(500).json({ error: "Failed to send join request" });
+    }
+  });
+
+  // Get a cohort's pending join requests (moderators and admins only)
+  app.get("/api/cohorts/:id/join-requests", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const cohortId = parseInt(req.params.id);
+      const isModerator = await storage.isCohortModerator(req.user.id, cohortId);
+      if (!isModerator && req.user.role !== 'admin') {
+        return res.status(403).json({ error: "Only moderators and admins can view join requests" });
+      }
+
+      const requests = await storage.getPendingCohortJoinRequestsByCohort(cohortId);
+      res.json(requests);
+    } catch (err) {
+      log(`Error fetching join requests: ${err}`);
+      res.status(500).json({ error: "Failed to fetch join requests" });
+    }
+  });
+
+  // Approve a join request, adding the requester as a member
+  app.post("/api/cohort-join-requests/:id/approve", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const request = await storage.getCohortJoinRequest(parseInt(req.params.id));
+      if (!request) {
+        return res.status(404).json({ error: "Join request not found" });
+      }
+
+      const isModerator = await storage.isCohortModerator(req.user.id, request.cohortId);
+      if (!isModerator && req.user.role !== 'admin') {
+        return res.status(403).json({ error: "Only moderators and admins can review join requests" });
+      }
+
+      const reviewedRequest = await storage.reviewCohortJoinRequest(request.id, "approved", req.user.id);
+      if (!reviewedRequest) {
+        return res.status(400).json({ error: "This join request has already been reviewed" });
+      }
+      await notifyMembershipGranted(
+        { userId: reviewedRequest.userId, cohortId: reviewedRequest.cohortId, role: "member" },
+        req.user.id
+      );
+
+      res.json(reviewedRequest);
+    } catch (err) {
+      log(`Error approving join request: ${err}`);
+      res.status(500).json({ error: "Failed to approve join request" });
+    }
+  });
+
+  // Deny a join request
+  app.post("/api/cohort-join-requests/:id/deny", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const request = await storage.getCohortJoinRequest(parseInt(req.params.id));
+      if (!request) {
+        return res.status(404).json({ error: "Join request not found" });
+      }
+
+      const isModerator = await storage.isCohortModerator(req.user.id, request.cohortId);
+      if (!isModerator && req.user.role !== 'admin') {
+        return res.status(403).json({ error: "Only moderators and admins can review join requests" });
+      }
+
+      const reviewedRequest = await storage.reviewCohortJoinRequest(request.id, "denied", req.user.id);
+      if (!reviewedRequest) {
+        return res.status(400).json({ error: "This join request has already been reviewed" });
+      }
+
+      res.json(reviewedRequest);
+    } catch (err) {
+      log(`Error denying join request: ${err}`);
+      res.status(500).json({ error: "Failed to deny join request" });
+    }
+  });
+
+  // Get a cohort's active invite links (moderators and admins only)
+  app.get("/api/cohorts/:id/invites", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const cohortId = parseInt(req.params.id);
+      const isModerator = await storage.isCohortModerator(req.user.id, cohortId);
+      if (!isModerator && req.user.role !== 'admin') {
+        return res.status(403).json({ error: "Only moderators and admins can view invite links" });
+      }
+
+      const invites = await storage.getActiveCohortInvites(cohortId);
+      res.json(invites);
+    } catch (err) {
+      log(`Error fetching cohort invites: ${err}`);
+      res.status(500).json({ error: "Failed to fetch invite links" });
+    }
+  });
+
+  // Create an invite link, optionally expiring or limited to a number of uses
+  app.post("/api/cohorts/:id/invites", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const cohortId = parseInt(req.params.id);
+      const isModerator = await storage.isCohortModerator(req.user.id, cohortId);
+      if (!isModerator && req.user.role !== 'admin') {
+        return res.status(403).json({ error: "Only moderators and admins can create invite links" });
+      }
+
+      const result = cohortInviteSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid invite link options" });
+      }
+
+      const { expiresInDays, maxUses } = result.data;
+      let expiresAt: Date | null = null;
+      if (expiresInDays) {
+        expiresAt = new Date();
+        expiresAt.setDate(expiresAt.getDate() + expiresInDays);
+      }
+
+      const invite = await storage.createCohortInvite(cohortId, req.user.id, {
+        expiresAt,
+        maxUses: maxUses ?? null,
+      });
+      res.status(201).json(invite);
+    } catch (err) {
+      log(`Error creating cohort invite: ${err}`);
+      res.status(500).json({ error: "Failed to create invite link" });
+    }
+  });
+
+  // Revoke an invite link
+  app.delete("/api/cohort-invites/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const invite = await storage.getCohortInvite(parseInt(req.params.id));
+      if (!invite) {
+        return res.status(404).json({ error: "Invite link not found" });
+      }
+
+      const isModerator = await storage.isCohortModerator(req.user.id, invite.cohortId);
+      if (!isModerator && req.user.role !== 'admin') {
+        return res.status(403).json({ error: "Only moderators and admins can revoke invite links" });
+      }
+
+      const revokedInvite = await storage.revokeCohortInvite(invite.id);
+      res.json(revokedInvite);
+    } catch (err) {
+      log(`Error revoking cohort invite: ${err}`);
+      res.status(500).json({ error: "Failed to revoke invite link" });
+    }
+  });
+
+  // Preview the cohort behind an invite link. Doesn't require a session, so
+  // people without an account can see what they're signing up to join.
+  app.get("/api/invites/:token", async (req, res) => {
+    try {
+      const invite = await storage.getCohortInviteByToken(req.params.token);
+      const cohort = invite && (await storage.getCohort(invite.cohortId));
+      if (!invite || !cohort) {
+        return res.status(404).json({ error: "Invite link not found" });
+      }
+
+      // Members can still follow a used-up link, e.g. the one they signed up with
+      const isMember = req.isAuthenticated() && (await storage.isCohortMember(req.user.id, cohort.id));
+      if (!isMember && !isCohortInviteUsable(invite)) {
+        return res.status(410).json({ error: "This invite link is no longer valid" });
+      }
+
+      res.json({
+        cohort: { id: cohort.id, name: cohort.name, description: cohort.description },
+        isMember,
+      });
+    } catch (err) {
+      log(`Error fetching invite: ${err}`);
+      res.status(500).json({ error: "Failed to fetch invite link" });
+    }
+  });
+
+  // Join the cohort behind an invite link
+  app.post("/api/invites/:token/accept", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const invite = await storage.getCohortInviteByToken(req.params.token);
+      const cohort = invite && (await storage.getCohort(invite.cohortId));
+      if (cohort && !meetsCohortJoinRequirements(req.user, cohort)) {
+        return res.status(403).json({ error: unverifiedEmailError });
+      }
+
+      const wasMember = !!cohort && (await storage.isCohortMember(req.user.id, cohort.id));
+      const membership = await storage.redeemCohortInvite(req.params.token, req.user.id);
+      if (!membership) {
+        return res.status(410).json({ error: "This invite link is no longer valid" });
+      }
+      if (!wasMember) {
+        await notifyNewMember(membership);
+      }
+
+      res.status(201).json(membership);
+    } catch (err) {
+      log(`Error accepting invite: ${err}`);
+      res.status(500).json({ error: "Failed to accept invite" });
+    }
+  });
+
+  // Find a user by email
+  app.get("/api/user/by-email", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const { email } = req.query;
+      
+      if (!email || typeof email !== 'string') {
+        return res.status(400).json({ error: "Email is required" });
+      }
+      
+      const user = await storage.getUserByEmail(email);
+      
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      
+      // Return limited information for privacy
+      res.json({
+        id: user.id,
+        username: user.username,
+        email: user.email,
+        fullName: user.fullName
+      });
+    } catch (err) {
+      log(`Error finding user by email: ${err}`);
+      res.status(500).json({ error: "Failed to find user" });
+    }
+  });
+  
+  // Get all users (for admins and moderators to add to cohorts)
+  app.get("/api/users", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      // Only allow moderators or admins to get all users
+      if (req.user.role !== 'admin') {
+        return res.status(403).json({ error: "Only admins can view all users" });
+      }
+      
+      const users = await storage.getAllUsers();
+      
+      // Return limited information for privacy
+      const safeUsers = users.map(user => ({
+        id: user.id,
+        username: user.username,
+        email: user.email,
+        fullName: user.fullName,
+        role: user.role
+      }));
+      
+      res.json(safeUsers);
+    } catch (err) {
+      log(`Error getting all users: ${err}`);
+      res.status(500).json({ error: "Failed to get users" });
+    }
+  });
+
+  // Create a new cohort
+  app.post("/api/cohorts", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const { name, description } = insertCohortSchema.parse(req.body);
+      const creatorId = req.user.id;
+      
+      log(`Creating cohort "${name}" for user ${creatorId}`);
+      
+      const cohort = await storage.createCohort(name, description || null, creatorId);
+      
+      log(`Created cohort: ${JSON.stringify(cohort)}`);
+      res.status(201).json(cohort);
+    } catch (err) {
+      log(`Error creating cohort: ${err}`);
+      res.status(400).json({ error: "Invalid cohort data" });
+    }
+  });
+
+  // Get the cohorts the current user can discover. Invite-only cohorts are
+  // hidden unless the user already belongs to them; admins see everything.
+  app.get("/api/cohorts", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const cohorts = req.user.role === 'admin'
+        ? await storage.getAllCohorts()
+        : await storage.getDiscoverableCohorts(req.user.id);
+      res.json(cohorts);
+    } catch (err) {
+      log(`Error fetching all cohorts: ${err}`);
+      res.status(500).json({ error: "Failed to fetch cohorts" });
+    }
+  });
+
+  // Join a public cohort
+  app.post("/api/cohorts/:id/join", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const cohortId = parseInt(req.params.id);
+      const cohort = await storage.getCohort(cohortId);
+      // Invite-only cohorts are treated as if they don't exist
+      if (!cohort || (cohort.privacy === "invite_only" && req.user.role !== 'admin')) {
+        return res.status(404).json({ error: "Cohort not found" });
+      }
+
+      if (await storage.isCohortMember(req.user.id, cohortId)) {
+        return res.status(400).json({ error: "You are already a member of this cohort" });
+      }
+
+      if (cohort.privacy === "request_to_join" && req.user.role !== 'admin') {
+        return res.status(403).json({ error: "This cohort requires moderator approval to join" });
+      }
+      if (!meetsCohortJoinRequirements(req.user, cohort)) {
+        return res.status(403).json({ error: unverifiedEmailError });
+      }
+
+      const membership = await storage.createCohortMembership(cohortId, req.user.id, "member");
+      await notifyNewMember(membership);
+      res.status(201).json(membership);
+    } catch (err) {
+      log(`Error joining cohort: ${err}`);
+      res.status(500).json({ error: "Failed to join cohort" });
+    }
+  });
+
+  // Get cohorts for the current user
+  app.get("/api/user/cohorts", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const userId = req.user.id;
+      const cohorts = await storage.getUserCohorts(userId);
+      res.json(cohorts);
+    } catch (err) {
+      log(`Error fetching user cohorts: ${err}`);
+      res.status(500).json({ error: "Failed to fetch user cohorts" });
+    }
+  });
+  
+  // Update the current user's account settings
+  app.put("/api/user/settings", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const result = userSettingsSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid settings" });
+      }
+
+      const user = await storage.updateUserSettings(req.user.id, result.data);
+      res.json(user);
+    } catch (err) {
+      log(`Error updating user settings: ${err}`);
+      res.status(500).json({ error: "Failed to update settings" });
+    }
+  });
+
+  // Get the current user's join requests and where each one stands
+  app.get("/api/user/join-requests", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const requests = await storage.getCohortJoinRequestsByUserId(req.user.id);
+      res.json(requests);
+    } catch (err) {
+      log(`Error fetching user join requests: ${err}`);
+      res.status(500).json({ error: "Failed to fetch join requests" });
+    }
+  });
+
+  // Get how the current user wants to be notified
+  app.get("/api/user/notification-settings", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const settings = await getNotificationSettings(req.user.id);
+      res.json(settings);
+    } catch (err) {
+      log(`Error fetching notification settings: ${err}`);
+      res.status(500).json({ error: "Failed to fetch notification settings" });
+    }
+  });
+
+  // Update how the current user wants to be notified
+  app.put("/api/user/notification-settings", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const result = notificationSettingsSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: result.error.errors[0].message });
+      }
+
+      await storage.updateNotificationPreferences(req.user.id, result.data);
+      res.json(result.data);
+    } catch (err) {
+      log(`Error updating notification settings: ${err}`);
+      res.status(500).json({ error: "Failed to update notification settings" });
+    }
+  });
+
+  // Get the ids of the cohorts the current user has muted
+  app.get("/api/user/muted-cohorts", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const cohortIds = await storage.getMutedCohortIds(req.user.id);
+      res.json(cohortIds);
     } catch (err) {
-      log(`Error deleting cohort membership: ${err}`);
-      res.status(500).json({ error: "Failed to delete cohort membership" });
+      log(`Error fetching muted cohorts: ${err}`);
+      res.status(500).json({ error: "Failed to fetch muted cohorts" });
     }
   });
-  
-  // Find a user by email
-  app.get("/api/user/by-email", async (req, res) => {
+
+  // Stop all notifications from a cohort
+  app.post("/api/cohorts/:id/mute", requireCohortAccess(cohortFromParam), async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
-    
+
     try {
-      const { email } = req.query;
-      
-      if (!email || typeof email !== 'string') {
-        return res.status(400).json({ error: "Email is required" });
-      }
-      
-      const user = await storage.getUserByEmail(email);
-      
-      if (!user) {
-        return res.status(404).json({ error: "User not found" });
-      }
-      
-      // Return limited information for privacy
-      res.json({
-        id: user.id,
-        username: user.username,
-        email: user.email,
-        fullName: user.fullName
-      });
+      await storage.muteCohort(req.user.id, parseInt(req.params.id));
+      res.json({ success: true });
     } catch (err) {
-      log(`Error finding user by email: ${err}`);
-      res.status(500).json({ error: "Failed to find user" });
+      log(`Error muting cohort: ${err}`);
+      res.status(500).json({ error: "Failed to mute cohort" });
     }
   });
-  
-  // Get all users (for admins and moderators to add to cohorts)
-  app.get("/api/users", async (req, res) => {
+
+  // Resume notifications from a cohort
+  app.delete("/api/cohorts/:id/mute", requireCohortAccess(cohortFromParam), async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
-    
+
     try {
-      // Only allow moderators or admins to get all users
-      if (req.user.role !== 'admin') {
-        return res.status(403).json({ error: "Only admins can view all users" });
-      }
-      
-      const users = await storage.getAllUsers();
-      
-      // Return limited information for privacy
-      const safeUsers = users.map(user => ({
-        id: user.id,
-        username: user.username,
-        email: user.email,
-        fullName: user.fullName,
-        role: user.role
-      }));
-      
-      res.json(safeUsers);
+      await storage.unmuteCohort(req.user.id, parseInt(req.params.id));
+      res.json({ success: true });
     } catch (err) {
-      log(`Error getting all users: ${err}`);
-      res.status(500).json({ error: "Failed to get users" });
+      log(`Error unmuting cohort: ${err}`);
+      res.status(500).json({ error: "Failed to unmute cohort" });
     }
   });
 
-  // Create a new cohort
-  app.post("/api/cohorts", async (req, res) => {
+  // Get the current user's most recent notifications
+  app.get("/api/notifications", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
-    
+
     try {
-      const { name, description } = insertCohortSchema.parse(req.body);
-      const creatorId = req.user.id;
-      
-      log(`Creating cohort "${name}" for user ${creatorId}`);
-      
-      const cohort = await storage.createCohort(name, description || null, creatorId);
-      
-      log(`Created cohort: ${JSON.stringify(cohort)}`);
-      res.status(201).json(cohort);
+      const notifications = await storage.getNotifications(req.user.id, NOTIFICATIONS_LIMIT);
+      res.json(notifications);
     } catch (err) {
-      log(`Error creating cohort: ${err}`);
-      res.status(400).json({ error: "Invalid cohort data" });
+      log(`Error fetching notifications: ${err}`);
+      res.status(500).json({ error: "Failed to fetch notifications" });
     }
   });
 
-  // Get all cohorts
-  app.get("/api/cohorts", async (req, res) => {
+  // Get how many of the current user's notifications are unread
+  app.get("/api/notifications/unread-count", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
-    
+
     try {
-      const cohorts = await storage.getAllCohorts();
-      res.json(cohorts);
+      const count = await storage.getUnreadNotificationCount(req.user.id);
+      res.json({ count });
     } catch (err) {
-      log(`Error fetching all cohorts: ${err}`);
-      res.status(500).json({ error: "Failed to fetch cohorts" });
+      log(`Error fetching unread notification count: ${err}`);
+      res.status(500).json({ error: "Failed to fetch unread notification count" });
     }
   });
 
-  // Get cohorts for the current user
-  app.get("/api/user/cohorts", async (req, res) => {
+  // Mark every notification as read
+  app.post("/api/notifications/read-all", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
-    
+
     try {
-      const userId = req.user.id;
-      const cohorts = await storage.getUserCohorts(userId);
-      res.json(cohorts);
+      await storage.markAllNotificationsRead(req.user.id);
+      res.json({ success: true });
     } catch (err) {
-      log(`Error fetching user cohorts: ${err}`);
-      res.status(500).json({ error: "Failed to fetch user cohorts" });
+      log(`Error marking notifications read: ${err}`);
+      res.status(500).json({ error: "Failed to mark notifications as read" });
     }
   });
-  
+
+  // Mark a notification as read
+  app.post("/api/notifications/:id/read", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const notification = await storage.markNotificationRead(parseInt(req.params.id), req.user.id);
+      if (!notification) {
+        return res.status(404).json({ error: "Notification not found" });
+      }
+
+      res.json(notification);
+    } catch (err) {
+      log(`Error marking notification read: ${err}`);
+      res.status(500).json({ error: "Failed to mark notification as read" });
+    }
+  });
+
   // Get babies with their parents for a cohort
-  app.get("/api/cohorts/:id/babies", async (req, res) => {
+  app.get("/api/cohorts/:id/babies", requireCohortAccess(cohortFromParam), async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
     try {
@@ -437,14 +1850,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // COMMENT ROUTES
   
   // Get comments for a post
-  app.get("/api/posts/:id/comments", async (req, res) => {
+  app.get("/api/posts/:id/comments", requireCohortAccess(cohortFromPostParam), async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
     try {
       const postId = parseInt(req.params.id);
       log(`Fetching comments for post ${postId}`);
       
-      const comments = await storage.getCommentsWithUsersByPost(postId);
+      const comments = await storage.getCommentsWithUsersByPost(postId, req.user.id);
       log(`Found ${comments.length} comments for post ${postId}`);
       
       res.json(comments);
@@ -455,13 +1868,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Create a comment
-  app.post("/api/comments", async (req, res) => {
+  app.post("/api/comments", requireCohortAccess(cohortFromBodyPost), async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
     try {
       const commentData = insertCommentSchema.parse(req.body);
+
+      // Replies must answer a live comment on the same post
+      if (commentData.parentCommentId != null) {
+        const parent = await storage.getComment(commentData.parentCommentId);
+        if (!parent || parent.postId !== commentData.postId || parent.deletedAt) {
+          return res.status(400).json({ error: "The comment you're replying to no longer exists" });
+        }
+      }
+
       const comment = await storage.createComment(commentData, req.user.id);
       log(`Created comment: ${JSON.stringify(comment)}`);
+      await notifyComment(comment);
+      await syncMentions({
+        content: comment.content,
+        authorId: req.user.id,
+        postId: comment.postId,
+        commentId: comment.id,
+      });
+      await publishCommentCreated(comment);
       res.status(201).json(comment);
     } catch (err) {
       log(`Error creating comment: ${err}`);
@@ -470,7 +1900,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Update a comment
-  app.put("/api/comments/:id", async (req, res) => {
+  app.put("/api/comments/:id", requireCohortAccess(cohortFromCommentParam), async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
     try {
@@ -490,6 +1920,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       log(`Comment ${commentId} updated successfully`);
+      await syncMentions({
+        content: updatedComment.content,
+        authorId: userId,
+        postId: updatedComment.postId,
+        commentId,
+      });
       res.json(updatedComment);
     } catch (err) {
       log(`Error updating comment: ${err}`);
@@ -498,7 +1934,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Delete a comment
-  app.delete("/api/comments/:id", async (req, res) => {
+  app.delete("/api/comments/:id", requireCohortAccess(cohortFromCommentParam), async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
     try {
@@ -519,81 +1955,384 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // UPVOTE ROUTES
-  
-  // Get the number of upvotes for a post
-  app.get("/api/posts/:id/upvotes/count", async (req, res) => {
+  // REACTION ROUTES
+
+  // Who reacted to a post, oldest first
+  app.get("/api/posts/:id/reactions", requireCohortAccess(cohortFromPostParam), async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
-    
+
     try {
       const postId = parseInt(req.params.id);
-      const count = await storage.getUpvoteCount(postId);
-      res.json({ count });
+      const reactions = await storage.getReactionsWithUsers(postId, null);
+      res.json(reactions);
     } catch (err) {
-      log(`Error getting upvote count: ${err}`);
-      res.status(500).json({ error: "Failed to get upvote count" });
+      log(`Error fetching post reactions: ${err}`);
+      res.status(500).json({ error: "Failed to fetch reactions" });
     }
   });
-  
-  // Check if the current user has upvoted a post
-  app.get("/api/posts/:id/upvotes/user", async (req, res) => {
+
+  // React to a post. Responds with the post's updated reaction summary.
+  app.post("/api/posts/:id/reactions", requireCohortAccess(cohortFromPostParam), async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
-    
+
+    try {
+      const result = reactionSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: result.error.errors[0].message });
+      }
+
+      const postId = parseInt(req.params.id);
+      const reaction = await storage.addReaction(req.user.id, postId, null, result.data.type);
+      if (!reaction) {
+        return res.status(409).json({ error: "You have already reacted with that" });
+      }
+
+      log(`Created reaction: ${JSON.stringify(reaction)}`);
+      await notifyReaction(reaction);
+      await publishReactionsChanged(postId, null, req.user.id);
+      const reactions = await storage.getReactionSummaries(postId, null, req.user.id);
+      res.status(201).json({ reactions });
+    } catch (err) {
+      log(`Error creating post reaction: ${err}`);
+      res.status(500).json({ error: "Failed to add reaction" });
+    }
+  });
+
+  // Take back a reaction to a post
+  app.delete("/api/posts/:id/reactions/:type", requireCohortAccess(cohortFromPostParam), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
     try {
+      const result = reactionSchema.safeParse({ type: req.params.type });
+      if (!result.success) {
+        return res.status(400).json({ error: result.error.errors[0].message });
+      }
+
       const postId = parseInt(req.params.id);
       const userId = req.user.id;
-      const hasUpvoted = await storage.hasUserUpvoted(postId, userId);
-      res.json({ hasUpvoted });
+      const removed = await storage.removeReaction(userId, postId, null, result.data.type);
+      if (!removed) {
+        return res.status(404).json({ error: "You haven't reacted with that" });
+      }
+
+      log(`Removed ${result.data.type} reaction to post ${postId} by user ${userId}`);
+      await publishReactionsChanged(postId, null, userId);
+      const reactions = await storage.getReactionSummaries(postId, null, userId);
+      res.json({ reactions });
     } catch (err) {
-      log(`Error checking user upvote: ${err}`);
-      res.status(500).json({ error: "Failed to check user upvote" });
+      log(`Error removing post reaction: ${err}`);
+      res.status(500).json({ error: "Failed to remove reaction" });
     }
   });
-  
-  // Add an upvote to a post
-  app.post("/api/upvotes", async (req, res) => {
+
+  // Who reacted to a comment, oldest first
+  app.get("/api/comments/:id/reactions", requireCohortAccess(cohortFromCommentParam), async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
-    
+
     try {
-      const upvoteData = insertUpvoteSchema.parse(req.body);
-      const upvote = await storage.createUpvote(upvoteData, req.user.id);
-      log(`Created upvote: ${JSON.stringify(upvote)}`);
-      res.status(201).json(upvote);
+      const comment = await storage.getComment(parseInt(req.params.id));
+      if (!comment) {
+        return res.status(404).json({ error: "Comment not found" });
+      }
+
+      const reactions = await storage.getReactionsWithUsers(comment.postId, comment.id);
+      res.json(reactions);
     } catch (err) {
-      log(`Error creating upvote: ${err}`);
-      
-      // If the user already upvoted, return a specific error
-      if (err instanceof Error && err.message === "User already upvoted this post") {
-        return res.status(409).json({ error: "You have already upvoted this post" });
+      log(`Error fetching comment reactions: ${err}`);
+      res.status(500).json({ error: "Failed to fetch reactions" });
+    }
+  });
+
+  // React to a comment. Responds with the comment's updated reaction summary.
+  app.post("/api/comments/:id/reactions", requireCohortAccess(cohortFromCommentParam), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const result = reactionSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: result.error.errors[0].message });
       }
-      
-      res.status(400).json({ error: "Invalid upvote data" });
+
+      const comment = await storage.getComment(parseInt(req.params.id));
+      if (!comment || comment.deletedAt) {
+        return res.status(404).json({ error: "Comment not found" });
+      }
+
+      const reaction = await storage.addReaction(req.user.id, comment.postId, comment.id, result.data.type);
+      if (!reaction) {
+        return res.status(409).json({ error: "You have already reacted with that" });
+      }
+
+      log(`Created reaction: ${JSON.stringify(reaction)}`);
+      await notifyReaction(reaction);
+      await publishReactionsChanged(comment.postId, comment.id, req.user.id);
+      const reactions = await storage.getReactionSummaries(comment.postId, comment.id, req.user.id);
+      res.status(201).json({ reactions });
+    } catch (err) {
+      log(`Error creating comment reaction: ${err}`);
+      res.status(500).json({ error: "Failed to add reaction" });
     }
   });
-  
-  // Remove an upvote from a post
-  app.delete("/api/posts/:id/upvotes", async (req, res) => {
+
+  // Take back a reaction to a comment
+  app.delete("/api/comments/:id/reactions/:type", requireCohortAccess(cohortFromCommentParam), async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
-    
+
+    try {
+      const result = reactionSchema.safeParse({ type: req.params.type });
+      if (!result.success) {
+        return res.status(400).json({ error: result.error.errors[0].message });
+      }
+
+      const comment = await storage.getComment(parseInt(req.params.id));
+      if (!comment) {
+        return res.status(404).json({ error: "Comment not found" });
+      }
+
+      const userId = req.user.id;
+      const removed = await storage.removeReaction(userId, comment.postId, comment.id, result.data.type);
+      if (!removed) {
+        return res.status(404).json({ error: "You haven't reacted with that" });
+      }
+
+      log(`Removed ${result.data.type} reaction to comment ${comment.id} by user ${userId}`);
+      await publishReactionsChanged(comment.postId, comment.id, userId);
+      const reactions = await storage.getReactionSummaries(comment.postId, comment.id, userId);
+      res.json({ reactions });
+    } catch (err) {
+      log(`Error removing comment reaction: ${err}`);
+      res.status(500).json({ error: "Failed to remove reaction" });
+    }
+  });
+
+  // POLL ROUTES
+
+  // Vote in a post's poll, replacing any earlier vote. Responds with the
+  // updated results.
+  app.put("/api/posts/:id/poll/vote", requireCohortAccess(cohortFromPostParam), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
     try {
+      const result = pollVoteSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: result.error.errors[0].message });
+      }
+
       const postId = parseInt(req.params.id);
+      const poll = await storage.getPollByPost(postId);
+      if (!poll) {
+        return res.status(404).json({ error: "Poll not found" });
+      }
+      if (poll.closesAt && poll.closesAt <= new Date()) {
+        return res.status(400).json({ error: "This poll has closed" });
+      }
+
+      const optionIds = Array.from(new Set(result.data.optionIds));
+      if (!optionIds.every((id) => poll.options.some((option) => option.id === id))) {
+        return res.status(400).json({ error: "That option isn't part of this poll" });
+      }
+      if (!poll.multipleChoice && optionIds.length > 1) {
+        return res.status(400).json({ error: "This poll only allows one choice" });
+      }
+
       const userId = req.user.id;
-      
-      // Check if the user has upvoted this post
-      const hasUpvoted = await storage.hasUserUpvoted(postId, userId);
-      if (!hasUpvoted) {
-        return res.status(404).json({ error: "You have not upvoted this post" });
+      await storage.setPollVotes(poll.id, userId, optionIds);
+      log(`User ${userId} voted for options ${optionIds.join(", ")} in poll ${poll.id}`);
+      await publishPollVoted(postId, userId);
+      const results = await storage.getPollResults([postId], userId);
+      res.json(results.get(postId));
+    } catch (err) {
+      log(`Error voting in poll: ${err}`);
+      res.status(500).json({ error: "Failed to save vote" });
+    }
+  });
+
+  // Take back a vote in a post's poll
+  app.delete("/api/posts/:id/poll/vote", requireCohortAccess(cohortFromPostParam), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const postId = parseInt(req.params.id);
+      const poll = await storage.getPollByPost(postId);
+      if (!poll) {
+        return res.status(404).json({ error: "Poll not found" });
       }
-      
-      await storage.removeUpvote(postId, userId);
-      log(`Removed upvote for post ${postId} by user ${userId}`);
+      if (poll.closesAt && poll.closesAt <= new Date()) {
+        return res.status(400).json({ error: "This poll has closed" });
+      }
+
+      const userId = req.user.id;
+      await storage.setPollVotes(poll.id, userId, []);
+      log(`User ${userId} took back their vote in poll ${poll.id}`);
+      await publishPollVoted(postId, userId);
+      const results = await storage.getPollResults([postId], userId);
+      res.json(results.get(postId));
+    } catch (err) {
+      log(`Error removing poll vote: ${err}`);
+      res.status(500).json({ error: "Failed to remove vote" });
+    }
+  });
+
+  // MEETUP ROUTES
+
+  // A cohort's meetups, soonest first, with everyone's RSVPs
+  app.get("/api/cohorts/:id/meetups", requireCohortAccess(cohortFromParam), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const cohortId = parseInt(req.params.id);
+      const meetups = await storage.getCohortMeetups(cohortId, req.user.id);
+      res.json(meetups);
+    } catch (err) {
+      log(`Error fetching meetups: ${err}`);
+      res.status(500).json({ error: "Failed to fetch events" });
+    }
+  });
+
+  // Organize a meetup. Any member can; they're put down as going.
+  app.post("/api/cohorts/:id/meetups", requireCohortAccess(cohortFromParam), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const result = meetupSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: result.error.errors[0].message });
+      }
+
+      const cohortId = parseInt(req.params.id);
+      const userId = req.user.id;
+      const meetup = await storage.createMeetup(cohortId, userId, result.data);
+      await storage.setMeetupRsvp(meetup.id, userId, { status: "going", bringingBaby: false });
+      log(`Created meetup: ${JSON.stringify(meetup)}`);
+      res.status(201).json(await storage.getMeetupWithRsvps(meetup.id, userId));
+    } catch (err) {
+      log(`Error creating meetup: ${err}`);
+      res.status(500).json({ error: "Failed to create event" });
+    }
+  });
+
+  // Change a meetup's details
+  app.put("/api/meetups/:id", requireCohortAccess(cohortFromMeetupParam), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const meetupId = parseInt(req.params.id);
+      const meetup = await storage.getMeetup(meetupId);
+      if (!meetup) {
+        return res.status(404).json({ error: "Event not found" });
+      }
+      if (!(await canManageMeetup(req.user, meetup))) {
+        return res.status(403).json({ error: "Only the organizer or a moderator can change this event" });
+      }
+
+      const result = meetupSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: result.error.errors[0].message });
+      }
+
+      await storage.updateMeetup(meetupId, result.data);
+      log(`Updated meetup ${meetupId}`);
+      res.json(await storage.getMeetupWithRsvps(meetupId, req.user.id));
+    } catch (err) {
+      log(`Error updating meetup: ${err}`);
+      res.status(500).json({ error: "Failed to update event" });
+    }
+  });
+
+  // Cancel a meetup
+  app.delete("/api/meetups/:id", requireCohortAccess(cohortFromMeetupParam), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const meetupId = parseInt(req.params.id);
+      const meetup = await storage.getMeetup(meetupId);
+      if (!meetup) {
+        return res.status(404).json({ error: "Event not found" });
+      }
+      if (!(await canManageMeetup(req.user, meetup))) {
+        return res.status(403).json({ error: "Only the organizer or a moderator can cancel this event" });
+      }
+
+      await storage.deleteMeetup(meetupId);
+      log(`Meetup ${meetupId} deleted by user ${req.user.id}`);
       res.json({ success: true });
     } catch (err) {
-      log(`Error removing upvote: ${err}`);
-      res.status(500).json({ error: "Failed to remove upvote" });
+      log(`Error deleting meetup: ${err}`);
+      res.status(500).json({ error: "Failed to cancel event" });
+    }
+  });
+
+  // RSVP to a meetup, replacing any earlier answer. Going is refused once
+  // the meetup is full.
+  app.put("/api/meetups/:id/rsvp", requireCohortAccess(cohortFromMeetupParam), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const result = rsvpSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: result.error.errors[0].message });
+      }
+
+      const meetupId = parseInt(req.params.id);
+      const userId = req.user.id;
+      const meetup = await storage.getMeetup(meetupId);
+      if (!meetup) {
+        return res.status(404).json({ error: "Event not found" });
+      }
+      if (meetup.startsAt <= new Date()) {
+        return res.status(400).json({ error: "This event has already started" });
+      }
+
+      if (result.data.status === "going" && meetup.capacity !== null) {
+        const rsvps = await storage.getMeetupRsvps(meetupId);
+        const othersGoing = rsvps.filter((rsvp) => rsvp.status === "going" && rsvp.userId !== userId);
+        if (othersGoing.length >= meetup.capacity) {
+          return res.status(409).json({ error: "This event is full" });
+        }
+      }
+
+      await storage.setMeetupRsvp(meetupId, userId, result.data);
+      log(`User ${userId} RSVPed ${result.data.status} to meetup ${meetupId}`);
+      res.json(await storage.getMeetupWithRsvps(meetupId, userId));
+    } catch (err) {
+      log(`Error saving RSVP: ${err}`);
+      res.status(500).json({ error: "Failed to save RSVP" });
+    }
+  });
+
+  // Download a meetup as an .ics file to add to a calendar app
+  app.get("/api/meetups/:id/calendar.ics", requireCohortAccess(cohortFromMeetupParam), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const meetup = await storage.getMeetup(parseInt(req.params.id));
+      if (!meetup) {
+        return res.status(404).json({ error: "Event not found" });
+      }
+
+      const cohort = await storage.getCohort(meetup.cohortId);
+      const url = appUrl(`/cohorts/${meetup.cohortId}?meetup=${meetup.id}`);
+      const calendar = buildCalendar(cohort?.name ?? meetup.title, [{
+        uid: `meetup-${meetup.id}@${new URL(url).hostname}`,
+        title: meetup.title,
+        startsAt: meetup.startsAt,
+        endsAt: meetup.endsAt ?? new Date(meetup.startsAt.getTime() + DEFAULT_MEETUP_DURATION_MS),
+        location: meetup.location,
+        description: [meetup.notes, url].filter(Boolean).join("\n\n"),
+        url,
+        updatedAt: meetup.updatedAt,
+      }]);
+
+      res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="event-${meetup.id}.ics"`);
+      res.send(calendar);
+    } catch (err) {
+      log(`Error building meetup calendar file: ${err}`);
+      res.status(500).json({ error: "Failed to download event" });
     }
   });
 
   const httpServer = createServer(app);
+  setupRealtime(httpServer, sessionMiddleware);
   return httpServer;
 }
\ No newline at end of file
@@ -4,33 +4,283 @@ import {
   Cohort,
   Post,
   Comment,
-  Upvote,
+  Reaction,
+  ReactionType,
+  ReactionSummary,
+  ReactionWithUser,
+  Poll,
+  PollOption,
+  PollVote,
+  PollResults,
+  CreatePoll,
+  Milestone,
+  BabyMilestone,
+  BabyMilestoneInput,
+  BabyMilestoneWithDetails,
+  GrowthMeasurement,
+  GrowthMeasurementInput,
+  CareLogEntry,
+  CareLogEntryInput,
+  CareLogEntryWithUsers,
+  HealthScheduleRecord,
+  ScheduleItemCompletion,
+  ScheduleFeedToken,
+  Meetup,
+  MeetupRsvp,
+  MeetupInput,
+  MeetupWithRsvps,
+  RsvpInput,
   CohortMembership,
+  CohortInvite,
+  CohortJoinRequest,
   InsertUser,
   InsertBaby,
   InsertPost,
   InsertComment,
-  InsertUpvote,
   InsertCohortMembership,
+  CohortSettings,
+  UserSettings,
   PasswordResetToken,
+  EmailVerificationToken,
+  Household,
+  HouseholdMember,
+  HouseholdInvitation,
+  FeedPage,
+  FeedPost,
+  CommentWithUser,
+  Notification,
+  InsertNotification,
+  NotificationItem,
+  NotificationPreferences,
+  NotificationSettings,
+  CohortMute,
+  Mention,
+  MentionedUser,
   users,
   babies,
   cohorts,
   posts,
   comments,
-  upvotes,
+  reactions,
+  polls,
+  pollOptions,
+  pollVotes,
+  milestones,
+  babyMilestones,
+  growthMeasurements,
+  careLogEntries,
+  healthScheduleRecords,
+  scheduleFeedTokens,
+  meetups,
+  meetupRsvps,
   passwordResetTokens,
+  emailVerificationTokens,
   cohortMemberships,
+  cohortInvites,
+  cohortJoinRequests,
+  households,
+  householdMembers,
+  householdInvitations,
+  notifications,
+  notificationPreferences,
+  cohortMutes,
+  mentions,
 } from "@shared/schema";
+import { milestoneCatalogue } from "@shared/milestones";
+import { isTimedCareLogEntry } from "@shared/care-log";
 import { db } from "./db";
-import { eq, and, desc, gt, sql } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import { eq, and, or, desc, gt, gte, lt, inArray, notInArray, isNull, isNotNull, sql, type SQL } from "drizzle-orm";
 import session from "express-session";
 import connectPg from "connect-pg-simple";
-import { pool } from "./db";
+import createMemoryStore from "memorystore";
+import { pool, useMemStorage } from "./db";
 import { addMonths, startOfMonth, endOfMonth } from "date-fns";
 import { randomUUID } from "crypto";
 
 const PostgresSessionStore = connectPg(session);
+const MemoryStore = createMemoryStore(session);
+
+// Babies appear once in a cohort's list, under every cohort member who is one of
+// their parents: the parent who created the profile or a co-parent in the same
+// household. Babies from one family sharing a birth date are twins (or more).
+function groupCohortBabies(
+  members: { id: number; householdId: number | null }[],
+  cohortBabies: Baby[],
+) {
+  const familyKey = (baby: Baby) =>
+    `${baby.householdId ? `household:${baby.householdId}` : `user:${baby.userId}`}:${baby.birthDate}`;
+  const counts = new Map<string, number>();
+  for (const baby of cohortBabies) {
+    counts.set(familyKey(baby), (counts.get(familyKey(baby)) || 0) + 1);
+  }
+
+  return cohortBabies
+    .map((baby) => ({
+      baby,
+      parents: members
+        .filter(
+          (member) =>
+            member.id === baby.userId ||
+            (baby.householdId !== null && member.householdId === baby.householdId),
+        )
+        .map(({ householdId, ...parent }) => parent),
+      isMultiple: counts.get(familyKey(baby))! > 1,
+    }))
+    .filter((item) => item.parents.length > 0);
+}
+
+// Per-type reaction counts for the post or comment matched by target, and
+// whether viewerId left each one, as a json column for feed and comment queries
+function reactionSummarySql(viewerId: number | null, target: SQL) {
+  return sql<ReactionSummary[]>`coalesce((
+    select json_agg(summary) from (
+      select ${reactions.type} as type, count(*)::int as count, coalesce(bool_or(${reactions.userId} = ${viewerId}), false) as reacted
+      from ${reactions}
+      where ${target}
+      group by ${reactions.type}
+    ) summary
+  ), '[]'::json)`;
+}
+
+function summarizeReactions(list: Reaction[], viewerId: number | null): ReactionSummary[] {
+  const summaries = new Map<ReactionType, ReactionSummary>();
+  for (const reaction of list) {
+    const summary = summaries.get(reaction.type) ?? { type: reaction.type, count: 0, reacted: false };
+    summary.count++;
+    summary.reacted ||= reaction.userId === viewerId;
+    summaries.set(reaction.type, summary);
+  }
+  return Array.from(summaries.values());
+}
+
+// Tallies a poll's votes as viewerId sees them. With no viewer, e.g. for
+// results broadcast to the whole cohort, nobody's own votes are picked out.
+function toPollResults(
+  poll: Poll,
+  options: PollOption[],
+  votes: { optionId: number; user: Pick<User, "id" | "fullName"> }[],
+  viewerId: number | null,
+): PollResults {
+  return {
+    id: poll.id,
+    multipleChoice: poll.multipleChoice,
+    anonymous: poll.anonymous,
+    closesAt: poll.closesAt,
+    options: options
+      .sort((a, b) => a.position - b.position)
+      .map((option) => {
+        const optionVotes = votes.filter((vote) => vote.optionId === option.id);
+        return {
+          id: option.id,
+          text: option.text,
+          voteCount: optionVotes.length,
+          voters: poll.anonymous ? [] : optionVotes.map((vote) => vote.user),
+        };
+      }),
+    voterCount: new Set(votes.map((vote) => vote.user.id)).size,
+    myVotes: votes.filter((vote) => vote.user.id === viewerId).map((vote) => vote.optionId),
+  };
+}
+
+// Counts a meetup's answers and picks out the viewer's own
+function toMeetupWithRsvps(
+  meetup: Meetup,
+  createdBy: Pick<User, "id" | "fullName">,
+  rsvps: MeetupWithRsvps["rsvps"],
+  viewerId: number,
+): MeetupWithRsvps {
+  const going = rsvps.filter((rsvp) => rsvp.status === "going");
+  const mine = rsvps.find((rsvp) => rsvp.user.id === viewerId);
+  return {
+    ...meetup,
+    createdBy,
+    goingCount: going.length,
+    maybeCount: rsvps.filter((rsvp) => rsvp.status === "maybe").length,
+    babyCount: going.filter((rsvp) => rsvp.bringingBaby).length,
+    rsvps,
+    myRsvp: mine ? { status: mine.status, bringingBaby: mine.bringingBaby } : null,
+  };
+}
+
+// The columns a growth measurement form sets; blank values are stored as null
+function toGrowthMeasurementValues(measurement: GrowthMeasurementInput) {
+  return {
+    measuredOn: measurement.measuredOn,
+    weightKg: measurement.weightKg ?? null,
+    lengthCm: measurement.lengthCm ?? null,
+    headCircumferenceCm: measurement.headCircumferenceCm ?? null,
+    note: measurement.note || null,
+  };
+}
+
+// The columns a care log entry sets. Fields that don't apply to its type are
+// cleared, e.g. the bottle amount when a feed is changed to breast.
+function toCareLogValues(entry: CareLogEntryInput) {
+  const isFeed = entry.type === "feed";
+  return {
+    type: entry.type,
+    startedAt: entry.startedAt,
+    endedAt: isTimedCareLogEntry(entry) ? entry.endedAt ?? null : null,
+    feedMethod: isFeed ? entry.feedMethod ?? null : null,
+    breastSide: isFeed && entry.feedMethod === "breast" ? entry.breastSide ?? null : null,
+    bottleMl: isFeed && entry.feedMethod === "bottle" ? entry.bottleMl ?? null : null,
+    diaperKind: entry.type === "diaper" ? entry.diaperKind ?? null : null,
+    note: entry.note || null,
+  };
+}
+
+// What cohort suggestions are ranked on, for one cohort the user could join
+export interface JoinableCohortStats {
+  cohort: Cohort;
+  memberCount: number;
+  recentPostCount: number;
+  // Birth weeks of the babies of the cohort's members
+  memberBirthWeeks: string[];
+}
+
+// Co-parents post in the same cohorts, so accepting a household invitation
+// also brings the invitee into the inviter's cohorts: straight in where the
+// cohort's join rules allow it, otherwise as a join request for its
+// moderators to review
+export interface HouseholdCohortPlan {
+  joinCohortIds: number[];
+  requestCohortIds: number[];
+}
+
+// The parent who created the baby's profile and their co-parents in the
+// household it's shared with
+export async function getBabyParents(storage: IStorage, baby: Baby): Promise<User[]> {
+  const parents = baby.householdId !== null
+    ? await storage.getHouseholdMembers(baby.householdId)
+    : [];
+  if (baby.userId !== null && !parents.some((parent) => parent.id === baby.userId)) {
+    const creator = await storage.getUser(baby.userId);
+    if (creator) parents.push(creator);
+  }
+  return parents;
+}
+
+// Parents who haven't opted out are members of their baby's system
+// birth-month cohort. Called whenever a baby's cohort is (re)assigned.
+async function enrollInBirthCohort(storage: IStorage, baby: Baby): Promise<void> {
+  if (baby.cohortId === null) return;
+
+  for (const parent of await getBabyParents(storage, baby)) {
+    if (parent.autoJoinBirthCohorts && !(await storage.isCohortMember(parent.id, baby.cohortId))) {
+      await storage.createCohortMembership(baby.cohortId, parent.id, "member");
+    }
+  }
+}
+
+// An invite link works until it is revoked, expires or runs out of uses
+export function isCohortInviteUsable(invite: CohortInvite, now = new Date()) {
+  return (
+    !invite.revokedAt &&
+    (!invite.expiresAt || invite.expiresAt > now) &&
+    (invite.maxUses === null || invite.useCount < invite.maxUses)
+  );
+}
 
 export interface IStorage {
   sessionStore: session.Store;
@@ -41,18 +291,28 @@ export interface IStorage {
   createUser(insertUser: InsertUser): Promise<User>;
   updateUserPassword(userId: number, hashedPassword: string): Promise<User>;
   updateUserRole(userId: number, role: string): Promise<User>;
-  getBabyByUserId(userId: number): Promise<Baby | undefined>;
+  updateUserSettings(userId: number, settings: UserSettings): Promise<User>;
+  getBaby(id: number): Promise<Baby | undefined>;
+  getBabiesByUserId(userId: number): Promise<Baby[]>; // Includes babies shared through the user's household
+  isBabyParent(baby: Baby, userId: number): Promise<boolean>;
   createBaby(insertBaby: InsertBaby, userId: number): Promise<Baby>;
   updateBaby(id: number, updateData: Partial<InsertBaby>, userId: number): Promise<Baby | undefined>;
+  deleteBaby(id: number, userId: number): Promise<boolean>;
+  getBabiesBornSince(birthDate: string): Promise<Baby[]>;
   // Cohort methods
   getCohort(id: number): Promise<Cohort | undefined>;
   getAllCohorts(): Promise<Cohort[]>;
   getUserCohorts(userId: number): Promise<Cohort[]>;
+  getDiscoverableCohorts(userId: number): Promise<Cohort[]>; // Everything but invite-only cohorts, plus any the user already belongs to
+  getJoinableCohortStats(userId: number, activeSince: Date): Promise<JoinableCohortStats[]>; // Discoverable cohorts the user isn't in yet
   createCohort(name: string, description: string | null, creatorId: number): Promise<Cohort>;
-  getCohortBabiesWithParents(cohortId: number): Promise<any[]>; // Returns babies with their parent info
+  updateCohortSettings(id: number, settings: CohortSettings): Promise<Cohort | undefined>;
+  getCohortBabiesWithParents(cohortId: number): Promise<any[]>; // Returns each member's baby once, with all of its parents in the cohort
   // Post methods
-  createPost(insertPost: InsertPost, userId: number): Promise<Post>;
+  createPost(insertPost: InsertPost, userId: number, poll?: CreatePoll): Promise<Post>; // Creates the post's poll with it, if it has one
   getPostsByCohort(cohortId: number): Promise<Post[]>;
+  getCohortFeed(cohortId: number, viewerId: number, options: { cursor?: number; limit: number }): Promise<FeedPage>;
+  getFeedPost(id: number, viewerId: number | null): Promise<FeedPost | undefined>; // With no viewer, nothing is marked as the viewer's own
   getPost(id: number): Promise<Post | undefined>;
   updatePost(id: number, content: string, userId: number, photoUrl?: string | null): Promise<Post | undefined>;
   deletePost(id: number, userId: number): Promise<boolean>;
@@ -60,6 +320,10 @@ export interface IStorage {
   createPasswordResetToken(userId: number): Promise<string>;
   getPasswordResetTokenByToken(token: string): Promise<PasswordResetToken | undefined>;
   markTokenAsUsed(tokenId: number): Promise<void>;
+  // Email verification methods
+  createEmailVerificationToken(userId: number, email: string): Promise<string>;
+  verifyEmail(token: string): Promise<User | undefined>; // undefined if the token is invalid, expired or for an old address
+  updateUserEmail(userId: number, email: string): Promise<User>;
   // Cohort membership methods
   createCohortMembership(cohortId: number, userId: number, role: string): Promise<CohortMembership>;
   updateCohortMembershipRole(id: number, role: string): Promise<CohortMembership | undefined>;
@@ -67,21 +331,110 @@ export interface IStorage {
   getCohortMembershipById(id: number): Promise<CohortMembership | undefined>;
   getCohortMembershipsByUserId(userId: number): Promise<CohortMembership[]>;
   getCohortMembershipsByCohortId(cohortId: number): Promise<CohortMembership[]>;
-  getCohortMembers(cohortId: number): Promise<any[]>; // Returns users with their membership details
+  getCohortMembers(cohortId: number): Promise<any[]>; // Returns users' public details with their membership details
   getCohortModerators(cohortId: number): Promise<any[]>; // Returns moderators with their membership details
   isCohortModerator(userId: number, cohortId: number): Promise<boolean>;
+  isCohortMember(userId: number, cohortId: number): Promise<boolean>;
+  // Cohort invite methods
+  createCohortInvite(cohortId: number, createdById: number, options: { expiresAt: Date | null; maxUses: number | null }): Promise<CohortInvite>;
+  getCohortInvite(id: number): Promise<CohortInvite | undefined>;
+  getCohortInviteByToken(token: string): Promise<CohortInvite | undefined>;
+  getActiveCohortInvites(cohortId: number): Promise<CohortInvite[]>;
+  revokeCohortInvite(id: number): Promise<CohortInvite | undefined>;
+  redeemCohortInvite(token: string, userId: number): Promise<CohortMembership | undefined>; // undefined when the link is expired, revoked or used up
+  // Cohort join request methods
+  createCohortJoinRequest(cohortId: number, userId: number, message: string | null): Promise<CohortJoinRequest>;
+  getCohortJoinRequest(id: number): Promise<CohortJoinRequest | undefined>;
+  getPendingCohortJoinRequest(cohortId: number, userId: number): Promise<CohortJoinRequest | undefined>;
+  getPendingCohortJoinRequestsByCohort(cohortId: number): Promise<any[]>; // Includes the requester's name and email
+  getCohortJoinRequestsByUserId(userId: number): Promise<any[]>; // Includes the cohort name
+  reviewCohortJoinRequest(id: number, status: "approved" | "denied", reviewedById: number): Promise<CohortJoinRequest | undefined>;
+  // Household methods
+  getHouseholdByUserId(userId: number): Promise<Household | undefined>;
+  getHouseholdMembers(householdId: number): Promise<User[]>;
+  createHouseholdInvitation(invitedById: number, email: string): Promise<HouseholdInvitation>;
+  getHouseholdInvitation(id: number): Promise<HouseholdInvitation | undefined>;
+  getPendingHouseholdInvitationsByEmail(email: string): Promise<any[]>; // Includes the inviter's name
+  getPendingHouseholdInvitationsByHousehold(householdId: number): Promise<HouseholdInvitation[]>;
+  acceptHouseholdInvitation(id: number, userId: number, cohorts: HouseholdCohortPlan): Promise<Household>;
+  updateHouseholdInvitationStatus(id: number, status: "declined" | "revoked"): Promise<HouseholdInvitation | undefined>;
+  leaveHousehold(userId: number): Promise<boolean>; // Takes the babies the user created out of the household
   // Comments methods
   createComment(insertComment: InsertComment, userId: number): Promise<Comment>;
+  getComment(id: number): Promise<Comment | undefined>;
   getCommentsByPost(postId: number): Promise<Comment[]>;
-  getCommentsWithUsersByPost(postId: number): Promise<any[]>; // Comments with user information
+  getCommentsWithUsersByPost(postId: number, viewerId: number): Promise<CommentWithUser[]>;
   updateComment(id: number, content: string, userId: number): Promise<Comment | undefined>;
   deleteComment(id: number, userId: number): Promise<boolean>;
-  // Upvotes methods
-  createUpvote(insertUpvote: InsertUpvote, userId: number): Promise<Upvote>;
-  removeUpvote(postId: number, userId: number): Promise<boolean>;
-  getUpvotesByPost(postId: number): Promise<Upvote[]>;
-  getUpvoteCount(postId: number): Promise<number>;
-  hasUserUpvoted(postId: number, userId: number): Promise<boolean>;
+  // Reaction methods. commentId is null for reactions to the post itself.
+  addReaction(userId: number, postId: number, commentId: number | null, type: ReactionType): Promise<Reaction | undefined>; // Undefined if the user already left this reaction
+  removeReaction(userId: number, postId: number, commentId: number | null, type: ReactionType): Promise<boolean>;
+  getReactionSummaries(postId: number, commentId: number | null, viewerId: number): Promise<ReactionSummary[]>;
+  getReactionsWithUsers(postId: number, commentId: number | null): Promise<ReactionWithUser[]>; // Oldest first
+  // Poll methods
+  getPollByPost(postId: number): Promise<(Poll & { options: PollOption[] }) | undefined>;
+  getPollResults(postIds: number[], viewerId: number | null): Promise<Map<number, PollResults>>; // Keyed by post id; myVotes is empty with no viewer
+  setPollVotes(pollId: number, userId: number, optionIds: number[]): Promise<void>; // Replaces the user's earlier votes; empty to retract
+  // Milestone methods
+  getMilestones(): Promise<Milestone[]>; // In catalogue order
+  getMilestone(id: number): Promise<Milestone | undefined>;
+  getBabyMilestones(babyId: number): Promise<BabyMilestoneWithDetails[]>; // Oldest first
+  getBabyMilestone(babyId: number, milestoneId: number): Promise<BabyMilestone | undefined>;
+  setBabyMilestone(babyId: number, milestoneId: number, loggedById: number, milestone: BabyMilestoneInput): Promise<BabyMilestone>; // Creates or replaces the entry
+  deleteBabyMilestone(babyId: number, milestoneId: number): Promise<boolean>;
+  setBabyMilestoneSharedPost(id: number, postId: number): Promise<void>;
+
+  // Growth measurement methods
+  getGrowthMeasurements(babyId: number): Promise<GrowthMeasurement[]>; // Oldest first
+  getGrowthMeasurement(id: number): Promise<GrowthMeasurement | undefined>;
+  createGrowthMeasurement(babyId: number, loggedById: number, measurement: GrowthMeasurementInput): Promise<GrowthMeasurement>;
+  updateGrowthMeasurement(id: number, measurement: GrowthMeasurementInput): Promise<GrowthMeasurement | undefined>;
+  deleteGrowthMeasurement(id: number): Promise<boolean>;
+
+  // Care log methods
+  getCareLogEntries(babyId: number, from: Date, to: Date): Promise<CareLogEntryWithUsers[]>; // Entries overlapping the range, oldest first
+  getCareLogEntry(id: number): Promise<CareLogEntry | undefined>;
+  getRunningCareLogEntries(babyId: number): Promise<CareLogEntry[]>; // Sleeps and breast feeds not yet ended
+  createCareLogEntry(babyId: number, loggedById: number, entry: CareLogEntryInput): Promise<CareLogEntry>;
+  updateCareLogEntry(id: number, version: number, updatedById: number, entry: CareLogEntryInput): Promise<CareLogEntry | undefined>; // Undefined if someone else changed it since version
+  deleteCareLogEntry(id: number): Promise<boolean>;
+
+  // Health schedule methods
+  getHealthScheduleRecords(babyId: number): Promise<HealthScheduleRecord[]>;
+  completeScheduleItem(babyId: number, itemKey: string, completedById: number, completion: ScheduleItemCompletion): Promise<HealthScheduleRecord>; // Creates or replaces the completion
+  uncompleteScheduleItem(babyId: number, itemKey: string): Promise<boolean>; // False if it wasn't marked done
+  markScheduleItemsReminded(babyId: number, itemKeys: string[], dueOn: string): Promise<void>;
+  getScheduleFeedToken(babyId: number, userId: number): Promise<ScheduleFeedToken>; // Creates the parent's feed link the first time
+  getScheduleFeedByToken(token: string): Promise<ScheduleFeedToken | undefined>;
+  resetScheduleFeedToken(babyId: number, userId: number): Promise<ScheduleFeedToken>; // The old link stops working
+  // Meetup methods
+  createMeetup(cohortId: number, createdById: number, meetup: MeetupInput): Promise<Meetup>;
+  getMeetup(id: number): Promise<Meetup | undefined>;
+  getMeetupWithRsvps(id: number, viewerId: number): Promise<MeetupWithRsvps | undefined>;
+  getCohortMeetups(cohortId: number, viewerId: number): Promise<MeetupWithRsvps[]>; // Soonest first
+  updateMeetup(id: number, meetup: MeetupInput): Promise<Meetup | undefined>; // Clears reminderSentAt if the start time moves
+  deleteMeetup(id: number): Promise<boolean>;
+  getMeetupRsvps(meetupId: number): Promise<MeetupRsvp[]>;
+  setMeetupRsvp(meetupId: number, userId: number, rsvp: RsvpInput): Promise<MeetupRsvp>; // Replaces the user's earlier answer
+  getMeetupsDueReminders(startingAfter: Date, startingBefore: Date): Promise<Meetup[]>; // Those whose reminder hasn't gone out
+  markMeetupReminderSent(id: number): Promise<void>;
+  // Mention methods
+  setMentions(postId: number, commentId: number | null, userIds: number[]): Promise<number[]>; // Returns the newly mentioned user ids
+  // Notification methods
+  createNotification(notification: InsertNotification): Promise<Notification>;
+  getNotifications(userId: number, limit: number): Promise<NotificationItem[]>; // Newest first
+  getUnreadNotificationCount(userId: number): Promise<number>;
+  markNotificationRead(id: number, userId: number): Promise<Notification | undefined>;
+  markAllNotificationsRead(userId: number): Promise<void>;
+  getUnsentEmailNotifications(): Promise<NotificationItem[]>; // Oldest first
+  markNotificationsEmailed(ids: number[]): Promise<void>;
+  // Notification preference methods
+  getNotificationPreferences(userId: number): Promise<NotificationPreferences | undefined>; // undefined until the user saves settings
+  updateNotificationPreferences(userId: number, settings: NotificationSettings): Promise<NotificationPreferences>;
+  updateLastDigestSentAt(userId: number, sentAt: Date): Promise<void>;
+  getMutedCohortIds(userId: number): Promise<number[]>;
+  muteCohort(userId: number, cohortId: number): Promise<void>;
+  unmuteCohort(userId: number, cohortId: number): Promise<void>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -131,6 +484,15 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
   
+  async updateUserSettings(userId: number, settings: UserSettings): Promise<User> {
+    const [user] = await db
+      .update(users)
+      .set(settings)
+      .where(eq(users.id, userId))
+      .returning();
+    return user;
+  }
+
   async createPasswordResetToken(userId: number): Promise<string> {
     // Create token that expires in 1 hour
     const token = randomUUID();
@@ -169,6 +531,64 @@ export class DatabaseStorage implements IStorage {
       .where(eq(passwordResetTokens.id, tokenId));
   }
 
+  async createEmailVerificationToken(userId: number, email: string): Promise<string> {
+    // Create token that expires in 24 hours
+    const token = randomUUID();
+    const expiresAt = new Date();
+    expiresAt.setHours(expiresAt.getHours() + 24);
+
+    await db.insert(emailVerificationTokens).values({
+      userId,
+      email,
+      token,
+      expiresAt,
+      used: 0,
+    });
+
+    return token;
+  }
+
+  async verifyEmail(token: string): Promise<User | undefined> {
+    const [verificationToken] = await db
+      .select()
+      .from(emailVerificationTokens)
+      .where(
+        and(
+          eq(emailVerificationTokens.token, token),
+          gt(emailVerificationTokens.expiresAt, new Date()),
+          eq(emailVerificationTokens.used, 0)
+        )
+      );
+    if (!verificationToken) return undefined;
+
+    await db
+      .update(emailVerificationTokens)
+      .set({ used: 1 })
+      .where(eq(emailVerificationTokens.id, verificationToken.id));
+
+    // Only verifies the address the link was sent to
+    const [user] = await db
+      .update(users)
+      .set({ emailVerifiedAt: new Date() })
+      .where(
+        and(
+          eq(users.id, verificationToken.userId),
+          eq(users.email, verificationToken.email)
+        )
+      )
+      .returning();
+    return user;
+  }
+
+  async updateUserEmail(userId: number, email: string): Promise<User> {
+    const [user] = await db
+      .update(users)
+      .set({ email, emailVerifiedAt: null })
+      .where(eq(users.id, userId))
+      .returning();
+    return user;
+  }
+
   async createUser(insertUser: InsertUser): Promise<User> {
     const [user] = await db.insert(users).values(insertUser).returning();
     return user;
@@ -181,6 +601,8 @@ export class DatabaseStorage implements IStorage {
     birthWeek.setDate(birthDate.getDate() - birthDate.getDay());
 
     const cohort = await this.getOrCreateCohort(birthWeek);
+    // Babies added by someone in a household are shared with their co-parents
+    const household = await this.getHouseholdByUserId(userId);
 
     const [baby] = await db
       .insert(babies)
@@ -189,25 +611,46 @@ export class DatabaseStorage implements IStorage {
         birthDate: birthDate.toISOString().split('T')[0],
         birthWeek: birthWeek.toISOString().split('T')[0],
         userId,
+        householdId: household?.id ?? null,
         cohortId: cohort.id,
+        photoUrl: insertBaby.photoUrl,
+        sex: insertBaby.sex ?? null,
       })
       .returning();
 
+    await enrollInBirthCohort(this, baby);
     return baby;
   }
 
-  async getBabyByUserId(userId: number): Promise<Baby | undefined> {
-    const [baby] = await db
+  async getBaby(id: number): Promise<Baby | undefined> {
+    const [baby] = await db.select().from(babies).where(eq(babies.id, id));
+    return baby;
+  }
+
+  async getBabiesByUserId(userId: number): Promise<Baby[]> {
+    const household = await this.getHouseholdByUserId(userId);
+    return db
       .select()
       .from(babies)
-      .where(eq(babies.userId, userId));
-    return baby;
+      .where(
+        household
+          ? or(eq(babies.userId, userId), eq(babies.householdId, household.id))
+          : eq(babies.userId, userId)
+      )
+      .orderBy(babies.birthDate, babies.id);
+  }
+
+  async isBabyParent(baby: Baby, userId: number): Promise<boolean> {
+    if (baby.userId === userId) return true;
+    if (baby.householdId === null) return false;
+    const household = await this.getHouseholdByUserId(userId);
+    return household?.id === baby.householdId;
   }
   
   async updateBaby(id: number, updateData: Partial<InsertBaby>, userId: number): Promise<Baby | undefined> {
-    // First check if baby exists and belongs to the user
-    const baby = await this.getBabyByUserId(userId);
-    if (!baby || baby.id !== id) {
+    // First check if baby exists and the user is one of its parents
+    const baby = await this.getBaby(id);
+    if (!baby || !(await this.isBabyParent(baby, userId))) {
       return undefined;
     }
     
@@ -225,24 +668,47 @@ export class DatabaseStorage implements IStorage {
       const birthWeek = new Date(birthDate);
       birthWeek.setDate(birthDate.getDate() - birthDate.getDay());
       updateValues.birthWeek = birthWeek.toISOString().split('T')[0];
-      
-      // We don't update cohort assignment when editing - that would be confusing
-      // for users who are part of custom cohorts
+
+      // Move the baby to the matching birth-month cohort. Memberships of the
+      // old one are kept, along with anything the parents posted there.
+      updateValues.cohortId = (await this.getOrCreateCohort(birthWeek)).id;
     }
     
     if (updateData.photoUrl !== undefined) {
       updateValues.photoUrl = updateData.photoUrl;
     }
+
+    if (updateData.sex !== undefined) {
+      updateValues.sex = updateData.sex;
+    }
     
     const [updatedBaby] = await db
       .update(babies)
       .set(updateValues)
       .where(eq(babies.id, id))
       .returning();
-      
+
+    if (updateValues.cohortId !== undefined) {
+      await enrollInBirthCohort(this, updatedBaby);
+    }
     return updatedBaby;
   }
 
+  async deleteBaby(id: number, userId: number): Promise<boolean> {
+    const baby = await this.getBaby(id);
+    if (!baby || !(await this.isBabyParent(baby, userId))) {
+      return false;
+    }
+
+    await db.delete(babies).where(eq(babies.id, id));
+
+    return true;
+  }
+
+  async getBabiesBornSince(birthDate: string): Promise<Baby[]> {
+    return db.select().from(babies).where(gte(babies.birthDate, birthDate));
+  }
+
   private async getOrCreateCohort(birthDate: Date): Promise<Cohort> {
     const start = startOfMonth(birthDate);
     const end = endOfMonth(addMonths(start, 1));
@@ -297,6 +763,8 @@ export class DatabaseStorage implements IStorage {
         description: cohorts.description,
         creatorId: cohorts.creatorId,
         createdAt: cohorts.createdAt,
+        privacy: cohorts.privacy,
+        requireVerifiedEmail: cohorts.requireVerifiedEmail,
         startDate: cohorts.startDate,
         endDate: cohorts.endDate,
       })
@@ -309,6 +777,85 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(cohorts.createdAt));
   }
 
+  async getDiscoverableCohorts(userId: number): Promise<Cohort[]> {
+    const memberCohortIds = db
+      .select({ cohortId: cohortMemberships.cohortId })
+      .from(cohortMemberships)
+      .where(eq(cohortMemberships.userId, userId));
+
+    return db
+      .select()
+      .from(cohorts)
+      .where(
+        or(
+          sql`${cohorts.privacy} <> 'invite_only'`,
+          inArray(cohorts.id, memberCohortIds)
+        )
+      )
+      .orderBy(desc(cohorts.createdAt));
+  }
+
+  async getJoinableCohortStats(userId: number, activeSince: Date): Promise<JoinableCohortStats[]> {
+    const memberCohortIds = db
+      .select({ cohortId: cohortMemberships.cohortId })
+      .from(cohortMemberships)
+      .where(eq(cohortMemberships.userId, userId));
+
+    const joinable = await db
+      .select()
+      .from(cohorts)
+      .where(
+        and(
+          sql`${cohorts.privacy} <> 'invite_only'`,
+          notInArray(cohorts.id, memberCohortIds)
+        )
+      );
+    if (joinable.length === 0) return [];
+
+    const cohortIds = joinable.map((cohort) => cohort.id);
+    const memberCounts = await db
+      .select({
+        cohortId: cohortMemberships.cohortId,
+        count: sql<number>`count(*)`.mapWith(Number),
+      })
+      .from(cohortMemberships)
+      .where(inArray(cohortMemberships.cohortId, cohortIds))
+      .groupBy(cohortMemberships.cohortId);
+    const postCounts = await db
+      .select({
+        cohortId: posts.cohortId,
+        count: sql<number>`count(*)`.mapWith(Number),
+      })
+      .from(posts)
+      .where(and(inArray(posts.cohortId, cohortIds), gt(posts.createdAt, activeSince)))
+      .groupBy(posts.cohortId);
+    // Every baby created by a member or shared with a member's household
+    const birthWeeks = await db
+      .selectDistinct({
+        cohortId: cohortMemberships.cohortId,
+        birthWeek: babies.birthWeek,
+      })
+      .from(cohortMemberships)
+      .leftJoin(householdMembers, eq(householdMembers.userId, cohortMemberships.userId))
+      .innerJoin(
+        babies,
+        or(
+          eq(babies.userId, cohortMemberships.userId),
+          eq(babies.householdId, householdMembers.householdId)
+        )
+      )
+      .where(inArray(cohortMemberships.cohortId, cohortIds));
+
+    return joinable.map((cohort) => ({
+      cohort,
+      memberCount: memberCounts.find((row) => row.cohortId === cohort.id)?.count ?? 0,
+      recentPostCount: postCounts.find((row) => row.cohortId === cohort.id)?.count ?? 0,
+      memberBirthWeeks: birthWeeks
+        .filter((row) => row.cohortId === cohort.id)
+        .map((row) => row.birthWeek),
+    }));
+  }
+
   async createCohort(name: string, description: string | null, creatorId: number): Promise<Cohort> {
     // Create the cohort
     const [cohort] = await db
@@ -325,45 +872,88 @@ export class DatabaseStorage implements IStorage {
     
     return cohort;
   }
+
+  async updateCohortSettings(id: number, settings: CohortSettings): Promise<Cohort | undefined> {
+    const [cohort] = await db
+      .update(cohorts)
+      .set(settings)
+      .where(eq(cohorts.id, id))
+      .returning();
+    return cohort;
+  }
   
   async getCohortBabiesWithParents(cohortId: number): Promise<any[]> {
-    // Get all members of the cohort
-    const cohortMembers = await this.getCohortMembers(cohortId);
-    const membersWithBabies = [];
-    
-    // For each member, get their baby information if it exists
-    for (const member of cohortMembers) {
-      const baby = await this.getBabyByUserId(member.id);
-      if (baby) {
-        membersWithBabies.push({
-          user: {
-            id: member.id,
-            username: member.username,
-            fullName: member.fullName,
-            email: member.email,
-            role: member.role,
-            membershipRole: member.membershipRole
-          },
-          baby: baby
-        });
-      }
+    const members = await db
+      .select({
+        id: users.id,
+        username: users.username,
+        fullName: users.fullName,
+        email: users.email,
+        role: users.role,
+        membershipRole: cohortMemberships.role,
+        householdId: householdMembers.householdId,
+      })
+      .from(cohortMemberships)
+      .innerJoin(users, eq(users.id, cohortMemberships.userId))
+      .leftJoin(householdMembers, eq(householdMembers.userId, users.id))
+      .where(eq(cohortMemberships.cohortId, cohortId))
+      .orderBy(users.fullName);
+
+    if (members.length === 0) {
+      return [];
     }
-    
-    return membersWithBabies;
+
+    const memberIds = members.map((member) => member.id);
+    const householdIds = members
+      .map((member) => member.householdId)
+      .filter((id): id is number => id !== null);
+
+    // Every baby created by a member or shared with a member's household
+    const cohortBabies = await db
+      .select()
+      .from(babies)
+      .where(
+        householdIds.length > 0
+          ? or(inArray(babies.userId, memberIds), inArray(babies.householdId, householdIds))
+          : inArray(babies.userId, memberIds)
+      )
+      .orderBy(babies.birthDate, babies.id);
+
+    return groupCohortBabies(members, cohortBabies);
   }
 
-  async createPost(insertPost: InsertPost, userId: number): Promise<Post> {
-    const [post] = await db
-      .insert(posts)
-      .values({
-        content: insertPost.content,
-        userId: userId,
-        cohortId: insertPost.cohortId,
-        photoUrl: insertPost.photoUrl,
-      })
-      .returning();
+  async createPost(insertPost: InsertPost, userId: number, poll?: CreatePoll): Promise<Post> {
+    // One transaction, so a post is never left pointing at a poll that
+    // failed to save
+    return db.transaction(async (tx) => {
+      const [post] = await tx
+        .insert(posts)
+        .values({
+          content: insertPost.content,
+          userId: userId,
+          cohortId: insertPost.cohortId,
+          photoUrl: insertPost.photoUrl,
+        })
+        .returning();
 
-    return post;
+      if (poll) {
+        const [created] = await tx
+          .insert(polls)
+          .values({
+            postId: post.id,
+            multipleChoice: poll.multipleChoice,
+            anonymous: poll.anonymous,
+            closesAt: poll.closesAt ?? null,
+          })
+          .returning();
+
+        await tx
+          .insert(pollOptions)
+          .values(poll.options.map((text, position) => ({ pollId: created.id, text, position })));
+      }
+
+      return post;
+    });
   }
 
   async getPostsByCohort(cohortId: number): Promise<Post[]> {
@@ -374,6 +964,69 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(posts.createdAt));
   }
 
+  // Columns for a feed post as seen by viewerId, shared by the feed and
+  // single-post lookups
+  private feedPostColumns(viewerId: number | null) {
+    return {
+      id: posts.id,
+      userId: posts.userId,
+      cohortId: posts.cohortId,
+      content: posts.content,
+      photoUrl: posts.photoUrl,
+      createdAt: posts.createdAt,
+      updatedAt: posts.updatedAt,
+      user: {
+        id: users.id,
+        username: users.username,
+        fullName: users.fullName,
+      },
+      mentions: sql<MentionedUser[]>`coalesce((
+        select json_agg(json_build_object('id', ${users.id}, 'username', ${users.username}))
+        from ${mentions} inner join ${users} on ${users.id} = ${mentions.userId}
+        where ${mentions.postId} = ${posts.id} and ${mentions.commentId} is null
+      ), '[]'::json)`,
+      commentCount: sql<number>`(select count(*) from ${comments} where ${comments.postId} = ${posts.id} and ${comments.deletedAt} is null)`.mapWith(Number),
+      reactions: reactionSummarySql(viewerId, sql`${reactions.postId} = ${posts.id} and ${reactions.commentId} is null`),
+    };
+  }
+
+  async getCohortFeed(cohortId: number, viewerId: number, options: { cursor?: number; limit: number }): Promise<FeedPage> {
+    // Post ids increase with creation time, so keyset paging on id returns the
+    // feed newest first without the gaps an OFFSET gets when posts are added
+    const rows = await db
+      .select(this.feedPostColumns(viewerId))
+      .from(posts)
+      .innerJoin(users, eq(posts.userId, users.id))
+      .where(
+        and(
+          eq(posts.cohortId, cohortId),
+          options.cursor !== undefined ? lt(posts.id, options.cursor) : undefined
+        )
+      )
+      .orderBy(desc(posts.id))
+      // Fetch one extra row to know whether there is another page
+      .limit(options.limit + 1);
+
+    const page = rows.slice(0, options.limit);
+    const pollResults = await this.getPollResults(page.map((post) => post.id), viewerId);
+    return {
+      posts: page.map((post) => ({ ...post, poll: pollResults.get(post.id) ?? null })),
+      nextCursor: rows.length > options.limit ? page[page.length - 1].id : null,
+    };
+  }
+
+  async getFeedPost(id: number, viewerId: number | null): Promise<FeedPost | undefined> {
+    const [post] = await db
+      .select(this.feedPostColumns(viewerId))
+      .from(posts)
+      .innerJoin(users, eq(posts.userId, users.id))
+      .where(eq(posts.id, id));
+    if (!post) return undefined;
+
+    const pollResults = await this.getPollResults([id], viewerId);
+    return { ...post, poll: pollResults.get(id) ?? null };
+  }
+
   async getPost(id: number): Promise<Post | undefined> {
     const [post] = await db
       .select()
@@ -479,18 +1132,22 @@ export class DatabaseStorage implements IStorage {
       .where(eq(cohortMemberships.cohortId, cohortId));
   }
 
+  // What other members may see of each other: never credentials
+  private cohortMemberColumns() {
+    return {
+      id: users.id,
+      username: users.username,
+      fullName: users.fullName,
+      email: users.email,
+      role: users.role,
+      membershipId: cohortMemberships.id,
+      membershipRole: cohortMemberships.role,
+    };
+  }
+
   async getCohortMembers(cohortId: number): Promise<any[]> {
     return db
-      .select({
-        id: users.id,
-        username: users.username,
-        password: users.password,
-        fullName: users.fullName,
-        email: users.email,
-        role: users.role,
-        membershipId: cohortMemberships.id,
-        membershipRole: cohortMemberships.role,
-      })
+      .select(this.cohortMemberColumns())
       .from(users)
       .innerJoin(
         cohortMemberships,
@@ -501,16 +1158,7 @@ export class DatabaseStorage implements IStorage {
 
   async getCohortModerators(cohortId: number): Promise<any[]> {
     return db
-      .select({
-        id: users.id,
-        username: users.username,
-        password: users.password,
-        fullName: users.fullName,
-        email: users.email,
-        role: users.role,
-        membershipId: cohortMemberships.id,
-        membershipRole: cohortMemberships.role,
-      })
+      .select(this.cohortMemberColumns())
       .from(users)
       .innerJoin(
         cohortMemberships,
@@ -538,41 +1186,408 @@ export class DatabaseStorage implements IStorage {
     return !!membership;
   }
 
-  // Comments methods
-  async createComment(insertComment: InsertComment, userId: number): Promise<Comment> {
-    const [comment] = await db
-      .insert(comments)
+  async isCohortMember(userId: number, cohortId: number): Promise<boolean> {
+    const [membership] = await db
+      .select({ id: cohortMemberships.id })
+      .from(cohortMemberships)
+      .where(
+        and(
+          eq(cohortMemberships.userId, userId),
+          eq(cohortMemberships.cohortId, cohortId)
+        )
+      );
+    return !!membership;
+  }
+
+  // Cohort invite methods
+  async createCohortInvite(
+    cohortId: number,
+    createdById: number,
+    options: { expiresAt: Date | null; maxUses: number | null },
+  ): Promise<CohortInvite> {
+    const [invite] = await db
+      .insert(cohortInvites)
       .values({
-        content: insertComment.content,
-        userId: userId,
-        postId: insertComment.postId,
+        cohortId,
+        createdById,
+        token: randomUUID(),
+        expiresAt: options.expiresAt,
+        maxUses: options.maxUses,
       })
       .returning();
+    return invite;
+  }
 
-    return comment;
+  async getCohortInvite(id: number): Promise<CohortInvite | undefined> {
+    const [invite] = await db.select().from(cohortInvites).where(eq(cohortInvites.id, id));
+    return invite;
   }
 
-  async getCommentsByPost(postId: number): Promise<Comment[]> {
-    return db
+  async getCohortInviteByToken(token: string): Promise<CohortInvite | undefined> {
+    const [invite] = await db
       .select()
-      .from(comments)
-      .where(eq(comments.postId, postId))
-      .orderBy(comments.createdAt);
+      .from(cohortInvites)
+      .where(eq(cohortInvites.token, token));
+    return invite;
   }
 
-  async getCommentsWithUsersByPost(postId: number): Promise<any[]> {
-    return db
-      .select({
-        id: comments.id,
-        postId: comments.postId,
-        userId: comments.userId,
-        content: comments.content,
-        createdAt: comments.createdAt,
-        updatedAt: comments.updatedAt,
-        username: users.username,
-        fullName: users.fullName,
-      })
-      .from(comments)
+  async getActiveCohortInvites(cohortId: number): Promise<CohortInvite[]> {
+    const invites = await db
+      .select()
+      .from(cohortInvites)
+      .where(eq(cohortInvites.cohortId, cohortId))
+      .orderBy(desc(cohortInvites.createdAt));
+    return invites.filter((invite) => isCohortInviteUsable(invite));
+  }
+
+  async revokeCohortInvite(id: number): Promise<CohortInvite | undefined> {
+    const [invite] = await db
+      .update(cohortInvites)
+      .set({ revokedAt: new Date() })
+      .where(eq(cohortInvites.id, id))
+      .returning();
+    return invite;
+  }
+
+  async redeemCohortInvite(token: string, userId: number): Promise<CohortMembership | undefined> {
+    const invite = await this.getCohortInviteByToken(token);
+    if (!invite || !isCohortInviteUsable(invite)) return undefined;
+
+    // Following a link to a cohort you're already in shouldn't use it up
+    const [existing] = await db
+      .select()
+      .from(cohortMemberships)
+      .where(
+        and(
+          eq(cohortMemberships.userId, userId),
+          eq(cohortMemberships.cohortId, invite.cohortId)
+        )
+      );
+    if (existing) return existing;
+
+    // Re-check the limits in the update itself so two people can't both take
+    // the last use
+    const [claimed] = await db
+      .update(cohortInvites)
+      .set({ useCount: sql`${cohortInvites.useCount} + 1` })
+      .where(
+        and(
+          eq(cohortInvites.id, invite.id),
+          isNull(cohortInvites.revokedAt),
+          or(isNull(cohortInvites.expiresAt), gt(cohortInvites.expiresAt, new Date())),
+          or(isNull(cohortInvites.maxUses), lt(cohortInvites.useCount, cohortInvites.maxUses))
+        )
+      )
+      .returning();
+    if (!claimed) return undefined;
+
+    return this.createCohortMembership(invite.cohortId, userId, "member");
+  }
+
+  // Cohort join request methods
+  async createCohortJoinRequest(cohortId: number, userId: number, message: string | null): Promise<CohortJoinRequest> {
+    const [request] = await db
+      .insert(cohortJoinRequests)
+      .values({ cohortId, userId, message })
+      .returning();
+    return request;
+  }
+
+  async getCohortJoinRequest(id: number): Promise<CohortJoinRequest | undefined> {
+    const [request] = await db
+      .select()
+      .from(cohortJoinRequests)
+      .where(eq(cohortJoinRequests.id, id));
+    return request;
+  }
+
+  async getPendingCohortJoinRequest(cohortId: number, userId: number): Promise<CohortJoinRequest | undefined> {
+    const [request] = await db
+      .select()
+      .from(cohortJoinRequests)
+      .where(
+        and(
+          eq(cohortJoinRequests.cohortId, cohortId),
+          eq(cohortJoinRequests.userId, userId),
+          eq(cohortJoinRequests.status, "pending")
+        )
+      );
+    return request;
+  }
+
+  async getPendingCohortJoinRequestsByCohort(cohortId: number): Promise<any[]> {
+    return db
+      .select({
+        id: cohortJoinRequests.id,
+        cohortId: cohortJoinRequests.cohortId,
+        userId: cohortJoinRequests.userId,
+        message: cohortJoinRequests.message,
+        createdAt: cohortJoinRequests.createdAt,
+        fullName: users.fullName,
+        username: users.username,
+        email: users.email,
+      })
+      .from(cohortJoinRequests)
+      .innerJoin(users, eq(users.id, cohortJoinRequests.userId))
+      .where(
+        and(
+          eq(cohortJoinRequests.cohortId, cohortId),
+          eq(cohortJoinRequests.status, "pending")
+        )
+      )
+      .orderBy(cohortJoinRequests.createdAt);
+  }
+
+  async getCohortJoinRequestsByUserId(userId: number): Promise<any[]> {
+    return db
+      .select({
+        id: cohortJoinRequests.id,
+        cohortId: cohortJoinRequests.cohortId,
+        message: cohortJoinRequests.message,
+        status: cohortJoinRequests.status,
+        reviewedAt: cohortJoinRequests.reviewedAt,
+        createdAt: cohortJoinRequests.createdAt,
+        cohortName: cohorts.name,
+      })
+      .from(cohortJoinRequests)
+      .innerJoin(cohorts, eq(cohorts.id, cohortJoinRequests.cohortId))
+      .where(eq(cohortJoinRequests.userId, userId))
+      .orderBy(desc(cohortJoinRequests.createdAt));
+  }
+
+  async reviewCohortJoinRequest(
+    id: number,
+    status: "approved" | "denied",
+    reviewedById: number,
+  ): Promise<CohortJoinRequest | undefined> {
+    // Only pending requests can be reviewed, so a request can't be approved twice
+    const [request] = await db
+      .update(cohortJoinRequests)
+      .set({ status, reviewedById, reviewedAt: new Date() })
+      .where(and(eq(cohortJoinRequests.id, id), eq(cohortJoinRequests.status, "pending")))
+      .returning();
+    if (!request) return undefined;
+
+    if (status === "approved" && !(await this.isCohortMember(request.userId, request.cohortId))) {
+      await this.createCohortMembership(request.cohortId, request.userId, "member");
+    }
+    return request;
+  }
+
+  // Household methods
+  async getHouseholdByUserId(userId: number): Promise<Household | undefined> {
+    const [household] = await db
+      .select({
+        id: households.id,
+        createdAt: households.createdAt,
+      })
+      .from(households)
+      .innerJoin(householdMembers, eq(households.id, householdMembers.householdId))
+      .where(eq(householdMembers.userId, userId));
+    return household;
+  }
+
+  async getHouseholdMembers(householdId: number): Promise<User[]> {
+    return db
+      .select({
+        id: users.id,
+        username: users.username,
+        password: users.password,
+        fullName: users.fullName,
+        email: users.email,
+        role: users.role,
+        autoJoinBirthCohorts: users.autoJoinBirthCohorts,
+        emailVerifiedAt: users.emailVerifiedAt,
+      })
+      .from(users)
+      .innerJoin(householdMembers, eq(users.id, householdMembers.userId))
+      .where(eq(householdMembers.householdId, householdId))
+      .orderBy(householdMembers.createdAt);
+  }
+
+  private async getOrCreateHousehold(userId: number): Promise<Household> {
+    const existingHousehold = await this.getHouseholdByUserId(userId);
+    if (existingHousehold) {
+      return existingHousehold;
+    }
+
+    const [household] = await db.insert(households).values({}).returning();
+    await db.insert(householdMembers).values({ householdId: household.id, userId });
+
+    // Share the founder's existing babies with the new household
+    await db
+      .update(babies)
+      .set({ householdId: household.id })
+      .where(and(eq(babies.userId, userId), isNull(babies.householdId)));
+
+    return household;
+  }
+
+  async createHouseholdInvitation(invitedById: number, email: string): Promise<HouseholdInvitation> {
+    const household = await this.getOrCreateHousehold(invitedById);
+
+    // Invitations expire after 7 days
+    const expiresAt = new Date();
+    expiresAt.setDate(expiresAt.getDate() + 7);
+
+    const [invitation] = await db
+      .insert(householdInvitations)
+      .values({
+        householdId: household.id,
+        invitedById,
+        email: email.toLowerCase(),
+        expiresAt,
+      })
+      .returning();
+    return invitation;
+  }
+
+  async getHouseholdInvitation(id: number): Promise<HouseholdInvitation | undefined> {
+    const [invitation] = await db
+      .select()
+      .from(householdInvitations)
+      .where(eq(householdInvitations.id, id));
+    return invitation;
+  }
+
+  async getPendingHouseholdInvitationsByEmail(email: string): Promise<any[]> {
+    return db
+      .select({
+        id: householdInvitations.id,
+        householdId: householdInvitations.householdId,
+        email: householdInvitations.email,
+        expiresAt: householdInvitations.expiresAt,
+        createdAt: householdInvitations.createdAt,
+        invitedById: householdInvitations.invitedById,
+        invitedByName: users.fullName,
+      })
+      .from(householdInvitations)
+      .innerJoin(users, eq(users.id, householdInvitations.invitedById))
+      .where(
+        and(
+          eq(householdInvitations.email, email.toLowerCase()),
+          eq(householdInvitations.status, "pending"),
+          gt(householdInvitations.expiresAt, new Date())
+        )
+      )
+      .orderBy(desc(householdInvitations.createdAt));
+  }
+
+  async getPendingHouseholdInvitationsByHousehold(householdId: number): Promise<HouseholdInvitation[]> {
+    return db
+      .select()
+      .from(householdInvitations)
+      .where(
+        and(
+          eq(householdInvitations.householdId, householdId),
+          eq(householdInvitations.status, "pending"),
+          gt(householdInvitations.expiresAt, new Date())
+        )
+      )
+      .orderBy(desc(householdInvitations.createdAt));
+  }
+
+  async acceptHouseholdInvitation(id: number, userId: number, cohorts: HouseholdCohortPlan): Promise<Household> {
+    const invitation = (await this.getHouseholdInvitation(id))!;
+
+    // All or nothing, so a failure can't leave the invitation half accepted
+    await db.transaction(async (tx) => {
+      await tx.insert(householdMembers).values({ householdId: invitation.householdId, userId });
+
+      // Share the new co-parent's existing babies with the household
+      await tx
+        .update(babies)
+        .set({ householdId: invitation.householdId })
+        .where(and(eq(babies.userId, userId), isNull(babies.householdId)));
+
+      for (const cohortId of cohorts.joinCohortIds) {
+        await tx.insert(cohortMemberships).values({ cohortId, userId, role: "member" });
+      }
+      for (const cohortId of cohorts.requestCohortIds) {
+        await tx.insert(cohortJoinRequests).values({ cohortId, userId, message: null });
+      }
+
+      await tx
+        .update(householdInvitations)
+        .set({ status: "accepted" })
+        .where(eq(householdInvitations.id, id));
+    });
+
+    return (await this.getHouseholdByUserId(userId))!;
+  }
+
+  async updateHouseholdInvitationStatus(id: number, status: "declined" | "revoked"): Promise<HouseholdInvitation | undefined> {
+    const [invitation] = await db
+      .update(householdInvitations)
+      .set({ status })
+      .where(eq(householdInvitations.id, id))
+      .returning();
+    return invitation;
+  }
+
+  async leaveHousehold(userId: number): Promise<boolean> {
+    // The babies the leaving parent created go with them, so the household
+    // loses access to them, and a household they found later shares them again.
+    // Babies the other parents created stay behind.
+    await db.transaction(async (tx) => {
+      await tx.delete(householdMembers).where(eq(householdMembers.userId, userId));
+      await tx
+        .update(babies)
+        .set({ householdId: null })
+        .where(and(eq(babies.userId, userId), isNotNull(babies.householdId)));
+    });
+    return true;
+  }
+
+  // Comments methods
+  async createComment(insertComment: InsertComment, userId: number): Promise<Comment> {
+    const [comment] = await db
+      .insert(comments)
+      .values({
+        content: insertComment.content,
+        userId: userId,
+        postId: insertComment.postId,
+        parentCommentId: insertComment.parentCommentId ?? null,
+      })
+      .returning();
+
+    return comment;
+  }
+
+  async getComment(id: number): Promise<Comment | undefined> {
+    const [comment] = await db.select().from(comments).where(eq(comments.id, id));
+    return comment;
+  }
+
+  async getCommentsByPost(postId: number): Promise<Comment[]> {
+    return db
+      .select()
+      .from(comments)
+      .where(eq(comments.postId, postId))
+      .orderBy(comments.createdAt);
+  }
+
+  async getCommentsWithUsersByPost(postId: number, viewerId: number): Promise<CommentWithUser[]> {
+    return db
+      .select({
+        id: comments.id,
+        postId: comments.postId,
+        userId: comments.userId,
+        content: comments.content,
+        parentCommentId: comments.parentCommentId,
+        deletedAt: comments.deletedAt,
+        createdAt: comments.createdAt,
+        updatedAt: comments.updatedAt,
+        username: users.username,
+        fullName: users.fullName,
+        mentions: sql<MentionedUser[]>`coalesce((
+          select json_agg(json_build_object('id', ${users.id}, 'username', ${users.username}))
+          from ${mentions} inner join ${users} on ${users.id} = ${mentions.userId}
+          where ${mentions.commentId} = ${comments.id}
+        ), '[]'::json)`,
+        reactions: reactionSummarySql(viewerId, sql`${reactions.commentId} = ${comments.id}`),
+      })
+      .from(comments)
       .innerJoin(
         users,
         eq(comments.userId, users.id)
@@ -586,7 +1601,7 @@ export class DatabaseStorage implements IStorage {
     const [comment] = await db
       .select()
       .from(comments)
-      .where(and(eq(comments.id, id), eq(comments.userId, userId)));
+      .where(and(eq(comments.id, id), eq(comments.userId, userId), isNull(comments.deletedAt)));
 
     if (!comment) {
       return undefined;
@@ -610,82 +1625,2430 @@ export class DatabaseStorage implements IStorage {
     const [comment] = await db
       .select()
       .from(comments)
-      .where(and(eq(comments.id, id), eq(comments.userId, userId)));
+      .where(and(eq(comments.id, id), eq(comments.userId, userId), isNull(comments.deletedAt)));
 
     if (!comment) {
       return false;
     }
 
+    // A comment with replies stays behind as a blank placeholder so the
+    // replies keep their place in the thread
+    if (await this.hasCommentReplies(id)) {
+      await db
+        .update(comments)
+        .set({ content: "", deletedAt: new Date() })
+        .where(eq(comments.id, id));
+      await db.delete(mentions).where(eq(mentions.commentId, id));
+      await db.delete(reactions).where(eq(reactions.commentId, id));
+      return true;
+    }
+
     // Delete the comment
     await db
       .delete(comments)
       .where(and(eq(comments.id, id), eq(comments.userId, userId)));
+
+    // Placeholders above it go too once their last reply has gone
+    let parentId = comment.parentCommentId;
+    while (parentId !== null) {
+      const parent = await this.getComment(parentId);
+      if (!parent?.deletedAt || (await this.hasCommentReplies(parentId))) break;
+      await db.delete(comments).where(eq(comments.id, parentId));
+      parentId = parent.parentCommentId;
+    }
     
     return true;
   }
 
-  // Upvotes methods
-  async createUpvote(insertUpvote: InsertUpvote, userId: number): Promise<Upvote> {
-    // Check if the user already upvoted this post
-    const hasUpvoted = await this.hasUserUpvoted(insertUpvote.postId, userId);
-    if (hasUpvoted) {
-      // If the user already upvoted, we throw an error
-      throw new Error("User already upvoted this post");
+  private async hasCommentReplies(id: number): Promise<boolean> {
+    const [reply] = await db
+      .select({ id: comments.id })
+      .from(comments)
+      .where(eq(comments.parentCommentId, id))
+      .limit(1);
+    return !!reply;
+  }
+
+  // Reaction methods
+  private reactionTarget(postId: number, commentId: number | null) {
+    return and(
+      eq(reactions.postId, postId),
+      commentId === null ? isNull(reactions.commentId) : eq(reactions.commentId, commentId)
+    );
+  }
+
+  async addReaction(userId: number, postId: number, commentId: number | null, type: ReactionType): Promise<Reaction | undefined> {
+    const [reaction] = await db
+      .insert(reactions)
+      .values({ userId, postId, commentId, type })
+      .onConflictDoNothing()
+      .returning();
+    return reaction;
+  }
+
+  async removeReaction(userId: number, postId: number, commentId: number | null, type: ReactionType): Promise<boolean> {
+    const removed = await db
+      .delete(reactions)
+      .where(and(this.reactionTarget(postId, commentId), eq(reactions.userId, userId), eq(reactions.type, type)))
+      .returning({ id: reactions.id });
+    return removed.length > 0;
+  }
+
+  async getReactionSummaries(postId: number, commentId: number | null, viewerId: number): Promise<ReactionSummary[]> {
+    return db
+      .select({
+        type: reactions.type,
+        count: sql<number>`count(*)`.mapWith(Number),
+        reacted: sql<boolean>`bool_or(${reactions.userId} = ${viewerId})`,
+      })
+      .from(reactions)
+      .where(this.reactionTarget(postId, commentId))
+      .groupBy(reactions.type);
+  }
+
+  async getReactionsWithUsers(postId: number, commentId: number | null): Promise<ReactionWithUser[]> {
+    return db
+      .select({
+        type: reactions.type,
+        createdAt: reactions.createdAt,
+        user: {
+          id: users.id,
+          username: users.username,
+          fullName: users.fullName,
+        },
+      })
+      .from(reactions)
+      .innerJoin(users, eq(reactions.userId, users.id))
+      .where(this.reactionTarget(postId, commentId))
+      .orderBy(reactions.createdAt, reactions.id);
+  }
+
+  // Poll methods
+  async getPollByPost(postId: number): Promise<(Poll & { options: PollOption[] }) | undefined> {
+    const [poll] = await db.select().from(polls).where(eq(polls.postId, postId));
+    if (!poll) return undefined;
+
+    const options = await db
+      .select()
+      .from(pollOptions)
+      .where(eq(pollOptions.pollId, poll.id))
+      .orderBy(pollOptions.position);
+    return { ...poll, options };
+  }
+
+  async getPollResults(postIds: number[], viewerId: number | null): Promise<Map<number, PollResults>> {
+    const postPolls = postIds.length > 0
+      ? await db.select().from(polls).where(inArray(polls.postId, postIds))
+      : [];
+    if (postPolls.length === 0) return new Map();
+
+    const pollIds = postPolls.map((poll) => poll.id);
+    const options = await db.select().from(pollOptions).where(inArray(pollOptions.pollId, pollIds));
+    const votes = await db
+      .select({
+        pollId: pollVotes.pollId,
+        optionId: pollVotes.optionId,
+        user: {
+          id: users.id,
+          fullName: users.fullName,
+        },
+      })
+      .from(pollVotes)
+      .innerJoin(users, eq(pollVotes.userId, users.id))
+      .where(inArray(pollVotes.pollId, pollIds))
+      .orderBy(pollVotes.createdAt, pollVotes.id);
+
+    return new Map(postPolls.map((poll) => [
+      poll.postId,
+      toPollResults(
+        poll,
+        options.filter((option) => option.pollId === poll.id),
+        votes.filter((vote) => vote.pollId === poll.id),
+        viewerId,
+      ),
+    ]));
+  }
+
+  async setPollVotes(pollId: number, userId: number, optionIds: number[]): Promise<void> {
+    await db
+      .delete(pollVotes)
+      .where(and(eq(pollVotes.pollId, pollId), eq(pollVotes.userId, userId)));
+    if (optionIds.length > 0) {
+      await db
+        .insert(pollVotes)
+        .values(optionIds.map((optionId) => ({ pollId, optionId, userId })))
+        .onConflictDoNothing();
     }
+  }
 
-    const [upvote] = await db
-      .insert(upvotes)
-      .values({
-        postId: insertUpvote.postId,
-        userId: userId,
+  // Milestone methods
+  async getMilestones(): Promise<Milestone[]> {
+    return db.select().from(milestones).orderBy(milestones.position);
+  }
+
+  async getMilestone(id: number): Promise<Milestone | undefined> {
+    const [milestone] = await db.select().from(milestones).where(eq(milestones.id, id));
+    return milestone;
+  }
+
+  async getBabyMilestones(babyId: number): Promise<BabyMilestoneWithDetails[]> {
+    const rows = await db
+      .select({
+        babyMilestone: babyMilestones,
+        milestone: milestones,
+        loggedBy: {
+          id: users.id,
+          fullName: users.fullName,
+        },
+      })
+      .from(babyMilestones)
+      .innerJoin(milestones, eq(babyMilestones.milestoneId, milestones.id))
+      .innerJoin(users, eq(babyMilestones.loggedById, users.id))
+      .where(eq(babyMilestones.babyId, babyId))
+      .orderBy(babyMilestones.achievedOn, babyMilestones.id);
+    return rows.map(({ babyMilestone, milestone, loggedBy }) => ({ ...babyMilestone, milestone, loggedBy }));
+  }
+
+  async getBabyMilestone(babyId: number, milestoneId: number): Promise<BabyMilestone | undefined> {
+    const [babyMilestone] = await db
+      .select()
+      .from(babyMilestones)
+      .where(and(eq(babyMilestones.babyId, babyId), eq(babyMilestones.milestoneId, milestoneId)));
+    return babyMilestone;
+  }
+
+  async setBabyMilestone(
+    babyId: number,
+    milestoneId: number,
+    loggedById: number,
+    milestone: BabyMilestoneInput,
+  ): Promise<BabyMilestone> {
+    const values = {
+      achievedOn: milestone.achievedOn,
+      note: milestone.note || null,
+      photoUrl: milestone.photoUrl || null,
+      loggedById,
+    };
+    const [saved] = await db
+      .insert(babyMilestones)
+      .values({ babyId, milestoneId, ...values })
+      .onConflictDoUpdate({
+        target: [babyMilestones.babyId, babyMilestones.milestoneId],
+        set: { ...values, updatedAt: new Date() },
       })
       .returning();
+    return saved;
+  }
 
-    return upvote;
+  async deleteBabyMilestone(babyId: number, milestoneId: number): Promise<boolean> {
+    const deleted = await db
+      .delete(babyMilestones)
+      .where(and(eq(babyMilestones.babyId, babyId), eq(babyMilestones.milestoneId, milestoneId)))
+      .returning();
+    return deleted.length > 0;
   }
 
-  async removeUpvote(postId: number, userId: number): Promise<boolean> {
-    await db
-      .delete(upvotes)
-      .where(
-        and(
-          eq(upvotes.postId, postId),
-          eq(upvotes.userId, userId)
-        )
-      );
-    
-    return true;
+  async setBabyMilestoneSharedPost(id: number, postId: number): Promise<void> {
+    await db.update(babyMilestones).set({ sharedPostId: postId }).where(eq(babyMilestones.id, id));
   }
 
-  async getUpvotesByPost(postId: number): Promise<Upvote[]> {
+  // Growth measurement methods
+  async getGrowthMeasurements(babyId: number): Promise<GrowthMeasurement[]> {
     return db
       .select()
-      .from(upvotes)
-      .where(eq(upvotes.postId, postId));
+      .from(growthMeasurements)
+      .where(eq(growthMeasurements.babyId, babyId))
+      .orderBy(growthMeasurements.measuredOn, growthMeasurements.id);
   }
 
-  async getUpvoteCount(postId: number): Promise<number> {
-    const result = await db
-      .select({ count: sql<number>`count(*)` })
-      .from(upvotes)
-      .where(eq(upvotes.postId, postId));
-    
-    return result[0]?.count || 0;
+  async getGrowthMeasurement(id: number): Promise<GrowthMeasurement | undefined> {
+    const [measurement] = await db.select().from(growthMeasurements).where(eq(growthMeasurements.id, id));
+    return measurement;
   }
 
-  async hasUserUpvoted(postId: number, userId: number): Promise<boolean> {
-    const [upvote] = await db
-      .select()
-      .from(upvotes)
+  async createGrowthMeasurement(
+    babyId: number,
+    loggedById: number,
+    measurement: GrowthMeasurementInput,
+  ): Promise<GrowthMeasurement> {
+    const [created] = await db
+      .insert(growthMeasurements)
+      .values({ babyId, loggedById, ...toGrowthMeasurementValues(measurement) })
+      .returning();
+    return created;
+  }
+
+  async updateGrowthMeasurement(
+    id: number,
+    measurement: GrowthMeasurementInput,
+  ): Promise<GrowthMeasurement | undefined> {
+    const [updated] = await db
+      .update(growthMeasurements)
+      .set({ ...toGrowthMeasurementValues(measurement), updatedAt: new Date() })
+      .where(eq(growthMeasurements.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteGrowthMeasurement(id: number): Promise<boolean> {
+    const deleted = await db.delete(growthMeasurements).where(eq(growthMeasurements.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  // Care log methods
+  async getCareLogEntries(babyId: number, from: Date, to: Date): Promise<CareLogEntryWithUsers[]> {
+    const loggedBy = alias(users, "logged_by");
+    const updatedBy = alias(users, "updated_by");
+    const isRunning = and(
+      isNull(careLogEntries.endedAt),
+      or(eq(careLogEntries.type, "sleep"), eq(careLogEntries.feedMethod, "breast")),
+    );
+
+    const rows = await db
+      .select({
+        entry: careLogEntries,
+        loggedBy: { id: loggedBy.id, fullName: loggedBy.fullName },
+        updatedBy: { id: updatedBy.id, fullName: updatedBy.fullName },
+      })
+      .from(careLogEntries)
+      .innerJoin(loggedBy, eq(careLogEntries.loggedById, loggedBy.id))
+      .innerJoin(updatedBy, eq(careLogEntries.updatedById, updatedBy.id))
       .where(
         and(
-          eq(upvotes.postId, postId),
-          eq(upvotes.userId, userId)
-        )
-      );
-    
-    return !!upvote;
+          eq(careLogEntries.babyId, babyId),
+          lt(careLogEntries.startedAt, to),
+          // Started in the range, or started before it and still going into it
+          or(gte(careLogEntries.startedAt, from), gt(careLogEntries.endedAt, from), isRunning),
+        ),
+      )
+      .orderBy(careLogEntries.startedAt, careLogEntries.id);
+    return rows.map(({ entry, loggedBy, updatedBy }) => ({ ...entry, loggedBy, updatedBy }));
+  }
+
+  async getCareLogEntry(id: number): Promise<CareLogEntry | undefined> {
+    const [entry] = await db.select().from(careLogEntries).where(eq(careLogEntries.id, id));
+    return entry;
+  }
+
+  async getRunningCareLogEntries(babyId: number): Promise<CareLogEntry[]> {
+    const entries = await db
+      .select()
+      .from(careLogEntries)
+      .where(and(eq(careLogEntries.babyId, babyId), isNull(careLogEntries.endedAt)));
+    return entries.filter(isTimedCareLogEntry);
+  }
+
+  async createCareLogEntry(babyId: number, loggedById: number, entry: CareLogEntryInput): Promise<CareLogEntry> {
+    const [created] = await db
+      .insert(careLogEntries)
+      .values({ babyId, loggedById, updatedById: loggedById, ...toCareLogValues(entry) })
+      .returning();
+    return created;
+  }
+
+  async updateCareLogEntry(
+    id: number,
+    version: number,
+    updatedById: number,
+    entry: CareLogEntryInput,
+  ): Promise<CareLogEntry | undefined> {
+    const [updated] = await db
+      .update(careLogEntries)
+      .set({
+        ...toCareLogValues(entry),
+        updatedById,
+        version: sql`${careLogEntries.version} + 1`,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(careLogEntries.id, id), eq(careLogEntries.version, version)))
+      .returning();
+    return updated;
+  }
+
+  async deleteCareLogEntry(id: number): Promise<boolean> {
+    const deleted = await db.delete(careLogEntries).where(eq(careLogEntries.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  // Health schedule methods
+  async getHealthScheduleRecords(babyId: number): Promise<HealthScheduleRecord[]> {
+    return db.select().from(healthScheduleRecords).where(eq(healthScheduleRecords.babyId, babyId));
+  }
+
+  async completeScheduleItem(
+    babyId: number,
+    itemKey: string,
+    completedById: number,
+    completion: ScheduleItemCompletion,
+  ): Promise<HealthScheduleRecord> {
+    const values = {
+      completedOn: completion.completedOn,
+      completedById,
+      note: completion.note || null,
+    };
+    const [saved] = await db
+      .insert(healthScheduleRecords)
+      .values({ babyId, itemKey, ...values })
+      .onConflictDoUpdate({
+        target: [healthScheduleRecords.babyId, healthScheduleRecords.itemKey],
+        set: { ...values, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async uncompleteScheduleItem(babyId: number, itemKey: string): Promise<boolean> {
+    const updated = await db
+      .update(healthScheduleRecords)
+      .set({ completedOn: null, completedById: null, note: null, updatedAt: new Date() })
+      .where(and(
+        eq(healthScheduleRecords.babyId, babyId),
+        eq(healthScheduleRecords.itemKey, itemKey),
+        isNotNull(healthScheduleRecords.completedOn),
+      ))
+      .returning();
+    return updated.length > 0;
+  }
+
+  async markScheduleItemsReminded(babyId: number, itemKeys: string[], dueOn: string): Promise<void> {
+    if (itemKeys.length === 0) return;
+    await db
+      .insert(healthScheduleRecords)
+      .values(itemKeys.map((itemKey) => ({ babyId, itemKey, remindedForDueOn: dueOn })))
+      .onConflictDoUpdate({
+        target: [healthScheduleRecords.babyId, healthScheduleRecords.itemKey],
+        set: { remindedForDueOn: dueOn, updatedAt: new Date() },
+      });
+  }
+
+  async getScheduleFeedToken(babyId: number, userId: number): Promise<ScheduleFeedToken> {
+    await db
+      .insert(scheduleFeedTokens)
+      .values({ babyId, userId, token: randomUUID() })
+      .onConflictDoNothing({ target: [scheduleFeedTokens.babyId, scheduleFeedTokens.userId] });
+    const [feed] = await db
+      .select()
+      .from(scheduleFeedTokens)
+      .where(and(eq(scheduleFeedTokens.babyId, babyId), eq(scheduleFeedTokens.userId, userId)));
+    return feed;
+  }
+
+  async getScheduleFeedByToken(token: string): Promise<ScheduleFeedToken | undefined> {
+    const [feed] = await db.select().from(scheduleFeedTokens).where(eq(scheduleFeedTokens.token, token));
+    return feed;
+  }
+
+  async resetScheduleFeedToken(babyId: number, userId: number): Promise<ScheduleFeedToken> {
+    const [feed] = await db
+      .insert(scheduleFeedTokens)
+      .values({ babyId, userId, token: randomUUID() })
+      .onConflictDoUpdate({
+        target: [scheduleFeedTokens.babyId, scheduleFeedTokens.userId],
+        set: { token: randomUUID(), createdAt: new Date() },
+      })
+      .returning();
+    return feed;
+  }
+
+  // Meetup methods
+  async createMeetup(cohortId: number, createdById: number, meetup: MeetupInput): Promise<Meetup> {
+    const [created] = await db
+      .insert(meetups)
+      .values({
+        cohortId,
+        createdById,
+        title: meetup.title,
+        startsAt: meetup.startsAt,
+        endsAt: meetup.endsAt ?? null,
+        location: meetup.location,
+        capacity: meetup.capacity ?? null,
+        notes: meetup.notes || null,
+      })
+      .returning();
+    return created;
+  }
+
+  async getMeetup(id: number): Promise<Meetup | undefined> {
+    const [meetup] = await db.select().from(meetups).where(eq(meetups.id, id));
+    return meetup;
+  }
+
+  async getMeetupWithRsvps(id: number, viewerId: number): Promise<MeetupWithRsvps | undefined> {
+    const [meetup] = await this.getMeetupsWithRsvps(eq(meetups.id, id), viewerId);
+    return meetup;
+  }
+
+  async getCohortMeetups(cohortId: number, viewerId: number): Promise<MeetupWithRsvps[]> {
+    return this.getMeetupsWithRsvps(eq(meetups.cohortId, cohortId), viewerId);
+  }
+
+  private async getMeetupsWithRsvps(where: SQL, viewerId: number): Promise<MeetupWithRsvps[]> {
+    const rows = await db
+      .select({
+        meetup: meetups,
+        createdBy: {
+          id: users.id,
+          fullName: users.fullName,
+        },
+      })
+      .from(meetups)
+      .innerJoin(users, eq(meetups.createdById, users.id))
+      .where(where)
+      .orderBy(meetups.startsAt, meetups.id);
+    if (rows.length === 0) return [];
+
+    const rsvps = await db
+      .select({
+        meetupId: meetupRsvps.meetupId,
+        status: meetupRsvps.status,
+        bringingBaby: meetupRsvps.bringingBaby,
+        user: {
+          id: users.id,
+          fullName: users.fullName,
+        },
+      })
+      .from(meetupRsvps)
+      .innerJoin(users, eq(meetupRsvps.userId, users.id))
+      .where(inArray(meetupRsvps.meetupId, rows.map((row) => row.meetup.id)))
+      .orderBy(meetupRsvps.createdAt, meetupRsvps.id);
+
+    return rows.map(({ meetup, createdBy }) =>
+      toMeetupWithRsvps(
+        meetup,
+        createdBy,
+        rsvps
+          .filter((rsvp) => rsvp.meetupId === meetup.id)
+          .map(({ meetupId, ...rsvp }) => rsvp),
+        viewerId,
+      ),
+    );
+  }
+
+  async updateMeetup(id: number, meetup: MeetupInput): Promise<Meetup | undefined> {
+    const existing = await this.getMeetup(id);
+    if (!existing) return undefined;
+
+    const [updated] = await db
+      .update(meetups)
+      .set({
+        title: meetup.title,
+        startsAt: meetup.startsAt,
+        endsAt: meetup.endsAt ?? null,
+        location: meetup.location,
+        capacity: meetup.capacity ?? null,
+        notes: meetup.notes || null,
+        reminderSentAt:
+          existing.startsAt.getTime() === meetup.startsAt.getTime() ? existing.reminderSentAt : null,
+        updatedAt: new Date(),
+      })
+      .where(eq(meetups.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteMeetup(id: number): Promise<boolean> {
+    const deleted = await db.delete(meetups).where(eq(meetups.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  async getMeetupRsvps(meetupId: number): Promise<MeetupRsvp[]> {
+    return db.select().from(meetupRsvps).where(eq(meetupRsvps.meetupId, meetupId));
+  }
+
+  async setMeetupRsvp(meetupId: number, userId: number, rsvp: RsvpInput): Promise<MeetupRsvp> {
+    const [saved] = await db
+      .insert(meetupRsvps)
+      .values({ meetupId, userId, status: rsvp.status, bringingBaby: rsvp.bringingBaby })
+      .onConflictDoUpdate({
+        target: [meetupRsvps.meetupId, meetupRsvps.userId],
+        set: { status: rsvp.status, bringingBaby: rsvp.bringingBaby, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async getMeetupsDueReminders(startingAfter: Date, startingBefore: Date): Promise<Meetup[]> {
+    return db
+      .select()
+      .from(meetups)
+      .where(and(
+        isNull(meetups.reminderSentAt),
+        gt(meetups.startsAt, startingAfter),
+        lt(meetups.startsAt, startingBefore),
+      ));
+  }
+
+  async markMeetupReminderSent(id: number): Promise<void> {
+    await db.update(meetups).set({ reminderSentAt: new Date() }).where(eq(meetups.id, id));
+  }
+
+  // Mention methods
+  async setMentions(postId: number, commentId: number | null, userIds: number[]): Promise<number[]> {
+    const target = and(
+      eq(mentions.postId, postId),
+      commentId === null ? isNull(mentions.commentId) : eq(mentions.commentId, commentId)
+    );
+    const existing = await db.select().from(mentions).where(target);
+    const existingUserIds = existing.map((mention) => mention.userId);
+    const added = userIds.filter((userId) => !existingUserIds.includes(userId));
+    const removed = existingUserIds.filter((userId) => !userIds.includes(userId));
+
+    if (removed.length > 0) {
+      await db.delete(mentions).where(and(target, inArray(mentions.userId, removed)));
+    }
+    if (added.length > 0) {
+      await db.insert(mentions).values(added.map((userId) => ({ userId, postId, commentId })));
+    }
+    return added;
+  }
+
+  // Notification methods
+  async createNotification(notification: InsertNotification): Promise<Notification> {
+    const [created] = await db
+      .insert(notifications)
+      .values(notification)
+      .returning();
+    return created;
+  }
+
+  async getNotifications(userId: number, limit: number): Promise<NotificationItem[]> {
+    return db
+      .select({
+        id: notifications.id,
+        userId: notifications.userId,
+        actorId: notifications.actorId,
+        type: notifications.type,
+        cohortId: notifications.cohortId,
+        postId: notifications.postId,
+        commentId: notifications.commentId,
+        meetupId: notifications.meetupId,
+        babyId: notifications.babyId,
+        scheduleDueOn: notifications.scheduleDueOn,
+        role: notifications.role,
+        readAt: notifications.readAt,
+        email: notifications.email,
+        emailedAt: notifications.emailedAt,
+        createdAt: notifications.createdAt,
+        actor: {
+          id: users.id,
+          username: users.username,
+          fullName: users.fullName,
+        },
+        cohortName: cohorts.name,
+        meetupTitle: meetups.title,
+        babyName: babies.name,
+      })
+      .from(notifications)
+      .leftJoin(users, eq(users.id, notifications.actorId))
+      .leftJoin(cohorts, eq(cohorts.id, notifications.cohortId))
+      .leftJoin(meetups, eq(meetups.id, notifications.meetupId))
+      .leftJoin(babies, eq(babies.id, notifications.babyId))
+      .where(eq(notifications.userId, userId))
+      .orderBy(desc(notifications.id))
+      .limit(limit);
+  }
+
+  async getUnreadNotificationCount(userId: number): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`count(*)`.mapWith(Number) })
+      .from(notifications)
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+    return result?.count || 0;
+  }
+
+  async markNotificationRead(id: number, userId: number): Promise<Notification | undefined> {
+    const [notification] = await db
+      .update(notifications)
+      .set({ readAt: sql`coalesce(${notifications.readAt}, now())` })
+      .where(and(eq(notifications.id, id), eq(notifications.userId, userId)))
+      .returning();
+    return notification;
+  }
+
+  async markAllNotificationsRead(userId: number): Promise<void> {
+    await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+  }
+
+  async getUnsentEmailNotifications(): Promise<NotificationItem[]> {
+    return db
+      .select({
+        id: notifications.id,
+        userId: notifications.userId,
+        actorId: notifications.actorId,
+        type: notifications.type,
+        cohortId: notifications.cohortId,
+        postId: notifications.postId,
+        commentId: notifications.commentId,
+        meetupId: notifications.meetupId,
+        babyId: notifications.babyId,
+        scheduleDueOn: notifications.scheduleDueOn,
+        role: notifications.role,
+        readAt: notifications.readAt,
+        email: notifications.email,
+        emailedAt: notifications.emailedAt,
+        createdAt: notifications.createdAt,
+        actor: {
+          id: users.id,
+          username: users.username,
+          fullName: users.fullName,
+        },
+        cohortName: cohorts.name,
+        meetupTitle: meetups.title,
+        babyName: babies.name,
+      })
+      .from(notifications)
+      .leftJoin(users, eq(users.id, notifications.actorId))
+      .leftJoin(cohorts, eq(cohorts.id, notifications.cohortId))
+      .leftJoin(meetups, eq(meetups.id, notifications.meetupId))
+      .leftJoin(babies, eq(babies.id, notifications.babyId))
+      .where(and(isNotNull(notifications.email), isNull(notifications.emailedAt)))
+      .orderBy(notifications.id);
+  }
+
+  async markNotificationsEmailed(ids: number[]): Promise<void> {
+    if (ids.length === 0) return;
+    await db
+      .update(notifications)
+      .set({ emailedAt: new Date() })
+      .where(inArray(notifications.id, ids));
+  }
+
+  // Notification preference methods
+  async getNotificationPreferences(userId: number): Promise<NotificationPreferences | undefined> {
+    const [preferences] = await db
+      .select()
+      .from(notificationPreferences)
+      .where(eq(notificationPreferences.userId, userId));
+    return preferences;
+  }
+
+  async updateNotificationPreferences(userId: number, settings: NotificationSettings): Promise<NotificationPreferences> {
+    const [preferences] = await db
+      .insert(notificationPreferences)
+      .values({ userId, ...settings })
+      .onConflictDoUpdate({ target: notificationPreferences.userId, set: settings })
+      .returning();
+    return preferences;
+  }
+
+  async updateLastDigestSentAt(userId: number, sentAt: Date): Promise<void> {
+    await db
+      .update(notificationPreferences)
+      .set({ lastDigestSentAt: sentAt })
+      .where(eq(notificationPreferences.userId, userId));
+  }
+
+  async getMutedCohortIds(userId: number): Promise<number[]> {
+    const mutes = await db
+      .select({ cohortId: cohortMutes.cohortId })
+      .from(cohortMutes)
+      .where(eq(cohortMutes.userId, userId));
+    return mutes.map((mute) => mute.cohortId);
+  }
+
+  async muteCohort(userId: number, cohortId: number): Promise<void> {
+    await db
+      .insert(cohortMutes)
+      .values({ userId, cohortId })
+      .onConflictDoNothing();
+  }
+
+  async unmuteCohort(userId: number, cohortId: number): Promise<void> {
+    await db
+      .delete(cohortMutes)
+      .where(and(eq(cohortMutes.userId, userId), eq(cohortMutes.cohortId, cohortId)));
+  }
+}
+
+// In-memory implementation of IStorage for local development and tests.
+// Selected with STORAGE=memory; all data is lost when the process exits.
+export class MemStorage implements IStorage {
+  sessionStore: session.Store;
+  private users = new Map<number, User>();
+  private babies = new Map<number, Baby>();
+  private cohorts = new Map<number, Cohort>();
+  private cohortMemberships = new Map<number, CohortMembership>();
+  private posts = new Map<number, Post>();
+  private comments = new Map<number, Comment>();
+  private reactions = new Map<number, Reaction>();
+  private polls = new Map<number, Poll>();
+  private pollOptions = new Map<number, PollOption>();
+  private pollVotes = new Map<number, PollVote>();
+  private milestones = new Map<number, Milestone>();
+  private babyMilestones = new Map<number, BabyMilestone>();
+  private growthMeasurements = new Map<number, GrowthMeasurement>();
+  private careLogEntries = new Map<number, CareLogEntry>();
+  private healthScheduleRecords = new Map<number, HealthScheduleRecord>();
+  private scheduleFeedTokens = new Map<number, ScheduleFeedToken>();
+  private meetups = new Map<number, Meetup>();
+  private meetupRsvps = new Map<number, MeetupRsvp>();
+  private passwordResetTokens = new Map<number, PasswordResetToken>();
+  private emailVerificationTokens = new Map<number, EmailVerificationToken>();
+  private households = new Map<number, Household>();
+  private householdMembers = new Map<number, HouseholdMember>();
+  private householdInvitations = new Map<number, HouseholdInvitation>();
+  private cohortInvites = new Map<number, CohortInvite>();
+  private cohortJoinRequests = new Map<number, CohortJoinRequest>();
+  private notifications = new Map<number, Notification>();
+  private notificationPreferences = new Map<number, NotificationPreferences>();
+  private cohortMutes = new Map<number, CohortMute>();
+  private mentions = new Map<number, Mention>();
+  private nextId = {
+    users: 1,
+    babies: 1,
+    cohorts: 1,
+    cohortMemberships: 1,
+    posts: 1,
+    comments: 1,
+    reactions: 1,
+    polls: 1,
+    pollOptions: 1,
+    pollVotes: 1,
+    babyMilestones: 1,
+    growthMeasurements: 1,
+    careLogEntries: 1,
+    healthScheduleRecords: 1,
+    scheduleFeedTokens: 1,
+    meetups: 1,
+    meetupRsvps: 1,
+    passwordResetTokens: 1,
+    emailVerificationTokens: 1,
+    households: 1,
+    householdMembers: 1,
+    householdInvitations: 1,
+    cohortInvites: 1,
+    cohortJoinRequests: 1,
+    notifications: 1,
+    notificationPreferences: 1,
+    cohortMutes: 1,
+    mentions: 1,
+  };
+
+  constructor() {
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 86400000, // prune expired entries every 24h
+    });
+
+    // The database gets the catalogue from migration 0016
+    milestoneCatalogue.forEach((milestone, position) => {
+      const id = position + 1;
+      this.milestones.set(id, { id, ...milestone, position });
+    });
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find((user) => user.username === username);
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find((user) => user.email === email);
+  }
+
+  async getAllUsers(): Promise<User[]> {
+    return Array.from(this.users.values()).sort((a, b) =>
+      a.fullName.localeCompare(b.fullName),
+    );
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    if (await this.getUserByUsername(insertUser.username)) {
+      throw new Error("Username already exists");
+    }
+    if (await this.getUserByEmail(insertUser.email)) {
+      throw new Error("Email already exists");
+    }
+
+    const user: User = {
+      id: this.nextId.users++,
+      username: insertUser.username,
+      password: insertUser.password,
+      fullName: insertUser.fullName,
+      email: insertUser.email,
+      role: "user",
+      autoJoinBirthCohorts: true,
+      emailVerifiedAt: null,
+    };
+    this.users.set(user.id, user);
+    return user;
+  }
+
+  async updateUserPassword(userId: number, hashedPassword: string): Promise<User> {
+    const user = this.users.get(userId)!;
+    user.password = hashedPassword;
+    return user;
+  }
+
+  async updateUserRole(userId: number, role: "user" | "admin"): Promise<User> {
+    const user = this.users.get(userId)!;
+    user.role = role;
+    return user;
+  }
+
+  async updateUserSettings(userId: number, settings: UserSettings): Promise<User> {
+    const user = this.users.get(userId)!;
+    Object.assign(user, settings);
+    return user;
+  }
+
+  async createPasswordResetToken(userId: number): Promise<string> {
+    // Create token that expires in 1 hour
+    const token = randomUUID();
+    const expiresAt = new Date();
+    expiresAt.setHours(expiresAt.getHours() + 1);
+
+    const resetToken: PasswordResetToken = {
+      id: this.nextId.passwordResetTokens++,
+      userId,
+      token,
+      expiresAt,
+      createdAt: new Date(),
+      used: 0,
+    };
+    this.passwordResetTokens.set(resetToken.id, resetToken);
+
+    return token;
+  }
+
+  async getPasswordResetTokenByToken(token: string): Promise<PasswordResetToken | undefined> {
+    const now = new Date();
+    return Array.from(this.passwordResetTokens.values()).find(
+      (resetToken) =>
+        resetToken.token === token &&
+        resetToken.expiresAt > now &&
+        resetToken.used === 0,
+    );
+  }
+
+  async markTokenAsUsed(tokenId: number): Promise<void> {
+    const resetToken = this.passwordResetTokens.get(tokenId);
+    if (resetToken) {
+      resetToken.used = 1;
+    }
+  }
+
+  async createEmailVerificationToken(userId: number, email: string): Promise<string> {
+    // Create token that expires in 24 hours
+    const token = randomUUID();
+    const expiresAt = new Date();
+    expiresAt.setHours(expiresAt.getHours() + 24);
+
+    const verificationToken: EmailVerificationToken = {
+      id: this.nextId.emailVerificationTokens++,
+      userId,
+      email,
+      token,
+      expiresAt,
+      createdAt: new Date(),
+      used: 0,
+    };
+    this.emailVerificationTokens.set(verificationToken.id, verificationToken);
+
+    return token;
+  }
+
+  async verifyEmail(token: string): Promise<User | undefined> {
+    const now = new Date();
+    const verificationToken = Array.from(this.emailVerificationTokens.values()).find(
+      (candidate) =>
+        candidate.token === token &&
+        candidate.expiresAt > now &&
+        candidate.used === 0,
+    );
+    if (!verificationToken) return undefined;
+
+    verificationToken.used = 1;
+
+    // Only verifies the address the link was sent to
+    const user = this.users.get(verificationToken.userId);
+    if (!user || user.email !== verificationToken.email) return undefined;
+
+    user.emailVerifiedAt = now;
+    return user;
+  }
+
+  async updateUserEmail(userId: number, email: string): Promise<User> {
+    const user = this.users.get(userId)!;
+    user.email = email;
+    user.emailVerifiedAt = null;
+    return user;
+  }
+
+  async createBaby(insertBaby: InsertBaby, userId: number): Promise<Baby> {
+    const birthDate = new Date(insertBaby.birthDate);
+    // Get start of week (Sunday)
+    const birthWeek = new Date(birthDate);
+    birthWeek.setDate(birthDate.getDate() - birthDate.getDay());
+
+    const cohort = await this.getOrCreateCohort(birthWeek);
+    const household = await this.getHouseholdByUserId(userId);
+
+    const baby: Baby = {
+      id: this.nextId.babies++,
+      name: insertBaby.name,
+      birthDate: birthDate.toISOString().split("T")[0],
+      birthWeek: birthWeek.toISOString().split("T")[0],
+      userId,
+      householdId: household?.id ?? null,
+      cohortId: cohort.id,
+      photoUrl: insertBaby.photoUrl ?? null,
+      sex: insertBaby.sex ?? null,
+    };
+    this.babies.set(baby.id, baby);
+
+    await enrollInBirthCohort(this, baby);
+    return baby;
+  }
+
+  async getBaby(id: number): Promise<Baby | undefined> {
+    return this.babies.get(id);
+  }
+
+  async getBabiesByUserId(userId: number): Promise<Baby[]> {
+    const household = await this.getHouseholdByUserId(userId);
+    return Array.from(this.babies.values())
+      .filter(
+        (baby) =>
+          baby.userId === userId ||
+          (household !== undefined && baby.householdId === household.id),
+      )
+      .sort((a, b) => a.birthDate.localeCompare(b.birthDate) || a.id - b.id);
+  }
+
+  async isBabyParent(baby: Baby, userId: number): Promise<boolean> {
+    if (baby.userId === userId) return true;
+    if (baby.householdId === null) return false;
+    const household = await this.getHouseholdByUserId(userId);
+    return household?.id === baby.householdId;
+  }
+
+  async updateBaby(id: number, updateData: Partial<InsertBaby>, userId: number): Promise<Baby | undefined> {
+    // First check if baby exists and the user is one of its parents
+    const baby = this.babies.get(id);
+    if (!baby || !(await this.isBabyParent(baby, userId))) {
+      return undefined;
+    }
+
+    if (updateData.name !== undefined) {
+      baby.name = updateData.name;
+    }
+
+    if (updateData.birthDate !== undefined) {
+      const birthDate = new Date(updateData.birthDate);
+      baby.birthDate = birthDate.toISOString().split("T")[0];
+
+      // Update birthWeek if birthDate changes
+      const birthWeek = new Date(birthDate);
+      birthWeek.setDate(birthDate.getDate() - birthDate.getDay());
+      baby.birthWeek = birthWeek.toISOString().split("T")[0];
+
+      // Move the baby to the matching birth-month cohort. Memberships of the
+      // old one are kept, along with anything the parents posted there.
+      baby.cohortId = (await this.getOrCreateCohort(birthWeek)).id;
+      await enrollInBirthCohort(this, baby);
+    }
+
+    if (updateData.photoUrl !== undefined) {
+      baby.photoUrl = updateData.photoUrl;
+    }
+
+    if (updateData.sex !== undefined) {
+      baby.sex = updateData.sex;
+    }
+
+    return baby;
+  }
+
+  async deleteBaby(id: number, userId: number): Promise<boolean> {
+    const baby = this.babies.get(id);
+    if (!baby || !(await this.isBabyParent(baby, userId))) {
+      return false;
+    }
+
+    this.babies.delete(id);
+    this.babyMilestones.forEach((babyMilestone, babyMilestoneId) => {
+      if (babyMilestone.babyId === id) this.babyMilestones.delete(babyMilestoneId);
+    });
+    this.growthMeasurements.forEach((measurement, measurementId) => {
+      if (measurement.babyId === id) this.growthMeasurements.delete(measurementId);
+    });
+    this.careLogEntries.forEach((entry, entryId) => {
+      if (entry.babyId === id) this.careLogEntries.delete(entryId);
+    });
+    this.healthScheduleRecords.forEach((record, recordId) => {
+      if (record.babyId === id) this.healthScheduleRecords.delete(recordId);
+    });
+    this.scheduleFeedTokens.forEach((feed, feedId) => {
+      if (feed.babyId === id) this.scheduleFeedTokens.delete(feedId);
+    });
+    this.notifications.forEach((notification, notificationId) => {
+      if (notification.babyId === id) this.notifications.delete(notificationId);
+    });
+    return true;
+  }
+
+  async getBabiesBornSince(birthDate: string): Promise<Baby[]> {
+    return Array.from(this.babies.values()).filter((baby) => baby.birthDate >= birthDate);
+  }
+
+  private async getOrCreateCohort(birthDate: Date): Promise<Cohort> {
+    const start = startOfMonth(birthDate);
+    const end = endOfMonth(addMonths(start, 1));
+    const startDate = start.toISOString().split("T")[0];
+    const endDate = end.toISOString().split("T")[0];
+
+    // Try to find existing cohort for this month
+    const existingCohort = Array.from(this.cohorts.values()).find(
+      (cohort) => cohort.startDate === startDate && cohort.endDate === endDate,
+    );
+
+    if (existingCohort) {
+      return existingCohort;
+    }
+
+    const cohort: Cohort = {
+      id: this.nextId.cohorts++,
+      name: `${start.toLocaleString("default", { month: "long", year: "numeric" })} Babies`,
+      description: null,
+      creatorId: 1,
+      createdAt: new Date(),
+      privacy: "public",
+      requireVerifiedEmail: false,
+      startDate,
+      endDate,
+    };
+    this.cohorts.set(cohort.id, cohort);
+
+    return cohort;
+  }
+
+  async getCohort(id: number): Promise<Cohort | undefined> {
+    return this.cohorts.get(id);
+  }
+
+  async getAllCohorts(): Promise<Cohort[]> {
+    return Array.from(this.cohorts.values()).sort(
+      (a, b) => b.createdAt.getTime() - a.createdAt.getTime(),
+    );
+  }
+
+  async getUserCohorts(userId: number): Promise<Cohort[]> {
+    const cohortIds = new Set(
+      (await this.getCohortMembershipsByUserId(userId)).map((m) => m.cohortId),
+    );
+    return (await this.getAllCohorts()).filter((cohort) => cohortIds.has(cohort.id));
+  }
+
+  async getDiscoverableCohorts(userId: number): Promise<Cohort[]> {
+    const cohortIds = new Set(
+      (await this.getCohortMembershipsByUserId(userId)).map((m) => m.cohortId),
+    );
+    return (await this.getAllCohorts()).filter(
+      (cohort) => cohort.privacy !== "invite_only" || cohortIds.has(cohort.id),
+    );
+  }
+
+  async getJoinableCohortStats(userId: number, activeSince: Date): Promise<JoinableCohortStats[]> {
+    const memberships = Array.from(this.cohortMemberships.values());
+    const joinable = (await this.getDiscoverableCohorts(userId)).filter(
+      (cohort) => !memberships.some((m) => m.cohortId === cohort.id && m.userId === userId),
+    );
+
+    return Promise.all(joinable.map(async (cohort) => {
+      const memberIds = new Set(
+        memberships.filter((m) => m.cohortId === cohort.id).map((m) => m.userId),
+      );
+      // Every baby created by a member or shared with a member's household
+      const memberBirthWeeks = new Set<string>();
+      for (const memberId of Array.from(memberIds)) {
+        for (const baby of await this.getBabiesByUserId(memberId)) {
+          memberBirthWeeks.add(baby.birthWeek);
+        }
+      }
+
+      return {
+        cohort,
+        memberCount: memberIds.size,
+        recentPostCount: Array.from(this.posts.values()).filter(
+          (post) =>
+            post.cohortId === cohort.id && post.createdAt !== null && post.createdAt > activeSince,
+        ).length,
+        memberBirthWeeks: Array.from(memberBirthWeeks),
+      };
+    }));
+  }
+
+  async createCohort(name: string, description: string | null, creatorId: number): Promise<Cohort> {
+    const cohort: Cohort = {
+      id: this.nextId.cohorts++,
+      name,
+      description,
+      creatorId,
+      createdAt: new Date(),
+      privacy: "public",
+      requireVerifiedEmail: false,
+      startDate: null,
+      endDate: null,
+    };
+    this.cohorts.set(cohort.id, cohort);
+
+    // Automatically make the creator a moderator of the cohort
+    await this.createCohortMembership(cohort.id, creatorId, "moderator");
+
+    return cohort;
+  }
+
+  async updateCohortSettings(id: number, settings: CohortSettings): Promise<Cohort | undefined> {
+    const cohort = this.cohorts.get(id);
+    if (!cohort) return undefined;
+
+    const updatedCohort: Cohort = { ...cohort, ...settings };
+    this.cohorts.set(id, updatedCohort);
+    return updatedCohort;
+  }
+
+  async getCohortBabiesWithParents(cohortId: number): Promise<any[]> {
+    const cohortMembers = await this.getCohortMembers(cohortId);
+    const members = [];
+    const cohortBabies = new Map<number, Baby>();
+
+    for (const member of cohortMembers) {
+      const household = await this.getHouseholdByUserId(member.id);
+      members.push({
+        id: member.id,
+        username: member.username,
+        fullName: member.fullName,
+        email: member.email,
+        role: member.role,
+        membershipRole: member.membershipRole,
+        householdId: household?.id ?? null,
+      });
+      for (const baby of await this.getBabiesByUserId(member.id)) {
+        cohortBabies.set(baby.id, baby);
+      }
+    }
+
+    members.sort((a, b) => a.fullName.localeCompare(b.fullName));
+    const sortedBabies = Array.from(cohortBabies.values()).sort(
+      (a, b) => a.birthDate.localeCompare(b.birthDate) || a.id - b.id,
+    );
+    return groupCohortBabies(members, sortedBabies);
+  }
+
+  async createPost(insertPost: InsertPost, userId: number, poll?: CreatePoll): Promise<Post> {
+    const now = new Date();
+    const post: Post = {
+      id: this.nextId.posts++,
+      content: insertPost.content,
+      userId,
+      cohortId: insertPost.cohortId ?? null,
+      photoUrl: insertPost.photoUrl ?? null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.posts.set(post.id, post);
+
+    if (poll) {
+      const created: Poll = {
+        id: this.nextId.polls++,
+        postId: post.id,
+        multipleChoice: poll.multipleChoice,
+        anonymous: poll.anonymous,
+        closesAt: poll.closesAt ?? null,
+        createdAt: now,
+      };
+      this.polls.set(created.id, created);
+
+      poll.options.forEach((text, position) => {
+        const option: PollOption = { id: this.nextId.pollOptions++, pollId: created.id, text, position };
+        this.pollOptions.set(option.id, option);
+      });
+    }
+
+    return post;
+  }
+
+  async getPostsByCohort(cohortId: number): Promise<Post[]> {
+    return Array.from(this.posts.values())
+      .filter((post) => post.cohortId === cohortId)
+      .sort((a, b) => b.createdAt!.getTime() - a.createdAt!.getTime());
+  }
+
+  async getCohortFeed(cohortId: number, viewerId: number, options: { cursor?: number; limit: number }): Promise<FeedPage> {
+    const rows = Array.from(this.posts.values())
+      .filter(
+        (post) =>
+          post.cohortId === cohortId &&
+          (options.cursor === undefined || post.id < options.cursor),
+      )
+      .sort((a, b) => b.id - a.id);
+
+    const page = rows.slice(0, options.limit).flatMap((post) => {
+      const feedPost = this.toFeedPost(post, viewerId);
+      return feedPost ? [feedPost] : [];
+    });
+
+    return {
+      posts: page,
+      nextCursor: rows.length > options.limit ? rows[options.limit - 1].id : null,
+    };
+  }
+
+  async getFeedPost(id: number, viewerId: number | null): Promise<FeedPost | undefined> {
+    const post = this.posts.get(id);
+    return post && this.toFeedPost(post, viewerId);
+  }
+
+  private toFeedPost(post: Post, viewerId: number | null): FeedPost | undefined {
+    const user = this.users.get(post.userId!);
+    if (!user) return undefined;
+    return {
+      ...post,
+      user: { id: user.id, username: user.username, fullName: user.fullName },
+      mentions: this.getMentionedUsers(post.id, null),
+      commentCount: Array.from(this.comments.values()).filter((c) => c.postId === post.id && !c.deletedAt).length,
+      reactions: summarizeReactions(this.reactionsOn(post.id, null), viewerId),
+      poll: this.pollResultsFor(post.id, viewerId) ?? null,
+    };
+  }
+
+  async getPost(id: number): Promise<Post | undefined> {
+    return this.posts.get(id);
+  }
+
+  async updatePost(id: number, content: string, userId: number, photoUrl?: string | null): Promise<Post | undefined> {
+    const post = this.posts.get(id);
+    if (!post || post.userId !== userId) {
+      return undefined;
+    }
+
+    post.content = content;
+    // Only update photoUrl if it's provided (even if null, to remove photo)
+    if (photoUrl !== undefined) {
+      post.photoUrl = photoUrl;
+    }
+
+    return post;
+  }
+
+  async deletePost(id: number, userId: number): Promise<boolean> {
+    const post = this.posts.get(id);
+    if (!post || post.userId !== userId) {
+      return false;
+    }
+
+    this.posts.delete(id);
+    return true;
+  }
+
+  async createCohortMembership(cohortId: number, userId: number, role: "member" | "moderator"): Promise<CohortMembership> {
+    const membership: CohortMembership = {
+      id: this.nextId.cohortMemberships++,
+      cohortId,
+      userId,
+      role,
+      createdAt: new Date(),
+    };
+    this.cohortMemberships.set(membership.id, membership);
+    return membership;
+  }
+
+  async updateCohortMembershipRole(id: number, role: "member" | "moderator"): Promise<CohortMembership | undefined> {
+    const membership = this.cohortMemberships.get(id);
+    if (membership) {
+      membership.role = role;
+    }
+    return membership;
+  }
+
+  async deleteCohortMembership(id: number): Promise<boolean> {
+    this.cohortMemberships.delete(id);
+    return true;
+  }
+
+  async getCohortMembershipById(id: number): Promise<CohortMembership | undefined> {
+    return this.cohortMemberships.get(id);
+  }
+
+  async getCohortMembershipsByUserId(userId: number): Promise<CohortMembership[]> {
+    return Array.from(this.cohortMemberships.values()).filter(
+      (membership) => membership.userId === userId,
+    );
+  }
+
+  async getCohortMembershipsByCohortId(cohortId: number): Promise<CohortMembership[]> {
+    return Array.from(this.cohortMemberships.values()).filter(
+      (membership) => membership.cohortId === cohortId,
+    );
+  }
+
+  async getCohortMembers(cohortId: number): Promise<any[]> {
+    const memberships = await this.getCohortMembershipsByCohortId(cohortId);
+    return memberships.flatMap((membership) => {
+      const user = this.users.get(membership.userId);
+      if (!user) return [];
+      return [{
+        id: user.id,
+        username: user.username,
+        fullName: user.fullName,
+        email: user.email,
+        role: user.role,
+        membershipId: membership.id,
+        membershipRole: membership.role,
+      }];
+    });
+  }
+
+  async getCohortModerators(cohortId: number): Promise<any[]> {
+    const members = await this.getCohortMembers(cohortId);
+    return members.filter((member) => member.membershipRole === "moderator");
+  }
+
+  async isCohortModerator(userId: number, cohortId: number): Promise<boolean> {
+    return Array.from(this.cohortMemberships.values()).some(
+      (membership) =>
+        membership.userId === userId &&
+        membership.cohortId === cohortId &&
+        membership.role === "moderator",
+    );
+  }
+
+  async isCohortMember(userId: number, cohortId: number): Promise<boolean> {
+    return Array.from(this.cohortMemberships.values()).some(
+      (membership) => membership.userId === userId && membership.cohortId === cohortId,
+    );
+  }
+
+  // Cohort invite methods
+  async createCohortInvite(
+    cohortId: number,
+    createdById: number,
+    options: { expiresAt: Date | null; maxUses: number | null },
+  ): Promise<CohortInvite> {
+    const invite: CohortInvite = {
+      id: this.nextId.cohortInvites++,
+      cohortId,
+      createdById,
+      token: randomUUID(),
+      expiresAt: options.expiresAt,
+      maxUses: options.maxUses,
+      useCount: 0,
+      revokedAt: null,
+      createdAt: new Date(),
+    };
+    this.cohortInvites.set(invite.id, invite);
+    return invite;
+  }
+
+  async getCohortInvite(id: number): Promise<CohortInvite | undefined> {
+    return this.cohortInvites.get(id);
+  }
+
+  async getCohortInviteByToken(token: string): Promise<CohortInvite | undefined> {
+    return Array.from(this.cohortInvites.values()).find((invite) => invite.token === token);
+  }
+
+  async getActiveCohortInvites(cohortId: number): Promise<CohortInvite[]> {
+    return Array.from(this.cohortInvites.values())
+      .filter((invite) => invite.cohortId === cohortId && isCohortInviteUsable(invite))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async revokeCohortInvite(id: number): Promise<CohortInvite | undefined> {
+    const invite = this.cohortInvites.get(id);
+    if (!invite) return undefined;
+
+    const updatedInvite: CohortInvite = { ...invite, revokedAt: new Date() };
+    this.cohortInvites.set(id, updatedInvite);
+    return updatedInvite;
+  }
+
+  async redeemCohortInvite(token: string, userId: number): Promise<CohortMembership | undefined> {
+    const invite = await this.getCohortInviteByToken(token);
+    if (!invite || !isCohortInviteUsable(invite)) return undefined;
+
+    // Following a link to a cohort you're already in shouldn't use it up
+    const existing = Array.from(this.cohortMemberships.values()).find(
+      (membership) => membership.userId === userId && membership.cohortId === invite.cohortId,
+    );
+    if (existing) return existing;
+
+    this.cohortInvites.set(invite.id, { ...invite, useCount: invite.useCount + 1 });
+    return this.createCohortMembership(invite.cohortId, userId, "member");
+  }
+
+  // Cohort join request methods
+  async createCohortJoinRequest(cohortId: number, userId: number, message: string | null): Promise<CohortJoinRequest> {
+    const request: CohortJoinRequest = {
+      id: this.nextId.cohortJoinRequests++,
+      cohortId,
+      userId,
+      message,
+      status: "pending",
+      reviewedById: null,
+      reviewedAt: null,
+      createdAt: new Date(),
+    };
+    this.cohortJoinRequests.set(request.id, request);
+    return request;
+  }
+
+  async getCohortJoinRequest(id: number): Promise<CohortJoinRequest | undefined> {
+    return this.cohortJoinRequests.get(id);
+  }
+
+  async getPendingCohortJoinRequest(cohortId: number, userId: number): Promise<CohortJoinRequest | undefined> {
+    return Array.from(this.cohortJoinRequests.values()).find(
+      (request) =>
+        request.cohortId === cohortId && request.userId === userId && request.status === "pending",
+    );
+  }
+
+  async getPendingCohortJoinRequestsByCohort(cohortId: number): Promise<any[]> {
+    return Array.from(this.cohortJoinRequests.values())
+      .filter((request) => request.cohortId === cohortId && request.status === "pending")
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map((request) => {
+        const user = this.users.get(request.userId);
+        return {
+          id: request.id,
+          cohortId: request.cohortId,
+          userId: request.userId,
+          message: request.message,
+          createdAt: request.createdAt,
+          fullName: user?.fullName,
+          username: user?.username,
+          email: user?.email,
+        };
+      });
+  }
+
+  async getCohortJoinRequestsByUserId(userId: number): Promise<any[]> {
+    return Array.from(this.cohortJoinRequests.values())
+      .filter((request) => request.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .map((request) => ({
+        id: request.id,
+        cohortId: request.cohortId,
+        message: request.message,
+        status: request.status,
+        reviewedAt: request.reviewedAt,
+        createdAt: request.createdAt,
+        cohortName: this.cohorts.get(request.cohortId)?.name,
+      }));
+  }
+
+  async reviewCohortJoinRequest(
+    id: number,
+    status: "approved" | "denied",
+    reviewedById: number,
+  ): Promise<CohortJoinRequest | undefined> {
+    const request = this.cohortJoinRequests.get(id);
+    if (!request || request.status !== "pending") return undefined;
+
+    const updatedRequest: CohortJoinRequest = {
+      ...request,
+      status,
+      reviewedById,
+      reviewedAt: new Date(),
+    };
+    this.cohortJoinRequests.set(id, updatedRequest);
+
+    if (status === "approved" && !(await this.isCohortMember(request.userId, request.cohortId))) {
+      await this.createCohortMembership(request.cohortId, request.userId, "member");
+    }
+    return updatedRequest;
+  }
+
+  // Household methods
+  async getHouseholdByUserId(userId: number): Promise<Household | undefined> {
+    const member = Array.from(this.householdMembers.values()).find(
+      (m) => m.userId === userId,
+    );
+    return member ? this.households.get(member.householdId) : undefined;
+  }
+
+  async getHouseholdMembers(householdId: number): Promise<User[]> {
+    return Array.from(this.householdMembers.values())
+      .filter((m) => m.householdId === householdId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map((m) => this.users.get(m.userId)!);
+  }
+
+  private addHouseholdMember(householdId: number, userId: number) {
+    const member: HouseholdMember = {
+      id: this.nextId.householdMembers++,
+      householdId,
+      userId,
+      createdAt: new Date(),
+    };
+    this.householdMembers.set(member.id, member);
+
+    // Share the member's existing babies with the household
+    for (const baby of Array.from(this.babies.values())) {
+      if (baby.userId === userId && baby.householdId === null) {
+        baby.householdId = householdId;
+      }
+    }
+  }
+
+  private async getOrCreateHousehold(userId: number): Promise<Household> {
+    const existingHousehold = await this.getHouseholdByUserId(userId);
+    if (existingHousehold) {
+      return existingHousehold;
+    }
+
+    const household: Household = {
+      id: this.nextId.households++,
+      createdAt: new Date(),
+    };
+    this.households.set(household.id, household);
+    this.addHouseholdMember(household.id, userId);
+
+    return household;
+  }
+
+  async createHouseholdInvitation(invitedById: number, email: string): Promise<HouseholdInvitation> {
+    const household = await this.getOrCreateHousehold(invitedById);
+
+    // Invitations expire after 7 days
+    const expiresAt = new Date();
+    expiresAt.setDate(expiresAt.getDate() + 7);
+
+    const invitation: HouseholdInvitation = {
+      id: this.nextId.householdInvitations++,
+      householdId: household.id,
+      invitedById,
+      email: email.toLowerCase(),
+      status: "pending",
+      expiresAt,
+      createdAt: new Date(),
+    };
+    this.householdInvitations.set(invitation.id, invitation);
+    return invitation;
+  }
+
+  async getHouseholdInvitation(id: number): Promise<HouseholdInvitation | undefined> {
+    return this.householdInvitations.get(id);
+  }
+
+  private isPendingInvitation(invitation: HouseholdInvitation) {
+    return invitation.status === "pending" && invitation.expiresAt > new Date();
+  }
+
+  async getPendingHouseholdInvitationsByEmail(email: string): Promise<any[]> {
+    return Array.from(this.householdInvitations.values())
+      .filter(
+        (invitation) =>
+          invitation.email === email.toLowerCase() && this.isPendingInvitation(invitation),
+      )
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .map((invitation) => ({
+        id: invitation.id,
+        householdId: invitation.householdId,
+        email: invitation.email,
+        expiresAt: invitation.expiresAt,
+        createdAt: invitation.createdAt,
+        invitedById: invitation.invitedById,
+        invitedByName: this.users.get(invitation.invitedById)?.fullName,
+      }));
+  }
+
+  async getPendingHouseholdInvitationsByHousehold(householdId: number): Promise<HouseholdInvitation[]> {
+    return Array.from(this.householdInvitations.values())
+      .filter(
+        (invitation) =>
+          invitation.householdId === householdId && this.isPendingInvitation(invitation),
+      )
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async acceptHouseholdInvitation(id: number, userId: number, cohorts: HouseholdCohortPlan): Promise<Household> {
+    const invitation = this.householdInvitations.get(id)!;
+    this.addHouseholdMember(invitation.householdId, userId);
+
+    for (const cohortId of cohorts.joinCohortIds) {
+      await this.createCohortMembership(cohortId, userId, "member");
+    }
+    for (const cohortId of cohorts.requestCohortIds) {
+      await this.createCohortJoinRequest(cohortId, userId, null);
+    }
+
+    invitation.status = "accepted";
+    return this.households.get(invitation.householdId)!;
+  }
+
+  async updateHouseholdInvitationStatus(id: number, status: "declined" | "revoked"): Promise<HouseholdInvitation | undefined> {
+    const invitation = this.householdInvitations.get(id);
+    if (invitation) {
+      invitation.status = status;
+    }
+    return invitation;
+  }
+
+  async leaveHousehold(userId: number): Promise<boolean> {
+    for (const [id, member] of Array.from(this.householdMembers.entries())) {
+      if (member.userId === userId) {
+        this.householdMembers.delete(id);
+      }
+    }
+
+    // The babies the leaving parent created go with them
+    for (const baby of Array.from(this.babies.values())) {
+      if (baby.userId === userId) {
+        baby.householdId = null;
+      }
+    }
+    return true;
+  }
+
+  // Comments methods
+  async createComment(insertComment: InsertComment, userId: number): Promise<Comment> {
+    const now = new Date();
+    const comment: Comment = {
+      id: this.nextId.comments++,
+      content: insertComment.content,
+      userId,
+      postId: insertComment.postId,
+      parentCommentId: insertComment.parentCommentId ?? null,
+      deletedAt: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.comments.set(comment.id, comment);
+
+    return comment;
+  }
+
+  async getComment(id: number): Promise<Comment | undefined> {
+    return this.comments.get(id);
+  }
+
+  async getCommentsByPost(postId: number): Promise<Comment[]> {
+    return Array.from(this.comments.values())
+      .filter((comment) => comment.postId === postId)
+      .sort((a, b) => a.createdAt!.getTime() - b.createdAt!.getTime());
+  }
+
+  async getCommentsWithUsersByPost(postId: number, viewerId: number): Promise<CommentWithUser[]> {
+    const postComments = await this.getCommentsByPost(postId);
+    return postComments.flatMap((comment) => {
+      const user = this.users.get(comment.userId);
+      if (!user) return [];
+      return [{
+        ...comment,
+        username: user.username,
+        fullName: user.fullName,
+        mentions: this.getMentionedUsers(comment.postId, comment.id),
+        reactions: summarizeReactions(this.reactionsOn(comment.postId, comment.id), viewerId),
+      }];
+    });
+  }
+
+  async updateComment(id: number, content: string, userId: number): Promise<Comment | undefined> {
+    const comment = this.comments.get(id);
+    if (!comment || comment.userId !== userId || comment.deletedAt) {
+      return undefined;
+    }
+
+    comment.content = content;
+    comment.updatedAt = new Date();
+    return comment;
+  }
+
+  async deleteComment(id: number, userId: number): Promise<boolean> {
+    const comment = this.comments.get(id);
+    if (!comment || comment.userId !== userId || comment.deletedAt) {
+      return false;
+    }
+
+    // A comment with replies stays behind as a blank placeholder so the
+    // replies keep their place in the thread
+    if (this.hasCommentReplies(id)) {
+      comment.content = "";
+      comment.deletedAt = new Date();
+      this.mentions.forEach((mention, mentionId) => {
+        if (mention.commentId === id) this.mentions.delete(mentionId);
+      });
+      this.reactions.forEach((reaction, reactionId) => {
+        if (reaction.commentId === id) this.reactions.delete(reactionId);
+      });
+      return true;
+    }
+
+    this.comments.delete(id);
+
+    // Placeholders above it go too once their last reply has gone
+    let parent = comment.parentCommentId !== null ? this.comments.get(comment.parentCommentId) : undefined;
+    while (parent?.deletedAt && !this.hasCommentReplies(parent.id)) {
+      this.comments.delete(parent.id);
+      parent = parent.parentCommentId !== null ? this.comments.get(parent.parentCommentId) : undefined;
+    }
+    return true;
+  }
+
+  private hasCommentReplies(id: number): boolean {
+    return Array.from(this.comments.values()).some((comment) => comment.parentCommentId === id);
+  }
+
+  // Reaction methods
+  private reactionsOn(postId: number, commentId: number | null): Reaction[] {
+    return Array.from(this.reactions.values()).filter(
+      (reaction) => reaction.postId === postId && reaction.commentId === commentId,
+    );
+  }
+
+  async addReaction(userId: number, postId: number, commentId: number | null, type: ReactionType): Promise<Reaction | undefined> {
+    if (this.reactionsOn(postId, commentId).some((r) => r.userId === userId && r.type === type)) {
+      return undefined;
+    }
+
+    const reaction: Reaction = {
+      id: this.nextId.reactions++,
+      userId,
+      postId,
+      commentId,
+      type,
+      createdAt: new Date(),
+    };
+    this.reactions.set(reaction.id, reaction);
+    return reaction;
+  }
+
+  async removeReaction(userId: number, postId: number, commentId: number | null, type: ReactionType): Promise<boolean> {
+    const reaction = this.reactionsOn(postId, commentId).find((r) => r.userId === userId && r.type === type);
+    return reaction ? this.reactions.delete(reaction.id) : false;
+  }
+
+  async getReactionSummaries(postId: number, commentId: number | null, viewerId: number): Promise<ReactionSummary[]> {
+    return summarizeReactions(this.reactionsOn(postId, commentId), viewerId);
+  }
+
+  async getReactionsWithUsers(postId: number, commentId: number | null): Promise<ReactionWithUser[]> {
+    return this.reactionsOn(postId, commentId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime() || a.id - b.id)
+      .flatMap((reaction) => {
+        const user = this.users.get(reaction.userId);
+        if (!user) return [];
+        return [{
+          type: reaction.type,
+          createdAt: reaction.createdAt,
+          user: { id: user.id, username: user.username, fullName: user.fullName },
+        }];
+      });
+  }
+
+  // Poll methods
+  async getPollByPost(postId: number): Promise<(Poll & { options: PollOption[] }) | undefined> {
+    const poll = Array.from(this.polls.values()).find((p) => p.postId === postId);
+    if (!poll) return undefined;
+
+    const options = Array.from(this.pollOptions.values())
+      .filter((option) => option.pollId === poll.id)
+      .sort((a, b) => a.position - b.position);
+    return { ...poll, options };
+  }
+
+  async getPollResults(postIds: number[], viewerId: number | null): Promise<Map<number, PollResults>> {
+    const results = new Map<number, PollResults>();
+    for (const postId of postIds) {
+      const poll = this.pollResultsFor(postId, viewerId);
+      if (poll) results.set(postId, poll);
+    }
+    return results;
+  }
+
+  private pollResultsFor(postId: number, viewerId: number | null): PollResults | undefined {
+    const poll = Array.from(this.polls.values()).find((p) => p.postId === postId);
+    if (!poll) return undefined;
+
+    const options = Array.from(this.pollOptions.values()).filter((option) => option.pollId === poll.id);
+    const votes = Array.from(this.pollVotes.values())
+      .filter((vote) => vote.pollId === poll.id)
+      .flatMap((vote) => {
+        const user = this.users.get(vote.userId);
+        return user ? [{ optionId: vote.optionId, user: { id: user.id, fullName: user.fullName } }] : [];
+      });
+    return toPollResults(poll, options, votes, viewerId);
+  }
+
+  async setPollVotes(pollId: number, userId: number, optionIds: number[]): Promise<void> {
+    this.pollVotes.forEach((vote, id) => {
+      if (vote.pollId === pollId && vote.userId === userId) this.pollVotes.delete(id);
+    });
+    for (const optionId of Array.from(new Set(optionIds))) {
+      const vote: PollVote = { id: this.nextId.pollVotes++, pollId, optionId, userId, createdAt: new Date() };
+      this.pollVotes.set(vote.id, vote);
+    }
+  }
+
+  // Milestone methods
+  async getMilestones(): Promise<Milestone[]> {
+    return Array.from(this.milestones.values()).sort((a, b) => a.position - b.position);
+  }
+
+  async getMilestone(id: number): Promise<Milestone | undefined> {
+    return this.milestones.get(id);
+  }
+
+  async getBabyMilestones(babyId: number): Promise<BabyMilestoneWithDetails[]> {
+    return Array.from(this.babyMilestones.values())
+      .filter((babyMilestone) => babyMilestone.babyId === babyId)
+      .sort((a, b) => a.achievedOn.localeCompare(b.achievedOn) || a.id - b.id)
+      .flatMap((babyMilestone) => {
+        const milestone = this.milestones.get(babyMilestone.milestoneId);
+        const loggedBy = this.users.get(babyMilestone.loggedById);
+        if (!milestone || !loggedBy) return [];
+
+        // Deleting the shared post leaves the milestone unshared
+        const sharedPostId =
+          babyMilestone.sharedPostId !== null && this.posts.has(babyMilestone.sharedPostId)
+            ? babyMilestone.sharedPostId
+            : null;
+        return [{
+          ...babyMilestone,
+          sharedPostId,
+          milestone,
+          loggedBy: { id: loggedBy.id, fullName: loggedBy.fullName },
+        }];
+      });
+  }
+
+  async getBabyMilestone(babyId: number, milestoneId: number): Promise<BabyMilestone | undefined> {
+    return Array.from(this.babyMilestones.values()).find(
+      (babyMilestone) => babyMilestone.babyId === babyId && babyMilestone.milestoneId === milestoneId,
+    );
+  }
+
+  async setBabyMilestone(
+    babyId: number,
+    milestoneId: number,
+    loggedById: number,
+    milestone: BabyMilestoneInput,
+  ): Promise<BabyMilestone> {
+    const existing = await this.getBabyMilestone(babyId, milestoneId);
+    const now = new Date();
+    const saved: BabyMilestone = {
+      id: existing?.id ?? this.nextId.babyMilestones++,
+      babyId,
+      milestoneId,
+      achievedOn: milestone.achievedOn,
+      note: milestone.note || null,
+      photoUrl: milestone.photoUrl || null,
+      loggedById,
+      sharedPostId: existing?.sharedPostId ?? null,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+    this.babyMilestones.set(saved.id, saved);
+    return saved;
+  }
+
+  async deleteBabyMilestone(babyId: number, milestoneId: number): Promise<boolean> {
+    const existing = await this.getBabyMilestone(babyId, milestoneId);
+    return existing ? this.babyMilestones.delete(existing.id) : false;
+  }
+
+  async setBabyMilestoneSharedPost(id: number, postId: number): Promise<void> {
+    const babyMilestone = this.babyMilestones.get(id);
+    if (babyMilestone) babyMilestone.sharedPostId = postId;
+  }
+
+  // Growth measurement methods
+  async getGrowthMeasurements(babyId: number): Promise<GrowthMeasurement[]> {
+    return Array.from(this.growthMeasurements.values())
+      .filter((measurement) => measurement.babyId === babyId)
+      .sort((a, b) => a.measuredOn.localeCompare(b.measuredOn) || a.id - b.id);
+  }
+
+  async getGrowthMeasurement(id: number): Promise<GrowthMeasurement | undefined> {
+    return this.growthMeasurements.get(id);
+  }
+
+  async createGrowthMeasurement(
+    babyId: number,
+    loggedById: number,
+    measurement: GrowthMeasurementInput,
+  ): Promise<GrowthMeasurement> {
+    const now = new Date();
+    const created: GrowthMeasurement = {
+      id: this.nextId.growthMeasurements++,
+      babyId,
+      loggedById,
+      ...toGrowthMeasurementValues(measurement),
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.growthMeasurements.set(created.id, created);
+    return created;
+  }
+
+  async updateGrowthMeasurement(
+    id: number,
+    measurement: GrowthMeasurementInput,
+  ): Promise<GrowthMeasurement | undefined> {
+    const existing = this.growthMeasurements.get(id);
+    if (!existing) return undefined;
+    Object.assign(existing, toGrowthMeasurementValues(measurement), { updatedAt: new Date() });
+    return existing;
+  }
+
+  async deleteGrowthMeasurement(id: number): Promise<boolean> {
+    return this.growthMeasurements.delete(id);
+  }
+
+  // Care log methods
+  async getCareLogEntries(babyId: number, from: Date, to: Date): Promise<CareLogEntryWithUsers[]> {
+    return Array.from(this.careLogEntries.values())
+      .filter(
+        (entry) =>
+          entry.babyId === babyId &&
+          entry.startedAt < to &&
+          (entry.startedAt >= from ||
+            (entry.endedAt !== null && entry.endedAt > from) ||
+            (entry.endedAt === null && isTimedCareLogEntry(entry))),
+      )
+      .sort((a, b) => a.startedAt.getTime() - b.startedAt.getTime() || a.id - b.id)
+      .flatMap((entry) => {
+        const loggedBy = this.users.get(entry.loggedById);
+        const updatedBy = this.users.get(entry.updatedById);
+        if (!loggedBy || !updatedBy) return [];
+        return [{
+          ...entry,
+          loggedBy: { id: loggedBy.id, fullName: loggedBy.fullName },
+          updatedBy: { id: updatedBy.id, fullName: updatedBy.fullName },
+        }];
+      });
+  }
+
+  async getCareLogEntry(id: number): Promise<CareLogEntry | undefined> {
+    return this.careLogEntries.get(id);
+  }
+
+  async getRunningCareLogEntries(babyId: number): Promise<CareLogEntry[]> {
+    return Array.from(this.careLogEntries.values()).filter(
+      (entry) => entry.babyId === babyId && entry.endedAt === null && isTimedCareLogEntry(entry),
+    );
+  }
+
+  async createCareLogEntry(babyId: number, loggedById: number, entry: CareLogEntryInput): Promise<CareLogEntry> {
+    const now = new Date();
+    const created: CareLogEntry = {
+      id: this.nextId.careLogEntries++,
+      babyId,
+      loggedById,
+      updatedById: loggedById,
+      ...toCareLogValues(entry),
+      version: 1,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.careLogEntries.set(created.id, created);
+    return created;
+  }
+
+  async updateCareLogEntry(
+    id: number,
+    version: number,
+    updatedById: number,
+    entry: CareLogEntryInput,
+  ): Promise<CareLogEntry | undefined> {
+    const existing = this.careLogEntries.get(id);
+    if (!existing || existing.version !== version) return undefined;
+    Object.assign(existing, toCareLogValues(entry), {
+      updatedById,
+      version: existing.version + 1,
+      updatedAt: new Date(),
+    });
+    return existing;
+  }
+
+  async deleteCareLogEntry(id: number): Promise<boolean> {
+    return this.careLogEntries.delete(id);
+  }
+
+  // Health schedule methods
+  async getHealthScheduleRecords(babyId: number): Promise<HealthScheduleRecord[]> {
+    return Array.from(this.healthScheduleRecords.values()).filter((record) => record.babyId === babyId);
+  }
+
+  private getOrCreateScheduleRecord(babyId: number, itemKey: string): HealthScheduleRecord {
+    const existing = Array.from(this.healthScheduleRecords.values()).find(
+      (record) => record.babyId === babyId && record.itemKey === itemKey,
+    );
+    if (existing) return existing;
+
+    const now = new Date();
+    const created: HealthScheduleRecord = {
+      id: this.nextId.healthScheduleRecords++,
+      babyId,
+      itemKey,
+      completedOn: null,
+      completedById: null,
+      note: null,
+      remindedForDueOn: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.healthScheduleRecords.set(created.id, created);
+    return created;
+  }
+
+  async completeScheduleItem(
+    babyId: number,
+    itemKey: string,
+    completedById: number,
+    completion: ScheduleItemCompletion,
+  ): Promise<HealthScheduleRecord> {
+    const record = this.getOrCreateScheduleRecord(babyId, itemKey);
+    Object.assign(record, {
+      completedOn: completion.completedOn,
+      completedById,
+      note: completion.note || null,
+      updatedAt: new Date(),
+    });
+    return record;
+  }
+
+  async uncompleteScheduleItem(babyId: number, itemKey: string): Promise<boolean> {
+    const record = Array.from(this.healthScheduleRecords.values()).find(
+      (r) => r.babyId === babyId && r.itemKey === itemKey && r.completedOn !== null,
+    );
+    if (!record) return false;
+    Object.assign(record, { completedOn: null, completedById: null, note: null, updatedAt: new Date() });
+    return true;
+  }
+
+  async markScheduleItemsReminded(babyId: number, itemKeys: string[], dueOn: string): Promise<void> {
+    for (const itemKey of itemKeys) {
+      Object.assign(this.getOrCreateScheduleRecord(babyId, itemKey), {
+        remindedForDueOn: dueOn,
+        updatedAt: new Date(),
+      });
+    }
+  }
+
+  async getScheduleFeedToken(babyId: number, userId: number): Promise<ScheduleFeedToken> {
+    const existing = Array.from(this.scheduleFeedTokens.values()).find(
+      (feed) => feed.babyId === babyId && feed.userId === userId,
+    );
+    if (existing) return existing;
+
+    const created: ScheduleFeedToken = {
+      id: this.nextId.scheduleFeedTokens++,
+      babyId,
+      userId,
+      token: randomUUID(),
+      createdAt: new Date(),
+    };
+    this.scheduleFeedTokens.set(created.id, created);
+    return created;
+  }
+
+  async getScheduleFeedByToken(token: string): Promise<ScheduleFeedToken | undefined> {
+    return Array.from(this.scheduleFeedTokens.values()).find((feed) => feed.token === token);
+  }
+
+  async resetScheduleFeedToken(babyId: number, userId: number): Promise<ScheduleFeedToken> {
+    const feed = await this.getScheduleFeedToken(babyId, userId);
+    Object.assign(feed, { token: randomUUID(), createdAt: new Date() });
+    return feed;
+  }
+
+  // Meetup methods
+  async createMeetup(cohortId: number, createdById: number, meetup: MeetupInput): Promise<Meetup> {
+    const now = new Date();
+    const created: Meetup = {
+      id: this.nextId.meetups++,
+      cohortId,
+      createdById,
+      title: meetup.title,
+      startsAt: meetup.startsAt,
+      endsAt: meetup.endsAt ?? null,
+      location: meetup.location,
+      capacity: meetup.capacity ?? null,
+      notes: meetup.notes || null,
+      reminderSentAt: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.meetups.set(created.id, created);
+    return created;
+  }
+
+  async getMeetup(id: number): Promise<Meetup | undefined> {
+    return this.meetups.get(id);
+  }
+
+  async getMeetupWithRsvps(id: number, viewerId: number): Promise<MeetupWithRsvps | undefined> {
+    const meetup = this.meetups.get(id);
+    return meetup && this.toMeetupWithRsvps(meetup, viewerId);
+  }
+
+  async getCohortMeetups(cohortId: number, viewerId: number): Promise<MeetupWithRsvps[]> {
+    return Array.from(this.meetups.values())
+      .filter((meetup) => meetup.cohortId === cohortId)
+      .sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime() || a.id - b.id)
+      .map((meetup) => this.toMeetupWithRsvps(meetup, viewerId));
+  }
+
+  private toMeetupWithRsvps(meetup: Meetup, viewerId: number): MeetupWithRsvps {
+    const creator = this.users.get(meetup.createdById);
+    const rsvps = Array.from(this.meetupRsvps.values())
+      .filter((rsvp) => rsvp.meetupId === meetup.id)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime() || a.id - b.id)
+      .flatMap((rsvp) => {
+        const user = this.users.get(rsvp.userId);
+        return user
+          ? [{ status: rsvp.status, bringingBaby: rsvp.bringingBaby, user: { id: user.id, fullName: user.fullName } }]
+          : [];
+      });
+    return toMeetupWithRsvps(
+      meetup,
+      { id: meetup.createdById, fullName: creator?.fullName ?? "" },
+      rsvps,
+      viewerId,
+    );
+  }
+
+  async updateMeetup(id: number, meetup: MeetupInput): Promise<Meetup | undefined> {
+    const existing = this.meetups.get(id);
+    if (!existing) return undefined;
+
+    const updated: Meetup = {
+      ...existing,
+      title: meetup.title,
+      startsAt: meetup.startsAt,
+      endsAt: meetup.endsAt ?? null,
+      location: meetup.location,
+      capacity: meetup.capacity ?? null,
+      notes: meetup.notes || null,
+      reminderSentAt:
+        existing.startsAt.getTime() === meetup.startsAt.getTime() ? existing.reminderSentAt : null,
+      updatedAt: new Date(),
+    };
+    this.meetups.set(id, updated);
+    return updated;
+  }
+
+  async deleteMeetup(id: number): Promise<boolean> {
+    if (!this.meetups.delete(id)) return false;
+
+    this.meetupRsvps.forEach((rsvp, rsvpId) => {
+      if (rsvp.meetupId === id) this.meetupRsvps.delete(rsvpId);
+    });
+    this.notifications.forEach((notification, notificationId) => {
+      if (notification.meetupId === id) this.notifications.delete(notificationId);
+    });
+    return true;
+  }
+
+  async getMeetupRsvps(meetupId: number): Promise<MeetupRsvp[]> {
+    return Array.from(this.meetupRsvps.values()).filter((rsvp) => rsvp.meetupId === meetupId);
+  }
+
+  async setMeetupRsvp(meetupId: number, userId: number, rsvp: RsvpInput): Promise<MeetupRsvp> {
+    const existing = Array.from(this.meetupRsvps.values()).find(
+      (r) => r.meetupId === meetupId && r.userId === userId,
+    );
+    const now = new Date();
+    const saved: MeetupRsvp = {
+      id: existing?.id ?? this.nextId.meetupRsvps++,
+      meetupId,
+      userId,
+      status: rsvp.status,
+      bringingBaby: rsvp.bringingBaby,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+    this.meetupRsvps.set(saved.id, saved);
+    return saved;
+  }
+
+  async getMeetupsDueReminders(startingAfter: Date, startingBefore: Date): Promise<Meetup[]> {
+    return Array.from(this.meetups.values()).filter(
+      (meetup) =>
+        !meetup.reminderSentAt && meetup.startsAt > startingAfter && meetup.startsAt < startingBefore,
+    );
+  }
+
+  async markMeetupReminderSent(id: number): Promise<void> {
+    const meetup = this.meetups.get(id);
+    if (meetup) meetup.reminderSentAt = new Date();
+  }
+
+  // Mention methods
+  async setMentions(postId: number, commentId: number | null, userIds: number[]): Promise<number[]> {
+    const existing = Array.from(this.mentions.values()).filter(
+      (mention) => mention.postId === postId && mention.commentId === commentId,
+    );
+    const existingUserIds = existing.map((mention) => mention.userId);
+
+    for (const mention of existing) {
+      if (!userIds.includes(mention.userId)) this.mentions.delete(mention.id);
+    }
+
+    const added = userIds.filter((userId) => !existingUserIds.includes(userId));
+    for (const userId of added) {
+      const mention: Mention = {
+        id: this.nextId.mentions++,
+        userId,
+        postId,
+        commentId,
+        createdAt: new Date(),
+      };
+      this.mentions.set(mention.id, mention);
+    }
+    return added;
+  }
+
+  private getMentionedUsers(postId: number, commentId: number | null): MentionedUser[] {
+    return Array.from(this.mentions.values())
+      .filter((mention) => mention.postId === postId && mention.commentId === commentId)
+      .flatMap((mention) => {
+        const user = this.users.get(mention.userId);
+        return user ? [{ id: user.id, username: user.username }] : [];
+      });
+  }
+
+  // Notification methods
+  async createNotification(notification: InsertNotification): Promise<Notification> {
+    const created: Notification = {
+      id: this.nextId.notifications++,
+      userId: notification.userId,
+      actorId: notification.actorId ?? null,
+      type: notification.type,
+      cohortId: notification.cohortId ?? null,
+      postId: notification.postId ?? null,
+      commentId: notification.commentId ?? null,
+      meetupId: notification.meetupId ?? null,
+      babyId: notification.babyId ?? null,
+      scheduleDueOn: notification.scheduleDueOn ?? null,
+      role: notification.role ?? null,
+      readAt: null,
+      email: notification.email ?? null,
+      emailedAt: null,
+      createdAt: new Date(),
+    };
+    this.notifications.set(created.id, created);
+    return created;
+  }
+
+  async getNotifications(userId: number, limit: number): Promise<NotificationItem[]> {
+    return Array.from(this.notifications.values())
+      .filter((notification) => notification.userId === userId)
+      .sort((a, b) => b.id - a.id)
+      .slice(0, limit)
+      .map((notification) => this.toNotificationItem(notification));
+  }
+
+  async getUnreadNotificationCount(userId: number): Promise<number> {
+    return Array.from(this.notifications.values()).filter(
+      (notification) => notification.userId === userId && !notification.readAt,
+    ).length;
+  }
+
+  async markNotificationRead(id: number, userId: number): Promise<Notification | undefined> {
+    const notification = this.notifications.get(id);
+    if (!notification || notification.userId !== userId) return undefined;
+
+    notification.readAt ??= new Date();
+    return notification;
+  }
+
+  async markAllNotificationsRead(userId: number): Promise<void> {
+    const now = new Date();
+    for (const notification of Array.from(this.notifications.values())) {
+      if (notification.userId === userId && !notification.readAt) {
+        notification.readAt = now;
+      }
+    }
+  }
+
+  async getUnsentEmailNotifications(): Promise<NotificationItem[]> {
+    return Array.from(this.notifications.values())
+      .filter((notification) => notification.email && !notification.emailedAt)
+      .sort((a, b) => a.id - b.id)
+      .map((notification) => this.toNotificationItem(notification));
+  }
+
+  async markNotificationsEmailed(ids: number[]): Promise<void> {
+    const now = new Date();
+    for (const id of ids) {
+      const notification = this.notifications.get(id);
+      if (notification) notification.emailedAt = now;
+    }
+  }
+
+  // Notification preference methods
+  async getNotificationPreferences(userId: number): Promise<NotificationPreferences | undefined> {
+    return Array.from(this.notificationPreferences.values()).find(
+      (preferences) => preferences.userId === userId,
+    );
+  }
+
+  async updateNotificationPreferences(userId: number, settings: NotificationSettings): Promise<NotificationPreferences> {
+    const existing = await this.getNotificationPreferences(userId);
+    const preferences: NotificationPreferences = {
+      id: existing?.id ?? this.nextId.notificationPreferences++,
+      userId,
+      lastDigestSentAt: existing?.lastDigestSentAt ?? null,
+      ...settings,
+    };
+    this.notificationPreferences.set(preferences.id, preferences);
+    return preferences;
+  }
+
+  async updateLastDigestSentAt(userId: number, sentAt: Date): Promise<void> {
+    const preferences = await this.getNotificationPreferences(userId);
+    if (preferences) preferences.lastDigestSentAt = sentAt;
+  }
+
+  async getMutedCohortIds(userId: number): Promise<number[]> {
+    return Array.from(this.cohortMutes.values())
+      .filter((mute) => mute.userId === userId)
+      .map((mute) => mute.cohortId);
+  }
+
+  async muteCohort(userId: number, cohortId: number): Promise<void> {
+    if ((await this.getMutedCohortIds(userId)).includes(cohortId)) return;
+
+    const mute: CohortMute = {
+      id: this.nextId.cohortMutes++,
+      userId,
+      cohortId,
+      createdAt: new Date(),
+    };
+    this.cohortMutes.set(mute.id, mute);
+  }
+
+  async unmuteCohort(userId: number, cohortId: number): Promise<void> {
+    for (const [id, mute] of Array.from(this.cohortMutes.entries())) {
+      if (mute.userId === userId && mute.cohortId === cohortId) {
+        this.cohortMutes.delete(id);
+      }
+    }
+  }
+
+  private toNotificationItem(notification: Notification): NotificationItem {
+    const actor = notification.actorId ? this.users.get(notification.actorId) : undefined;
+    const cohort = notification.cohortId ? this.cohorts.get(notification.cohortId) : undefined;
+    const meetup = notification.meetupId ? this.meetups.get(notification.meetupId) : undefined;
+    const baby = notification.babyId ? this.babies.get(notification.babyId) : undefined;
+    return {
+      ...notification,
+      actor: actor ? { id: actor.id, username: actor.username, fullName: actor.fullName } : null,
+      cohortName: cohort?.name ?? null,
+      meetupTitle: meetup?.title ?? null,
+      babyName: baby?.name ?? null,
+    };
   }
 }
 
-export const storage = new DatabaseStorage();
+export const storage: IStorage = useMemStorage ? new MemStorage() : new DatabaseStorage();
@@ -0,0 +1,101 @@
+// Helpers for the route tests (server/*.test.ts). They run the real routes
+// against MemStorage; see the "test" script in package.json.
+import assert from "node:assert/strict";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import express from "express";
+import { WebSocket } from "ws";
+import type { CohortEvent } from "@shared/schema";
+import { registerRoutes } from "./routes";
+import { requestLogger } from "./request-log";
+
+let baseUrl = "";
+
+// Serves the app on a free port until the returned server is closed. Request
+// logging is off unless a test looks at it.
+export async function startTestServer(options: { logRequests?: boolean } = {}): Promise<Server> {
+  const app = express();
+  app.use(express.json());
+  if (options.logRequests) app.use(requestLogger);
+  const server = await registerRoutes(app);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  return server;
+}
+
+export function stopTestServer(server: Server) {
+  return new Promise<void>((resolve) => server.close(() => resolve()));
+}
+
+// A signed-in user, holding on to their session cookie
+export class TestClient {
+  private cookie = "";
+
+  constructor(public id = 0) {}
+
+  async request(method: string, path: string, body?: unknown) {
+    const res = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: {
+        ...(body === undefined ? {} : { "Content-Type": "application/json" }),
+        ...(this.cookie ? { Cookie: this.cookie } : {}),
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const setCookie = res.headers.get("set-cookie");
+    if (setCookie) this.cookie = setCookie.split(";")[0];
+    const text = await res.text();
+    let json: any;
+    try {
+      json = JSON.parse(text);
+    } catch {
+      json = text;
+    }
+    return { status: res.status, body: json };
+  }
+
+  // Opens the realtime socket subscribed to a cohort, collecting its events
+  async subscribe(cohortId: number) {
+    const socket = new WebSocket(`${baseUrl.replace("http", "ws")}/ws`, {
+      headers: { Cookie: this.cookie },
+    });
+    const events: CohortEvent[] = [];
+    socket.on("message", (data) => events.push(JSON.parse(data.toString())));
+    await new Promise<void>((resolve, reject) => {
+      socket.once("open", () => resolve());
+      socket.once("error", reject);
+    });
+    socket.send(JSON.stringify({ type: "subscribe", cohortId }));
+    // The server checks membership before adding the subscription
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    return { socket, events };
+  }
+
+  static async register(username: string, email = `${username}@example.com`) {
+    const client = new TestClient();
+    const res = await client.request("POST", "/api/register", {
+      username,
+      password: "password1",
+      fullName: `${username} Parent`,
+      email,
+    });
+    assert.equal(res.status, 201, `registering ${username}: ${JSON.stringify(res.body)}`);
+    client.id = res.body.id;
+    return client;
+  }
+}
+
+// Waits for the next event the socket collects that matches
+export async function nextEvent<T extends CohortEvent["type"]>(
+  events: CohortEvent[],
+  type: T,
+  timeoutMs = 2000,
+): Promise<Extract<CohortEvent, { type: T }>> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    const event = events.find((e) => e.type === type);
+    if (event) return event as Extract<CohortEvent, { type: T }>;
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+  throw new Error(`No ${type} event within ${timeoutMs}ms`);
+}
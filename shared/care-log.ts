@@ -0,0 +1,16 @@
+// The kinds of entry in a baby's daily care log. Breast feeds and sleeps are
+// timed: they run from startedAt to endedAt and are in progress until endedAt
+// is set. Bottle feeds and diapers are a single moment at startedAt.
+export const careLogTypes = ["feed", "sleep", "diaper"] as const;
+export const feedMethods = ["breast", "bottle"] as const;
+export const breastSides = ["left", "right", "both"] as const;
+export const diaperKinds = ["wet", "dirty", "both"] as const;
+
+export type CareLogType = (typeof careLogTypes)[number];
+export type FeedMethod = (typeof feedMethods)[number];
+export type BreastSide = (typeof breastSides)[number];
+export type DiaperKind = (typeof diaperKinds)[number];
+
+export function isTimedCareLogEntry(entry: { type: CareLogType; feedMethod?: FeedMethod | null }) {
+  return entry.type === "sleep" || (entry.type === "feed" && entry.feedMethod === "breast");
+}
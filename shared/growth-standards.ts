@@ -0,0 +1,151 @@
+// WHO Child Growth Standards (2006) for birth to 24 months, bundled so
+// percentiles work offline. Each table holds the published LMS parameters
+// (Box-Cox power, median and coefficient of variation) at each completed
+// month; ages in between are interpolated linearly. Length and head
+// circumference are normally distributed, so their L is always 1.
+export const babySexes = ["female", "male"] as const;
+
+export type BabySex = (typeof babySexes)[number];
+
+export const growthMetrics = ["weight", "length", "headCircumference"] as const;
+
+export type GrowthMetric = (typeof growthMetrics)[number];
+
+// [L, M, S] at months 0 through 24
+type LmsTable = [number, number, number][];
+
+const DAYS_PER_MONTH = 365.25 / 12;
+export const GROWTH_STANDARD_MAX_MONTHS = 24;
+
+const growthStandards: Record<GrowthMetric, Record<BabySex, LmsTable>> = {
+  weight: {
+    male: [
+      [0.3487, 3.3464, 0.14602], [0.2297, 4.4709, 0.13395], [0.197, 5.5675, 0.12385],
+      [0.1738, 6.3762, 0.11727], [0.1553, 7.0023, 0.11316], [0.1395, 7.5105, 0.1108],
+      [0.1257, 7.934, 0.10958], [0.1134, 8.297, 0.10902], [0.1021, 8.6151, 0.10882],
+      [0.0917, 8.9014, 0.10881], [0.082, 9.1649, 0.10891], [0.073, 9.4122, 0.10906],
+      [0.0644, 9.6479, 0.10925], [0.0563, 9.8749, 0.10949], [0.0487, 10.0953, 0.10976],
+      [0.0413, 10.3108, 0.11007], [0.0343, 10.5228, 0.11041], [0.0275, 10.7319, 0.11079],
+      [0.0211, 10.9385, 0.11119], [0.0148, 11.143, 0.11164], [0.0087, 11.3462, 0.11211],
+      [0.0029, 11.5486, 0.11261], [-0.0028, 11.7504, 0.11314], [-0.0083, 11.9514, 0.11369],
+      [-0.0137, 12.1515, 0.11426],
+    ],
+    female: [
+      [0.3809, 3.2322, 0.14171], [0.1714, 4.1873, 0.13724], [0.0962, 5.1282, 0.13],
+      [0.0402, 5.8458, 0.12619], [-0.005, 6.4237, 0.12402], [-0.043, 6.8985, 0.12274],
+      [-0.0756, 7.297, 0.12204], [-0.1039, 7.6422, 0.12178], [-0.1288, 7.9487, 0.12181],
+      [-0.1507, 8.2254, 0.12199], [-0.17, 8.48, 0.12223], [-0.1872, 8.7192, 0.12247],
+      [-0.2024, 8.9481, 0.12268], [-0.2158, 9.1699, 0.12283], [-0.2278, 9.387, 0.12294],
+      [-0.2384, 9.6008, 0.12299], [-0.2478, 9.8124, 0.12303], [-0.2562, 10.0226, 0.12306],
+      [-0.2637, 10.2315, 0.12309], [-0.2703, 10.4393, 0.12315], [-0.2762, 10.6464, 0.12323],
+      [-0.2815, 10.8534, 0.12335], [-0.2862, 11.0608, 0.1235], [-0.2903, 11.2688, 0.12369],
+      [-0.2941, 11.4775, 0.1239],
+    ],
+  },
+  length: {
+    male: [
+      [1, 49.8842, 0.03795], [1, 54.7244, 0.03557], [1, 58.4249, 0.03424], [1, 61.4292, 0.03328],
+      [1, 63.886, 0.03257], [1, 65.9026, 0.03204], [1, 67.6236, 0.03165], [1, 69.1645, 0.03139],
+      [1, 70.5994, 0.03124], [1, 71.9687, 0.03117], [1, 73.2812, 0.03118], [1, 74.5388, 0.03125],
+      [1, 75.7488, 0.03137], [1, 76.9186, 0.03154], [1, 78.0497, 0.03174], [1, 79.1458, 0.03197],
+      [1, 80.2113, 0.03222], [1, 81.2487, 0.0325], [1, 82.2587, 0.03279], [1, 83.2418, 0.0331],
+      [1, 84.1996, 0.03342], [1, 85.1348, 0.03376], [1, 86.0477, 0.0341], [1, 86.941, 0.03445],
+      [1, 87.8161, 0.03479],
+    ],
+    female: [
+      [1, 49.1477, 0.0379], [1, 53.6872, 0.0364], [1, 57.0673, 0.03568], [1, 59.8029, 0.0352],
+      [1, 62.0899, 0.03486], [1, 64.0301, 0.03463], [1, 65.7311, 0.03448], [1, 67.2873, 0.03441],
+      [1, 68.7498, 0.0344], [1, 70.1435, 0.03444], [1, 71.4818, 0.03452], [1, 72.771, 0.03464],
+      [1, 74.015, 0.03479], [1, 75.2176, 0.03496], [1, 76.3817, 0.03514], [1, 77.5099, 0.03534],
+      [1, 78.6055, 0.03555], [1, 79.671, 0.03576], [1, 80.7079, 0.03598], [1, 81.7182, 0.0362],
+      [1, 82.7036, 0.03643], [1, 83.6654, 0.03666], [1, 84.604, 0.03688], [1, 85.5202, 0.03711],
+      [1, 86.4153, 0.03734],
+    ],
+  },
+  headCircumference: {
+    male: [
+      [1, 34.4618, 0.03686], [1, 37.2759, 0.03133], [1, 39.1285, 0.02997], [1, 40.5135, 0.02918],
+      [1, 41.6317, 0.02868], [1, 42.5576, 0.02837], [1, 43.3306, 0.02817], [1, 43.9803, 0.02804],
+      [1, 44.53, 0.02796], [1, 44.9998, 0.02792], [1, 45.4051, 0.0279], [1, 45.7573, 0.02789],
+      [1, 46.0661, 0.02789], [1, 46.3395, 0.02789], [1, 46.5844, 0.02791], [1, 46.806, 0.02792],
+      [1, 47.0088, 0.02795], [1, 47.1962, 0.02797], [1, 47.3711, 0.028], [1, 47.5357, 0.02803],
+      [1, 47.6919, 0.02806], [1, 47.8408, 0.0281], [1, 47.9833, 0.02813], [1, 48.1201, 0.02817],
+      [1, 48.2515, 0.02821],
+    ],
+    female: [
+      [1, 33.8787, 0.03496], [1, 36.5463, 0.0321], [1, 38.2521, 0.03168], [1, 39.5328, 0.0314],
+      [1, 40.5817, 0.03119], [1, 41.459, 0.03102], [1, 42.1995, 0.03087], [1, 42.829, 0.03075],
+      [1, 43.3671, 0.03063], [1, 43.83, 0.03053], [1, 44.2319, 0.03044], [1, 44.5844, 0.03035],
+      [1, 44.8965, 0.03027], [1, 45.1752, 0.03019], [1, 45.4265, 0.03012], [1, 45.6551, 0.03006],
+      [1, 45.865, 0.03], [1, 46.0598, 0.02994], [1, 46.2424, 0.02989], [1, 46.4152, 0.02985],
+      [1, 46.5801, 0.02981], [1, 46.7384, 0.02978], [1, 46.8913, 0.02975], [1, 47.0391, 0.02973],
+      [1, 47.1822, 0.02972],
+    ],
+  },
+};
+
+export function ageInMonths(birthDate: string, on: string) {
+  const days = (Date.parse(on) - Date.parse(birthDate)) / (24 * 60 * 60 * 1000);
+  return days / DAYS_PER_MONTH;
+}
+
+// Undefined outside the tables' age range
+function lmsAt(metric: GrowthMetric, sex: BabySex, months: number) {
+  if (months < 0 || months > GROWTH_STANDARD_MAX_MONTHS) return undefined;
+  const table = growthStandards[metric][sex];
+  const lower = Math.floor(months);
+  const upper = Math.min(lower + 1, GROWTH_STANDARD_MAX_MONTHS);
+  const fraction = months - lower;
+  return table[lower].map(
+    (value, i) => value + (table[upper][i] - value) * fraction,
+  ) as [number, number, number];
+}
+
+// Standard normal CDF (Abramowitz and Stegun 7.1.26, accurate to ~1e-7)
+function normalCdf(z: number) {
+  const t = 1 / (1 + 0.3275911 * Math.abs(z) / Math.SQRT2);
+  const erf = 1 - t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 +
+    t * (-1.453152027 + t * 1.061405429)))) * Math.exp(-(z * z) / 2);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+// Inverse of normalCdf by bisection; only used to draw a handful of curves
+function normalQuantile(p: number) {
+  let low = -8;
+  let high = 8;
+  for (let i = 0; i < 60; i++) {
+    const mid = (low + high) / 2;
+    if (normalCdf(mid) < p) low = mid;
+    else high = mid;
+  }
+  return (low + high) / 2;
+}
+
+// Where a measurement falls against babies of the same sex and age, as a
+// percentile from 0 to 100. Null past 24 months, where the tables stop.
+export function growthPercentile(
+  metric: GrowthMetric,
+  sex: BabySex,
+  months: number,
+  value: number,
+) {
+  const lms = lmsAt(metric, sex, months);
+  if (!lms) return null;
+  const [l, m, s] = lms;
+  const z = l === 0 ? Math.log(value / m) / s : (Math.pow(value / m, l) - 1) / (l * s);
+  return Math.round(normalCdf(z) * 1000) / 10;
+}
+
+// The measurement at a given percentile, for drawing reference curves
+export function growthStandardValue(
+  metric: GrowthMetric,
+  sex: BabySex,
+  months: number,
+  percentile: number,
+) {
+  const lms = lmsAt(metric, sex, months);
+  if (!lms) return null;
+  const [l, m, s] = lms;
+  const z = normalQuantile(percentile / 100);
+  return l === 0 ? m * Math.exp(s * z) : m * Math.pow(1 + l * s * z, 1 / l);
+}
@@ -0,0 +1,139 @@
+import { z } from "zod";
+
+// The vaccinations and well-baby check-ups on a baby's health schedule, each
+// due a set age after birth. The server reads the schedule from the JSON file
+// named by HEALTH_SCHEDULE_FILE when it's set, so it can follow local
+// guidance; otherwise it uses defaultHealthSchedule.
+export const scheduleItemKinds = ["vaccine", "checkup"] as const;
+
+export type ScheduleItemKind = (typeof scheduleItemKinds)[number];
+
+// Vaccines and check-ups count as due soon this many days ahead
+export const SCHEDULE_DUE_SOON_DAYS = 14;
+
+export const scheduleItemSchema = z.object({
+  // Stable id that records of it are kept under; don't reuse one for a
+  // different dose
+  key: z.string().regex(/^[a-z0-9_]+$/, "Keys may only use a-z, 0-9 and _").max(50),
+  kind: z.enum(scheduleItemKinds),
+  title: z.string().min(1).max(100),
+  description: z.string().max(500).optional(),
+  // The age it's due at: whole months after birth, then days after that
+  dueMonths: z.number().int().min(0).max(216),
+  dueDays: z.number().int().min(0).max(366).optional(),
+});
+
+export const healthScheduleSchema = z
+  .array(scheduleItemSchema)
+  .min(1, "The schedule needs at least one item")
+  .refine(
+    (items) => new Set(items.map((item) => item.key)).size === items.length,
+    "Schedule item keys must be unique",
+  );
+
+export type ScheduleItem = z.infer<typeof scheduleItemSchema>;
+
+// Based on the CDC's 2024 recommended schedule for children from birth to
+// 6 years, and the AAP's well-child visit schedule
+export const defaultHealthSchedule: ScheduleItem[] = [
+  { key: "hepb_1", kind: "vaccine", title: "Hepatitis B (1st dose)", dueMonths: 0 },
+  {
+    key: "checkup_newborn",
+    kind: "checkup",
+    title: "Newborn check-up",
+    description: "Usually 3 to 5 days after birth, to check feeding, weight and jaundice",
+    dueMonths: 0,
+    dueDays: 3,
+  },
+  { key: "checkup_1m", kind: "checkup", title: "1 month check-up", dueMonths: 1 },
+  { key: "hepb_2", kind: "vaccine", title: "Hepatitis B (2nd dose)", description: "Any time from 1 to 2 months", dueMonths: 1 },
+  { key: "checkup_2m", kind: "checkup", title: "2 month check-up", dueMonths: 2 },
+  { key: "dtap_1", kind: "vaccine", title: "DTaP (1st dose)", description: "Diphtheria, tetanus and whooping cough", dueMonths: 2 },
+  { key: "hib_1", kind: "vaccine", title: "Hib (1st dose)", description: "Haemophilus influenzae type b", dueMonths: 2 },
+  { key: "ipv_1", kind: "vaccine", title: "Polio (1st dose)", dueMonths: 2 },
+  { key: "pcv_1", kind: "vaccine", title: "Pneumococcal (1st dose)", dueMonths: 2 },
+  { key: "rv_1", kind: "vaccine", title: "Rotavirus (1st dose)", dueMonths: 2 },
+  { key: "checkup_4m", kind: "checkup", title: "4 month check-up", dueMonths: 4 },
+  { key: "dtap_2", kind: "vaccine", title: "DTaP (2nd dose)", description: "Diphtheria, tetanus and whooping cough", dueMonths: 4 },
+  { key: "hib_2", kind: "vaccine", title: "Hib (2nd dose)", description: "Haemophilus influenzae type b", dueMonths: 4 },
+  { key: "ipv_2", kind: "vaccine", title: "Polio (2nd dose)", dueMonths: 4 },
+  { key: "pcv_2", kind: "vaccine", title: "Pneumococcal (2nd dose)", dueMonths: 4 },
+  { key: "rv_2", kind: "vaccine", title: "Rotavirus (2nd dose)", dueMonths: 4 },
+  { key: "checkup_6m", kind: "checkup", title: "6 month check-up", dueMonths: 6 },
+  { key: "dtap_3", kind: "vaccine", title: "DTaP (3rd dose)", description: "Diphtheria, tetanus and whooping cough", dueMonths: 6 },
+  {
+    key: "hib_3",
+    kind: "vaccine",
+    title: "Hib (3rd dose)",
+    description: "Only needed with some brands; your provider will know",
+    dueMonths: 6,
+  },
+  { key: "ipv_3", kind: "vaccine", title: "Polio (3rd dose)", description: "Any time from 6 to 18 months", dueMonths: 6 },
+  { key: "pcv_3", kind: "vaccine", title: "Pneumococcal (3rd dose)", dueMonths: 6 },
+  {
+    key: "rv_3",
+    kind: "vaccine",
+    title: "Rotavirus (3rd dose)",
+    description: "Only needed with some brands; your provider will know",
+    dueMonths: 6,
+  },
+  { key: "hepb_3", kind: "vaccine", title: "Hepatitis B (3rd dose)", description: "Any time from 6 to 18 months", dueMonths: 6 },
+  {
+    key: "flu_1",
+    kind: "vaccine",
+    title: "Flu (first season)",
+    description: "Two doses four weeks apart the first season, then one every year",
+    dueMonths: 6,
+  },
+  { key: "checkup_9m", kind: "checkup", title: "9 month check-up", dueMonths: 9 },
+  { key: "checkup_12m", kind: "checkup", title: "12 month check-up", dueMonths: 12 },
+  { key: "mmr_1", kind: "vaccine", title: "MMR (1st dose)", description: "Measles, mumps and rubella", dueMonths: 12 },
+  { key: "varicella_1", kind: "vaccine", title: "Chickenpox (1st dose)", dueMonths: 12 },
+  { key: "hepa_1", kind: "vaccine", title: "Hepatitis A (1st dose)", dueMonths: 12 },
+  { key: "pcv_4", kind: "vaccine", title: "Pneumococcal (4th dose)", description: "Any time from 12 to 15 months", dueMonths: 12 },
+  { key: "hib_4", kind: "vaccine", title: "Hib (booster)", description: "Any time from 12 to 15 months", dueMonths: 12 },
+  { key: "checkup_15m", kind: "checkup", title: "15 month check-up", dueMonths: 15 },
+  {
+    key: "dtap_4",
+    kind: "vaccine",
+    title: "DTaP (4th dose)",
+    description: "Diphtheria, tetanus and whooping cough; any time from 15 to 18 months",
+    dueMonths: 15,
+  },
+  { key: "checkup_18m", kind: "checkup", title: "18 month check-up", dueMonths: 18 },
+  { key: "hepa_2", kind: "vaccine", title: "Hepatitis A (2nd dose)", description: "At least 6 months after the first", dueMonths: 18 },
+  { key: "checkup_24m", kind: "checkup", title: "2 year check-up", dueMonths: 24 },
+  { key: "checkup_30m", kind: "checkup", title: "2½ year check-up", dueMonths: 30 },
+  { key: "checkup_3y", kind: "checkup", title: "3 year check-up", dueMonths: 36 },
+  { key: "checkup_4y", kind: "checkup", title: "4 year check-up", dueMonths: 48 },
+  { key: "dtap_5", kind: "vaccine", title: "DTaP (5th dose)", description: "Any time from 4 to 6 years", dueMonths: 48 },
+  { key: "ipv_4", kind: "vaccine", title: "Polio (4th dose)", description: "Any time from 4 to 6 years", dueMonths: 48 },
+  { key: "mmr_2", kind: "vaccine", title: "MMR (2nd dose)", description: "Any time from 4 to 6 years", dueMonths: 48 },
+  { key: "varicella_2", kind: "vaccine", title: "Chickenpox (2nd dose)", description: "Any time from 4 to 6 years", dueMonths: 48 },
+];
+
+// A YYYY-MM-DD date moved on by whole months, then days. Dates past the end
+// of a shorter month land on its last day, e.g. a month after 31 January.
+export function addToDate(date: string, months: number, days = 0) {
+  const [year, month, day] = date.split("-").map(Number);
+  const lastDay = new Date(Date.UTC(year, month + months, 0)).getUTCDate();
+  const moved = new Date(Date.UTC(year, month - 1 + months, Math.min(day, lastDay) + days));
+  return moved.toISOString().slice(0, 10);
+}
+
+export function scheduleDueOn(birthDate: string, item: Pick<ScheduleItem, "dueMonths" | "dueDays">) {
+  return addToDate(birthDate, item.dueMonths, item.dueDays ?? 0);
+}
+
+export type ScheduleItemStatus = "done" | "overdue" | "due_soon" | "upcoming";
+
+// today is the viewer's own date, as YYYY-MM-DD
+export function scheduleItemStatus(
+  item: { dueOn: string; completedOn: string | null },
+  today: string,
+): ScheduleItemStatus {
+  if (item.completedOn) return "done";
+  if (item.dueOn < today) return "overdue";
+  if (item.dueOn <= addToDate(today, 0, SCHEDULE_DUE_SOON_DAYS)) return "due_soon";
+  return "upcoming";
+}
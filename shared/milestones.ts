@@ -0,0 +1,55 @@
+// The standard milestones parents can log, with the age range (in months)
+// most babies reach each one. Ranges follow common pediatric guidance and are
+// only a guide; plenty of healthy babies fall outside them.
+//
+// Migration 0016 seeds the milestones table from this list. Keys are
+// permanent. To add a milestone, append it here and ship a migration that
+// inserts it ON CONFLICT (key) DO NOTHING, since new databases already get it
+// from 0016.
+export const milestoneCategories = ["motor", "language", "social", "cognitive"] as const;
+
+export type MilestoneCategory = (typeof milestoneCategories)[number];
+
+export type MilestoneDefinition = {
+  key: string;
+  title: string;
+  category: MilestoneCategory;
+  description: string;
+  typicalFromMonths: number;
+  typicalToMonths: number;
+};
+
+export const milestoneCatalogue: MilestoneDefinition[] = [
+  { key: "social_smile", title: "First social smile", category: "social", description: "Smiles back when smiled at", typicalFromMonths: 1, typicalToMonths: 3 },
+  { key: "holds_head_up", title: "Holds head up", category: "motor", description: "Holds head steady during tummy time", typicalFromMonths: 1, typicalToMonths: 4 },
+  { key: "coos", title: "Coos", category: "language", description: "Makes cooing and gurgling sounds", typicalFromMonths: 1, typicalToMonths: 4 },
+  { key: "tracks_objects", title: "Follows things with eyes", category: "cognitive", description: "Watches a moving toy or face from side to side", typicalFromMonths: 1, typicalToMonths: 3 },
+  { key: "first_laugh", title: "First laugh", category: "social", description: "Laughs out loud", typicalFromMonths: 3, typicalToMonths: 6 },
+  { key: "reaches_for_toys", title: "Reaches for toys", category: "motor", description: "Reaches for and grabs a toy", typicalFromMonths: 3, typicalToMonths: 6 },
+  { key: "rolls_over", title: "Rolls over", category: "motor", description: "Rolls from tummy to back or back to tummy", typicalFromMonths: 4, typicalToMonths: 7 },
+  { key: "babbles", title: "Babbles", category: "language", description: "Strings sounds together, like \"bababa\"", typicalFromMonths: 4, typicalToMonths: 9 },
+  { key: "responds_to_name", title: "Responds to name", category: "language", description: "Turns when their name is called", typicalFromMonths: 5, typicalToMonths: 9 },
+  { key: "first_solid_food", title: "First solid food", category: "cognitive", description: "Tries their first solid food", typicalFromMonths: 4, typicalToMonths: 7 },
+  { key: "sits_unsupported", title: "Sits without support", category: "motor", description: "Sits up without being propped", typicalFromMonths: 5, typicalToMonths: 9 },
+  { key: "first_tooth", title: "First tooth", category: "motor", description: "The first tooth comes through", typicalFromMonths: 4, typicalToMonths: 12 },
+  { key: "stranger_awareness", title: "Notices strangers", category: "social", description: "Is wary of or shy with unfamiliar people", typicalFromMonths: 6, typicalToMonths: 10 },
+  { key: "object_permanence", title: "Looks for hidden things", category: "cognitive", description: "Looks for a toy after it's hidden", typicalFromMonths: 6, typicalToMonths: 10 },
+  { key: "crawls", title: "Crawls", category: "motor", description: "Crawls on hands and knees, or scoots", typicalFromMonths: 6, typicalToMonths: 11 },
+  { key: "pincer_grasp", title: "Pincer grasp", category: "motor", description: "Picks up small things between thumb and finger", typicalFromMonths: 8, typicalToMonths: 12 },
+  { key: "pulls_to_stand", title: "Pulls to stand", category: "motor", description: "Pulls up to standing on furniture", typicalFromMonths: 8, typicalToMonths: 12 },
+  { key: "waves_bye", title: "Waves bye-bye", category: "social", description: "Waves hello or goodbye", typicalFromMonths: 8, typicalToMonths: 13 },
+  { key: "plays_peekaboo", title: "Plays peek-a-boo", category: "social", description: "Joins in with peek-a-boo", typicalFromMonths: 8, typicalToMonths: 12 },
+  { key: "first_word", title: "First word", category: "language", description: "Says a first word with meaning, like \"mama\" or \"dada\"", typicalFromMonths: 9, typicalToMonths: 14 },
+  { key: "cruises", title: "Cruises along furniture", category: "motor", description: "Walks while holding onto furniture", typicalFromMonths: 9, typicalToMonths: 13 },
+  { key: "points", title: "Points at things", category: "language", description: "Points to show you something or ask for it", typicalFromMonths: 9, typicalToMonths: 15 },
+  { key: "stands_alone", title: "Stands alone", category: "motor", description: "Stands without holding on", typicalFromMonths: 10, typicalToMonths: 14 },
+  { key: "first_steps", title: "First steps", category: "motor", description: "Takes a few steps without help", typicalFromMonths: 9, typicalToMonths: 15 },
+  { key: "drinks_from_cup", title: "Drinks from a cup", category: "motor", description: "Drinks from an open cup with help", typicalFromMonths: 10, typicalToMonths: 18 },
+  { key: "walks_well", title: "Walks well", category: "motor", description: "Walks steadily across a room", typicalFromMonths: 12, typicalToMonths: 18 },
+  { key: "scribbles", title: "Scribbles", category: "cognitive", description: "Scribbles with a crayon", typicalFromMonths: 12, typicalToMonths: 18 },
+  { key: "follows_directions", title: "Follows simple directions", category: "language", description: "Follows a one-step instruction without gestures", typicalFromMonths: 12, typicalToMonths: 18 },
+  { key: "ten_words", title: "Says several words", category: "language", description: "Uses three or more words besides \"mama\" and \"dada\"", typicalFromMonths: 15, typicalToMonths: 20 },
+  { key: "two_word_phrases", title: "Two-word phrases", category: "language", description: "Puts two words together, like \"more milk\"", typicalFromMonths: 18, typicalToMonths: 26 },
+  { key: "kicks_ball", title: "Kicks a ball", category: "motor", description: "Kicks a ball forward", typicalFromMonths: 18, typicalToMonths: 26 },
+  { key: "runs", title: "Runs", category: "motor", description: "Runs, even if a little unsteadily", typicalFromMonths: 18, typicalToMonths: 26 },
+];
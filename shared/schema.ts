@@ -6,9 +6,23 @@ import {
   timestamp,
   integer,
   uuid,
+  boolean,
+  real,
+  unique,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { milestoneCategories } from "./milestones";
+import { babySexes, type GrowthMetric } from "./growth-standards";
+import {
+  careLogTypes,
+  feedMethods,
+  breastSides,
+  diaperKinds,
+  isTimedCareLogEntry,
+} from "./care-log";
+import type { ScheduleItem } from "./health-schedule";
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -17,6 +31,10 @@ export const users = pgTable("users", {
   fullName: text("full_name").notNull(),
   email: text("email").notNull().unique(),
   role: text("role", { enum: ["user", "admin"] }).default("user").notNull(),
+  // Opt-out for being added to a baby's birth-month cohort automatically
+  autoJoinBirthCohorts: boolean("auto_join_birth_cohorts").default(true).notNull(),
+  // Null until the user follows the link emailed to their current address
+  emailVerifiedAt: timestamp("email_verified_at"),
 });
 
 export const cohortMemberships = pgTable("cohort_memberships", {
@@ -36,14 +54,54 @@ export const passwordResetTokens = pgTable("password_reset_tokens", {
   used: integer("used").default(0),
 });
 
+// A household groups co-parents so they can share baby profiles
+export const households = pgTable("households", {
+  id: serial("id").primaryKey(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const householdMembers = pgTable("household_members", {
+  id: serial("id").primaryKey(),
+  householdId: integer("household_id").references(() => households.id).notNull(),
+  // A user belongs to at most one household
+  userId: integer("user_id").references(() => users.id).notNull().unique(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const householdInvitations = pgTable("household_invitations", {
+  id: serial("id").primaryKey(),
+  householdId: integer("household_id").references(() => households.id).notNull(),
+  invitedById: integer("invited_by_id").references(() => users.id).notNull(),
+  email: text("email").notNull(),
+  status: text("status", { enum: ["pending", "accepted", "declined", "revoked"] }).default("pending").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const emailVerificationTokens = pgTable("email_verification_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  // The address the link was sent to; changing email again invalidates it
+  email: text("email").notNull(),
+  token: uuid("token").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  used: integer("used").default(0),
+});
+
 export const babies = pgTable("babies", {
   id: serial("id").primaryKey(),
+  // The parent who created the baby profile
   userId: integer("user_id").references(() => users.id),
+  // Set when the baby is shared with co-parents in a household
+  householdId: integer("household_id").references(() => households.id),
   name: text("name").notNull(),
   birthDate: date("birth_date").notNull(),
   birthWeek: date("birth_week").notNull(),
   cohortId: integer("cohort_id").references(() => cohorts.id),
   photoUrl: text("photo_url"),
+  // Optional; growth percentiles need it
+  sex: text("sex", { enum: babySexes }),
 });
 
 export const cohorts = pgTable("cohorts", {
@@ -52,11 +110,40 @@ export const cohorts = pgTable("cohorts", {
   description: text("description"),
   creatorId: integer("creator_id").references(() => users.id).notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
+  // public: listed and open to join; request_to_join: listed, moderators
+  // approve joins; invite_only: hidden from discovery
+  privacy: text("privacy", { enum: ["public", "request_to_join", "invite_only"] }).default("public").notNull(),
+  // Only accounts with a verified email can join
+  requireVerifiedEmail: boolean("require_verified_email").default(false).notNull(),
   // Keep startDate and endDate for backward compatibility, but they're optional now
   startDate: date("start_date"),
   endDate: date("end_date"),
 });
 
+// Shareable links that let anyone holding the token join a cohort
+export const cohortInvites = pgTable("cohort_invites", {
+  id: serial("id").primaryKey(),
+  cohortId: integer("cohort_id").references(() => cohorts.id).notNull(),
+  createdById: integer("created_by_id").references(() => users.id).notNull(),
+  token: text("token").notNull().unique(),
+  expiresAt: timestamp("expires_at"), // null means the link never expires
+  maxUses: integer("max_uses"), // null means unlimited uses
+  useCount: integer("use_count").default(0).notNull(),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const cohortJoinRequests = pgTable("cohort_join_requests", {
+  id: serial("id").primaryKey(),
+  cohortId: integer("cohort_id").references(() => cohorts.id).notNull(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  message: text("message"),
+  status: text("status", { enum: ["pending", "approved", "denied"] }).default("pending").notNull(),
+  reviewedById: integer("reviewed_by_id").references(() => users.id),
+  reviewedAt: timestamp("reviewed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 export const posts = pgTable("posts", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").references(() => users.id),
@@ -72,17 +159,275 @@ export const comments = pgTable("comments", {
   postId: integer("post_id").references(() => posts.id).notNull(),
   userId: integer("user_id").references(() => users.id).notNull(),
   content: text("content").notNull(),
+  // The comment this one replies to; null for top-level comments
+  parentCommentId: integer("parent_comment_id").references((): AnyPgColumn => comments.id, { onDelete: "set null" }),
+  // Deleting a comment that has replies blanks it and sets this instead, so
+  // the replies keep their place in the thread
+  deletedAt: timestamp("deleted_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
-export const upvotes = pgTable("upvotes", {
+// The fixed palette members can react with
+export const reactionTypes = ["heart", "hug", "laugh", "same_here", "wow", "sad"] as const;
+
+// A reaction to a post, or to one of its comments when commentId is set. Each
+// user has at most one reaction of each type per post or comment.
+export const reactions = pgTable("reactions", {
   id: serial("id").primaryKey(),
-  postId: integer("post_id").references(() => posts.id).notNull(),
   userId: integer("user_id").references(() => users.id).notNull(),
-  createdAt: timestamp("created_at").defaultNow(),
+  postId: integer("post_id").references(() => posts.id, { onDelete: "cascade" }).notNull(),
+  commentId: integer("comment_id").references(() => comments.id, { onDelete: "cascade" }),
+  type: text("type", { enum: reactionTypes }).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// A post can carry one poll; the post's content is the question
+export const polls = pgTable("polls", {
+  id: serial("id").primaryKey(),
+  postId: integer("post_id").references(() => posts.id, { onDelete: "cascade" }).notNull().unique(),
+  multipleChoice: boolean("multiple_choice").default(false).notNull(),
+  // Results show counts only, never who voted for what
+  anonymous: boolean("anonymous").default(false).notNull(),
+  // Voting stops at this time; null keeps the poll open
+  closesAt: timestamp("closes_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const pollOptions = pgTable("poll_options", {
+  id: serial("id").primaryKey(),
+  pollId: integer("poll_id").references(() => polls.id, { onDelete: "cascade" }).notNull(),
+  text: text("text").notNull(),
+  position: integer("position").notNull(),
+});
+
+// One row per option a member picked
+export const pollVotes = pgTable("poll_votes", {
+  id: serial("id").primaryKey(),
+  pollId: integer("poll_id").references(() => polls.id, { onDelete: "cascade" }).notNull(),
+  optionId: integer("option_id").references(() => pollOptions.id, { onDelete: "cascade" }).notNull(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  optionUser: unique().on(table.optionId, table.userId),
+}));
+
+// A cohort get-together, like a park meetup or a baby class
+export const meetups = pgTable("meetups", {
+  id: serial("id").primaryKey(),
+  cohortId: integer("cohort_id").references(() => cohorts.id).notNull(),
+  createdById: integer("created_by_id").references(() => users.id).notNull(),
+  title: text("title").notNull(),
+  startsAt: timestamp("starts_at").notNull(),
+  endsAt: timestamp("ends_at"),
+  location: text("location").notNull(),
+  // How many members can RSVP going; null for no limit. Babies coming along
+  // don't take a spot.
+  capacity: integer("capacity"),
+  notes: text("notes"),
+  // Set once the day-before reminder has gone out; cleared if the start
+  // time moves
+  reminderSentAt: timestamp("reminder_sent_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const rsvpStatuses = ["going", "maybe", "no"] as const;
+
+// One answer per member per meetup; answering again replaces it
+export const meetupRsvps = pgTable("meetup_rsvps", {
+  id: serial("id").primaryKey(),
+  meetupId: integer("meetup_id").references(() => meetups.id, { onDelete: "cascade" }).notNull(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  status: text("status", { enum: rsvpStatuses }).notNull(),
+  // The member is bringing their baby along
+  bringingBaby: boolean("bringing_baby").default(false).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  meetupUser: unique().on(table.meetupId, table.userId),
+}));
+
+// The catalogue of standard milestones, seeded from shared/milestones.ts
+export const milestones = pgTable("milestones", {
+  id: serial("id").primaryKey(),
+  key: text("key").notNull().unique(),
+  title: text("title").notNull(),
+  category: text("category", { enum: milestoneCategories }).notNull(),
+  description: text("description").notNull(),
+  typicalFromMonths: integer("typical_from_months").notNull(),
+  typicalToMonths: integer("typical_to_months").notNull(),
+  // Catalogue order, roughly by typical age
+  position: integer("position").notNull(),
+});
+
+// A milestone a baby has reached. Either parent can log, edit or share it.
+export const babyMilestones = pgTable("baby_milestones", {
+  id: serial("id").primaryKey(),
+  babyId: integer("baby_id").references(() => babies.id, { onDelete: "cascade" }).notNull(),
+  milestoneId: integer("milestone_id").references(() => milestones.id).notNull(),
+  achievedOn: date("achieved_on").notNull(),
+  note: text("note"),
+  photoUrl: text("photo_url"),
+  loggedById: integer("logged_by_id").references(() => users.id).notNull(),
+  // The cohort post it was last shared as, if any
+  sharedPostId: integer("shared_post_id").references(() => posts.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  babyMilestone: unique().on(table.babyId, table.milestoneId),
+}));
+
+// Weight, length and head circumference from a check-up. Any of the three
+// can be missing, but not all of them.
+export const growthMeasurements = pgTable("growth_measurements", {
+  id: serial("id").primaryKey(),
+  babyId: integer("baby_id").references(() => babies.id, { onDelete: "cascade" }).notNull(),
+  measuredOn: date("measured_on").notNull(),
+  weightKg: real("weight_kg"),
+  lengthCm: real("length_cm"),
+  headCircumferenceCm: real("head_circumference_cm"),
+  note: text("note"),
+  loggedById: integer("logged_by_id").references(() => users.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// A feed, sleep or diaper change in a baby's daily log (see ./care-log)
+export const careLogEntries = pgTable("care_log_entries", {
+  id: serial("id").primaryKey(),
+  babyId: integer("baby_id").references(() => babies.id, { onDelete: "cascade" }).notNull(),
+  type: text("type", { enum: careLogTypes }).notNull(),
+  startedAt: timestamp("started_at").notNull(),
+  endedAt: timestamp("ended_at"),
+  // Feeds only
+  feedMethod: text("feed_method", { enum: feedMethods }),
+  breastSide: text("breast_side", { enum: breastSides }),
+  bottleMl: integer("bottle_ml"),
+  // Diapers only
+  diaperKind: text("diaper_kind", { enum: diaperKinds }),
+  note: text("note"),
+  loggedById: integer("logged_by_id").references(() => users.id).notNull(),
+  updatedById: integer("updated_by_id").references(() => users.id).notNull(),
+  // Bumped on every change, so a co-parent's edit is never silently
+  // overwritten by one made from an older copy of the entry
+  version: integer("version").default(1).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Where a baby is with an item on the health schedule (see ./health-schedule),
+// keyed by the item's key. Items without a row haven't been done or reminded
+// about yet.
+export const healthScheduleRecords = pgTable("health_schedule_records", {
+  id: serial("id").primaryKey(),
+  babyId: integer("baby_id").references(() => babies.id, { onDelete: "cascade" }).notNull(),
+  itemKey: text("item_key").notNull(),
+  // Set when a parent marks the vaccine given or the check-up done
+  completedOn: date("completed_on"),
+  completedById: integer("completed_by_id").references(() => users.id),
+  note: text("note"),
+  // The due date parents were last reminded of. A reminder goes out again if
+  // the due date moves, e.g. after the birth date is corrected.
+  remindedForDueOn: date("reminded_for_due_on"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  babyItem: unique().on(table.babyId, table.itemKey),
+}));
+
+// The secret links calendar apps subscribe to a baby's health schedule with.
+// Each parent gets their own, so one can be reset without breaking the
+// others, and a link stops working once its holder is no longer a parent.
+export const scheduleFeedTokens = pgTable("schedule_feed_tokens", {
+  id: serial("id").primaryKey(),
+  babyId: integer("baby_id").references(() => babies.id, { onDelete: "cascade" }).notNull(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  token: text("token").notNull().unique(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  babyUser: unique().on(table.babyId, table.userId),
+}));
+
+export const notifications = pgTable("notifications", {
+  id: serial("id").primaryKey(),
+  // Who the notification is for
+  userId: integer("user_id").references(() => users.id).notNull(),
+  // Who caused it; null for system events
+  actorId: integer("actor_id").references(() => users.id),
+  type: text("type", {
+    enum: [
+      "comment",
+      "reply",
+      "reaction",
+      "cohort_membership",
+      "cohort_role",
+      "cohort_new_member",
+      "mention",
+      "meetup_reminder",
+      "schedule_reminder",
+    ],
+  }).notNull(),
+  cohortId: integer("cohort_id").references(() => cohorts.id),
+  postId: integer("post_id").references(() => posts.id, { onDelete: "cascade" }),
+  commentId: integer("comment_id").references(() => comments.id, { onDelete: "cascade" }),
+  meetupId: integer("meetup_id").references(() => meetups.id, { onDelete: "cascade" }),
+  // For schedule reminders: whose vaccines or check-ups are due, and when
+  babyId: integer("baby_id").references(() => babies.id, { onDelete: "cascade" }),
+  scheduleDueOn: date("schedule_due_on"),
+  // The role granted, for membership and role change notifications
+  role: text("role", { enum: ["member", "moderator"] }),
+  readAt: timestamp("read_at"),
+  // How the notification goes out by email, per the user's preferences; null
+  // when it's in-app only
+  email: text("email", { enum: ["immediate", "digest"] }),
+  emailedAt: timestamp("emailed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// An @username in a post, or in a comment when commentId is set. Only members
+// of the post's cohort can be mentioned.
+export const mentions = pgTable("mentions", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  postId: integer("post_id").references(() => posts.id, { onDelete: "cascade" }).notNull(),
+  commentId: integer("comment_id").references(() => comments.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const notificationDeliveryOptions = ["in_app", "email", "digest", "none"] as const;
+
+// One row per user, created the first time they change a setting. Users
+// without a row get defaultNotificationSettings.
+export const notificationPreferences = pgTable("notification_preferences", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull().unique(),
+  comments: text("comments", { enum: notificationDeliveryOptions }).default("in_app").notNull(),
+  replies: text("replies", { enum: notificationDeliveryOptions }).default("in_app").notNull(),
+  reactions: text("reactions", { enum: notificationDeliveryOptions }).default("in_app").notNull(),
+  newMembers: text("new_members", { enum: notificationDeliveryOptions }).default("in_app").notNull(),
+  moderatorActions: text("moderator_actions", { enum: notificationDeliveryOptions }).default("in_app").notNull(),
+  mentions: text("mentions", { enum: notificationDeliveryOptions }).default("in_app").notNull(),
+  meetupReminders: text("meetup_reminders", { enum: notificationDeliveryOptions }).default("in_app").notNull(),
+  scheduleReminders: text("schedule_reminders", { enum: notificationDeliveryOptions }).default("in_app").notNull(),
+  // "HH:MM" in the user's timezone. No emails go out between the two; they're
+  // sent once quiet hours end.
+  quietHoursStart: text("quiet_hours_start"),
+  quietHoursEnd: text("quiet_hours_end"),
+  timezone: text("timezone").default("UTC").notNull(),
+  lastDigestSentAt: timestamp("last_digest_sent_at"),
+});
+
+// Cohorts a user has muted get no notifications at all
+export const cohortMutes = pgTable("cohort_mutes", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  cohortId: integer("cohort_id").references(() => cohorts.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  userCohort: unique().on(table.userId, table.cohortId),
+}));
+
 export const insertUserSchema = createInsertSchema(users)
   .pick({
     username: true,
@@ -99,6 +444,7 @@ export const insertBabySchema = createInsertSchema(babies).pick({
   name: true,
   birthDate: true,
   photoUrl: true,
+  sex: true,
 });
 
 export const insertPostSchema = createInsertSchema(posts).pick({
@@ -107,11 +453,137 @@ export const insertPostSchema = createInsertSchema(posts).pick({
   photoUrl: true,
 });
 
+export const MIN_POLL_OPTIONS = 2;
+export const MAX_POLL_OPTIONS = 10;
+
+export const createPollSchema = z.object({
+  options: z
+    .array(z.string().trim().min(1, "Poll options can't be empty").max(100, "Poll options must be 100 characters or less"))
+    .min(MIN_POLL_OPTIONS, `A poll needs at least ${MIN_POLL_OPTIONS} options`)
+    .max(MAX_POLL_OPTIONS, `A poll can have at most ${MAX_POLL_OPTIONS} options`)
+    .refine(
+      (options) => new Set(options.map((option) => option.toLowerCase())).size === options.length,
+      "Poll options must all be different",
+    ),
+  multipleChoice: z.boolean().default(false),
+  anonymous: z.boolean().default(false),
+  closesAt: z.coerce
+    .date()
+    .nullish()
+    .refine((closesAt) => !closesAt || closesAt > new Date(), "The close date must be in the future"),
+});
+
+// A new post, optionally with a poll attached
+export const createPostSchema = insertPostSchema.extend({
+  poll: createPollSchema.optional(),
+});
+
+// The options a member picks, replacing any earlier vote
+export const pollVoteSchema = z.object({
+  optionIds: z.array(z.number().int()).min(1, "Pick an option to vote for"),
+});
+
+export const meetupSchema = z.object({
+  title: z.string().trim().min(1, "Give the event a title").max(100, "Title must be 100 characters or less"),
+  startsAt: z.coerce.date().refine((startsAt) => startsAt > new Date(), "The event must start in the future"),
+  endsAt: z.coerce.date().nullish(),
+  location: z.string().trim().min(1, "Say where the event is").max(200, "Location must be 200 characters or less"),
+  capacity: z.number().int().min(1, "Capacity must be at least 1").max(500).nullish(),
+  notes: z.string().trim().max(2000, "Notes must be 2000 characters or less").nullish(),
+}).refine(
+  (meetup) => !meetup.endsAt || meetup.endsAt > meetup.startsAt,
+  { message: "The event must end after it starts", path: ["endsAt"] },
+);
+
+export const rsvpSchema = z.object({
+  status: z.enum(rsvpStatuses, { errorMap: () => ({ message: "RSVP going, maybe or no" }) }),
+  bringingBaby: z.boolean().default(false),
+});
+
+export const babyMilestoneSchema = z.object({
+  achievedOn: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Pick the date it happened"),
+  note: z.string().trim().max(500, "Note must be 500 characters or less").nullish(),
+  photoUrl: z.string().nullish(),
+});
+
+export const shareMilestoneSchema = z.object({
+  cohortId: z.number().int(),
+});
+
+const measurementValue = (label: string, max: number) =>
+  z.number().positive(`${label} must be more than 0`).max(max, `${label} looks too large`).nullish();
+
+export const growthMeasurementSchema = z.object({
+  measuredOn: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Pick the date it was measured"),
+  weightKg: measurementValue("Weight", 30),
+  lengthCm: measurementValue("Length", 130),
+  headCircumferenceCm: measurementValue("Head circumference", 65),
+  note: z.string().trim().max(500, "Note must be 500 characters or less").nullish(),
+}).refine(
+  (data) => data.weightKg != null || data.lengthCm != null || data.headCircumferenceCm != null,
+  "Enter at least one measurement",
+);
+
+const careLogEntryFields = z.object({
+  type: z.enum(careLogTypes, { errorMap: () => ({ message: "Log a feed, sleep or diaper" }) }),
+  startedAt: z.coerce.date(),
+  endedAt: z.coerce.date().nullish(),
+  feedMethod: z.enum(feedMethods).nullish(),
+  breastSide: z.enum(breastSides).nullish(),
+  bottleMl: z.number().int().min(1, "Bottle amount must be at least 1 ml").max(500, "Bottle amount looks too large").nullish(),
+  diaperKind: z.enum(diaperKinds).nullish(),
+  note: z.string().trim().max(500, "Note must be 500 characters or less").nullish(),
+});
+
+function checkCareLogEntry(entry: z.infer<typeof careLogEntryFields>, ctx: z.RefinementCtx) {
+  const problem = (message: string, path: string) =>
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message, path: [path] });
+
+  if (entry.type === "feed") {
+    if (!entry.feedMethod) problem("Say whether it was breast or bottle", "feedMethod");
+    if (entry.feedMethod === "breast" && !entry.breastSide) problem("Say which side", "breastSide");
+    if (entry.feedMethod === "bottle" && !entry.bottleMl) problem("Say how much was in the bottle", "bottleMl");
+  }
+  if (entry.type === "diaper" && !entry.diaperKind) {
+    problem("Say whether it was wet or dirty", "diaperKind");
+  }
+  if (entry.endedAt) {
+    if (!isTimedCareLogEntry(entry)) problem("Only sleeps and breast feeds have an end time", "endedAt");
+    else if (entry.endedAt <= entry.startedAt) problem("The end must be after the start", "endedAt");
+  }
+}
+
+export const careLogEntrySchema = careLogEntryFields.superRefine(checkCareLogEntry);
+
+// Edits carry the version they were made from; see careLogEntries.version
+export const careLogEntryUpdateSchema = careLogEntryFields
+  .extend({ version: z.number().int() })
+  .superRefine(checkCareLogEntry);
+
+export const scheduleItemCompletionSchema = z.object({
+  completedOn: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Pick the date it was done"),
+  note: z.string().trim().max(500, "Note must be 500 characters or less").nullish(),
+});
+
 export const insertCohortSchema = createInsertSchema(cohorts).pick({
   name: true,
   description: true,
 });
 
+export const cohortSettingsSchema = z.object({
+  privacy: z.enum(["public", "request_to_join", "invite_only"]),
+  requireVerifiedEmail: z.boolean(),
+});
+
+export const cohortInviteSchema = z.object({
+  expiresInDays: z.number().int().min(1).max(90).optional(),
+  maxUses: z.number().int().min(1).max(1000).optional(),
+});
+
+export const cohortJoinRequestSchema = z.object({
+  message: z.string().trim().max(500, "Message must be less than 500 characters").optional(),
+});
+
 export const insertCohortMembershipSchema = createInsertSchema(cohortMemberships).pick({
   userId: true,
   cohortId: true, 
@@ -122,34 +594,267 @@ export const forgotPasswordSchema = z.object({
   email: z.string().email("Invalid email address"),
 });
 
+export const verifyEmailSchema = z.object({
+  token: z.string().uuid("Invalid verification token"),
+});
+
+export const changeEmailSchema = z.object({
+  email: z.string().email("Invalid email address"),
+});
+
 export const resetPasswordSchema = z.object({
   token: z.string().uuid("Invalid reset token"),
   password: z.string().min(8, "Password must be at least 8 characters"),
 });
 
+export const userSettingsSchema = z.object({
+  autoJoinBirthCohorts: z.boolean(),
+});
+
+const notificationDeliverySchema = z.enum(notificationDeliveryOptions);
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Times must be HH:MM");
+
+function isTimeZone(timeZone: string) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const notificationSettingsSchema = z.object({
+  comments: notificationDeliverySchema,
+  replies: notificationDeliverySchema,
+  reactions: notificationDeliverySchema,
+  newMembers: notificationDeliverySchema,
+  moderatorActions: notificationDeliverySchema,
+  mentions: notificationDeliverySchema,
+  meetupReminders: notificationDeliverySchema,
+  scheduleReminders: notificationDeliverySchema,
+  quietHoursStart: timeOfDaySchema.nullable(),
+  quietHoursEnd: timeOfDaySchema.nullable(),
+  timezone: z.string().refine(isTimeZone, "Unknown timezone"),
+}).refine(
+  (settings) => (settings.quietHoursStart === null) === (settings.quietHoursEnd === null),
+  { message: "Quiet hours need both a start and an end", path: ["quietHoursEnd"] },
+);
+
+export const defaultNotificationSettings: NotificationSettings = {
+  comments: "in_app",
+  replies: "in_app",
+  reactions: "in_app",
+  newMembers: "in_app",
+  moderatorActions: "in_app",
+  mentions: "in_app",
+  meetupReminders: "in_app",
+  scheduleReminders: "in_app",
+  quietHoursStart: null,
+  quietHoursEnd: null,
+  timezone: "UTC",
+};
+
+export const householdInvitationSchema = z.object({
+  email: z.string().email("Invalid email address"),
+});
+
 export const insertCommentSchema = createInsertSchema(comments).pick({
   postId: true,
   content: true,
+  parentCommentId: true,
 });
 
-export const insertUpvoteSchema = createInsertSchema(upvotes).pick({
-  postId: true,
+export const reactionSchema = z.object({
+  type: z.enum(reactionTypes, { errorMap: () => ({ message: "Unknown reaction" }) }),
 });
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type InsertBaby = z.infer<typeof insertBabySchema>;
 export type InsertPost = z.infer<typeof insertPostSchema>;
+export type CreatePoll = z.infer<typeof createPollSchema>;
+export type PollVoteInput = z.infer<typeof pollVoteSchema>;
+export type MeetupInput = z.infer<typeof meetupSchema>;
+export type RsvpInput = z.infer<typeof rsvpSchema>;
+export type BabyMilestoneInput = z.infer<typeof babyMilestoneSchema>;
+export type GrowthMeasurementInput = z.infer<typeof growthMeasurementSchema>;
+export type CareLogEntryInput = z.infer<typeof careLogEntrySchema>;
+export type ScheduleItemCompletion = z.infer<typeof scheduleItemCompletionSchema>;
 export type InsertCohort = z.infer<typeof insertCohortSchema>;
+export type CohortSettings = z.infer<typeof cohortSettingsSchema>;
+export type CohortInviteRequest = z.infer<typeof cohortInviteSchema>;
+export type CohortJoinRequestData = z.infer<typeof cohortJoinRequestSchema>;
 export type InsertCohortMembership = z.infer<typeof insertCohortMembershipSchema>;
 export type InsertComment = z.infer<typeof insertCommentSchema>;
-export type InsertUpvote = z.infer<typeof insertUpvoteSchema>;
 export type ForgotPassword = z.infer<typeof forgotPasswordSchema>;
 export type ResetPassword = z.infer<typeof resetPasswordSchema>;
+export type VerifyEmail = z.infer<typeof verifyEmailSchema>;
+export type ChangeEmail = z.infer<typeof changeEmailSchema>;
+export type UserSettings = z.infer<typeof userSettingsSchema>;
+export type NotificationSettings = z.infer<typeof notificationSettingsSchema>;
+export type NotificationDelivery = NotificationSettings["comments"];
+// The kinds of event a user can choose how to hear about
+export type NotificationCategory = Exclude<
+  keyof NotificationSettings,
+  "quietHoursStart" | "quietHoursEnd" | "timezone"
+>;
+export type HouseholdInvitationRequest = z.infer<typeof householdInvitationSchema>;
 export type User = typeof users.$inferSelect;
 export type Baby = typeof babies.$inferSelect;
 export type Cohort = typeof cohorts.$inferSelect;
+export type CohortPrivacy = Cohort["privacy"];
+// A cohort the user could join, as returned by /api/cohorts/suggested
+export type SuggestedCohort = Cohort & {
+  memberCount: number;
+  recentPostCount: number;
+  // Weeks between the user's baby and the closest-aged baby in the cohort;
+  // null when there's nothing to compare
+  birthWeekGap: number | null;
+};
 export type Post = typeof posts.$inferSelect;
 export type Comment = typeof comments.$inferSelect;
-export type Upvote = typeof upvotes.$inferSelect;
+export type Reaction = typeof reactions.$inferSelect;
+export type Poll = typeof polls.$inferSelect;
+export type PollOption = typeof pollOptions.$inferSelect;
+export type PollVote = typeof pollVotes.$inferSelect;
+export type ReactionType = Reaction["type"];
+export type Milestone = typeof milestones.$inferSelect;
+export type BabyMilestone = typeof babyMilestones.$inferSelect;
+// A logged milestone with its catalogue entry, for the baby's timeline
+export type BabyMilestoneWithDetails = BabyMilestone & {
+  milestone: Milestone;
+  loggedBy: Pick<User, "id" | "fullName">;
+};
+export type GrowthMeasurement = typeof growthMeasurements.$inferSelect;
+// A measurement with where it falls against the WHO standards. Percentiles
+// are null when the baby's sex isn't set, the value is missing, or the baby
+// was older than the tables cover.
+export type GrowthMeasurementWithPercentiles = GrowthMeasurement & {
+  percentiles: Record<GrowthMetric, number | null>;
+};
+export type CareLogEntry = typeof careLogEntries.$inferSelect;
+// A care log entry with who last touched it, for co-parents
+export type CareLogEntryWithUsers = CareLogEntry & {
+  loggedBy: Pick<User, "id" | "fullName">;
+  updatedBy: Pick<User, "id" | "fullName">;
+};
+export type HealthScheduleRecord = typeof healthScheduleRecords.$inferSelect;
+export type ScheduleFeedToken = typeof scheduleFeedTokens.$inferSelect;
+// A health schedule item as it applies to one baby, with when it's due and
+// whether it's been done
+export type ScheduledItem = ScheduleItem & Pick<HealthScheduleRecord, "completedOn" | "note"> & {
+  dueOn: string;
+};
+// What's still to do for one of the user's babies, for the home page
+export type BabySchedule = {
+  baby: Pick<Baby, "id" | "name">;
+  items: ScheduledItem[];
+};
+export type Meetup = typeof meetups.$inferSelect;
+export type MeetupRsvp = typeof meetupRsvps.$inferSelect;
+export type RsvpStatus = MeetupRsvp["status"];
 export type CohortMembership = typeof cohortMemberships.$inferSelect;
+export type CohortInvite = typeof cohortInvites.$inferSelect;
+export type CohortJoinRequest = typeof cohortJoinRequests.$inferSelect;
+export type Mention = typeof mentions.$inferSelect;
+// A mentioned member, as attached to posts and comments for rendering
+export type MentionedUser = Pick<User, "id" | "username">;
+// How many members left each type of reaction on a post or comment, and
+// whether the viewer is one of them. Types nobody used are left out.
+export type ReactionSummary = { type: ReactionType; count: number; reacted: boolean };
+// One member's reaction, for showing who reacted
+export type ReactionWithUser = Pick<Reaction, "type" | "createdAt"> & {
+  user: Pick<User, "id" | "username" | "fullName">;
+};
+// A poll's results as one member sees them. voters is always empty for
+// anonymous polls.
+export type PollResults = Pick<Poll, "id" | "multipleChoice" | "anonymous" | "closesAt"> & {
+  options: (Pick<PollOption, "id" | "text"> & {
+    voteCount: number;
+    voters: Pick<User, "id" | "fullName">[];
+  })[];
+  // Members who voted at all; with multiple choice this is less than the
+  // sum of the option counts
+  voterCount: number;
+  // The options the viewer picked
+  myVotes: number[];
+};
+// A post as returned by the cohort feed, with everything the post card renders
+export type FeedPost = Post & {
+  user: Pick<User, "id" | "username" | "fullName">;
+  mentions: MentionedUser[];
+  commentCount: number;
+  reactions: ReactionSummary[];
+  poll: PollResults | null;
+};
+export type FeedPage = {
+  posts: FeedPost[];
+  // Pass as ?cursor= to fetch the next (older) page; null on the last page
+  nextCursor: number | null;
+};
+// A meetup as returned by the cohort's event list, with everyone's answers
+export type MeetupWithRsvps = Meetup & {
+  createdBy: Pick<User, "id" | "fullName">;
+  goingCount: number;
+  maybeCount: number;
+  // Babies coming with members who are going
+  babyCount: number;
+  rsvps: (Pick<MeetupRsvp, "status" | "bringingBaby"> & { user: Pick<User, "id" | "fullName"> })[];
+  myRsvp: Pick<MeetupRsvp, "status" | "bringingBaby"> | null;
+};
+// A comment with its author, as returned by GET /api/posts/:id/comments
+export type CommentWithUser = Comment & {
+  username: string;
+  fullName: string;
+  mentions: MentionedUser[];
+  reactions: ReactionSummary[];
+};
+// Pushed over the /ws socket to members watching a cohort. actorId is the user
+// whose action caused the event.
+export type CohortEvent =
+  | { type: "post_created"; cohortId: number; actorId: number; post: FeedPost }
+  | { type: "post_updated"; cohortId: number; actorId: number; post: FeedPost }
+  | { type: "post_deleted"; cohortId: number; actorId: number; postId: number }
+  | {
+      type: "comment_created";
+      cohortId: number;
+      actorId: number;
+      postId: number;
+      comment: CommentWithUser;
+      commentCount: number;
+    }
+  | {
+      // poll is the full results after the vote, with no one's own votes in
+      // myVotes
+      type: "poll_voted";
+      cohortId: number;
+      actorId: number;
+      postId: number;
+      poll: PollResults;
+    }
+  | {
+      // reactions is the full summary after the change, from the actor's
+      // point of view
+      type: "reactions_changed";
+      cohortId: number;
+      actorId: number;
+      postId: number;
+      commentId: number | null;
+      reactions: ReactionSummary[];
+    };
+export type Notification = typeof notifications.$inferSelect;
+export type InsertNotification = typeof notifications.$inferInsert;
+export type NotificationType = Notification["type"];
+export type NotificationPreferences = typeof notificationPreferences.$inferSelect;
+export type CohortMute = typeof cohortMutes.$inferSelect;
+// A notification as returned by /api/notifications, with what the list renders
+export type NotificationItem = Notification & {
+  actor: Pick<User, "id" | "username" | "fullName"> | null;
+  cohortName: string | null;
+  meetupTitle: string | null;
+  babyName: string | null;
+};
 export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+export type EmailVerificationToken = typeof emailVerificationTokens.$inferSelect;
+export type Household = typeof households.$inferSelect;
+export type HouseholdMember = typeof householdMembers.$inferSelect;
+export type HouseholdInvitation = typeof householdInvitations.$inferSelect;